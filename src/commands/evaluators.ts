@@ -3,84 +3,269 @@ import chalk from 'chalk';
 import ora from 'ora';
 import { glob } from 'glob';
 import * as path from 'path';
-import { BaselineCollector, collectBaselineInteractively } from '../lib/roi/baseline.js';
+import {
+  BaselineCollector,
+  collectBaselineInteractively,
+  establishBaselineFromFile,
+  diffBaselines,
+  parseBaselineUpdates,
+  BASELINE_FIELDS,
+} from '../lib/roi/baseline.js';
 import { ROICalculator } from '../lib/roi/calculator.js';
-
-interface EvaluationResult {
-  metric: string;
-  value: number;
-  threshold: number;
-  passed: boolean;
-  details?: string;
-  category: string;
-}
-
-interface EvaluationSuite {
-  name: string;
-  description: string;
-  results: EvaluationResult[];
-  overallScore: number;
-  passed: boolean;
-  timestamp: Date;
-  duration: number;
-}
+import { runEvaluatorFile, createFailedEvaluatorResult, summarizeEvaluatorTimings, DEFAULT_EVALUATOR_TIMEOUT_MS } from '../lib/evaluators/runner.js';
+import { loadGoldDatasetConfig, runGoldDatasetEvaluator, GOLD_DATASET_CONFIG_PATH } from '../lib/evaluators/gold-dataset.js';
+import { loadThresholdConfig, selectThresholdProfile } from '../lib/evaluators/thresholds.js';
+import { EvaluationHistory, compareRuns } from '../lib/evaluators/history.js';
+import { parseReportFormats, generateJUnitReport, generateMarkdownSummary, generateSarifReport, ReportFormat } from '../lib/evaluators/reporters.js';
+import { loadScoringConfig, applyScoring, scoreResults } from '../lib/evaluators/scoring.js';
+import { findFlakyMetrics, runRepetitions } from '../lib/evaluators/variance.js';
+import { mapWithConcurrency } from '../lib/utils/concurrency.js';
+import { TaskProgress, formatElapsed } from '../lib/utils/progress.js';
+import { PeriodFilter } from '../storage/state-store.js';
+import { scaffoldEvaluators } from '../lib/evaluators/scaffold.js';
+import { getOutcomeTemplate, listOutcomeTemplates } from '../templates/outcomes/index.js';
+import { DEFAULT_HOURLY_RATE, blendedHourlyRate, describeLabourCostModel } from '../lib/roi/labour.js';
+import { DEFAULT_ANNUAL_DISCOUNT_RATE } from '../lib/roi/cash-flow.js';
+import { loadSimulationConfig, validateSimulationConfig, SimulationConfig, DEFAULT_SPREAD } from '../lib/roi/simulation.js';
+import { analyzeSensitivity, parseSensitivityRanges, SensitivityAnalysis, SensitivityUnit, DEFAULT_SENSITIVITY_SPREAD } from '../lib/roi/sensitivity.js';
+import { readInputFile, toJsonSchema, CHECK_INPUT_SCHEMA, BASELINE_INPUT_SCHEMA, BaselineInputFile, CheckInputFile, JsonSchema } from '../lib/roi/input-files.js';
+import { collectMeasuredInputs, estimatedInput, inputsFromSnapshot, isStaleRun, recalculateSnapshots, MeasuredInputs, MAX_RUN_AGE_DAYS } from '../lib/roi/measurements.js';
+import { TWO_SAMPLE_TESTS, TwoSampleTestName, MIN_PERIOD_CHECKS } from '../lib/roi/statistics.js';
+import { BENCHMARK_METRICS, COMPANY_SIZES, compareToBenchmarks, loadBenchmarkDataset } from '../lib/roi/benchmarks.js';
+import { generateRecommendations, loadRecommendationConfig } from '../lib/roi/recommendations.js';
+import { AlertMonitor, AlertRunResult, loadAlertConfig } from '../lib/roi/alerts.js';
+import { buildReportData, embedJson, REPORT_SCRIPT } from '../lib/roi/report.js';
+import { CostCollector, CostCollection, loadCostConfig, maintenanceCostInput, previousMonth, formatMonth, useCollectedCosts, COSTS_CONFIG_PATH } from '../lib/roi/costs.js';
+import {
+  ForecastScenarioStore,
+  presetScenario,
+  parseAdoptionRamp,
+  parseSaasCancellation,
+  compareWithActuals,
+  SCENARIO_PRESETS,
+  ScenarioPreset,
+} from '../lib/roi/forecast.js';
+import {
+  formatMetricValue,
+  formatMetricNumber,
+  formatThresholdRange,
+  describeAssessment,
+  formatRelativeChange,
+  formatVariance,
+  formatDollars,
+  formatDollarsAndCents,
+  amountFormatter,
+  AmountFormatter,
+  escapeHtml,
+} from '../lib/evaluators/formatting.js';
+import {
+  BaselineFieldChange,
+  EvaluationResult,
+  EvaluationRun,
+  EvaluationSuite,
+  ForecastComparison,
+  LabourCostModel,
+  LabourSavings,
+  MetricChange,
+  OutcomeTemplate,
+  ROIBaseline,
+  ROIInputs,
+  ROIInputSource,
+  ROISimulation,
+  ROITrend,
+  ScenarioForecast,
+  BenchmarkComparison,
+  BenchmarkPlacement,
+  CompanySize,
+  Recommendation,
+  MonthlyCosts,
+  CostItem,
+} from '../types/index.js';
 
 export const evaluatorsCommand = new Command('evaluators')
   .description('Measure your project\'s performance and business value')
+  .addCommand(
+    new Command('init')
+      .description('Generate evaluator modules and gold data from an outcome template')
+      .option('-t, --template <template>', 'Outcome template the project was created from')
+      .option('--metric <name>', 'Only generate the evaluator for this metric')
+      .action(async (options) => {
+        console.log(chalk.cyan('🧪 Initialize Evaluators'));
+        console.log(chalk.gray('Generating evaluators wired to your gold data and thresholds...\n'));
+
+        try {
+          const templateKey: OutcomeTemplate = options.template ?? await askOutcomeTemplate();
+          const template = getOutcomeTemplate(templateKey);
+          const result = await scaffoldEvaluators(process.cwd(), templateKey, template, { metric: options.metric });
+
+          for (const file of result.created) {
+            console.log(chalk.green(`✔ Created ${file}`));
+          }
+          for (const file of result.skipped) {
+            console.log(chalk.gray(`• ${file} already exists, left unchanged`));
+          }
+          for (const dataset of result.goldDatasets) {
+            console.log(dataset.sample
+              ? chalk.yellow(`✔ Created ${dataset.path} with a sample gold record - replace it with labelled records`)
+              : chalk.green(`✔ Copied gold data to ${dataset.path}`));
+          }
+          if (result.scoringConfig) {
+            console.log(chalk.green(`✔ Created ${result.scoringConfig}`));
+          }
+
+          if (result.created.length > 0) {
+            console.log(chalk.cyan('\nWhat\'s next?'));
+            console.log(chalk.gray('• Write your system\'s output for each gold record to reports/<evaluator>.json'));
+            console.log(chalk.gray('• Run: quallaa evaluators run'));
+          }
+
+        } catch (error) {
+          console.error(chalk.red('Init failed:'), error instanceof Error ? error.message : error);
+          process.exit(1);
+        }
+      })
+  )
   .addCommand(
     new Command('run')
       .description('Test technical performance against quality standards')
       .option('--output <path>', 'Output path for scorecard HTML', 'evaluators/scorecard.html')
       .option('--threshold <number>', 'Overall passing threshold (0-1)', '0.8')
-      .option('--format <format>', 'Output format (html|json|text)', 'html')
+      .option('--format <formats>', 'Output format(s), comma-separated (html|json|text|junit|markdown|sarif)', 'html')
+      .option('--timeout <ms>', 'Per-evaluator timeout in milliseconds', String(DEFAULT_EVALUATOR_TIMEOUT_MS))
+      .option('--concurrency <n>', 'Number of evaluators to run at the same time', '1')
+      .option('--repeat <n>', 'Run each evaluator N times and report mean, spread and flaky metrics', '1')
+      .option('--profile <name>', 'Threshold profile from evaluators/thresholds.json (defaults to the current branch)')
+      .option('--blocking <metrics>', 'Comma-separated metrics (or evaluator.metric) that fail the suite when they fail')
+      .option('--no-history', 'Do not record this run in the evaluation history')
+      .option('--against <ref|run-id>', 'Stored run or git ref to check for regressions (default: previous run)')
+      .option('--max-regression <fraction>', 'Fail when a metric regresses by more than this fraction (e.g. 0.02)')
       .action(async (options) => {
         console.log(chalk.cyan('🔍 Running Quallaa Evaluation Harness'));
         console.log(chalk.gray('Measuring accuracy, rework ratio, time-to-output, and unit cost...\n'));
 
         try {
+          const formats = parseReportFormats(options.format);
+          const maxRegression = options.maxRegression !== undefined ? parseMaxRegression(options.maxRegression) : undefined;
+          const timeoutMs = parseTimeout(options.timeout);
           const spinner = ora('Discovering evaluation scripts...').start();
           
-          // Discover evaluator files
+          // Discover evaluator files and gold dataset comparisons
           const evaluatorFiles = await discoverEvaluators();
-          spinner.succeed(`Found ${evaluatorFiles.length} evaluator(s)`);
+          const goldEvaluators = await loadGoldDatasetConfig();
+          const thresholdConfig = await loadThresholdConfig();
+          const thresholdProfile = selectThresholdProfile(thresholdConfig, options.profile);
+          const scoringConfig = await loadScoringConfig();
+          spinner.succeed(`Found ${evaluatorFiles.length + goldEvaluators.length} evaluator(s)`);
+          
+          if (thresholdProfile) {
+            console.log(chalk.gray(`Using threshold profile: ${thresholdProfile}`));
+          }
           
-          if (evaluatorFiles.length === 0) {
+          if (evaluatorFiles.length === 0 && goldEvaluators.length === 0) {
             console.log(chalk.yellow('⚠️  No evaluators found in /evaluators directory'));
             console.log(chalk.gray('Create evaluator scripts to measure outcome performance'));
             return;
           }
 
-          // Run evaluations
+          // Run evaluations, up to --concurrency at a time
           const startTime = Date.now();
-          const results: EvaluationResult[] = [];
+          const concurrency = Math.max(1, parseInt(options.concurrency, 10) || 1);
+          const repeat = Math.max(1, parseInt(options.repeat, 10) || 1);
+          const progress = new TaskProgress((evaluatorFiles.length + goldEvaluators.length) * repeat, 'Running evaluators');
+          const runLabel = (repetition: number): string => repeat > 1 ? ` [run ${repetition + 1}/${repeat}]` : '';
           
-          for (const file of evaluatorFiles) {
-            const spinner = ora(`Running ${path.basename(file)}...`).start();
+          const evaluatorTasks = evaluatorFiles.map(file => async (repetition: number): Promise<EvaluationResult[]> => {
+            const id = `${file}#${repetition}`;
+            const name = path.basename(file) + runLabel(repetition);
+            progress.start(id, name);
             try {
-              const fileResults = await runEvaluatorFile(file);
-              results.push(...fileResults);
-              spinner.succeed(`${path.basename(file)} completed`);
+              const outcome = await runEvaluatorFile(file, { timeoutMs });
+              if (outcome.skipped) {
+                progress.info(id, `${name} skipped (no run() or runEvaluation() export)`);
+                return [];
+              }
+              progress.succeed(id, `${name} completed (${outcome.results.length} metric(s))`);
+              return outcome.results;
             } catch (error) {
-              spinner.fail(`${path.basename(file)} failed`);
-              console.error(chalk.red(`  Error: ${error instanceof Error ? error.message : error}`));
+              progress.fail(id, `${name} failed: ${error instanceof Error ? error.message : error}`);
+              return [createFailedEvaluatorResult(file, error)];
             }
-          }
+          });
+          
+          const goldTasks = goldEvaluators.map(goldEvaluator => async (repetition: number): Promise<EvaluationResult[]> => {
+            const id = `gold:${goldEvaluator.name}#${repetition}`;
+            const goldStart = Date.now();
+            progress.start(id, `${goldEvaluator.name} (gold data)${runLabel(repetition)}`);
+            try {
+              const comparison = await runGoldDatasetEvaluator(goldEvaluator);
+              progress.succeed(id, `${goldEvaluator.name} compared against ${goldEvaluator.goldDataset}`);
+              return comparison.map(result => ({ ...result, duration: Date.now() - goldStart }));
+            } catch (error) {
+              progress.fail(id, `${goldEvaluator.name} failed: ${error instanceof Error ? error.message : error}`);
+              return [{
+                ...createFailedEvaluatorResult(goldEvaluator.name, error),
+                source: GOLD_DATASET_CONFIG_PATH.split(path.sep).join('/'),
+                duration: Date.now() - goldStart,
+              }];
+            }
+          });
+          
+          // With --repeat, each evaluator runs back to back and its metrics collapse to the mean
+          const taskResults = await mapWithConcurrency([...evaluatorTasks, ...goldTasks], concurrency, task =>
+            runRepetitions(task, repeat, thresholdConfig, thresholdProfile)
+          );
+          const results = taskResults.flat();
+          progress.stop();
           
           const duration = Date.now() - startTime;
           
-          // Calculate overall metrics
-          const suite = calculateSuiteMetrics(results, duration, parseFloat(options.threshold));
+          // Weight the results already scored against their thresholds, then calculate overall metrics
+          const blocking = options.blocking ? String(options.blocking).split(',').map((m: string) => m.trim()).filter(Boolean) : [];
+          const scoredResults = applyScoring(results, scoringConfig, blocking);
+          const suite = calculateSuiteMetrics(scoredResults, duration, parseFloat(options.threshold), thresholdProfile);
+          suite.concurrency = concurrency;
+          if (repeat > 1) {
+            suite.repeat = repeat;
+            suite.flakyMetrics = findFlakyMetrics(scoredResults);
+          }
+          
+          // Compare with an earlier run for deltas and the regression check
+          const history = new EvaluationHistory();
+          const run = options.history ? await history.saveRun(suite) : history.createRun(suite);
+          const base = options.against
+            ? await history.findRun(options.against, run.id)
+            : await history.getPreviousRun(run);
+          const changes = base
+            ? compareRuns(base, run, maxRegression ?? 0)
+            : undefined;
           
           // Generate output
-          await generateOutput(suite, options.output, options.format);
+          await generateOutput(suite, options.output, formats, changes);
           
           // Display summary
           displaySummary(suite);
           
+          if (options.history) {
+            console.log(chalk.gray(`\nRun recorded: ${run.id}`));
+          }
+          
+          let regressed = false;
+          if (maxRegression !== undefined) {
+            if (!base || !changes) {
+              console.log(chalk.yellow(`⚠️  No earlier run found${options.against ? ` for ${options.against}` : ''}; skipping regression check`));
+            } else {
+              displayMetricChanges(changes, base, run);
+              regressed = changes.some(c => c.exceedsTolerance);
+            }
+          }
+          
           // Exit with appropriate code
           if (!suite.passed) {
             console.log(chalk.red('\n❌ Evaluation suite failed'));
             process.exit(1);
+          } else if (regressed) {
+            console.log(chalk.red('\n❌ Metrics regressed beyond the allowed tolerance'));
+            process.exit(1);
           } else {
             console.log(chalk.green('\n✅ Evaluation suite passed'));
           }
@@ -91,15 +276,63 @@ export const evaluatorsCommand = new Command('evaluators')
         }
       })
   )
+  .addCommand(
+    new Command('diff')
+      .description('Show which metrics improved or regressed between evaluation runs')
+      .option('--against <ref|run-id>', 'Stored run or git ref to compare with (default: previous run)')
+      .option('--run <run-id>', 'Run to inspect (default: latest run)')
+      .option('--max-regression <fraction>', 'Fail when a metric regresses by more than this fraction (e.g. 0.02)')
+      .action(async (options) => {
+        console.log(chalk.cyan('🔀 Evaluation Diff'));
+        console.log(chalk.gray('Comparing stored evaluation runs...\n'));
+
+        try {
+          const maxRegression = options.maxRegression !== undefined ? parseMaxRegression(options.maxRegression) : undefined;
+          const history = new EvaluationHistory();
+          const current = options.run ? await history.findRun(options.run) : await history.getLatestRun();
+          
+          if (!current) {
+            console.log(chalk.yellow(options.run ? `No run found for ${options.run}` : 'No runs recorded yet. Run: quallaa evaluators run'));
+            return;
+          }
+          
+          const base = options.against
+            ? await history.findRun(options.against, current.id)
+            : await history.getPreviousRun(current);
+          
+          if (!base) {
+            console.log(chalk.yellow(options.against ? `No run found for ${options.against}` : 'Need at least two runs to compare'));
+            return;
+          }
+          
+          const changes = compareRuns(base, current, maxRegression ?? 0);
+          displayMetricChanges(changes, base, current);
+          
+          if (maxRegression !== undefined && changes.some(c => c.exceedsTolerance)) {
+            console.log(chalk.red('\n❌ Metrics regressed beyond the allowed tolerance'));
+            process.exit(1);
+          }
+          
+        } catch (error) {
+          console.error(chalk.red('Diff failed:'), error instanceof Error ? error.message : error);
+          process.exit(1);
+        }
+      })
+  )
   .addCommand(
     new Command('setup')
       .description('Set up ROI tracking for your project')
-      .action(async () => {
+      .option('--input <file|->', 'Read the baseline from a JSON file (or - for stdin) instead of asking; see `evaluators schema baseline`')
+      .action(async (options) => {
         console.log(chalk.cyan('💰 Set Up ROI Tracking'));
         console.log(chalk.gray('Let\'s figure out if your project is worth it...\n'));
 
         try {
-          await collectBaselineInteractively();
+          if (options.input) {
+            await establishBaselineFromFile(options.input);
+          } else {
+            await collectBaselineInteractively();
+          }
 
           console.log(chalk.green('\n✅ Perfect! Now you can track your ROI.'));
           
@@ -113,14 +346,131 @@ export const evaluatorsCommand = new Command('evaluators')
         }
       })
   )
+  .addCommand(
+    new Command('baseline')
+      .description('Review and correct the ROI baseline without rewriting history')
+      .addCommand(
+        new Command('history')
+          .description('List every baseline version with who changed it, when and why')
+          .action(async () => {
+            try {
+              const history = await new BaselineCollector().getHistory();
+              if (history.length === 0) {
+                console.log(chalk.yellow('No baseline yet. Run: quallaa evaluators setup'));
+                return;
+              }
+
+              console.log(chalk.cyan('📜 Baseline History\n'));
+              history.forEach((entry, index) => {
+                const current = index === history.length - 1 ? chalk.green(' (current)') : '';
+                console.log(`${chalk.bold(`v${entry.version}`)}  ${entry.recordedAt.toLocaleDateString()}  ${entry.author}  ${entry.reason}${current}`);
+                if (index > 0) {
+                  displayBaselineChanges(diffBaselines(history[index - 1].baseline, entry.baseline), '      ');
+                }
+              });
+            } catch (error) {
+              console.error(chalk.red('History failed:'), error instanceof Error ? error.message : error);
+              process.exit(1);
+            }
+          })
+      )
+      .addCommand(
+        new Command('diff')
+          .description('Compare two baseline versions and their effect on the latest ROI')
+          .argument('[from]', 'Version to compare from (default: the one before current)')
+          .argument('[to]', 'Version to compare to (default: current)')
+          .action(async (fromArg: string | undefined, toArg: string | undefined) => {
+            try {
+              const collector = new BaselineCollector();
+              const history = await collector.getHistory();
+              const latest = history[history.length - 1];
+              const to = toArg ? await collector.getVersion(parseBaselineVersion(toArg)) : latest;
+              const from = fromArg
+                ? await collector.getVersion(parseBaselineVersion(fromArg))
+                : history[history.length - 2];
+              if (!to || !from) {
+                console.log(chalk.yellow('Only one baseline version so far. Record another with: quallaa evaluators baseline rebase'));
+                return;
+              }
+
+              console.log(chalk.cyan(`🔍 Baseline v${from.version} → v${to.version}\n`));
+              const changes = diffBaselines(from.baseline, to.baseline);
+              if (changes.length === 0) {
+                console.log(chalk.gray('No differences.'));
+                return;
+              }
+              displayBaselineChanges(changes);
+
+              // Show what the change means for the latest check that recorded its inputs
+              const calculator = new ROICalculator();
+              const projectId = process.cwd().split('/').pop() || 'unknown';
+              const snapshots = await calculator.getSnapshots(projectId);
+              const latestInputs = snapshots.length > 0 ? inputsFromSnapshot(snapshots[snapshots.length - 1]) : null;
+              if (latestInputs) {
+                const roiAgainst = (baseline: ROIBaseline): string =>
+                  `${calculator.calculateFinancialMetrics(baseline, latestInputs).currentROI.toFixed(0)}%`;
+                console.log(chalk.gray(`\nLatest check: ROI ${roiAgainst(from.baseline)} against v${from.version}, ${roiAgainst(to.baseline)} against v${to.version}.`));
+              }
+            } catch (error) {
+              console.error(chalk.red('Diff failed:'), error instanceof Error ? error.message : error);
+              process.exit(1);
+            }
+          })
+      )
+      .addCommand(
+        new Command('rebase')
+          .description('Record a corrected baseline as a new version')
+          .requiredOption('--reason <text>', 'Why the baseline is changing (kept in the history)')
+          .option('--set <field=value...>', `Fields to change, e.g. developmentCost=25000 (${BASELINE_FIELDS.join(', ')})`)
+          .option('--input <file|->', 'Replace the baseline values from a JSON file (or - for stdin); see `evaluators schema baseline`')
+          .option('--author <name>', 'Who made the change (default: CI actor or git user)')
+          .action(async (options) => {
+            try {
+              if (!options.set && !options.input) {
+                throw new Error('Nothing to change. Pass --set <field=value> or --input <file>.');
+              }
+              const updates = {
+                ...(options.input ? await readInputFile<BaselineInputFile>(options.input, BASELINE_INPUT_SCHEMA) : {}),
+                ...parseBaselineUpdates(options.set ?? []),
+              };
+
+              const collector = new BaselineCollector();
+              const previous = await collector.requireBaseline();
+              const updated = await collector.updateBaseline(updates, { reason: options.reason, author: options.author });
+
+              console.log(chalk.green(`✅ Baseline v${updated.version} recorded (was v${previous.version ?? 1}).`));
+              displayBaselineChanges(diffBaselines(previous, updated));
+              console.log(chalk.gray('\nEarlier checks keep the figures they were saved with.'));
+              console.log(chalk.gray('• Run: quallaa evaluators report --baseline current (recompute history against this version)'));
+            } catch (error) {
+              console.error(chalk.red('Rebase failed:'), error instanceof Error ? error.message : error);
+              process.exit(1);
+            }
+          })
+      )
+  )
   .addCommand(
     new Command('check')
       .description('Check if your project is paying off')
-      .action(async () => {
+      .option('--discount-rate <rate>', 'Annual discount rate for NPV and discounted payback (e.g. 0.1)', String(DEFAULT_ANNUAL_DISCOUNT_RATE))
+      .option('--iterations <n>', 'Monte Carlo iterations for the ROI confidence interval (default 10000)')
+      .option('--seed <n>', 'Seed for the simulation, to reproduce an earlier check')
+      .option('--input <file|->', 'Read current values from a JSON file (or - for stdin) instead of asking; see `evaluators schema check`')
+      .option('--no-alerts', 'Do not send ROI alerts for this check')
+      .action(async (options) => {
         console.log(chalk.cyan('💰 ROI Check'));
         console.log(chalk.gray('Let\'s see how you\'re doing...\n'));
 
         try {
+          const annualDiscountRate = parseDiscountRate(options.discountRate);
+          const simulationConfig: SimulationConfig = {
+            ...await loadSimulationConfig(),
+            ...(options.iterations !== undefined ? { iterations: Number(options.iterations) } : {}),
+            ...(options.seed !== undefined ? { seed: Number(options.seed) } : {}),
+          };
+          validateSimulationConfig(simulationConfig);
+          const alertConfig = options.alerts ? await loadAlertConfig() : null;
+          const costConfig = await loadCostConfig();
           const collector = new BaselineCollector();
           const calculator = new ROICalculator();
 
@@ -130,51 +480,102 @@ export const evaluatorsCommand = new Command('evaluators')
 
           console.log(chalk.gray(`Your project has been running for ${monthsRunning.toFixed(1)} months.\n`));
 
-          // Simple questions
-          const inquirer = await import('inquirer');
-          const answers = await inquirer.default.prompt([
-            {
-              type: 'number',
-              name: 'currentSaasSpend',
-              message: 'How much are you spending on SaaS tools now? ($)',
-              default: baseline.currentSaasSpend,
-            },
-            {
-              type: 'number',
-              name: 'hoursNow',
-              message: 'How many hours of manual work per month?',
-              default: baseline.currentProcessingHours,
-            },
-            {
-              type: 'list',
-              name: 'teamAdoption',
-              message: 'How much is your team using the system?',
-              choices: [
-                { name: 'Everyone uses it daily', value: 0.9 },
-                { name: 'Most people use it regularly', value: 0.7 },
-                { name: 'About half the team uses it', value: 0.5 },
-                { name: 'Only a few people use it', value: 0.3 },
-                { name: 'Almost nobody uses it', value: 0.1 },
-              ],
+          // Prefer what the evaluators measured over self-reported estimates
+          const latestRun = await new EvaluationHistory().getLatestRun();
+          const measured = collectMeasuredInputs(latestRun, baseline);
+          
+          if (latestRun && isStaleRun(latestRun)) {
+            console.log(chalk.yellow(`Not using ${describeRun(latestRun)}: it is over ${MAX_RUN_AGE_DAYS} days old. Run quallaa evaluators run for measured inputs.\n`));
+          } else if (latestRun && Object.keys(measured).length > 0) {
+            console.log(chalk.gray(`Using measured results from ${describeRun(latestRun)}:`));
+            for (const [input, source] of Object.entries(measured)) {
+              console.log(chalk.gray(`  • ${source?.metric} → ${input}${source?.source === 'estimated' ? ' (estimated)' : ''}`));
+            }
+            console.log('');
+          }
+          
+          // Values from --input, or simple questions, skipping anything already measured
+          const answers = options.input
+            ? await readCheckInputs(options.input, measured)
+            : await askCheckInputs(baseline, measured);
+
+          // Running costs collected from the providers win over a maintenance figure from --input,
+          // unless the collection came back empty or incomplete
+          const projectId = process.cwd().split('/').pop() || 'unknown';
+          let maintenance = estimatedInput(answers.maintenanceCosts ?? 0);
+          if (costConfig.sources.length > 0) {
+            const costs = await new CostCollector().collect(projectId, previousMonth(), costConfig);
+            displayCostCollection(costs);
+            const inputName = options.input === '-' ? 'stdin' : options.input;
+            if (useCollectedCosts(costs, answers.maintenanceCosts)) {
+              if (answers.maintenanceCosts !== undefined) {
+                console.log(chalk.yellow(`Ignoring maintenanceCosts from ${inputName}: using the collected costs instead.`));
+              }
+              maintenance = maintenanceCostInput(costs.costs);
+            } else if (answers.maintenanceCosts !== undefined) {
+              console.log(chalk.yellow(`Using maintenanceCosts from ${inputName}: the cost collection was ${costs.costs.items.length === 0 ? 'empty' : 'incomplete'}.`));
             }
-          ]);
+            console.log('');
+          }
 
-          // Calculate simple ROI
+          const processingHours = chooseCheckInput(measured.currentProcessingHours, answers.currentProcessingHours);
+          const accuracy = chooseCheckInput(measured.currentAccuracy, answers.currentAccuracy);
+          const errorRate = chooseCheckInput(measured.currentErrorRate, answers.currentErrorRate);
+          const maintenanceCosts = maintenance.value;
+          const complianceScore = answers.currentComplianceScore ?? baseline.complianceScore;
+          const customerSatisfaction = answers.currentCustomerSatisfaction ?? baseline.customerSatisfactionScore;
+          const inputs: MeasuredInputs = {
+            currentSaasSpend: estimatedInput(answers.currentSaasSpend),
+            maintenanceCosts: maintenance,
+            employeeAdoptionRate: estimatedInput(answers.employeeAdoptionRate),
+            currentProcessingHours: processingHours,
+            currentAccuracy: accuracy,
+            currentErrorRate: errorRate,
+            currentComplianceScore: estimatedInput(complianceScore),
+            currentCustomerSatisfaction: estimatedInput(customerSatisfaction),
+            ...(measured.currentProcessingTime ? { currentProcessingTime: measured.currentProcessingTime } : {}),
+          };
+
+          // Calculate ROI, discounting the cash flows recorded by earlier checks and
+          // simulating the inputs (measured ones vary less than estimates)
+          const cashFlowOptions = {
+            annualDiscountRate,
+            history: await calculator.getSnapshots(projectId),
+          };
           const roiMetrics = await calculator.calculateROI(baseline, {
             monthsInOperation: monthsRunning,
             currentSaasSpend: answers.currentSaasSpend,
-            maintenanceCosts: 0,
-            currentProcessingHours: answers.hoursNow,
-            tasksAutomated: Math.max(0, baseline.currentProcessingHours - answers.hoursNow),
-            employeeAdoptionRate: answers.teamAdoption,
-            currentAccuracy: baseline.accuracyBaseline * 1.1, // Assume slight improvement
-            currentErrorRate: baseline.errorRateBaseline * 0.9, // Assume slight improvement
-            currentComplianceScore: baseline.complianceScore,
-            currentCustomerSatisfaction: baseline.customerSatisfactionScore,
-          });
+            maintenanceCosts,
+            currentProcessingHours: processingHours.value,
+            tasksAutomated: Math.max(0, baseline.currentProcessingHours - processingHours.value),
+            employeeAdoptionRate: answers.employeeAdoptionRate,
+            currentAccuracy: accuracy.value,
+            currentErrorRate: errorRate.value,
+            currentComplianceScore: complianceScore,
+            currentCustomerSatisfaction: customerSatisfaction,
+            currentProcessingTime: measured.currentProcessingTime?.value,
+          }, 0.95, cashFlowOptions, { ...simulationConfig, sources: inputs });
+
+          // Record the check so reports and trends can use it
+          await calculator.createSnapshot(
+            projectId,
+            baseline,
+            roiMetrics,
+            { startDate: baseline.establishedAt, endDate: new Date() },
+            inputs
+          );
 
           // Show simple results
-          await displaySimpleROIResults(roiMetrics, baseline);
+          await displaySimpleROIResults(roiMetrics, baseline, inputs);
+
+          // Notify about alert rules this check started firing
+          if (alertConfig) {
+            const alerts = await new AlertMonitor().run(projectId, alertConfig);
+            if (alerts.firing.length > 0) {
+              console.log('');
+              displayAlertRun(alerts);
+            }
+          }
 
         } catch (error) {
           console.error(chalk.red('Check failed:'), error instanceof Error ? error.message : error);
@@ -182,10 +583,34 @@ export const evaluatorsCommand = new Command('evaluators')
         }
       })
   )
+  .addCommand(
+    new Command('schema')
+      .description('Print the JSON schema for `check --input` or `setup --input` files')
+      .argument('<input>', 'Which input: check or baseline')
+      .action((input: string) => {
+        const schemas: Record<string, () => JsonSchema> = {
+          check: () => toJsonSchema(CHECK_INPUT_SCHEMA, 'Quallaa ROI check input'),
+          baseline: () => toJsonSchema(BASELINE_INPUT_SCHEMA, 'Quallaa ROI baseline input'),
+        };
+        if (!schemas[input]) {
+          console.error(chalk.red(`Unknown input "${input}". Use check or baseline.`));
+          process.exit(1);
+        }
+        console.log(JSON.stringify(schemas[input](), null, 2));
+      })
+  )
   .addCommand(
     new Command('report')
       .description('Generate a detailed ROI report')
       .option('--web', 'Create a web report you can share')
+      .option('--redact', 'Hide dollar amounts, e.g. before sharing the report outside the company')
+      .option('--discount-rate <rate>', 'Annual discount rate for NPV and discounted payback (e.g. 0.1)', String(DEFAULT_ANNUAL_DISCOUNT_RATE))
+      .option('--baseline <version>', 'Baseline to report against: recorded (as each check was saved), original or current', 'recorded')
+      .option('--from <date>', 'Only include checks on or after this date (YYYY-MM-DD)')
+      .option('--to <date>', 'Only include checks on or before this date (YYYY-MM-DD)')
+      .option('--trend-test <test>', `Before/after test for trends: ${TWO_SAMPLE_TESTS.join(' or ')}`, 'mann-whitney')
+      .option('--template <template>', 'Compare with peers built on this outcome template (default: the baseline\'s)')
+      .option('--company-size <size>', `Compare with peers of this company size: ${COMPANY_SIZES.map(size => size.value).join(', ')} (default: the baseline's)`)
       .action(async (options) => {
         console.log(chalk.cyan('📊 ROI Report'));
         console.log(chalk.gray('Creating your project\'s business case...\n'));
@@ -194,26 +619,75 @@ export const evaluatorsCommand = new Command('evaluators')
           const collector = new BaselineCollector();
           const calculator = new ROICalculator();
           
-          const baseline = await collector.requireBaseline();
+          const currentBaseline = await collector.requireBaseline();
           const projectId = process.cwd().split('/').pop() || 'unknown';
-          const snapshots = await calculator.getSnapshots(projectId);
+          const period = parsePeriod(options.from, options.to);
+          const trendTest = parseTrendTest(options.trendTest);
+          const peers = parseBenchmarkPeers(options.template ?? currentBaseline.template, options.companySize ?? currentBaseline.companySize);
+          const recordedSnapshots = await calculator.getSnapshots(projectId, period);
 
-          if (snapshots.length === 0) {
-            console.log(chalk.yellow('No data yet. Run: quallaa evaluators check'));
+          if (recordedSnapshots.length === 0) {
+            console.log(chalk.yellow(period.from || period.to
+              ? 'No checks in that period. Run without --from/--to to see them all.'
+              : 'No data yet. Run: quallaa evaluators check'));
             return;
           }
 
+          // Optionally recompute every check against one baseline version
+          const reportAgainst = parseBaselineChoice(options.baseline);
+          const baseline = reportAgainst === 'original' ? (await collector.getHistory())[0].baseline : currentBaseline;
+          let storedSnapshots = recordedSnapshots;
+          if (reportAgainst !== 'recorded') {
+            const recalculated = recalculateSnapshots(recordedSnapshots, baseline, calculator, await loadSimulationConfig());
+            storedSnapshots = recalculated.snapshots;
+            console.log(chalk.gray(`Recalculated against the ${reportAgainst} baseline (v${baseline.version ?? 1}).`));
+            if (recalculated.unchanged > 0) {
+              console.log(chalk.yellow(`${recalculated.unchanged} check(s) saved without their inputs keep their recorded figures.`));
+            }
+          }
+
+          // Discount every check recorded so far at the requested rate
+          const cashFlow = calculator.calculateCashFlowMetrics(baseline, storedSnapshots, parseDiscountRate(options.discountRate));
+          const latestSnapshot = storedSnapshots[storedSnapshots.length - 1];
+          const snapshots = [
+            ...storedSnapshots.slice(0, -1),
+            { ...latestSnapshot, metrics: { ...latestSnapshot.metrics, financial: { ...latestSnapshot.metrics.financial, ...cashFlow } } },
+          ];
+
           const spinner = ora('Building your report...').start();
+
+          // Test each headline metric for a real change across the checks in the report
+          const trends = snapshots.length >= 2
+            ? TREND_METRICS.map(({ metric }) => calculator.analyzeTrend(snapshots, metric, { test: trendTest }))
+            : [];
+          const benchmarks = compareToBenchmarks(snapshots[snapshots.length - 1].metrics, await loadBenchmarkDataset(), peers);
+          const costs = await new CostCollector().getCosts(projectId, {
+            from: period.from && formatMonth(period.from),
+            to: period.to && formatMonth(period.to),
+          });
+          const recommendations = generateRecommendations({
+            baseline,
+            snapshots,
+            trends,
+            benchmarks,
+            calculate: (b, c) => calculator.calculateFinancialMetrics(b, c),
+            formatAmount: amountFormatter(options.redact),
+          }, await loadRecommendationConfig());
           
           if (options.web) {
-            const dashboard = await generateROIDashboard(baseline, snapshots, 'html');
+            // Tornado chart from the inputs of the latest check, when it recorded them
+            const latestInputs = inputsFromSnapshot(latestSnapshot);
+            const sensitivity = latestInputs
+              ? analyzeSensitivity(baseline, latestInputs, (b, c) => calculator.calculateFinancialMetrics(b, c))
+              : undefined;
+            const dashboard = await generateROIDashboard(baseline, snapshots, 'html', benchmarks, recommendations, sensitivity, trends, costs, options.redact);
             const fs = await import('fs/promises');
             const outputPath = 'roi-report.html';
             await fs.writeFile(outputPath, dashboard);
             spinner.succeed(`Report saved: ${outputPath}`);
             console.log(chalk.green('\n🌐 Open roi-report.html in your browser to see the full report.'));
           } else {
-            const dashboard = await generateROIDashboard(baseline, snapshots, 'text');
+            const dashboard = await generateROIDashboard(baseline, snapshots, 'text', benchmarks, recommendations, undefined, trends, costs, options.redact);
             spinner.succeed('Report ready');
             console.log('\n' + dashboard);
           }
@@ -223,157 +697,633 @@ export const evaluatorsCommand = new Command('evaluators')
           process.exit(1);
         }
       })
+  )
+  .addCommand(
+    new Command('costs')
+      .description('Collect this project\'s infrastructure and maintenance costs for a month')
+      .option('--month <month>', 'Month to collect, e.g. 2025-01 (default: last month)')
+      .action(async (options) => {
+        console.log(chalk.cyan('💸 Running Costs'));
+
+        try {
+          const month = options.month !== undefined ? parseMonth(options.month) : previousMonth();
+          const config = await loadCostConfig();
+          if (config.sources.length === 0) {
+            console.log(chalk.yellow(`No cost sources yet. List the sources this project pays for in ${COSTS_CONFIG_PATH}.`));
+            return;
+          }
+
+          const projectId = process.cwd().split('/').pop() || 'unknown';
+          const collection = await new CostCollector().collect(projectId, month, config);
+          displayCostCollection(collection);
+          console.log(chalk.green('\n✓ Saved to the project\'s cost history; the ROI report shows the breakdown.'));
+        } catch (error) {
+          console.error(chalk.red('Costs failed:'), error instanceof Error ? error.message : error);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('alerts')
+      .description('Check the latest ROI check against the alert rules in evaluators/alerts.json and notify')
+      .option('--dry-run', 'Show the alerts and where they would go without sending anything')
+      .action(async (options) => {
+        console.log(chalk.cyan(`🔔 ROI Alerts${options.dryRun ? ' (dry run)' : ''}`));
+
+        try {
+          const projectId = process.cwd().split('/').pop() || 'unknown';
+          const config = await loadAlertConfig();
+          const result = await new AlertMonitor().run(projectId, config, { dryRun: options.dryRun });
+          displayAlertRun(result);
+
+          if (result.deliveries.some(delivery => delivery.error)) {
+            process.exit(1);
+          }
+        } catch (error) {
+          console.error(chalk.red('Alerts failed:'), error instanceof Error ? error.message : error);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('sensitivity')
+      .description('Show which assumptions move ROI the most')
+      .option('--spread <percent>', 'How far to move each input either side of its current value', String(DEFAULT_SENSITIVITY_SPREAD * 100))
+      .option('--range <input=low:high...>', 'Explicit range for an input, e.g. maintenanceCosts=0:500')
+      .action(async (options) => {
+        console.log(chalk.cyan('🌪️  ROI Sensitivity'));
+        console.log(chalk.gray('Moving one assumption at a time...\n'));
+
+        try {
+          const spread = parseSpread(options.spread);
+          const ranges = parseSensitivityRanges(options.range ?? []);
+          const collector = new BaselineCollector();
+          const calculator = new ROICalculator();
+
+          const baseline = await collector.requireBaseline();
+          const projectId = process.cwd().split('/').pop() || 'unknown';
+          const snapshots = await calculator.getSnapshots(projectId);
+          const latestInputs = snapshots.length > 0 ? inputsFromSnapshot(snapshots[snapshots.length - 1]) : null;
+
+          if (!latestInputs) {
+            console.log(chalk.yellow('No check with recorded inputs yet. Run: quallaa evaluators check'));
+            return;
+          }
+
+          const analysis = analyzeSensitivity(
+            baseline,
+            latestInputs,
+            (b, c) => calculator.calculateFinancialMetrics(b, c),
+            { spread, ranges }
+          );
+          displaySensitivity(analysis);
+
+        } catch (error) {
+          console.error(chalk.red('Sensitivity analysis failed:'), error instanceof Error ? error.message : error);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('forecast')
+      .description('Project ROI for what-if scenarios and compare them with actual checks')
+      .argument('[scenario]', 'Show one scenario month by month')
+      .option('--web', 'Create a web report with forecasts and actuals on one chart')
+      .action(async (scenarioName: string | undefined, options) => {
+        console.log(chalk.cyan('🔮 ROI Forecast'));
+        console.log(chalk.gray('Projecting where this is heading...\n'));
+
+        try {
+          const collector = new BaselineCollector();
+          const calculator = new ROICalculator();
+          const store = new ForecastScenarioStore();
+
+          const baseline = await collector.requireBaseline();
+          const projectId = process.cwd().split('/').pop() || 'unknown';
+          const snapshots = await calculator.getSnapshots(projectId);
+
+          const scenarios = scenarioName
+            ? [await store.get(scenarioName)].filter(scenario => scenario !== null)
+            : await store.list();
+          if (scenarioName && scenarios.length === 0) {
+            throw new Error(`No scenario named "${scenarioName}". Add it with: quallaa evaluators forecast add ${scenarioName}`);
+          }
+          if (scenarios.length === 0) {
+            console.log(chalk.yellow('No scenarios yet. Add some with:'));
+            for (const preset of SCENARIO_PRESETS) {
+              console.log(chalk.gray(`  quallaa evaluators forecast add ${preset} --preset ${preset}`));
+            }
+            return;
+          }
+
+          const forecasts = scenarios.map(scenario => calculator.projectScenario(baseline, scenario));
+          const comparisons = forecasts.map(forecast => compareWithActuals(forecast, snapshots));
+
+          if (options.web) {
+            const fs = await import('fs/promises');
+            const outputPath = 'roi-forecast.html';
+            await fs.writeFile(outputPath, generateForecastReport(forecasts, comparisons));
+            console.log(chalk.green(`🌐 Forecast saved: ${outputPath}`));
+            return;
+          }
+
+          if (scenarioName) {
+            displayScenarioForecast(forecasts[0], comparisons[0]);
+          } else {
+            displayForecastSummary(forecasts, comparisons);
+          }
+
+        } catch (error) {
+          console.error(chalk.red('Forecast failed:'), error instanceof Error ? error.message : error);
+          process.exit(1);
+        }
+      })
+      .addCommand(
+        new Command('add')
+          .description('Add or replace a scenario, starting from a preset')
+          .argument('<name>', 'Scenario name, e.g. expected or board-case')
+          .option('--preset <preset>', `Starting assumptions: ${SCENARIO_PRESETS.join(', ')} (default: the name if it is a preset, else expected)`)
+          .option('--adoption <ramp>', 'Adoption ramp as month:rate pairs, e.g. 0:0.1,3:0.5,6:0.8')
+          .option('--hours-saved <hours>', 'Manual hours saved per month once the whole team uses it')
+          .option('--cancel <tool:cost:date...>', 'SaaS cancellations, e.g. Zendesk:400:2025-03 (replaces the preset\'s)')
+          .option('--maintenance <dollars>', 'Maintenance cost per month')
+          .option('--horizon <months>', 'Months to project')
+          .option('--description <text>', 'What this scenario assumes')
+          .action(async (name: string, options) => {
+            try {
+              const preset = options.preset ?? (SCENARIO_PRESETS.includes(name as ScenarioPreset) ? name : 'expected');
+              if (!SCENARIO_PRESETS.includes(preset)) {
+                throw new Error(`Unknown preset "${preset}". Use one of: ${SCENARIO_PRESETS.join(', ')}`);
+              }
+
+              const baseline = await new BaselineCollector().requireBaseline();
+              const scenario = {
+                ...presetScenario(preset, baseline, name),
+                ...(options.description ? { description: options.description } : {}),
+                ...(options.adoption ? { adoptionRamp: parseAdoptionRamp(options.adoption) } : {}),
+                ...(options.hoursSaved !== undefined ? { hoursSavedPerMonth: Number(options.hoursSaved) } : {}),
+                ...(options.cancel ? { saasCancellations: (options.cancel as string[]).map(parseSaasCancellation) } : {}),
+                ...(options.maintenance !== undefined ? { maintenanceCostPerMonth: Number(options.maintenance) } : {}),
+                ...(options.horizon !== undefined ? { horizonMonths: Number(options.horizon) } : {}),
+              };
+
+              await new ForecastScenarioStore().save(scenario);
+              console.log(chalk.green(`✅ Saved scenario "${name}"`));
+              console.log(chalk.gray(`See it with: quallaa evaluators forecast ${name}`));
+
+            } catch (error) {
+              console.error(chalk.red('Could not save scenario:'), error instanceof Error ? error.message : error);
+              process.exit(1);
+            }
+          })
+      )
+      .addCommand(
+        new Command('remove')
+          .description('Remove a scenario')
+          .argument('<name>', 'Scenario name')
+          .action(async (name: string) => {
+            if (await new ForecastScenarioStore().remove(name)) {
+              console.log(chalk.green(`✅ Removed scenario "${name}"`));
+            } else {
+              console.log(chalk.yellow(`No scenario named "${name}"`));
+            }
+          })
+      )
   );
 
-async function discoverEvaluators(): Promise<string[]> {
-  try {
-    const files = await glob('evaluators/**/*.{js,ts,mjs}', { 
-      cwd: process.cwd(),
-      absolute: true,
-      ignore: ['**/*.test.*', '**/*.spec.*', '**/node_modules/**']
-    });
-    
-    return files.filter(file => 
-      !file.includes('.test.') && 
-      !file.includes('.spec.') &&
-      !file.includes('scorecard.')
-    );
-  } catch (error) {
-    console.warn('Error discovering evaluators:', error);
-    return [];
+const SLOWEST_EVALUATORS_SHOWN = 5;
+const TORNADO_BAR_WIDTH = 24;
+
+// Metrics the report tests for a trend, and the unit their change per month is shown in
+const TREND_METRICS: Array<{ metric: string; label: string; unit: 'points' | 'dollars' | 'hours' }> = [
+  { metric: 'financial.currentROI', label: 'ROI', unit: 'points' },
+  { metric: 'financial.operationalCostReduction', label: 'Operational savings', unit: 'dollars' },
+  { metric: 'productivity.timeSavedHours', label: 'Hours saved', unit: 'hours' },
+  { metric: 'productivity.employeeAdoptionRate', label: 'Team adoption', unit: 'points' },
+  { metric: 'quality.accuracyImprovement', label: 'Accuracy improvement', unit: 'points' },
+];
+
+// Accepts a fraction (0.1) or a percentage (10)
+function parseDiscountRate(value: string): number {
+  const rate = parseFloat(value);
+  if (!Number.isFinite(rate) || rate < 0) {
+    throw new Error(`Invalid --discount-rate "${value}": expected a non-negative number such as 0.1`);
   }
+  return rate > 1 ? rate / 100 : rate;
 }
 
-async function runEvaluatorFile(filePath: string): Promise<EvaluationResult[]> {
-  const results: EvaluationResult[] = [];
-  
-  try {
-    // For now, we'll look for specific patterns in the file
-    // In a real implementation, we'd dynamically import and execute
-    const fs = await import('fs/promises');
-    const content = await fs.readFile(filePath, 'utf-8');
-    
-    // Extract metrics from file content (simplified approach)
-    const metrics = extractMetricsFromContent(content, filePath);
-    results.push(...metrics);
-    
-    // If the file exports a run function, we could execute it here
-    // const module = await import(filePath);
-    // if (module.run) { results.push(...await module.run()); }
-    
-  } catch (error) {
-    throw new Error(`Failed to run evaluator ${filePath}: ${error}`);
+// A fraction of the earlier value (0.02 = 2%); parseFloat would read "2%" as 2 and "abc" as NaN, which passes everything
+function parseMaxRegression(value: string): number {
+  const tolerance = Number(value);
+  if (value.trim() === '' || !Number.isFinite(tolerance) || tolerance < 0) {
+    throw new Error(`Invalid --max-regression "${value}": expected a non-negative fraction such as 0.02`);
   }
-  
-  return results;
+  return tolerance;
 }
 
-function extractMetricsFromContent(content: string, filePath: string): EvaluationResult[] {
-  const results: EvaluationResult[] = [];
-  const fileName = path.basename(filePath, path.extname(filePath));
-  
-  // Look for metric patterns
-  const metricPatterns = [
-    { pattern: /accuracy[:\s]*([0-9.]+)/gi, category: 'Quality', threshold: 0.9 },
-    { pattern: /error[_\s]*rate[:\s]*([0-9.]+)/gi, category: 'Quality', threshold: 0.05, invert: true },
-    { pattern: /rework[_\s]*ratio[:\s]*([0-9.]+)/gi, category: 'Efficiency', threshold: 0.1, invert: true },
-    { pattern: /processing[_\s]*time[:\s]*([0-9.]+)/gi, category: 'Performance', threshold: 5.0, invert: true },
-    { pattern: /unit[_\s]*cost[:\s]*\$?([0-9.]+)/gi, category: 'Cost', threshold: 0.10, invert: true },
-    { pattern: /success[_\s]*rate[:\s]*([0-9.]+)/gi, category: 'Quality', threshold: 0.95 },
-    { pattern: /coverage[:\s]*([0-9.]+)/gi, category: 'Quality', threshold: 0.8 },
-  ];
-  
-  for (const { pattern, category, threshold, invert = false } of metricPatterns) {
-    let match;
-    while ((match = pattern.exec(content)) !== null) {
-      const value = parseFloat(match[1]);
-      const passed = invert ? value <= threshold : value >= threshold;
-      
-      results.push({
-        metric: match[0].split(/[:\s]/)[0].toLowerCase().replace(/[_\s]/g, '_'),
-        value,
-        threshold,
-        passed,
-        category,
-        details: `Extracted from ${fileName}`,
-      });
-    }
+// Whole milliseconds; parseInt would read "30s" as 30 and "abc" as NaN, which times out every evaluator at once
+function parseTimeout(value: string): number {
+  const timeoutMs = Number(value);
+  if (value.trim() === '' || !Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+    throw new Error(`Invalid --timeout "${value}": expected a positive number of milliseconds such as 30000`);
   }
-  
-  // If no metrics found, create a basic health check
-  if (results.length === 0) {
-    results.push({
-      metric: 'evaluator_exists',
-      value: 1,
-      threshold: 1,
-      passed: true,
-      category: 'Health',
-      details: `Evaluator file ${fileName} exists and is readable`,
-    });
+  return timeoutMs;
+}
+
+// Accepts a percentage (20) or a fraction (0.2)
+function parseSpread(value: string): number {
+  const spread = parseFloat(value);
+  if (!Number.isFinite(spread) || spread <= 0) {
+    throw new Error(`Invalid --spread "${value}": expected a positive percentage such as 20`);
   }
-  
-  return results;
+  return spread >= 1 ? spread / 100 : spread;
 }
 
-function calculateSuiteMetrics(results: EvaluationResult[], duration: number, threshold: number): EvaluationSuite {
-  const passed = results.filter(r => r.passed).length;
-  const total = results.length;
-  const overallScore = total > 0 ? passed / total : 0;
-  
-  return {
-    name: 'Quallaa Evaluation Suite',
-    description: 'Automated evaluation of outcome performance metrics',
-    results,
-    overallScore,
-    passed: overallScore >= threshold,
-    timestamp: new Date(),
-    duration,
-  };
+// Built-in cost sources by display name; CSV rows keep the provider they were exported with
+const COST_PROVIDER_NAMES: Record<string, string> = { vercel: 'Vercel', supabase: 'Supabase', typesense: 'Typesense', resend: 'Resend', manual: 'Manual' };
+
+function describeCostItem(item: CostItem): string {
+  return `${COST_PROVIDER_NAMES[item.provider] ?? item.provider} · ${item.name}`;
 }
 
-async function generateOutput(suite: EvaluationSuite, outputPath: string, format: string): Promise<void> {
-  const fs = await import('fs/promises');
-  
-  // Ensure output directory exists
-  await fs.mkdir(path.dirname(outputPath), { recursive: true });
-  
-  switch (format) {
-    case 'html':
-      await fs.writeFile(outputPath, generateHTMLScorecard(suite));
-      console.log(chalk.green(`📊 HTML scorecard generated: ${outputPath}`));
-      break;
-      
-    case 'json':
-      await fs.writeFile(outputPath.replace('.html', '.json'), JSON.stringify(suite, null, 2));
-      console.log(chalk.green(`📊 JSON report generated: ${outputPath.replace('.html', '.json')}`));
-      break;
-      
-    case 'text':
-      await fs.writeFile(outputPath.replace('.html', '.txt'), generateTextReport(suite));
-      console.log(chalk.green(`📊 Text report generated: ${outputPath.replace('.html', '.txt')}`));
-      break;
+function parseMonth(value: string): string {
+  if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(value)) {
+    throw new Error(`Invalid --month "${value}": use a month such as 2025-01`);
   }
+  return value;
 }
 
-function generateHTMLScorecard(suite: EvaluationSuite): string {
-  const { results, overallScore, passed, timestamp, duration } = suite;
-  
-  const categoryGroups = results.reduce((groups, result) => {
-    if (!groups[result.category]) groups[result.category] = [];
-    groups[result.category].push(result);
-    return groups;
-  }, {} as Record<string, EvaluationResult[]>);
-  
-  const statusColor = passed ? '#10b981' : '#ef4444';
-  const statusIcon = passed ? '✅' : '❌';
-  
-  return `<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Quallaa Evaluation Scorecard</title>
-    <style>
+function parseBaselineVersion(value: string): number {
+  const version = parseInt(value.replace(/^v/, ''), 10);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid baseline version "${value}": use a number such as 2 or v2`);
+  }
+  return version;
+}
+
+function parseBaselineChoice(value: string): 'recorded' | 'original' | 'current' {
+  if (value !== 'recorded' && value !== 'original' && value !== 'current') {
+    throw new Error(`Invalid --baseline "${value}": use recorded, original or current`);
+  }
+  return value;
+}
+
+function parseBenchmarkPeers(template?: string, companySize?: string): { template?: OutcomeTemplate; companySize?: CompanySize } {
+  if (template) {
+    getOutcomeTemplate(template as OutcomeTemplate); // Throws for unknown templates
+  }
+  if (companySize && !COMPANY_SIZES.some(size => size.value === companySize)) {
+    throw new Error(`Invalid --company-size "${companySize}": use ${COMPANY_SIZES.map(size => size.value).join(', ')}`);
+  }
+  return { template: template as OutcomeTemplate | undefined, companySize: companySize as CompanySize | undefined };
+}
+
+function parseTrendTest(value: string): TwoSampleTestName {
+  if (!TWO_SAMPLE_TESTS.includes(value as TwoSampleTestName)) {
+    throw new Error(`Invalid --trend-test "${value}": use ${TWO_SAMPLE_TESTS.join(' or ')}`);
+  }
+  return value as TwoSampleTestName;
+}
+
+// Dates are whole days; --to includes the checks made on that day
+function parsePeriod(from?: string, to?: string): PeriodFilter {
+  const parseDay = (value: string, option: string): Date => {
+    const date = new Date(`${value}T00:00:00.000Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(date.getTime())) {
+      throw new Error(`Invalid ${option} "${value}": use a date such as 2025-01-31`);
+    }
+    return date;
+  };
+
+  const period: PeriodFilter = {};
+  if (from) period.from = parseDay(from, '--from');
+  if (to) period.to = new Date(parseDay(to, '--to').getTime() + 24 * 60 * 60 * 1000 - 1);
+  if (period.from && period.to && period.from > period.to) {
+    throw new Error('--from must be on or before --to');
+  }
+  return period;
+}
+
+function findPlacement(benchmarks: BenchmarkComparison, metric: BenchmarkPlacement['metric']): BenchmarkPlacement {
+  return benchmarks.placements.find(placement => placement.metric === metric)!;
+}
+
+// e.g. "Order-to-Cash Reconciliation projects at mid-market companies"
+function describeBenchmarkPeers(benchmarks: BenchmarkComparison): string {
+  const template = benchmarks.template === 'all'
+    ? 'Quallaa outcome projects'
+    : `${listOutcomeTemplates().find(entry => entry.value === benchmarks.template)?.name ?? benchmarks.template} projects`;
+  return benchmarks.companySize === 'all' ? `${template} of every company size` : `${template} at ${benchmarks.companySize} companies`;
+}
+
+// e.g. "dataset v2025.3: Delivered Quallaa projects, 48 projects, collected 2025-06"
+function describeBenchmarkSource(benchmarks: BenchmarkComparison): string {
+  const { provenance } = benchmarks;
+  if (!provenance) return `dataset v${benchmarks.datasetVersion}, source not given`;
+  const details = [
+    provenance.source,
+    provenance.sampleSize !== undefined ? `${provenance.sampleSize} projects` : undefined,
+    provenance.collectedAt !== undefined ? `collected ${provenance.collectedAt}` : undefined,
+  ].filter(Boolean);
+  return `dataset v${benchmarks.datasetVersion}: ${details.join(', ')}`;
+}
+
+function formatBenchmarkValue(metric: BenchmarkPlacement['metric'], value: number): string {
+  if (metric !== 'paybackMonths') return `${value.toFixed(0)}%`;
+  return Number.isFinite(value) ? `${value} months` : 'no payback yet';
+}
+
+function ordinal(value: number): string {
+  const suffix = value % 100 >= 11 && value % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][value % 10] ?? 'th';
+  return `${value}${suffix}`;
+}
+
+function formatPValue(pValue: number): string {
+  return pValue < 0.001 ? '< 0.001' : pValue.toFixed(3);
+}
+
+function describeTrend(trend: ROITrend): string {
+  switch (trend.trend) {
+    case 'improving': return '📈 Improving';
+    case 'declining': return '📉 Declining';
+    default: return trend.statistics?.comparison ? '➖ No significant change' : '➖ Too few checks to test';
+  }
+}
+
+// e.g. "+4.2 pts/mo (95% CI +1.0 to +7.9)"
+function formatTrendSlope(trend: ROITrend, formatAmount: AmountFormatter = amountFormatter()): string {
+  const unit = TREND_METRICS.find(entry => entry.metric === trend.metric)?.unit ?? 'points';
+  const format = (value: number): string => {
+    const magnitude = unit === 'dollars' ? Math.abs(Math.round(value)) : Math.abs(value).toFixed(1);
+    const sign = value < 0 && Number(magnitude) !== 0 ? '-' : '+';
+    switch (unit) {
+      case 'dollars': return `${sign}${formatAmount(Number(magnitude))}`;
+      case 'hours': return `${sign}${magnitude} hrs`;
+      default: return `${sign}${magnitude} pts`;
+    }
+  };
+  const statistics = trend.statistics;
+  if (!statistics) return '–';
+  const { lower, upper, confidenceLevel } = statistics.slopeInterval;
+  return `${format(statistics.slopePerMonth)}/mo (${(confidenceLevel * 100).toFixed(0)}% CI ${format(lower)} to ${format(upper)})`;
+}
+
+function describeTrendMethod(trends: ROITrend[]): string {
+  const statistics = trends.find(trend => trend.statistics)?.statistics;
+  if (!statistics) return '';
+  return `${statistics.method} A metric is improving or declining only when p < ${statistics.significanceLevel}; ` +
+    `it takes at least ${MIN_PERIOD_CHECKS * 2} checks to test.`;
+}
+
+function formatPayback(months: number | null | undefined): string {
+  return months !== null && months !== undefined && Number.isFinite(months) ? `${months} months` : 'not within 50 years';
+}
+
+// e.g. "within 6 months 12% · within 12 months 64%"
+function formatBreakEvenOdds(simulation: ROISimulation): string {
+  return simulation.breakEvenProbability
+    .map(({ month, probability }) => `within ${month} months ${(probability * 100).toFixed(0)}%`)
+    .join(' · ');
+}
+
+function formatSensitivityValue(value: number, unit: SensitivityUnit, formatAmount: AmountFormatter = amountFormatter()): string {
+  switch (unit) {
+    case 'dollars': return formatAmount(value);
+    case 'hours': return `${value.toFixed(0)} hrs`;
+    case 'rate': return `${formatAmount(value, true)}/hr`;
+    case 'ratio': return `${(value * 100).toFixed(0)}%`;
+    case 'months': return `${value.toFixed(1)} mo`;
+  }
+}
+
+async function askOutcomeTemplate(): Promise<OutcomeTemplate> {
+  const inquirer = await import('inquirer');
+  const { template } = await inquirer.default.prompt([
+    {
+      type: 'list',
+      name: 'template',
+      message: 'Which outcome template is this project built on?',
+      choices: listOutcomeTemplates().map(t => ({
+        name: `${t.name} - ${t.description}`,
+        value: t.value,
+      })),
+    },
+  ]);
+  return template;
+}
+
+/**
+ * Ask for the current values `evaluators check` needs, skipping anything already measured
+ */
+async function askCheckInputs(baseline: ROIBaseline, measured: MeasuredInputs): Promise<CheckInputFile> {
+  const inquirer = await import('inquirer');
+  const answers = await inquirer.default.prompt([
+    {
+      type: 'number',
+      name: 'currentSaasSpend',
+      message: 'How much are you spending on SaaS tools now? ($)',
+      default: baseline.currentSaasSpend,
+    },
+    {
+      type: 'number',
+      name: 'hoursNow',
+      message: 'How many hours of manual work per month?',
+      default: Math.round(measured.currentProcessingHours?.value ?? baseline.currentProcessingHours),
+      when: measured.currentProcessingHours?.source !== 'measured',
+    },
+    {
+      type: 'list',
+      name: 'teamAdoption',
+      message: 'How much is your team using the system?',
+      choices: [
+        { name: 'Everyone uses it daily', value: 0.9 },
+        { name: 'Most people use it regularly', value: 0.7 },
+        { name: 'About half the team uses it', value: 0.5 },
+        { name: 'Only a few people use it', value: 0.3 },
+        { name: 'Almost nobody uses it', value: 0.1 },
+      ],
+    },
+    {
+      type: 'list',
+      name: 'accuracyNow',
+      message: 'How accurate is the process now?',
+      choices: [
+        { name: 'Excellent (95%+)', value: 0.97 },
+        { name: 'Pretty good (90-95%)', value: 0.92 },
+        { name: 'Decent (80-90%)', value: 0.85 },
+        { name: 'Not great (under 80%)', value: 0.75 },
+      ],
+      when: !measured.currentAccuracy,
+    },
+    {
+      type: 'list',
+      name: 'errorRateNow',
+      message: 'How often do mistakes happen now?',
+      choices: [
+        { name: 'Rarely (under 5%)', value: 0.03 },
+        { name: 'Sometimes (5-10%)', value: 0.07 },
+        { name: 'Often (10-20%)', value: 0.15 },
+        { name: 'All the time (20%+)', value: 0.25 },
+      ],
+      when: !measured.currentErrorRate,
+    },
+  ]);
+
+  return {
+    currentSaasSpend: answers.currentSaasSpend,
+    employeeAdoptionRate: answers.teamAdoption,
+    currentProcessingHours: answers.hoursNow,
+    currentAccuracy: answers.accuracyNow,
+    currentErrorRate: answers.errorRateNow,
+  };
+}
+
+/**
+ * A check input: a measured value wins, and an answer wins over an estimate derived from a metric
+ */
+function chooseCheckInput(measured: ROIInputSource | undefined, answer: number | undefined): ROIInputSource {
+  if (answer === undefined || measured?.source === 'measured') return measured ?? estimatedInput(answer!);
+  return estimatedInput(answer);
+}
+
+/**
+ * Current values for `evaluators check --input`
+ * Measured inputs still win over the file; anything neither measured nor in the file is an error.
+ */
+async function readCheckInputs(source: string, measured: MeasuredInputs): Promise<CheckInputFile> {
+  const values = await readInputFile<CheckInputFile>(source, CHECK_INPUT_SCHEMA);
+  const label = source === '-' ? 'stdin' : source;
+
+  const missing = (['currentProcessingHours', 'currentAccuracy', 'currentErrorRate'] as const)
+    .filter(input => !measured[input] && values[input] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Invalid ${label}:\n${missing.map(input => `  • ${input}: required field is missing (no evaluator measured it)`).join('\n')}`);
+  }
+
+  for (const input of ['currentProcessingHours', 'currentAccuracy', 'currentErrorRate'] as const) {
+    if (measured[input]?.source === 'measured' && values[input] !== undefined) {
+      console.log(chalk.yellow(`Ignoring ${input} from ${label}: using the measured ${measured[input]?.metric} instead.`));
+    }
+  }
+
+  return values;
+}
+
+async function discoverEvaluators(): Promise<string[]> {
+  try {
+    const files = await glob('evaluators/**/*.{js,ts,mjs}', { 
+      cwd: process.cwd(),
+      absolute: true,
+      ignore: ['**/*.test.*', '**/*.spec.*', '**/node_modules/**']
+    });
+    
+    return files.filter(file => 
+      !file.includes('.test.') && 
+      !file.includes('.spec.') &&
+      !file.includes('scorecard.')
+    );
+  } catch (error) {
+    console.warn('Error discovering evaluators:', error);
+    return [];
+  }
+}
+
+function calculateSuiteMetrics(
+  results: EvaluationResult[],
+  duration: number,
+  threshold: number,
+  thresholdProfile?: string
+): EvaluationSuite {
+  const { overallScore, categoryScores, blockingFailures } = scoreResults(results);
+  const targetsMet = results.filter(r => r.assessment?.status === 'on_target').length;
+  
+  return {
+    name: 'Quallaa Evaluation Suite',
+    description: 'Automated evaluation of outcome performance metrics',
+    results,
+    overallScore,
+    passed: overallScore >= threshold && blockingFailures.length === 0,
+    timestamp: new Date(),
+    duration,
+    thresholdProfile,
+    targetsMet,
+    categoryScores,
+    blockingFailures,
+  };
+}
+
+async function generateOutput(
+  suite: EvaluationSuite,
+  outputPath: string,
+  formats: ReportFormat[],
+  changes?: MetricChange[]
+): Promise<void> {
+  const fs = await import('fs/promises');
+  
+  // Ensure output directory exists
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  
+  for (const format of formats) {
+    switch (format) {
+      case 'html':
+        await fs.writeFile(outputPath, generateHTMLScorecard(suite));
+        console.log(chalk.green(`📊 HTML scorecard generated: ${outputPath}`));
+        break;
+        
+      case 'json':
+        await fs.writeFile(withExtension(outputPath, '.json'), JSON.stringify(suite, null, 2));
+        console.log(chalk.green(`📊 JSON report generated: ${withExtension(outputPath, '.json')}`));
+        break;
+        
+      case 'text':
+        await fs.writeFile(withExtension(outputPath, '.txt'), generateTextReport(suite));
+        console.log(chalk.green(`📊 Text report generated: ${withExtension(outputPath, '.txt')}`));
+        break;
+        
+      case 'junit':
+        await fs.writeFile(withExtension(outputPath, '.junit.xml'), generateJUnitReport(suite));
+        console.log(chalk.green(`📊 JUnit report generated: ${withExtension(outputPath, '.junit.xml')}`));
+        break;
+        
+      case 'markdown':
+        await fs.writeFile(withExtension(outputPath, '.md'), generateMarkdownSummary(suite, changes));
+        console.log(chalk.green(`📊 Markdown summary generated: ${withExtension(outputPath, '.md')}`));
+        break;
+        
+      case 'sarif':
+        await fs.writeFile(withExtension(outputPath, '.sarif'), generateSarifReport(suite));
+        console.log(chalk.green(`📊 SARIF report generated: ${withExtension(outputPath, '.sarif')}`));
+        break;
+    }
+  }
+}
+
+/**
+ * Swap the scorecard's .html extension for another report's
+ */
+function withExtension(outputPath: string, extension: string): string {
+  return outputPath.endsWith('.html') ? outputPath.slice(0, -'.html'.length) + extension : outputPath + extension;
+}
+
+function generateHTMLScorecard(suite: EvaluationSuite): string {
+  const { results, overallScore, passed, timestamp, duration } = suite;
+  
+  const categoryGroups = results.reduce((groups, result) => {
+    if (!groups[result.category]) groups[result.category] = [];
+    groups[result.category].push(result);
+    return groups;
+  }, {} as Record<string, EvaluationResult[]>);
+  
+  const statusColor = passed ? '#10b981' : '#ef4444';
+  const statusIcon = passed ? '✅' : '❌';
+  
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Quallaa Evaluation Scorecard</title>
+    <style>
         body { 
             font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; 
             margin: 0; 
@@ -432,7 +1382,31 @@ function generateHTMLScorecard(suite: EvaluationSuite): string {
             font-weight: 600; 
             margin: 0 0 16px 0; 
             color: #0f172a;
+            display: flex;
+            justify-content: space-between;
+        }
+        .category-score { color: #64748b; font-weight: 500; }
+        .blocking-badge {
+            font-size: 0.7rem;
+            background: #fee2e2;
+            color: #b91c1c;
+            border-radius: 4px;
+            padding: 1px 6px;
+            margin-left: 6px;
+        }
+        .blocking-alert {
+            background: #fee2e2;
+            color: #b91c1c;
+            border-radius: 8px;
+            padding: 12px 16px;
+            margin-bottom: 20px;
         }
+        .timings {
+            margin-top: 20px;
+        }
+        .timings table { width: 100%; border-collapse: collapse; }
+        .timings td { padding: 8px 0; border-bottom: 1px solid #e2e8f0; }
+        .timings td:last-child { text-align: right; font-weight: 600; }
         .metric { 
             display: flex; 
             justify-content: space-between; 
@@ -460,6 +1434,51 @@ function generateHTMLScorecard(suite: EvaluationSuite): string {
             color: #64748b; 
             margin-left: 8px;
         }
+        .gauge { 
+            display: flex; 
+            align-items: center; 
+            gap: 8px; 
+            padding-bottom: 12px; 
+            font-size: 0.8rem; 
+            color: #64748b;
+        }
+        .gauge-track { 
+            flex: 1; 
+            height: 6px; 
+            background: #e2e8f0; 
+            border-radius: 3px; 
+            overflow: hidden;
+        }
+        .gauge-fill { height: 100%; background: #10b981; }
+        .gauge-fill.warning { background: #f59e0b; }
+        .gauge-fill.failed { background: #ef4444; }
+        .error-bar {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            padding-bottom: 12px;
+            font-size: 0.8rem;
+            color: #64748b;
+        }
+        .error-bar-track { flex: 1; position: relative; height: 14px; background: #f1f5f9; border-radius: 3px; }
+        .error-bar-range { position: absolute; top: 5px; height: 4px; background: #cbd5e1; }
+        .error-bar-sigma { position: absolute; top: 3px; height: 8px; background: #64748b; border-radius: 2px; }
+        .error-bar-mean { position: absolute; top: 0; width: 2px; height: 14px; background: #0f172a; }
+        .error-bar-limit { position: absolute; top: 0; height: 14px; border-left: 2px dashed #ef4444; }
+        .flaky-badge {
+            font-size: 0.7rem;
+            background: #fef3c7;
+            color: #b45309;
+            border-radius: 4px;
+            padding: 1px 6px;
+            margin-left: 6px;
+        }
+        .mismatches { 
+            font-size: 0.8rem; 
+            color: #64748b; 
+            padding-bottom: 12px;
+        }
+        .mismatches li { font-family: ui-monospace, monospace; }
         .footer { 
             margin-top: 30px; 
             text-align: center; 
@@ -477,28 +1496,44 @@ function generateHTMLScorecard(suite: EvaluationSuite): string {
                 <span><strong>Generated:</strong> ${timestamp.toISOString()}</span>
                 <span><strong>Duration:</strong> ${duration}ms</span>
                 <span><strong>Metrics:</strong> ${results.length}</span>
+                ${suite.targetsMet !== undefined ? `<span><strong>Targets met:</strong> ${suite.targetsMet}/${results.length}</span>` : ''}
+                ${suite.thresholdProfile ? `<span><strong>Profile:</strong> ${escapeHtml(suite.thresholdProfile)}</span>` : ''}
+                ${suite.repeat ? `<span><strong>Runs:</strong> ${suite.repeat} per evaluator</span>` : ''}
                 <span class="score-badge">Score: ${(overallScore * 100).toFixed(1)}%</span>
             </div>
         </div>
         
+        ${suite.blockingFailures && suite.blockingFailures.length > 0 ? `
+        <div class="blocking-alert">
+            <strong>Blocking metrics failed:</strong> ${suite.blockingFailures.map(escapeHtml).join(', ')}
+        </div>` : ''}
+        
         <div class="grid">
             ${Object.entries(categoryGroups).map(([category, metrics]) => `
                 <div class="category-card">
-                    <h2 class="category-title">${category}</h2>
+                    <h2 class="category-title">
+                        <span>${escapeHtml(category)}</span>
+                        ${suite.categoryScores?.[category] ? `<span class="category-score">${(suite.categoryScores[category].score * 100).toFixed(1)}%</span>` : ''}
+                    </h2>
                     ${metrics.map(metric => `
                         <div class="metric">
-                            <div class="metric-name">${metric.metric.replace(/_/g, ' ')}</div>
+                            <div class="metric-name">${escapeHtml(metric.metric.replace(/_/g, ' '))}${metric.weight !== undefined && metric.weight !== 1 ? ` <span class="threshold">×${metric.weight}</span>` : ''}${metric.blocking ? '<span class="blocking-badge">blocking</span>' : ''}${metric.variance?.flaky ? '<span class="flaky-badge">flaky</span>' : ''}</div>
                             <div class="metric-value">
                                 <span>${formatMetricValue(metric)}</span>
                                 <div class="metric-status ${metric.passed ? 'passed' : 'failed'}"></div>
-                                <span class="threshold">≥${formatThreshold(metric)}</span>
+                                <span class="threshold">${formatThresholdRange(metric)}</span>
                             </div>
                         </div>
+                        ${metric.assessment ? generateGauge(metric) : ''}
+                        ${metric.variance && metric.variance.runs > 1 ? generateErrorBar(metric) : ''}
+                        ${metric.mismatches ? generateMismatchList(metric) : ''}
                     `).join('')}
                 </div>
             `).join('')}
         </div>
         
+        ${generateTimingTable(suite)}
+        
         <div class="footer">
             <p>Generated by Quallaa CLI - Minimalist evaluation harness for Domain Engineering outcomes</p>
         </div>
@@ -507,6 +1542,77 @@ function generateHTMLScorecard(suite: EvaluationSuite): string {
 </html>`;
 }
 
+/**
+ * Slowest evaluators, to show where the suite's time goes
+ */
+function generateTimingTable(suite: EvaluationSuite): string {
+  const timings = summarizeEvaluatorTimings(suite.results).slice(0, SLOWEST_EVALUATORS_SHOWN);
+  if (timings.length === 0) return '';
+
+  return `
+        <div class="category-card timings">
+            <h2 class="category-title"><span>Slowest Evaluators</span>${suite.concurrency && suite.concurrency > 1 ? `<span class="category-score">concurrency ${suite.concurrency}</span>` : ''}</h2>
+            <table>
+                ${timings.map(timing => `
+                <tr>
+                    <td>${escapeHtml(timing.evaluator)} <span class="threshold">${timing.metrics} metric(s)</span></td>
+                    <td>${formatElapsed(timing.duration)}</td>
+                </tr>`).join('')}
+            </table>
+        </div>`;
+}
+
+function generateGauge(metric: EvaluationResult): string {
+  const assessment = metric.assessment!;
+  const progress = assessment.targetProgress ?? (metric.passed ? 1 : 0);
+  const tone = metric.passed ? (assessment.status === 'on_target' ? '' : 'warning') : 'failed';
+
+  return `<div class="gauge">
+                            <div class="gauge-track"><div class="gauge-fill ${tone}" style="width: ${(progress * 100).toFixed(0)}%"></div></div>
+                            <span>${describeAssessment(metric)}</span>
+                        </div>`;
+}
+
+/**
+ * Spread of a metric across repeated runs: min–max range, ±1 standard deviation
+ * around the mean, and the threshold limits as dashed lines
+ */
+function generateErrorBar(metric: EvaluationResult): string {
+  const variance = metric.variance!;
+  const limits = [metric.thresholdRange?.min, metric.thresholdRange?.max].filter((l): l is number => l !== undefined);
+  const low = Math.min(variance.min, variance.mean - variance.stdDev, ...limits);
+  const high = Math.max(variance.max, variance.mean + variance.stdDev, ...limits);
+  const padding = (high - low) * 0.1 || Math.abs(variance.mean) * 0.1 || 1;
+  const position = (value: number): number => ((value - low + padding) / (high - low + 2 * padding)) * 100;
+  const span = (from: number, to: number): string => `left: ${position(from).toFixed(1)}%; width: ${(position(to) - position(from)).toFixed(1)}%`;
+
+  return `<div class="error-bar" title="${escapeHtml(formatVariance(metric))}">
+                            <div class="error-bar-track">
+                                <div class="error-bar-range" style="${span(variance.min, variance.max)}"></div>
+                                <div class="error-bar-sigma" style="${span(variance.mean - variance.stdDev, variance.mean + variance.stdDev)}"></div>
+                                <div class="error-bar-mean" style="left: ${position(variance.mean).toFixed(1)}%"></div>
+                                ${limits.map(limit => `<div class="error-bar-limit" style="left: ${position(limit).toFixed(1)}%"></div>`).join('')}
+                            </div>
+                            <span>± ${formatMetricNumber(metric.metric, variance.stdDev)} · ${variance.passedRuns}/${variance.runs} passed</span>
+                        </div>`;
+}
+
+function generateMismatchList(metric: EvaluationResult): string {
+  const mismatches = metric.mismatches ?? [];
+  const listed = mismatches.slice(0, 20).map(m => {
+    const label = m.field ? `${m.key}.${m.field}` : `${m.key} (${m.reason.replace(/_/g, ' ')})`;
+    const values = m.reason === 'field_mismatch'
+      ? `: expected ${escapeHtml(JSON.stringify(m.expected))}, got ${escapeHtml(JSON.stringify(m.actual))}`
+      : '';
+    return `<li>${escapeHtml(label)}${values}</li>`;
+  });
+
+  return `<details class="mismatches">
+                            <summary>${mismatches.length} mismatching record(s)</summary>
+                            <ul>${listed.join('')}</ul>
+                        </details>`;
+}
+
 function generateTextReport(suite: EvaluationSuite): string {
   const { results, overallScore, passed, timestamp, duration } = suite;
   
@@ -515,7 +1621,23 @@ function generateTextReport(suite: EvaluationSuite): string {
   report += `**Generated:** ${timestamp.toISOString()}\n`;
   report += `**Duration:** ${duration}ms\n`;
   report += `**Overall Score:** ${(overallScore * 100).toFixed(1)}%\n`;
-  report += `**Status:** ${passed ? '✅ PASSED' : '❌ FAILED'}\n\n`;
+  if (suite.targetsMet !== undefined) {
+    report += `**Targets Met:** ${suite.targetsMet}/${results.length}\n`;
+  }
+  if (suite.thresholdProfile) {
+    report += `**Threshold Profile:** ${suite.thresholdProfile}\n`;
+  }
+  report += `**Status:** ${passed ? '✅ PASSED' : '❌ FAILED'}\n`;
+  if (suite.blockingFailures && suite.blockingFailures.length > 0) {
+    report += `**Blocking Failures:** ${suite.blockingFailures.join(', ')}\n`;
+  }
+  if (suite.repeat) {
+    report += `**Repeated Runs:** ${suite.repeat} (values are means)\n`;
+  }
+  if (suite.flakyMetrics && suite.flakyMetrics.length > 0) {
+    report += `**Flaky Metrics:** ${suite.flakyMetrics.join(', ')}\n`;
+  }
+  report += '\n';
   
   const categoryGroups = results.reduce((groups, result) => {
     if (!groups[result.category]) groups[result.category] = [];
@@ -524,10 +1646,15 @@ function generateTextReport(suite: EvaluationSuite): string {
   }, {} as Record<string, EvaluationResult[]>);
   
   for (const [category, metrics] of Object.entries(categoryGroups)) {
-    report += `## ${category}\n\n`;
+    const categoryScore = suite.categoryScores?.[category];
+    report += `## ${category}${categoryScore ? ` (${(categoryScore.score * 100).toFixed(1)}%)` : ''}\n\n`;
     for (const metric of metrics) {
-      const status = metric.passed ? '✅' : '❌';
-      report += `- ${status} **${metric.metric.replace(/_/g, ' ')}**: ${formatMetricValue(metric)} (threshold: ${formatThreshold(metric)})\n`;
+      const status = metric.passed ? '✅' : metric.blocking ? '⛔' : '❌';
+      const position = metric.assessment ? `; ${describeAssessment(metric)}` : '';
+      report += `- ${status} **${metric.metric.replace(/_/g, ' ')}**: ${formatMetricValue(metric)} (${formatThresholdRange(metric)}${position})\n`;
+      if (metric.variance) {
+        report += `  - ${metric.variance.flaky ? '🎲 Flaky: ' : ''}${formatVariance(metric)}\n`;
+      }
       if (metric.details) {
         report += `  - ${metric.details}\n`;
       }
@@ -535,31 +1662,16 @@ function generateTextReport(suite: EvaluationSuite): string {
     report += '\n';
   }
   
-  return report;
-}
-
-function formatMetricValue(metric: EvaluationResult): string {
-  if (metric.metric.includes('cost')) {
-    return `$${metric.value.toFixed(3)}`;
-  } else if (metric.metric.includes('rate') || metric.metric.includes('ratio') || metric.metric.includes('accuracy') || metric.metric.includes('coverage')) {
-    return `${(metric.value * 100).toFixed(1)}%`;
-  } else if (metric.metric.includes('time')) {
-    return `${metric.value.toFixed(2)}s`;
-  } else {
-    return metric.value.toString();
-  }
-}
-
-function formatThreshold(metric: EvaluationResult): string {
-  if (metric.metric.includes('cost')) {
-    return `$${metric.threshold.toFixed(3)}`;
-  } else if (metric.metric.includes('rate') || metric.metric.includes('ratio') || metric.metric.includes('accuracy') || metric.metric.includes('coverage')) {
-    return `${(metric.threshold * 100).toFixed(1)}%`;
-  } else if (metric.metric.includes('time')) {
-    return `${metric.threshold.toFixed(2)}s`;
-  } else {
-    return metric.threshold.toString();
+  const timings = summarizeEvaluatorTimings(results).slice(0, SLOWEST_EVALUATORS_SHOWN);
+  if (timings.length > 0) {
+    report += `## Slowest Evaluators\n\n`;
+    for (const timing of timings) {
+      report += `- ${timing.evaluator}: ${formatElapsed(timing.duration)}\n`;
+    }
+    report += '\n';
   }
+  
+  return report;
 }
 
 function displaySummary(suite: EvaluationSuite): void {
@@ -571,14 +1683,36 @@ function displaySummary(suite: EvaluationSuite): void {
   
   console.log(`${chalk.bold('Overall Score:')} ${(overallScore * 100).toFixed(1)}%`);
   console.log(`${chalk.bold('Metrics Passed:')} ${passedCount}/${results.length}`);
+  if (suite.targetsMet !== undefined) {
+    console.log(`${chalk.bold('Targets Met:')} ${suite.targetsMet}/${results.length}`);
+  }
   console.log(`${chalk.bold('Status:')} ${passed ? chalk.green('PASSED') : chalk.red('FAILED')}`);
   
+  const categoryScores = Object.entries(suite.categoryScores ?? {});
+  if (categoryScores.length > 1) {
+    console.log(chalk.bold('\n📂 Category Scores:'));
+    for (const [category, score] of categoryScores) {
+      console.log(`  • ${category}: ${(score.score * 100).toFixed(1)}% (${score.passed}/${score.total} passed)`);
+    }
+  }
+  
+  if (suite.blockingFailures && suite.blockingFailures.length > 0) {
+    console.log(chalk.red(`\n⛔ Blocking metrics failed: ${suite.blockingFailures.join(', ')}`));
+  }
+  
+  if (suite.flakyMetrics && suite.flakyMetrics.length > 0) {
+    console.log(chalk.yellow(`\n🎲 Flaky Metrics (pass/fail changed across ${suite.repeat} runs):`));
+    for (const metric of results.filter(r => r.variance?.flaky)) {
+      console.log(chalk.yellow(`  • ${metric.metric}: ${formatMetricValue(metric)} ${formatVariance(metric)}`));
+    }
+  }
+  
   // Show failed metrics
   const failed = results.filter(r => !r.passed);
   if (failed.length > 0) {
     console.log(chalk.red('\n❌ Failed Metrics:'));
     for (const metric of failed) {
-      console.log(chalk.red(`  • ${metric.metric}: ${formatMetricValue(metric)} (need ${formatThreshold(metric)})`));
+      console.log(chalk.red(`  • ${metric.metric}: ${formatMetricValue(metric)} (need ${formatThresholdRange(metric)})`));
     }
   }
   
@@ -598,12 +1732,64 @@ function displaySummary(suite: EvaluationSuite): void {
       console.log(chalk.green(`  • ${metric.metric}: ${formatMetricValue(metric)}`));
     }
   }
+  
+  // Show where the time went
+  const slowest = summarizeEvaluatorTimings(results).slice(0, 3);
+  if (slowest.length > 1) {
+    console.log(chalk.gray('\n⏱️  Slowest Evaluators:'));
+    for (const timing of slowest) {
+      console.log(chalk.gray(`  • ${timing.evaluator}: ${formatElapsed(timing.duration)}`));
+    }
+  }
+}
+
+function describeRun(run: EvaluationRun): string {
+  const git = [run.git.branch, run.git.commit?.slice(0, 7)].filter(Boolean).join('@');
+  return `${run.id} (${run.recordedAt.toISOString()}${git ? `, ${git}` : ''})`;
+}
+
+function displayMetricChanges(changes: MetricChange[], base: EvaluationRun, current: EvaluationRun): void {
+  console.log(chalk.bold('\n🔀 Metric Changes'));
+  console.log(chalk.gray(`From: ${describeRun(base)}`));
+  console.log(chalk.gray(`To:   ${describeRun(current)}`));
+  console.log(chalk.gray('─'.repeat(50)));
+  
+  const icons: Record<MetricChange['change'], string> = {
+    improved: '📈',
+    regressed: '📉',
+    unchanged: '➖',
+    added: '🆕',
+    removed: '🗑️ ',
+  };
+  
+  for (const change of changes) {
+    const name = change.evaluator ? `${change.evaluator} › ${change.metric}` : change.metric;
+    const before = change.before !== undefined ? formatMetricNumber(change.metric, change.before) : '—';
+    const after = change.after !== undefined ? formatMetricNumber(change.metric, change.after) : '—';
+    const relative = change.relativeChange !== undefined ? ` (${formatRelativeChange(change.relativeChange)})` : '';
+    const line = `${icons[change.change]} ${name}: ${before} → ${after}${relative}`;
+    
+    if (change.exceedsTolerance) {
+      console.log(chalk.red(`${line}  ${change.change === 'removed' ? 'no longer reported' : 'exceeds tolerance'}`));
+    } else if (change.change === 'regressed') {
+      console.log(chalk.yellow(line));
+    } else if (change.change === 'improved') {
+      console.log(chalk.green(line));
+    } else {
+      console.log(chalk.gray(line));
+    }
+  }
+  
+  const improved = changes.filter(c => c.change === 'improved').length;
+  const regressed = changes.filter(c => c.change === 'regressed').length;
+  console.log(chalk.gray('─'.repeat(50)));
+  console.log(`${chalk.bold('Improved:')} ${improved}  ${chalk.bold('Regressed:')} ${regressed}  ${chalk.bold('Unchanged:')} ${changes.length - improved - regressed}`);
 }
 
 /**
  * Simple, elegant ROI results display
  */
-async function displaySimpleROIResults(roiMetrics: any, _baseline: any): Promise<void> {
+async function displaySimpleROIResults(roiMetrics: any, _baseline: any, inputs?: MeasuredInputs): Promise<void> {
   const { financial, productivity } = roiMetrics;
   
   console.log('');
@@ -628,6 +1814,15 @@ async function displaySimpleROIResults(roiMetrics: any, _baseline: any): Promise
     console.log(`🤔 Break-even is ${chalk.bold(financial.breakEvenMonths + ' months')}. Consider if this is worth it.`);
   }
 
+  // How sure we can be, from the simulation
+  if (roiMetrics.simulation) {
+    const { lower, upper, confidenceLevel } = roiMetrics.confidenceInterval;
+    const simulation: ROISimulation = roiMetrics.simulation;
+    console.log(`🎲 In ${(confidenceLevel * 100).toFixed(0)}% of ${simulation.iterations.toLocaleString()} simulated outcomes, ROI lands between ${chalk.bold(lower.toFixed(0) + '%')} and ${chalk.bold(upper.toFixed(0) + '%')}.`);
+    console.log(chalk.gray(`   Chance of breaking even: ${formatBreakEvenOdds(simulation)}`));
+    console.log(chalk.gray(`   Re-run with --seed ${simulation.seed} to reproduce.`));
+  }
+
   // What's working
   const savings = financial.cumulativeSavings;
   if (savings > 1000) {
@@ -636,7 +1831,7 @@ async function displaySimpleROIResults(roiMetrics: any, _baseline: any): Promise
 
   const hoursaved = productivity.timeSavedHours;
   if (hoursaved > 0) {
-    console.log(`⏱️  You've saved ${chalk.green(hoursaved + ' hours')} of manual work.`);
+    console.log(`⏱️  You've saved ${chalk.green(hoursaved + ' hours')} of manual work, worth ${chalk.green('$' + Math.round(financial.operationalCostReduction).toLocaleString())} at $${(financial.hourlyRate ?? DEFAULT_HOURLY_RATE).toFixed(2)}/hour.`);
   }
 
   // Team adoption insight
@@ -646,44 +1841,565 @@ async function displaySimpleROIResults(roiMetrics: any, _baseline: any): Promise
     console.log(`\n${chalk.green('🎉 Great!')} ${productivity.employeeAdoptionRate.toFixed(0)}% of your team is actively using this.`);
   }
 
-  console.log(chalk.gray('\n─'));
-  console.log(chalk.gray('Want details? Run: quallaa evaluators report'));
-}
+  if (inputs) {
+    const { measured, estimated } = describeInputSources(inputs);
+    console.log('');
+    if (measured.length > 0) console.log(chalk.gray(`Measured by evaluators: ${measured.join(', ')}`));
+    if (estimated.length > 0) console.log(chalk.gray(`Estimated: ${estimated.join(', ')}`));
+  }
+
+  console.log(chalk.gray('\n─'));
+  console.log(chalk.gray('Want details? Run: quallaa evaluators report'));
+}
+
+const ROI_INPUT_LABELS: Record<keyof ROIInputs, string> = {
+  monthsInOperation: 'months in operation',
+  currentSaasSpend: 'SaaS spend',
+  maintenanceCosts: 'maintenance costs',
+  currentProcessingHours: 'manual hours',
+  tasksAutomated: 'tasks automated',
+  employeeAdoptionRate: 'team adoption',
+  currentProcessingTime: 'processing time',
+  currentAccuracy: 'accuracy',
+  currentErrorRate: 'error rate',
+  currentComplianceScore: 'compliance',
+  currentCustomerSatisfaction: 'customer satisfaction',
+};
+
+/**
+ * One line per baseline field that changed, old value to new
+ */
+function displayBaselineChanges(changes: BaselineFieldChange[], indent: string = ''): void {
+  for (const change of changes) {
+    console.log(`${indent}${change.field}: ${formatBaselineValue(change.field, change.from)} → ${formatBaselineValue(change.field, change.to)}`);
+  }
+}
+
+function formatBaselineValue(field: string, value: unknown): string {
+  if (value === undefined || value === null) return 'not set';
+  if (field === 'labourCostModel') {
+    const model = value as LabourCostModel;
+    return `${model.roles.length} role(s), ${formatDollars(blendedHourlyRate(model))}/hour blended`;
+  }
+  if (typeof value !== 'number') return String(value);
+  if (field === 'developmentCost' || field === 'currentSaasSpend') return formatDollars(value);
+  if (['errorRateBaseline', 'accuracyBaseline', 'complianceScore'].includes(field)) return `${(value * 100).toFixed(1)}%`;
+  return value.toLocaleString();
+}
+
+/**
+ * Split snapshot inputs into measured and estimated labels
+ */
+function describeInputSources(inputs: MeasuredInputs): { measured: string[]; estimated: string[] } {
+  const measured: string[] = [];
+  const estimated: string[] = [];
+  for (const [input, source] of Object.entries(inputs) as Array<[keyof ROIInputs, ROIInputSource | undefined]>) {
+    if (!source) continue;
+    if (source.source === 'measured') {
+      measured.push(`${ROI_INPUT_LABELS[input]} (${source.metric})`);
+    } else {
+      estimated.push(source.metric ? `${ROI_INPUT_LABELS[input]} (from ${source.metric})` : ROI_INPUT_LABELS[input]);
+    }
+  }
+  return { measured, estimated };
+}
+
+/**
+ * A month's cost items and total, with any source that could not be read
+ */
+function displayCostCollection(collection: CostCollection): void {
+  const { costs, failures } = collection;
+  console.log(chalk.gray(`Running costs for ${costs.month}: ${formatDollarsAndCents(costs.total)}`));
+  for (const item of costs.items) {
+    console.log(chalk.gray(`  • ${describeCostItem(item)}: ${formatDollarsAndCents(item.amount)}${item.source === 'estimated' ? ' (estimate)' : ''}`));
+  }
+  for (const failure of failures) {
+    console.log(chalk.yellow(`  ⚠️  Could not read ${failure.source} costs: ${failure.error}${failure.reused ? ' (using the last recorded month)' : ''}`));
+  }
+}
+
+function displayAlertRun(result: AlertRunResult): void {
+  if (result.firing.length === 0) {
+    console.log(chalk.green('✓ No alert rules firing on the latest check'));
+    return;
+  }
+
+  for (const alert of result.firing) {
+    const icon = alert.severity === 'critical' ? '🚨' : '⚠️ ';
+    const repeat = result.fresh.includes(alert) ? '' : chalk.gray(' (already notified)');
+    console.log(`${icon} ${chalk.bold(alert.title)}${repeat}`);
+    console.log(chalk.gray(`   ${alert.message}`));
+  }
+
+  if (result.fresh.length === 0) {
+    console.log(chalk.gray('\nNothing new to send; an alert notifies again once it has cleared and fires anew.'));
+  } else if (result.dryRun) {
+    console.log(chalk.yellow(`\nWould send ${result.fresh.length} alert(s) to: ${result.deliveries.map(delivery => delivery.channel).join(', ')}`));
+  } else {
+    for (const delivery of result.deliveries) {
+      console.log(delivery.delivered
+        ? chalk.green(`✓ Sent to ${delivery.channel}`)
+        : chalk.red(`✗ Could not send to ${delivery.channel}: ${delivery.error}`));
+    }
+  }
+}
+
+/**
+ * Terminal table of inputs ranked by ROI swing, with a bar per swing
+ */
+function displaySensitivity(analysis: SensitivityAnalysis): void {
+  const widest = Math.max(...analysis.results.map(result => result.swing));
+  const rows = analysis.results.map(result => ({
+    result,
+    range: `${formatSensitivityValue(result.low.value, result.unit)} → ${formatSensitivityValue(result.high.value, result.unit)}`,
+    roi: `${result.low.roi.toFixed(0)}% → ${result.high.roi.toFixed(0)}%`,
+  }));
+  const labelWidth = Math.max(...rows.map(row => row.result.label.length));
+  const rangeWidth = Math.max(...rows.map(row => row.range.length));
+  const roiWidth = Math.max(...rows.map(row => row.roi.length));
+
+  console.log(`ROI today: ${chalk.bold(analysis.baseROI.toFixed(1) + '%')}. Each input moves ±${(analysis.spread * 100).toFixed(0)}% unless given a --range.\n`);
+  console.log(chalk.gray(`${'Input'.padEnd(labelWidth)}  ${'Range'.padEnd(rangeWidth)}  ${'ROI'.padEnd(roiWidth)}  Swing`));
+  console.log(chalk.gray('─'.repeat(labelWidth + rangeWidth + roiWidth + 6 + TORNADO_BAR_WIDTH + 8)));
+
+  for (const { result, range, roi } of rows) {
+    if (result.swing === 0) {
+      console.log(chalk.gray(`${result.label.padEnd(labelWidth)}  ${range.padEnd(rangeWidth)}  ${roi.padEnd(roiWidth)}  no effect on ROI`));
+      continue;
+    }
+    const bar = '█'.repeat(Math.max(1, Math.round((result.swing / widest) * TORNADO_BAR_WIDTH)));
+    console.log(`${result.label.padEnd(labelWidth)}  ${range.padEnd(rangeWidth)}  ${roi.padEnd(roiWidth)}  ${chalk.cyan(bar)} ${result.swing.toFixed(0)} pts`);
+  }
+
+  const zeroInputs = analysis.results.filter(result => result.baseValue === 0 && result.swing === 0);
+  if (zeroInputs.length > 0) {
+    console.log(chalk.gray(`\n${zeroInputs.map(result => result.key).join(', ')} ${zeroInputs.length === 1 ? 'is' : 'are'} zero today, so a ± spread does not move ${zeroInputs.length === 1 ? 'it' : 'them'}. Try --range ${zeroInputs[0].key}=0:500`));
+  }
+}
+
+function formatBreakEven(forecast: ScenarioForecast): string {
+  return forecast.breakEvenDate
+    ? `${forecast.breakEvenDate.toLocaleDateString()} (month ${forecast.breakEvenMonth})`
+    : `not within ${forecast.months.length} months`;
+}
+
+/**
+ * One line per scenario, then how the latest check compares with each
+ */
+function displayForecastSummary(forecasts: ScenarioForecast[], comparisons: ForecastComparison[][]): void {
+  const nameWidth = Math.max(8, ...forecasts.map(forecast => forecast.scenario.length));
+  console.log(chalk.gray(`${'Scenario'.padEnd(nameWidth)}  ${'Break-even'.padEnd(24)}  ${'Net savings'.padStart(12)}  ROI at horizon`));
+  console.log(chalk.gray('─'.repeat(nameWidth + 58)));
+
+  for (const forecast of forecasts) {
+    const horizon = `${forecast.finalROI.toFixed(0)}% after ${forecast.months.length} mo`;
+    console.log(`${forecast.scenario.padEnd(nameWidth)}  ${formatBreakEven(forecast).padEnd(24)}  ${formatDollars(forecast.cumulativeSavings).padStart(12)}  ${horizon}`);
+  }
+
+  const latest = comparisons.map(scenarioComparisons => scenarioComparisons[scenarioComparisons.length - 1]);
+  if (latest[0]) {
+    console.log(`\nLatest check: ${chalk.bold(latest[0].actualROI.toFixed(1) + '%')} ROI after ${latest[0].monthsInOperation.toFixed(1)} months`);
+    forecasts.forEach((forecast, index) => {
+      console.log(`  ${formatForecastDifference(latest[index])} vs ${forecast.scenario} (forecast ${latest[index].forecastROI.toFixed(1)}%)`);
+    });
+  } else {
+    console.log(chalk.gray('\nNo checks yet to compare. Run: quallaa evaluators check'));
+  }
+}
+
+/**
+ * Month-by-month table for one scenario, with actual checks against it
+ */
+function displayScenarioForecast(forecast: ScenarioForecast, comparisons: ForecastComparison[]): void {
+  console.log(`${chalk.bold(forecast.scenario)}: break-even ${formatBreakEven(forecast)}\n`);
+  console.log(chalk.gray(`${'Month'.padEnd(7)}${'Adoption'.padStart(9)}${'Hours'.padStart(8)}${'SaaS'.padStart(10)}${'Labour'.padStart(10)}${'Net'.padStart(10)}${'Cumulative'.padStart(12)}${'ROI'.padStart(9)}`));
+  for (const month of forecast.months) {
+    const row = `${String(month.month).padEnd(7)}${`${(month.adoptionRate * 100).toFixed(0)}%`.padStart(9)}${month.hoursSaved.toFixed(0).padStart(8)}` +
+      `${formatDollars(month.saasSavings).padStart(10)}${formatDollars(month.labourSavings).padStart(10)}${formatDollars(month.netSavings).padStart(10)}` +
+      `${formatDollars(month.cumulativeSavings).padStart(12)}${`${month.roi.toFixed(0)}%`.padStart(9)}`;
+    console.log(month.month === forecast.breakEvenMonth ? chalk.green(row) : row);
+  }
+
+  if (comparisons.length > 0) {
+    console.log(chalk.cyan('\nActual vs forecast:'));
+    for (const comparison of comparisons) {
+      console.log(`  ${comparison.timestamp.toLocaleDateString()} (month ${comparison.monthsInOperation.toFixed(1)}): ${comparison.actualROI.toFixed(1)}% actual, ${comparison.forecastROI.toFixed(1)}% forecast, ${formatForecastDifference(comparison)}`);
+    }
+  }
+}
+
+function formatForecastDifference(comparison: ForecastComparison): string {
+  const points = `${Math.abs(comparison.difference).toFixed(1)} pts`;
+  return comparison.difference >= 0 ? chalk.green(`▲ ${points} ahead`) : chalk.red(`▼ ${points} behind`);
+}
+
+/**
+ * Standalone forecast page: ROI by month per scenario as inline SVG lines, actual checks as dots
+ */
+function generateForecastReport(forecasts: ScenarioForecast[], comparisons: ForecastComparison[][]): string {
+  const colors = ['#ef4444', '#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#64748b'];
+  const width = 800;
+  const height = 360;
+  const margin = { top: 20, right: 20, bottom: 40, left: 60 };
+  const actuals = comparisons[0] ?? [];
+  const maxMonth = Math.max(...forecasts.map(forecast => forecast.months.length), ...actuals.map(actual => Math.ceil(actual.monthsInOperation)));
+  const rois = forecasts.flatMap(forecast => forecast.months.map(month => month.roi)).concat(actuals.map(actual => actual.actualROI), -100, 0);
+  const minROI = Math.min(...rois);
+  const maxROI = Math.max(...rois);
+  const x = (month: number): number => margin.left + (month / maxMonth) * (width - margin.left - margin.right);
+  const y = (roi: number): number => margin.top + ((maxROI - roi) / (maxROI - minROI || 1)) * (height - margin.top - margin.bottom);
+
+  const lines = forecasts.map((forecast, index) => {
+    const points = [[0, -100], ...forecast.months.map(month => [month.month, month.roi])]
+      .map(([month, roi]) => `${x(month).toFixed(1)},${y(roi).toFixed(1)}`)
+      .join(' ');
+    return `<polyline points="${points}" fill="none" stroke="${colors[index % colors.length]}" stroke-width="2" />`;
+  }).join('\n                ');
+  const dots = actuals.map(actual =>
+    `<circle cx="${x(actual.monthsInOperation).toFixed(1)}" cy="${y(actual.actualROI).toFixed(1)}" r="5" fill="#0f172a"><title>${actual.timestamp.toLocaleDateString()}: ${actual.actualROI.toFixed(1)}%</title></circle>`
+  ).join('\n                ');
+  const monthTicks = Array.from({ length: Math.floor(maxMonth / 6) + 1 }, (_, index) => index * 6).map(month =>
+    `<text x="${x(month).toFixed(1)}" y="${height - 15}" text-anchor="middle">${month}</text>`
+  ).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>ROI Forecast - Quallaa Analytics</title>
+    <style>
+        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #f8fafc; color: #1e293b; padding: 20px; }
+        .container { max-width: 900px; margin: 0 auto; }
+        .card { background: white; padding: 30px; border-radius: 12px; box-shadow: 0 1px 3px rgba(0,0,0,0.1); margin-bottom: 20px; }
+        svg { width: 100%; height: auto; font-size: 12px; fill: #64748b; }
+        table { width: 100%; border-collapse: collapse; }
+        th, td { text-align: left; padding: 8px; border-bottom: 1px solid #f1f5f9; }
+        .swatch { display: inline-block; width: 12px; height: 12px; border-radius: 2px; margin-right: 6px; }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <h1>🔮 ROI Forecast</h1>
+        <div class="card">
+            <svg viewBox="0 0 ${width} ${height}" role="img" aria-label="Forecast ROI by month with actual checks">
+                <line x1="${margin.left}" y1="${y(0).toFixed(1)}" x2="${width - margin.right}" y2="${y(0).toFixed(1)}" stroke="#0f172a" stroke-dasharray="4 3" />
+                <text x="${margin.left - 8}" y="${y(0).toFixed(1)}" text-anchor="end">0%</text>
+                <text x="${margin.left - 8}" y="${y(maxROI).toFixed(1)}" text-anchor="end">${maxROI.toFixed(0)}%</text>
+                <text x="${margin.left - 8}" y="${y(minROI).toFixed(1)}" text-anchor="end">${minROI.toFixed(0)}%</text>
+                ${monthTicks}
+                <text x="${(width / 2).toFixed(0)}" y="${height}" text-anchor="middle">Months since baseline</text>
+                ${lines}
+                ${dots}
+            </svg>
+        </div>
+        <div class="card">
+            <table>
+                <tr><th>Scenario</th><th>Break-even</th><th>Net savings</th><th>ROI at horizon</th><th>Latest actual vs forecast</th></tr>
+                ${forecasts.map((forecast, index) => {
+                  const latest = comparisons[index][comparisons[index].length - 1];
+                  return `<tr>
+                    <td><span class="swatch" style="background: ${colors[index % colors.length]}"></span>${escapeHtml(forecast.scenario)}</td>
+                    <td>${formatBreakEven(forecast)}</td>
+                    <td>${formatDollars(forecast.cumulativeSavings)}</td>
+                    <td>${forecast.finalROI.toFixed(1)}%</td>
+                    <td>${latest ? `${latest.difference >= 0 ? '+' : ''}${latest.difference.toFixed(1)} pts` : '–'}</td>
+                </tr>`;
+                }).join('')}
+            </table>
+        </div>
+    </div>
+</body>
+</html>`;
+}
+
+/**
+ * Generate comprehensive ROI dashboard from historical data
+ */
+async function generateROIDashboard(
+  baseline: any,
+  snapshots: any[],
+  format: string,
+  benchmarks: BenchmarkComparison,
+  recommendations: Recommendation[],
+  sensitivity?: SensitivityAnalysis,
+  trends: ROITrend[] = [],
+  costs: MonthlyCosts[] = [],
+  redact: boolean = false
+): Promise<string> {
+  const latest = snapshots[snapshots.length - 1];
+  const formatAmount = amountFormatter(redact);
+
+  if (format === 'html') {
+    return generateHTMLDashboard(baseline, snapshots, latest, benchmarks, recommendations, sensitivity, trends, costs, redact, formatAmount);
+  } else {
+    return generateTextDashboard(baseline, snapshots, latest, benchmarks, recommendations, trends, costs, formatAmount);
+  }
+}
+
+/**
+ * Generate a self-contained HTML dashboard with interactive charts and statistical analysis
+ * The checks behind it are embedded for auditing; when redacting, their dollar amounts are removed and
+ * `formatAmount` masks every amount written on the page.
+ */
+function generateHTMLDashboard(
+  baseline: any,
+  snapshots: any[],
+  latest: any,
+  benchmarks: BenchmarkComparison,
+  recommendations: Recommendation[],
+  sensitivity?: SensitivityAnalysis,
+  trends: ROITrend[] = [],
+  costs: MonthlyCosts[] = [],
+  redact: boolean = false,
+  formatAmount: AmountFormatter = amountFormatter(redact)
+): string {
+  const data = buildReportData(snapshots, { redact });
+  const latestMetrics = latest.metrics;
+  const payback = findPlacement(benchmarks, 'paybackMonths');
+  const adoption = findPlacement(benchmarks, 'adoptionRate');
+
+  const content = `
+        <!-- Header -->
+        <div class="header">
+            <h1 class="title">📊 ROI Analytics Dashboard</h1>
+            <p class="subtitle">Multi-dimensional business impact analysis</p>
+            <p style="color: #64748b; font-size: 0.9rem;">
+                Generated: ${new Date().toLocaleDateString()} | 
+                Analysis Period: ${baseline.establishedAt} - ${latest.timestamp} |
+                Snapshots: ${snapshots.length}
+            </p>
+            ${redact ? '<p class="redacted-note">Dollar amounts are redacted. Charts show them as a percentage of the development cost.</p>' : ''}
+        </div>
+
+        <!-- KPIs -->
+        <div class="kpis">
+            <div class="kpi-card">
+                <div class="kpi-value ${latestMetrics.financial.currentROI >= 0 ? 'roi-positive' : 'roi-negative'}">
+                    ${latestMetrics.financial.currentROI.toFixed(1)}%
+                </div>
+                <div class="kpi-label">Overall ROI</div>
+                <div class="kpi-trend">
+                    CI: ${latestMetrics.confidenceInterval.lower.toFixed(1)}% - ${latestMetrics.confidenceInterval.upper.toFixed(1)}%
+                </div>
+            </div>
+            
+            <div class="kpi-card">
+                <div class="kpi-value ${payback.percentile >= 50 ? 'roi-positive' : 'roi-negative'}">
+                    ${latestMetrics.financial.breakEvenMonths}mo
+                </div>
+                <div class="kpi-label">Break-Even Period</div>
+                <div class="kpi-trend ${payback.percentile >= 50 ? 'trend-up' : 'trend-down'}">
+                    Peer median: ${formatBenchmarkValue('paybackMonths', payback.peers.p50)}
+                </div>
+            </div>
+            
+            ${latestMetrics.financial.npv !== undefined ? `
+            <div class="kpi-card">
+                <div class="kpi-value ${latestMetrics.financial.npv >= 0 ? 'roi-positive' : 'roi-negative'}">
+                    ${formatAmount(latestMetrics.financial.npv)}
+                </div>
+                <div class="kpi-label">NPV at ${(latestMetrics.financial.discountRate * 100).toFixed(1)}%</div>
+                <div class="kpi-trend">
+                    IRR ${latestMetrics.financial.irr !== undefined ? `${latestMetrics.financial.irr.toFixed(1)}%` : 'n/a'} · discounted payback ${formatPayback(latestMetrics.financial.discountedPaybackMonths)}
+                </div>
+            </div>` : ''}
+            
+            <div class="kpi-card">
+                <div class="kpi-value roi-positive">
+                    ${formatAmount(latestMetrics.financial.cumulativeSavings)}
+                </div>
+                <div class="kpi-label">Total Savings</div>
+                <div class="kpi-trend">
+                    ${latestMetrics.productivity.timeSavedHours.toLocaleString()} hours saved
+                </div>
+            </div>
+            
+            <div class="kpi-card">
+                <div class="kpi-value ${adoption.percentile >= 50 ? 'roi-positive' : 'roi-neutral'}">
+                    ${latestMetrics.productivity.employeeAdoptionRate.toFixed(1)}%
+                </div>
+                <div class="kpi-label">Team Adoption</div>
+                <div class="kpi-trend ${adoption.percentile >= 50 ? 'trend-up' : 'trend-down'}">
+                    Peer median: ${formatBenchmarkValue('adoptionRate', adoption.peers.p50)}
+                </div>
+            </div>
+        </div>
+
+        <!-- Period filter -->
+        <div class="filters">
+            <span>Period:</span>
+            <button type="button" data-months="0" class="active">All</button>
+            <button type="button" data-months="3">Last 3 months</button>
+            <button type="button" data-months="6">Last 6 months</button>
+            <button type="button" data-months="12">Last 12 months</button>
+            <label>From <input type="date" id="period-from"></label>
+            <label>To <input type="date" id="period-to"></label>
+            <span id="period-summary"></span>
+        </div>
+
+        <!-- Charts -->
+        <div class="charts">
+            <div class="chart-card">
+                <h3 class="chart-title">ROI Trend</h3>
+                <label class="chart-toggle"><input type="checkbox" id="show-band" checked> Confidence band</label>
+                <svg id="roi-chart" viewBox="0 0 800 320" role="img" aria-label="ROI at each check with its confidence band"></svg>
+            </div>
+            
+            <div class="chart-card">
+                <h3 class="chart-title">Break-Even Curve</h3>
+                <svg id="break-even-chart" viewBox="0 0 800 320" role="img" aria-label="Net position by month in operation, projected to break-even"></svg>
+            </div>
+        </div>
+
+        <div class="chart-card" style="margin-bottom: 30px;">
+            <h3 class="chart-title">Savings Breakdown</h3>
+            <p class="chart-legend"><span class="swatch saas"></span>SaaS replaced <span class="swatch operational"></span>Hours saved <span class="swatch maintenance"></span>Maintenance</p>
+            <svg id="savings-chart" viewBox="0 0 800 320" role="img" aria-label="Savings and maintenance to date at each check"></svg>
+        </div>
+
+        <div class="chart-card" style="margin-bottom: 30px;">
+            <h3 class="chart-title">Checks</h3>
+            <table class="checks">
+                <thead><tr><th>Date</th><th>ROI</th><th>Confidence interval</th><th>Break-even</th><th>Net position</th><th>Snapshot</th></tr></thead>
+                <tbody id="checks-body"></tbody>
+            </table>
+        </div>
+
+        ${sensitivity ? generateTornadoChart(sensitivity, formatAmount) : ''}
+
+        ${trends.length > 0 ? generateTrendTable(trends, formatAmount) : ''}
+
+        <!-- Detailed Metrics -->
+        <div class="metrics-grid">
+            <div class="metric-category">
+                <h4 class="category-title">💰 Financial Impact</h4>
+                <div class="metric-item">
+                    <span class="metric-name">SaaS Savings</span>
+                    <span class="metric-value">${formatAmount(latestMetrics.financial.saasReplacementSavings)}</span>
+                </div>
+                <div class="metric-item">
+                    <span class="metric-name">Operational Savings</span>
+                    <span class="metric-value">${formatAmount(latestMetrics.financial.operationalCostReduction)}</span>
+                </div>
+                <div class="metric-item">
+                    <span class="metric-name">Labour Rate</span>
+                    <span class="metric-value">${formatAmount(latestMetrics.financial.hourlyRate ?? DEFAULT_HOURLY_RATE, true)}/hr</span>
+                </div>
+                ${(latestMetrics.financial.labourSavings ?? []).map((role: LabourSavings) => `
+                <div class="metric-item">
+                    <span class="metric-name">&nbsp;&nbsp;${escapeHtml(role.role)} (${formatAmount(role.hourlyRate, true)}/hr)</span>
+                    <span class="metric-value">${formatAmount(role.savings)}</span>
+                </div>`).join('')}
+                <div class="metric-item">
+                    <span class="metric-name">Maintenance Costs</span>
+                    <span class="metric-value">(${formatAmount(latestMetrics.financial.maintenanceCosts)})</span>
+                </div>
+                ${latestMetrics.financial.npv !== undefined ? `
+                <div class="metric-item">
+                    <span class="metric-name">NPV (${(latestMetrics.financial.discountRate * 100).toFixed(1)}%/yr)</span>
+                    <span class="metric-value">${formatAmount(latestMetrics.financial.npv)}</span>
+                </div>
+                <div class="metric-item">
+                    <span class="metric-name">IRR (annualised, to date)</span>
+                    <span class="metric-value">${latestMetrics.financial.irr !== undefined ? `${latestMetrics.financial.irr.toFixed(1)}%` : 'n/a'}</span>
+                </div>
+                <div class="metric-item">
+                    <span class="metric-name">Discounted Payback</span>
+                    <span class="metric-value">${formatPayback(latestMetrics.financial.discountedPaybackMonths)}</span>
+                </div>` : ''}
+                <div class="metric-item">
+                    <span class="metric-name">Net Benefit</span>
+                    <span class="metric-value">${formatAmount(latestMetrics.financial.cumulativeSavings - latestMetrics.financial.maintenanceCosts)}</span>
+                </div>
+            </div>
+            
+            ${latestMetrics.simulation ? generateSimulationSummary(latestMetrics.simulation) : ''}
+            
+            <div class="metric-category">
+                <h4 class="category-title">⚡ Productivity Gains</h4>
+                <div class="metric-item">
+                    <span class="metric-name">Time Saved</span>
+                    <span class="metric-value">${latestMetrics.productivity.timeSavedHours.toLocaleString()} hrs</span>
+                </div>
+                <div class="metric-item">
+                    <span class="metric-name">Tasks Automated</span>
+                    <span class="metric-value">${latestMetrics.productivity.tasksAutomated}</span>
+                </div>
+                <div class="metric-item">
+                    <span class="metric-name">Error Reduction</span>
+                    <span class="metric-value">${latestMetrics.productivity.errorReductionRate.toFixed(1)}%</span>
+                </div>
+                <div class="metric-item">
+                    <span class="metric-name">Processing Time ↓</span>
+                    <span class="metric-value">${latestMetrics.productivity.processingTimeReduction.toFixed(1)}%</span>
+                </div>
+            </div>
+            
+            <div class="metric-category">
+                <h4 class="category-title">🎯 Quality Improvements</h4>
+                <div class="metric-item">
+                    <span class="metric-name">Defect Reduction</span>
+                    <span class="metric-value">${latestMetrics.quality.defectReduction.toFixed(1)}%</span>
+                </div>
+                <div class="metric-item">
+                    <span class="metric-name">Accuracy Improvement</span>
+                    <span class="metric-value">${latestMetrics.quality.accuracyImprovement.toFixed(1)}%</span>
+                </div>
+                <div class="metric-item">
+                    <span class="metric-name">Compliance ↑</span>
+                    <span class="metric-value">${latestMetrics.quality.complianceImprovement.toFixed(1)}%</span>
+                </div>
+                <div class="metric-item">
+                    <span class="metric-name">Customer Satisfaction</span>
+                    <span class="metric-value">${latestMetrics.quality.customerSatisfactionDelta >= 0 ? '+' : ''}${latestMetrics.quality.customerSatisfactionDelta.toFixed(1)} pts</span>
+                </div>
+            </div>
+        </div>
+
+        ${costs.length > 0 ? generateCostBreakdown(costs, formatAmount) : ''}
 
-/**
- * Generate comprehensive ROI dashboard from historical data
- */
-async function generateROIDashboard(baseline: any, snapshots: any[], format: string): Promise<string> {
-  const latest = snapshots[snapshots.length - 1];
+        <!-- Benchmarks -->
+        <div class="benchmark-section">
+            <h3 class="benchmark-title">📊 Compared With ${escapeHtml(describeBenchmarkPeers(benchmarks))}</h3>
+            ${benchmarks.provenance?.illustrative ? `
+            <p style="color: #b45309; margin-bottom: 12px;">⚠️ These peer ranges are illustrative, not measured from real projects. Add your own in evaluators/benchmarks.json.</p>` : ''}
+            <div class="benchmark-grid">
+                ${benchmarks.placements.map(placement => `
+                <div class="benchmark-item ${placement.percentile >= 50 ? 'benchmark-met' : 'benchmark-missed'}">
+                    <div style="font-weight: 600; font-size: 1.1rem;">${BENCHMARK_METRICS.find(entry => entry.metric === placement.metric)?.label}</div>
+                    <div>${formatBenchmarkValue(placement.metric, placement.value)} · peer median ${formatBenchmarkValue(placement.metric, placement.peers.p50)}</div>
+                    <div>${ordinal(placement.percentile)} percentile</div>
+                </div>`).join('')}
+            </div>
+        </div>
 
-  if (format === 'html') {
-    return generateHTMLDashboard(baseline, snapshots, latest);
-  } else {
-    return generateTextDashboard(baseline, snapshots, latest);
-  }
-}
+        ${recommendations.length > 0 ? generateRecommendationList(recommendations) : ''}
 
-/**
- * Generate HTML dashboard with charts and statistical analysis
- */
-function generateHTMLDashboard(baseline: any, snapshots: any[], latest: any): string {
-  const roiData = snapshots.map(s => ({
-    date: s.timestamp,
-    roi: s.metrics.financial.currentROI,
-    confidence_lower: s.metrics.confidenceInterval.lower,
-    confidence_upper: s.metrics.confidenceInterval.upper
-  }));
+        <details class="chart-card audit" style="margin-top: 30px;">
+            <summary class="chart-title">Audit Data</summary>
+            <p style="color: #64748b; font-size: 0.9rem; margin: 12px 0;">
+                The ${snapshots.length} check(s) behind this report, as recorded in .quallaa/state.db${redact ? ' with dollar amounts removed' : ''}.
+                <a id="audit-download" download="roi-snapshots.json">Download JSON</a>
+            </p>
+            <pre id="audit-json"></pre>
+        </details>
 
-  const chartData = JSON.stringify(roiData);
-  const latestMetrics = latest.metrics;
+        <div class="footer">
+            <p>Generated by Quallaa ROI Tracking System</p>
+            <p style="font-size: 0.85rem; margin-top: 8px;">
+                Peer benchmarks: ${escapeHtml(describeBenchmarkSource(benchmarks))}. Higher percentiles are better; for payback that means faster.
+            </p>
+        </div>
+`;
 
+  // Everything but the embedded data and script, which hold no formatted amounts
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>ROI Dashboard - Quallaa Analytics</title>
-    <script src="https://cdn.jsdelivr.net/npm/chart.js"></script>
     <style>
         * { box-sizing: border-box; margin: 0; padding: 0; }
         
@@ -760,7 +2476,7 @@ function generateHTMLDashboard(baseline: any, snapshots: any[], latest: any): st
         
         .charts {
             display: grid;
-            grid-template-columns: 2fr 1fr;
+            grid-template-columns: 1fr 1fr;
             gap: 30px;
             margin-bottom: 30px;
         }
@@ -856,267 +2572,244 @@ function generateHTMLDashboard(baseline: any, snapshots: any[], latest: any): st
             border-top: 1px solid #e2e8f0;
         }
         
+        .tornado { margin-bottom: 30px; }
+        .tornado svg { width: 100%; height: auto; font-size: 12px; }
+        .tornado-label { fill: #0f172a; }
+        .tornado-value { fill: #64748b; font-size: 11px; }
+        .tornado-low { fill: #f87171; }
+        .tornado-high { fill: #34d399; }
+        .tornado-base { stroke: #0f172a; stroke-dasharray: 4 3; }
+        
+        .redacted-note { color: #b45309; font-size: 0.9rem; margin-top: 8px; }
+        
+        .filters {
+            display: flex;
+            flex-wrap: wrap;
+            align-items: center;
+            gap: 10px;
+            margin-bottom: 20px;
+            color: #475569;
+        }
+        
+        .filters button {
+            padding: 6px 12px;
+            border: 1px solid #cbd5e1;
+            border-radius: 6px;
+            background: white;
+            cursor: pointer;
+        }
+        
+        .filters button.active { background: #0f172a; color: white; border-color: #0f172a; }
+        #period-summary { margin-left: auto; font-size: 0.9rem; }
+        
+        .chart-card svg { width: 100%; height: auto; font-size: 12px; fill: #64748b; }
+        .chart-toggle { display: block; margin: -12px 0 8px; color: #64748b; font-size: 0.9rem; }
+        .chart-legend { color: #64748b; font-size: 0.9rem; margin: -12px 0 8px; }
+        .axis { stroke: #cbd5e1; }
+        .zero { stroke: #0f172a; stroke-dasharray: 4 3; }
+        .line { fill: none; stroke-width: 3; }
+        .line.roi { stroke: #10b981; }
+        .line.net { stroke: #3b82f6; }
+        .line.projection { stroke: #3b82f6; stroke-width: 2; stroke-dasharray: 6 4; }
+        .band { fill: rgba(107, 114, 128, 0.15); stroke: none; }
+        .dot { fill: #0f172a; cursor: pointer; }
+        .bar { cursor: pointer; }
+        .saas { fill: #10b981; background: #10b981; }
+        .operational { fill: #3b82f6; background: #3b82f6; }
+        .maintenance { fill: #f87171; background: #f87171; }
+        .swatch { display: inline-block; width: 12px; height: 12px; border-radius: 2px; margin: 0 4px 0 12px; vertical-align: middle; }
+        
+        .checks { width: 100%; border-collapse: collapse; }
+        .checks th, .checks td { text-align: left; padding: 8px; border-bottom: 1px solid #f1f5f9; }
+        
+        .audit summary { cursor: pointer; margin-bottom: 0; }
+        .audit pre { max-height: 400px; overflow: auto; background: #f8fafc; padding: 12px; border-radius: 8px; font-size: 0.8rem; }
+        
+        .tooltip {
+            display: none;
+            position: absolute;
+            pointer-events: none;
+            background: #0f172a;
+            color: white;
+            padding: 6px 10px;
+            border-radius: 6px;
+            font-size: 0.85rem;
+        }
+        
         @media (max-width: 768px) {
             .charts { grid-template-columns: 1fr; }
             .kpis { grid-template-columns: 1fr; }
         }
+        
+        @media print {
+            body { background: white; }
+            .container { max-width: none; padding: 0; }
+            .filters, .chart-toggle, .tooltip, #audit-download, .audit pre { display: none; }
+            .header, .kpi-card, .chart-card, .metric-category, .benchmark-section { box-shadow: none; border: 1px solid #e2e8f0; break-inside: avoid; }
+            .charts { grid-template-columns: 1fr; }
+            .saas, .operational, .maintenance, .swatch { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+        }
     </style>
 </head>
 <body>
     <div class="container">
-        <!-- Header -->
-        <div class="header">
-            <h1 class="title">📊 ROI Analytics Dashboard</h1>
-            <p class="subtitle">Multi-dimensional business impact analysis</p>
-            <p style="color: #64748b; font-size: 0.9rem;">
-                Generated: ${new Date().toLocaleDateString()} | 
-                Analysis Period: ${baseline.establishedAt} - ${latest.timestamp} |
-                Snapshots: ${snapshots.length}
+${content}    </div>
+
+    <div id="report-tooltip" class="tooltip"></div>
+
+    <script type="application/json" id="roi-report-data">${embedJson(data)}</script>
+    <script>${REPORT_SCRIPT}</script>
+</body>
+</html>`;
+}
+
+/**
+ * Tornado chart of ROI sensitivity as inline SVG: one bar per input, split at today's ROI,
+ * red where the input is at the low end of its range and green at the high end
+ */
+function generateTornadoChart(analysis: SensitivityAnalysis, formatAmount: AmountFormatter): string {
+  const width = 800;
+  const labelWidth = 220;
+  const rowHeight = 30;
+  const top = 24;
+  const height = top + analysis.results.length * rowHeight + 10;
+  const rois = analysis.results.flatMap(result => [result.low.roi, result.high.roi]).concat(analysis.baseROI);
+  const min = Math.min(...rois);
+  const max = Math.max(...rois);
+  const padding = (max - min) * 0.15 || 10;
+  const x = (roi: number): number => labelWidth + ((roi - min + padding) / (max - min + 2 * padding)) * (width - labelWidth - 10);
+  const bar = (from: number, to: number, y: number, tone: string): string =>
+    `<rect class="tornado-${tone}" x="${Math.min(x(from), x(to)).toFixed(1)}" y="${y}" width="${Math.abs(x(to) - x(from)).toFixed(1)}" height="${rowHeight - 10}" />`;
+
+  const rows = analysis.results.map((result, index) => {
+    const y = top + index * rowHeight;
+    const textY = y + rowHeight / 2;
+    const [worse, better] = result.low.roi <= result.high.roi ? [result.low, result.high] : [result.high, result.low];
+    return `
+                <text class="tornado-label" x="0" y="${textY}">${escapeHtml(result.label)}</text>
+                ${bar(analysis.baseROI, result.low.roi, y, 'low')}
+                ${bar(analysis.baseROI, result.high.roi, y, 'high')}
+                <text class="tornado-value" x="${(Math.min(x(worse.roi), x(analysis.baseROI)) - 4).toFixed(1)}" y="${textY}" text-anchor="end">${escapeHtml(formatSensitivityValue(worse.value, result.unit, formatAmount))}</text>
+                <text class="tornado-value" x="${(Math.max(x(better.roi), x(analysis.baseROI)) + 4).toFixed(1)}" y="${textY}">${escapeHtml(formatSensitivityValue(better.value, result.unit, formatAmount))}</text>`;
+  }).join('');
+
+  return `
+        <div class="chart-card tornado">
+            <h3 class="chart-title">What Moves ROI the Most</h3>
+            <p style="color: #64748b; font-size: 0.9rem; margin-bottom: 12px;">
+                Each input moved ±${(analysis.spread * 100).toFixed(0)}% with the others held at the latest check. Bars show the resulting ROI.
             </p>
-        </div>
+            <svg viewBox="0 0 ${width} ${height}" role="img" aria-label="ROI sensitivity tornado chart">
+                <line class="tornado-base" x1="${x(analysis.baseROI).toFixed(1)}" y1="10" x2="${x(analysis.baseROI).toFixed(1)}" y2="${height}" />
+                <text class="tornado-value" x="${x(analysis.baseROI).toFixed(1)}" y="10" text-anchor="middle">ROI today ${analysis.baseROI.toFixed(1)}%</text>
+                ${rows}
+            </svg>
+        </div>`;
+}
 
-        <!-- KPIs -->
-        <div class="kpis">
-            <div class="kpi-card">
-                <div class="kpi-value ${latestMetrics.financial.currentROI >= 0 ? 'roi-positive' : 'roi-negative'}">
-                    ${latestMetrics.financial.currentROI.toFixed(1)}%
-                </div>
-                <div class="kpi-label">Overall ROI</div>
-                <div class="kpi-trend">
-                    CI: ${latestMetrics.confidenceInterval.lower.toFixed(1)}% - ${latestMetrics.confidenceInterval.upper.toFixed(1)}%
-                </div>
-            </div>
-            
-            <div class="kpi-card">
-                <div class="kpi-value ${latestMetrics.financial.breakEvenMonths <= 6 ? 'roi-positive' : 'roi-negative'}">
-                    ${latestMetrics.financial.breakEvenMonths}mo
-                </div>
-                <div class="kpi-label">Break-Even Period</div>
-                <div class="kpi-trend ${latestMetrics.financial.breakEvenMonths <= 6 ? 'trend-up' : 'trend-down'}">
-                    Target: <6 months
-                </div>
-            </div>
-            
-            <div class="kpi-card">
-                <div class="kpi-value roi-positive">
-                    $${latestMetrics.financial.cumulativeSavings.toLocaleString()}
-                </div>
-                <div class="kpi-label">Total Savings</div>
-                <div class="kpi-trend">
-                    ${latestMetrics.productivity.timeSavedHours.toLocaleString()} hours saved
-                </div>
-            </div>
-            
-            <div class="kpi-card">
-                <div class="kpi-value ${latestMetrics.productivity.employeeAdoptionRate >= 66 ? 'roi-positive' : 'roi-neutral'}">
-                    ${latestMetrics.productivity.employeeAdoptionRate.toFixed(1)}%
-                </div>
-                <div class="kpi-label">Team Adoption</div>
-                <div class="kpi-trend ${latestMetrics.productivity.employeeAdoptionRate >= 66 ? 'trend-up' : 'trend-down'}">
-                    Target: 66%+
+/**
+ * Prioritised recommendations, each with why it applies and what it is worth
+ */
+function generateRecommendationList(recommendations: Recommendation[]): string {
+  const colors: Record<Recommendation['priority'], string> = { high: '#ef4444', medium: '#f59e0b', low: '#64748b' };
+  return `
+        <div class="chart-card" style="margin-top: 30px;">
+            <h3 class="chart-title">🛠️ What To Do Next</h3>
+            ${recommendations.map(recommendation => `
+            <div style="border-left: 4px solid ${colors[recommendation.priority]}; padding: 8px 16px; margin-bottom: 16px;">
+                <div style="font-weight: 600;">${escapeHtml(recommendation.title)}
+                    <span style="color: ${colors[recommendation.priority]}; font-size: 0.8rem; text-transform: uppercase; margin-left: 8px;">${recommendation.priority}</span>
                 </div>
-            </div>
-        </div>
+                <div style="color: #475569; margin-top: 4px;">${escapeHtml(recommendation.explanation)}</div>
+                <div style="margin-top: 4px;"><strong>Impact:</strong> ${escapeHtml(recommendation.impact.summary)}</div>
+            </div>`).join('')}
+        </div>`;
+}
 
-        <!-- Charts -->
-        <div class="charts">
-            <div class="chart-card">
-                <h3 class="chart-title">ROI Trend with Confidence Intervals</h3>
-                <canvas id="roiChart"></canvas>
-            </div>
-            
-            <div class="chart-card">
-                <h3 class="chart-title">Impact Categories</h3>
-                <canvas id="categoriesChart"></canvas>
-            </div>
-        </div>
+/**
+ * The latest month's running costs by provider, with the monthly totals before it
+ */
+function generateCostBreakdown(costs: MonthlyCosts[], formatAmount: AmountFormatter): string {
+  const latestCosts = costs[costs.length - 1];
+  return `
+        <div class="chart-card" style="margin-top: 30px;">
+            <h3 class="chart-title">💸 Running Costs (${latestCosts.month})</h3>
+            <table style="width: 100%; border-collapse: collapse;">
+                <tr><th style="text-align: left;">Cost</th><th style="text-align: left;">Category</th><th style="text-align: right;">Amount</th></tr>
+                ${latestCosts.items.map(item => `<tr>
+                    <td>${escapeHtml(describeCostItem(item))}</td>
+                    <td>${item.category}</td>
+                    <td style="text-align: right;">${formatAmount(item.amount, true)}${item.source === 'estimated' ? ' <span style="color: #64748b;">(estimate)</span>' : ''}</td>
+                </tr>`).join('')}
+                <tr><td><strong>Total</strong></td><td></td><td style="text-align: right;"><strong>${formatAmount(latestCosts.total, true)}</strong></td></tr>
+            </table>
+            ${costs.length > 1 ? `<p style="color: #64748b; font-size: 0.9rem; margin-top: 12px;">Monthly totals: ${costs.slice(-6).map(entry => `${entry.month} ${formatAmount(entry.total, true)}`).join(' · ')}</p>` : ''}
+        </div>`;
+}
 
-        <!-- Detailed Metrics -->
-        <div class="metrics-grid">
-            <div class="metric-category">
-                <h4 class="category-title">💰 Financial Impact</h4>
-                <div class="metric-item">
-                    <span class="metric-name">SaaS Savings</span>
-                    <span class="metric-value">$${latestMetrics.financial.saasReplacementSavings.toLocaleString()}</span>
-                </div>
-                <div class="metric-item">
-                    <span class="metric-name">Operational Savings</span>
-                    <span class="metric-value">$${latestMetrics.financial.operationalCostReduction.toLocaleString()}</span>
-                </div>
-                <div class="metric-item">
-                    <span class="metric-name">Maintenance Costs</span>
-                    <span class="metric-value">($${latestMetrics.financial.maintenanceCosts.toLocaleString()})</span>
-                </div>
-                <div class="metric-item">
-                    <span class="metric-name">Net Benefit</span>
-                    <span class="metric-value">$${(latestMetrics.financial.cumulativeSavings - latestMetrics.financial.maintenanceCosts).toLocaleString()}</span>
-                </div>
-            </div>
-            
-            <div class="metric-category">
-                <h4 class="category-title">⚡ Productivity Gains</h4>
-                <div class="metric-item">
-                    <span class="metric-name">Time Saved</span>
-                    <span class="metric-value">${latestMetrics.productivity.timeSavedHours.toLocaleString()} hrs</span>
-                </div>
-                <div class="metric-item">
-                    <span class="metric-name">Tasks Automated</span>
-                    <span class="metric-value">${latestMetrics.productivity.tasksAutomated}</span>
-                </div>
-                <div class="metric-item">
-                    <span class="metric-name">Error Reduction</span>
-                    <span class="metric-value">${latestMetrics.productivity.errorReductionRate.toFixed(1)}%</span>
-                </div>
-                <div class="metric-item">
-                    <span class="metric-name">Processing Time ↓</span>
-                    <span class="metric-value">${latestMetrics.productivity.processingTimeReduction.toFixed(1)}%</span>
-                </div>
-            </div>
-            
+/**
+ * Significance of each headline metric's trend, with the method behind it
+ */
+function generateTrendTable(trends: ROITrend[], formatAmount: AmountFormatter): string {
+  return `
+        <div class="chart-card">
+            <h3 class="chart-title">Is It Getting Better?</h3>
+            <table style="width: 100%; border-collapse: collapse;">
+                <tr><th style="text-align: left;">Metric</th><th style="text-align: left;">Trend</th><th style="text-align: left;">p-value</th><th style="text-align: left;">Change per month</th></tr>
+                ${trends.map(trend => `<tr>
+                    <td>${escapeHtml(TREND_METRICS.find(entry => entry.metric === trend.metric)?.label ?? trend.metric)}</td>
+                    <td>${describeTrend(trend)}</td>
+                    <td>${trend.statistics?.comparison ? formatPValue(trend.statistics.comparison.pValue) : '–'}</td>
+                    <td>${escapeHtml(formatTrendSlope(trend, formatAmount))}</td>
+                </tr>`).join('')}
+            </table>
+            <p style="color: #64748b; font-size: 0.9rem; margin-top: 12px;">${escapeHtml(describeTrendMethod(trends))}</p>
+        </div>`;
+}
+
+/**
+ * Percentiles and break-even odds from the ROI simulation
+ */
+function generateSimulationSummary(simulation: ROISimulation): string {
+  const { percentiles } = simulation;
+  return `
             <div class="metric-category">
-                <h4 class="category-title">🎯 Quality Improvements</h4>
+                <h4 class="category-title">🎲 Simulated ROI</h4>
+                ${(['p10', 'p50', 'p90'] as const).map(key => `
                 <div class="metric-item">
-                    <span class="metric-name">Defect Reduction</span>
-                    <span class="metric-value">${latestMetrics.quality.defectReduction.toFixed(1)}%</span>
-                </div>
+                    <span class="metric-name">${key.toUpperCase()}</span>
+                    <span class="metric-value">${percentiles[key].toFixed(1)}%</span>
+                </div>`).join('')}
+                ${simulation.breakEvenProbability.map(({ month, probability }) => `
                 <div class="metric-item">
-                    <span class="metric-name">Accuracy Improvement</span>
-                    <span class="metric-value">${latestMetrics.quality.accuracyImprovement.toFixed(1)}%</span>
-                </div>
+                    <span class="metric-name">Break-even within ${month} months</span>
+                    <span class="metric-value">${(probability * 100).toFixed(0)}%</span>
+                </div>`).join('')}
+                ${simulation.lossProbability !== undefined ? `
                 <div class="metric-item">
-                    <span class="metric-name">Compliance ↑</span>
-                    <span class="metric-value">${latestMetrics.quality.complianceImprovement.toFixed(1)}%</span>
-                </div>
+                    <span class="metric-name">Chance ROI is not positive</span>
+                    <span class="metric-value">${(simulation.lossProbability * 100).toFixed(1)}%</span>
+                </div>` : ''}
                 <div class="metric-item">
-                    <span class="metric-name">Customer Satisfaction</span>
-                    <span class="metric-value">${latestMetrics.quality.customerSatisfactionDelta >= 0 ? '+' : ''}${latestMetrics.quality.customerSatisfactionDelta.toFixed(1)} pts</span>
-                </div>
-            </div>
-        </div>
-
-        <!-- Benchmarks -->
-        <div class="benchmark-section">
-            <h3 class="benchmark-title">📊 Benchmark Performance</h3>
-            <div class="benchmark-grid">
-                <div class="benchmark-item ${latestMetrics.financial.currentROI >= 248 ? 'benchmark-met' : 'benchmark-missed'}">
-                    <div style="font-weight: 600; font-size: 1.1rem;">Forrester ROI Target</div>
-                    <div>248% Target</div>
-                    <div>${latestMetrics.financial.currentROI >= 248 ? '✅ Exceeded' : '❌ Not Met'}</div>
-                </div>
-                
-                <div class="benchmark-item ${latestMetrics.financial.breakEvenMonths <= 6 ? 'benchmark-met' : 'benchmark-missed'}">
-                    <div style="font-weight: 600; font-size: 1.1rem;">Payback Period</div>
-                    <div><6 Month Target</div>
-                    <div>${latestMetrics.financial.breakEvenMonths <= 6 ? '✅ Met' : '❌ Exceeded'}</div>
-                </div>
-                
-                <div class="benchmark-item ${latestMetrics.productivity.employeeAdoptionRate >= 66 ? 'benchmark-met' : 'benchmark-missed'}">
-                    <div style="font-weight: 600; font-size: 1.1rem;">Team Adoption</div>
-                    <div>66%+ Target</div>
-                    <div>${latestMetrics.productivity.employeeAdoptionRate >= 66 ? '✅ Strong' : '⚠️ Improve'}</div>
+                    <span class="metric-name">Iterations (seed)</span>
+                    <span class="metric-value">${simulation.iterations.toLocaleString()} (${simulation.seed})</span>
                 </div>
-            </div>
-        </div>
-
-        <div class="footer">
-            <p>Generated by Quallaa ROI Tracking System</p>
-            <p style="font-size: 0.85rem; margin-top: 8px;">
-                Based on academic research: METR 2025, Forrester 2024, BCG 2024
-            </p>
-        </div>
-    </div>
-
-    <script>
-        const roiData = ${chartData};
-        
-        // ROI Trend Chart
-        const roiCtx = document.getElementById('roiChart').getContext('2d');
-        new Chart(roiCtx, {
-            type: 'line',
-            data: {
-                labels: roiData.map(d => new Date(d.date).toLocaleDateString()),
-                datasets: [{
-                    label: 'ROI %',
-                    data: roiData.map(d => d.roi),
-                    borderColor: '#10b981',
-                    backgroundColor: 'rgba(16, 185, 129, 0.1)',
-                    borderWidth: 3,
-                    fill: false
-                }, {
-                    label: 'Confidence Lower',
-                    data: roiData.map(d => d.confidence_lower),
-                    borderColor: '#6b7280',
-                    borderWidth: 1,
-                    borderDash: [5, 5],
-                    fill: false
-                }, {
-                    label: 'Confidence Upper',
-                    data: roiData.map(d => d.confidence_upper),
-                    borderColor: '#6b7280',
-                    borderWidth: 1,
-                    borderDash: [5, 5],
-                    fill: '-1',
-                    backgroundColor: 'rgba(107, 114, 128, 0.1)'
-                }]
-            },
-            options: {
-                responsive: true,
-                plugins: {
-                    legend: {
-                        position: 'top',
-                    }
-                },
-                scales: {
-                    y: {
-                        beginAtZero: true,
-                        title: {
-                            display: true,
-                            text: 'ROI Percentage'
-                        }
-                    }
-                }
-            }
-        });
-        
-        // Categories Chart
-        const categoriesCtx = document.getElementById('categoriesChart').getContext('2d');
-        const latest = roiData[roiData.length - 1] || { roi: 0 };
-        
-        new Chart(categoriesCtx, {
-            type: 'doughnut',
-            data: {
-                labels: ['Financial', 'Productivity', 'Quality'],
-                datasets: [{
-                    data: [
-                        ${latestMetrics.financial.cumulativeSavings},
-                        ${latestMetrics.productivity.timeSavedHours * 75}, // Convert hours to $ at $75/hr
-                        ${Math.abs(latestMetrics.quality.customerSatisfactionDelta) * 1000} // Scale satisfaction
-                    ],
-                    backgroundColor: [
-                        '#10b981',
-                        '#3b82f6', 
-                        '#8b5cf6'
-                    ]
-                }]
-            },
-            options: {
-                responsive: true,
-                plugins: {
-                    legend: {
-                        position: 'bottom'
-                    }
-                }
-            }
-        });
-    </script>
-</body>
-</html>`;
+            </div>`;
 }
 
 /**
  * Generate elegant text report
  */
-function generateTextDashboard(baseline: any, snapshots: any[], latest: any): string {
+function generateTextDashboard(
+  baseline: any,
+  snapshots: any[],
+  latest: any,
+  benchmarks: BenchmarkComparison,
+  recommendations: Recommendation[],
+  trends: ROITrend[] = [],
+  costs: MonthlyCosts[] = [],
+  formatAmount: AmountFormatter = amountFormatter()
+): string {
   const metrics = latest.metrics;
   const roi = metrics.financial.currentROI;
   const breakEven = metrics.financial.breakEvenMonths;
@@ -1130,8 +2823,8 @@ function generateTextDashboard(baseline: any, snapshots: any[], latest: any): st
   if (roi > 0) {
     report += `## ✅ Is it worth it? Yes.\n\n`;
     report += `Your project is generating a **${roi.toFixed(0)}% return** on investment.\n`;
-    if (roi > 248) {
-      report += `That beats the industry average by a lot.\n\n`;
+    if (findPlacement(benchmarks, 'paybackMonths').percentile >= 75) {
+      report += `That pays back faster than most comparable projects.\n\n`;
     } else {
       report += `That's a solid return.\n\n`;
     }
@@ -1152,11 +2845,42 @@ function generateTextDashboard(baseline: any, snapshots: any[], latest: any): st
     report += `In **${breakEven} months**. That's quite long. Worth reconsidering?\n\n`;
   }
 
+  // Spread of outcomes the inputs allow, not just the point estimate
+  if (metrics.simulation) {
+    const simulation: ROISimulation = metrics.simulation;
+    const { percentiles } = simulation;
+    report += `## 🎲 How sure can you be?\n\n`;
+    report += `ROI was simulated **${simulation.iterations.toLocaleString()} times**, drawing each input from its likely range `;
+    report += `(seed ${simulation.seed}; ranges in \`evaluators/roi-simulation.json\`, measured inputs ±${Math.round(DEFAULT_SPREAD.measured * 100)}%, estimates ±${Math.round(DEFAULT_SPREAD.estimated * 100)}% otherwise).\n\n`;
+    report += `| Pessimistic (P10) | Median (P50) | Optimistic (P90) |\n`;
+    report += `|---|---|---|\n`;
+    report += `| ${percentiles.p10.toFixed(0)}% | ${percentiles.p50.toFixed(0)}% | ${percentiles.p90.toFixed(0)}% |\n\n`;
+    report += `Chance of breaking even:\n\n`;
+    for (const { month, probability } of simulation.breakEvenProbability) {
+      report += `- Within ${month} months: **${(probability * 100).toFixed(0)}%**\n`;
+    }
+    report += `\n`;
+    if (latest.statisticalSignificance?.method === 'monte-carlo' && simulation.lossProbability !== undefined) {
+      report += `Is the return real? **${(simulation.lossProbability * 100).toFixed(1)}%** of simulated outcomes have ROI at or below zero `;
+      report += `(one-sided p = ${formatPValue(latest.statisticalSignificance.pValue)}, ${latest.statisticalSignificance.isSignificant ? 'significant' : 'not significant'} at 0.05).\n\n`;
+    }
+  }
+
+  // The CFO's view: money later is worth less than money now
+  if (metrics.financial.npv !== undefined) {
+    const financial = metrics.financial;
+    report += `## 🏦 What is it worth in today's money?\n\n`;
+    report += `- **NPV** at ${(financial.discountRate * 100).toFixed(1)}% a year: **${formatAmount(financial.npv)}**`;
+    report += financial.npv >= 0 ? ` (the savings so far already cover the investment)\n` : ` (not paid back yet in today's money)\n`;
+    report += `- **IRR** to date: ${financial.irr !== undefined ? `**${financial.irr.toFixed(1)}%** a year` : 'not meaningful yet (no savings)'}\n`;
+    report += `- **Discounted payback:** ${formatPayback(financial.discountedPaybackMonths)} (simple payback: ${breakEven} months)\n\n`;
+  }
+
   // What's working
   report += `## 💰 What's working?\n\n`;
   
   if (savings > 1000) {
-    report += `- You've saved **$${savings.toLocaleString()}** so far\n`;
+    report += `- You've saved **${formatAmount(savings)}** so far\n`;
   }
   
   if (hoursSaved > 0) {
@@ -1179,41 +2903,79 @@ function generateTextDashboard(baseline: any, snapshots: any[], latest: any): st
 
   report += `\n`;
 
-  // Industry comparison (simplified)
+  // What the providers and upkeep cost, as fed into maintenance costs
+  if (costs.length > 0) {
+    const latestCosts = costs[costs.length - 1];
+    report += `## 💸 What does it cost to run?\n\n`;
+    report += `Running costs for ${latestCosts.month}: **${formatAmount(latestCosts.total, true)}**\n\n`;
+    for (const item of latestCosts.items) {
+      report += `- ${describeCostItem(item)}: ${formatAmount(item.amount, true)}${item.source === 'estimated' ? ' (estimate)' : ''}\n`;
+    }
+    if (costs.length > 1) {
+      report += `\nMonthly totals: ${costs.slice(-6).map(entry => `${entry.month} ${formatAmount(entry.total, true)}`).join(' · ')}\n`;
+    }
+    report += `\n`;
+  }
+
+  // Percentile against peers on the same template and company size
   report += `## 📊 How do you compare?\n\n`;
-  
-  if (breakEven <= 6) {
-    report += `- **Payback speed:** ✅ Industry best practice is under 6 months. You're there.\n`;
-  } else {
-    report += `- **Payback speed:** ⚠️ Industry best practice is under 6 months. You're at ${breakEven}.\n`;
+  report += `Compared with ${describeBenchmarkPeers(benchmarks)} (${describeBenchmarkSource(benchmarks)}). `;
+  report += `Higher percentiles are better; for payback that means faster.\n\n`;
+  if (benchmarks.provenance?.illustrative) {
+    report += `> ⚠️ These peer ranges are illustrative, not measured from real projects. Add your own in evaluators/benchmarks.json.\n\n`;
+  }
+  for (const placement of benchmarks.placements) {
+    const label = BENCHMARK_METRICS.find(entry => entry.metric === placement.metric)?.label;
+    const icon = placement.percentile >= 50 ? '✅' : '⚠️';
+    report += `- **${label}:** ${icon} ${formatBenchmarkValue(placement.metric, placement.value)}, ${ordinal(placement.percentile)} percentile `;
+    report += `(peers: median ${formatBenchmarkValue(placement.metric, placement.peers.p50)}, top quarter ${formatBenchmarkValue(placement.metric, placement.metric === 'paybackMonths' ? placement.peers.p25 : placement.peers.p75)})\n`;
   }
 
-  if (adoption >= 66) {
-    report += `- **Team adoption:** ✅ Research shows 66%+ is strong. You're at ${adoption.toFixed(0)}%.\n`;
-  } else {
-    report += `- **Team adoption:** ⚠️ Research shows 66%+ is strong. You're at ${adoption.toFixed(0)}%.\n`;
+  if (recommendations.length > 0) {
+    report += `\n## 🛠️ What to do next\n\n`;
+    recommendations.forEach((recommendation, index) => {
+      report += `${index + 1}. **${recommendation.title}** (${recommendation.priority} priority)\n`;
+      report += `   ${recommendation.explanation}\n`;
+      report += `   *Impact:* ${recommendation.impact.summary}\n`;
+    });
   }
 
-  if (roi >= 248) {
-    report += `- **ROI:** ✅ Top companies see 248% returns. You're at ${roi.toFixed(0)}%.\n`;
-  } else if (roi > 100) {
-    report += `- **ROI:** 📈 Top companies see 248% returns. You're at ${roi.toFixed(0)}% (positive is good).\n`;
-  } else {
-    report += `- **ROI:** ⏳ Top companies see 248% returns. You're at ${roi.toFixed(0)}% (still growing).\n`;
+  report += `\n## 🧾 What is an hour of manual work worth?\n\n`;
+  report += `Saved hours are valued at **${formatAmount(metrics.financial.hourlyRate ?? DEFAULT_HOURLY_RATE, true)}/hour**, blended across the roles doing the work:\n\n`;
+  for (const line of describeLabourCostModel(baseline.labourCostModel, formatAmount)) {
+    report += `- ${line}\n`;
+  }
+  for (const role of (metrics.financial.labourSavings ?? []) as LabourSavings[]) {
+    report += `- ${role.role} savings so far: **${formatAmount(role.savings)}** (${role.hoursSaved.toFixed(0)} hours)\n`;
+  }
+  report += `\n`;
+
+  if (latest.inputs) {
+    const { measured, estimated } = describeInputSources(latest.inputs);
+    report += `## 🔬 Where do these numbers come from?\n\n`;
+    report += `- **Measured by evaluators:** ${measured.length > 0 ? measured.join(', ') : 'nothing yet (run quallaa evaluators run)'}\n`;
+    report += `- **Estimated:** ${estimated.length > 0 ? estimated.join(', ') : 'nothing'}\n`;
   }
 
   report += `\n## 📈 Your data over time\n\n`;
   report += `Tracking since: ${new Date(baseline.establishedAt).toLocaleDateString()}\n`;
   report += `Data points: ${snapshots.length}\n`;
   
-  if (snapshots.length >= 2) {
-    report += `Trend analysis: Available\n`;
+  if (trends.length > 0) {
+    report += `\n| Metric | Trend | p-value | Change per month |\n`;
+    report += `|---|---|---|---|\n`;
+    for (const trend of trends) {
+      const label = TREND_METRICS.find(entry => entry.metric === trend.metric)?.label ?? trend.metric;
+      const pValue = trend.statistics?.comparison ? formatPValue(trend.statistics.comparison.pValue) : '–';
+      report += `| ${label} | ${describeTrend(trend)} | ${pValue} | ${formatTrendSlope(trend, formatAmount)} |\n`;
+    }
+    report += `\n*How this was tested:* ${describeTrendMethod(trends)}\n`;
   } else {
     report += `Trend analysis: Need more data points\n`;
   }
 
   report += `\n---\n`;
-  report += `*Questions? The math is based on research from Forrester, BCG, and METR studies.*`;
+  report += `*Questions? The math is based on research from Forrester, BCG, and METR studies; peer benchmarks are ${describeBenchmarkSource(benchmarks)}.*`;
   
   return report;
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { OutcomeConfig, OutcomeTemplateDefinition } from '../../types';
+import { scoringConfigFromImpactMapping } from '../../lib/evaluators/scoring';
 
 export async function generateOutcomeProject(config: OutcomeConfig, template: OutcomeTemplateDefinition): Promise<void> {
   
@@ -343,6 +344,12 @@ if (require.main === module) {
 `;
 
   await fs.writeFile('evaluators/cli.ts', cliScript);
+  
+  // Weight suite scoring by business impact
+  if (template.roiTracking?.enabled) {
+    const scoringConfig = scoringConfigFromImpactMapping(template.roiTracking.businessImpactMapping);
+    await fs.writeFile('evaluators/scoring.json', JSON.stringify(scoringConfig, null, 2));
+  }
 }
 
 async function generateExceptionQueue(template: OutcomeTemplateDefinition): Promise<void> {
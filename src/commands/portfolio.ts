@@ -0,0 +1,200 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import * as path from 'path';
+import { PortfolioRegistry, summarizeProject, summarizePortfolio } from '../lib/roi/portfolio.js';
+import { getOutcomeTemplate, listOutcomeTemplates } from '../templates/outcomes/index.js';
+import { escapeHtml, formatDollars } from '../lib/evaluators/formatting.js';
+import { OutcomeTemplate, PortfolioProjectSummary, PortfolioSummary } from '../types/index.js';
+
+export const portfolioCommand = new Command('portfolio')
+  .description('Track ROI across several Quallaa projects')
+  .addCommand(
+    new Command('add')
+      .description('Add a project directory to the portfolio')
+      .argument('<path>', 'Project directory (the one holding .quallaa/)')
+      .option('-n, --name <name>', 'Name to show in reports (default: the directory name)')
+      .option('-t, --template <template>', 'Outcome template the project was created from')
+      .action(async (projectPath: string, options) => {
+        try {
+          if (options.template) {
+            getOutcomeTemplate(options.template as OutcomeTemplate); // Throws for unknown templates
+          }
+          const name = options.name || path.basename(path.resolve(projectPath));
+          const project = await new PortfolioRegistry().add({
+            name,
+            path: projectPath,
+            ...(options.template ? { template: options.template as OutcomeTemplate } : {}),
+          });
+
+          console.log(chalk.green(`✅ Added ${project.name} (${project.path})`));
+          const summary = await summarizeProject(project);
+          if (summary.status === 'no-baseline') {
+            console.log(chalk.yellow(`No ROI baseline there yet. Run quallaa evaluators setup in ${project.path}.`));
+          }
+          console.log(chalk.gray('• Run: quallaa portfolio report'));
+        } catch (error) {
+          console.error(chalk.red('Add failed:'), error instanceof Error ? error.message : error);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('remove')
+      .description('Remove a project from the portfolio (its data is kept)')
+      .argument('<name>', 'Project name')
+      .action(async (name: string) => {
+        try {
+          if (!await new PortfolioRegistry().remove(name)) {
+            throw new Error(`No project named "${name}" in the portfolio`);
+          }
+          console.log(chalk.green(`✅ Removed ${name}`));
+        } catch (error) {
+          console.error(chalk.red('Remove failed:'), error instanceof Error ? error.message : error);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('report')
+      .description('Total investment, blended ROI and a ranking across the portfolio')
+      .option('--web', 'Create a web report you can share')
+      .option('--output <path>', 'Where to save the web report', 'portfolio-report.html')
+      .action(async (options) => {
+        console.log(chalk.cyan('📊 Portfolio Report\n'));
+
+        try {
+          const projects = await new PortfolioRegistry().list();
+          if (projects.length === 0) {
+            console.log(chalk.yellow('No projects yet. Run: quallaa portfolio add <path>'));
+            return;
+          }
+
+          const spinner = ora(`Reading ${projects.length} project(s)...`).start();
+          const portfolio = summarizePortfolio(await Promise.all(projects.map(summarizeProject)));
+
+          if (options.web) {
+            const fs = await import('fs/promises');
+            await fs.writeFile(options.output, generateHTMLPortfolioReport(portfolio));
+            spinner.succeed(`Report saved: ${options.output}`);
+            console.log(chalk.green(`\n🌐 Open ${options.output} in your browser to see the full report.`));
+          } else {
+            spinner.succeed('Report ready');
+            console.log('\n' + generateTextPortfolioReport(portfolio));
+          }
+        } catch (error) {
+          console.error(chalk.red('Report failed:'), error instanceof Error ? error.message : error);
+          process.exit(1);
+        }
+      })
+  );
+
+function formatROI(roi: number | null): string {
+  return roi === null ? '–' : `${roi.toFixed(0)}%`;
+}
+
+function describeBreakEven(summary: PortfolioProjectSummary): string {
+  if (summary.status === 'no-baseline') return 'No baseline yet';
+  if (summary.status === 'no-checks') return 'No checks yet';
+
+  switch (summary.breakEven.status) {
+    case 'reached':
+      return '✅ Broken even';
+    case 'on-track':
+      return `⏳ ~${Math.ceil(summary.breakEven.monthsRemaining ?? 0)} more month(s)`;
+    default:
+      return '⚠️ Not at the current savings rate';
+  }
+}
+
+function describeTemplate(summary: PortfolioProjectSummary): string {
+  if (!summary.project.template) return '–';
+  return listOutcomeTemplates().find(template => template.value === summary.project.template)?.name ?? summary.project.template;
+}
+
+function generateTextPortfolioReport(portfolio: PortfolioSummary): string {
+  const rows = portfolio.projects.map((summary, index) =>
+    `| ${summary.status === 'tracked' ? index + 1 : '–'} | ${summary.project.name} | ${describeTemplate(summary)} | ${summary.status === 'no-baseline' ? '–' : formatDollars(summary.investment)} | ${formatROI(summary.roi)} | ${describeBreakEven(summary)} |`
+  );
+  const untracked = portfolio.projects.filter(summary => summary.status !== 'tracked');
+
+  return `# Portfolio ROI
+
+- **Projects:** ${portfolio.projects.length}
+- **Total investment:** ${formatDollars(portfolio.totalInvestment)}
+- **Net benefit so far:** ${formatDollars(portfolio.totalNetBenefit)}
+- **Blended ROI:** ${formatROI(portfolio.blendedROI)} (weighted by investment)
+${portfolio.best ? `- **Best performer:** ${portfolio.best.project.name} at ${formatROI(portfolio.best.roi)}\n` : ''}${portfolio.worst ? `- **Needs attention:** ${portfolio.worst.project.name} at ${formatROI(portfolio.worst.roi)}\n` : ''}
+## Ranking
+
+| # | Project | Template | Investment | ROI | Break-even |
+|---|---|---|---|---|---|
+${rows.join('\n')}
+${untracked.length > 0 ? `\n${untracked.length} project(s) are left out of blended ROI until they have a baseline and a check (quallaa evaluators check).\n` : ''}`;
+}
+
+function generateHTMLPortfolioReport(portfolio: PortfolioSummary): string {
+  const tracked = portfolio.projects.filter(summary => summary.status === 'tracked');
+  const maxROI = Math.max(1, ...tracked.map(summary => Math.abs(summary.roi ?? 0)));
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Portfolio ROI - Quallaa Analytics</title>
+    <style>
+        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #f8fafc; color: #1e293b; padding: 20px; }
+        .container { max-width: 900px; margin: 0 auto; }
+        .card { background: white; padding: 30px; border-radius: 12px; box-shadow: 0 1px 3px rgba(0,0,0,0.1); margin-bottom: 20px; }
+        .totals { display: grid; grid-template-columns: repeat(auto-fit, minmax(180px, 1fr)); gap: 20px; }
+        .total-value { font-size: 2em; font-weight: bold; color: #0f172a; }
+        .total-label { color: #64748b; }
+        table { width: 100%; border-collapse: collapse; }
+        th, td { text-align: left; padding: 8px; border-bottom: 1px solid #f1f5f9; }
+        .bar { height: 10px; border-radius: 5px; }
+        .positive { background: #10b981; }
+        .negative { background: #ef4444; }
+        .muted { color: #94a3b8; }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <h1>📊 Portfolio ROI</h1>
+        <div class="card totals">
+            <div><div class="total-value">${formatDollars(portfolio.totalInvestment)}</div><div class="total-label">Total investment</div></div>
+            <div><div class="total-value">${formatDollars(portfolio.totalNetBenefit)}</div><div class="total-label">Net benefit so far</div></div>
+            <div><div class="total-value">${formatROI(portfolio.blendedROI)}</div><div class="total-label">Blended ROI (weighted by investment)</div></div>
+            <div><div class="total-value">${tracked.filter(summary => summary.breakEven.status === 'reached').length}/${portfolio.projects.length}</div><div class="total-label">Projects broken even</div></div>
+        </div>
+        <div class="card">
+            <h2>Ranking</h2>
+            ${portfolio.best ? `<p>🏆 Best: <strong>${escapeHtml(portfolio.best.project.name)}</strong> at ${formatROI(portfolio.best.roi)}${portfolio.worst ? ` · ⚠️ Needs attention: <strong>${escapeHtml(portfolio.worst.project.name)}</strong> at ${formatROI(portfolio.worst.roi)}` : ''}</p>` : ''}
+            <table>
+                <tr><th>#</th><th>Project</th><th>Template</th><th>Investment</th><th>Net benefit</th><th>ROI</th><th></th><th>Break-even</th></tr>
+                ${portfolio.projects.map((summary, index) => summary.status === 'tracked' ? `<tr>
+                    <td>${index + 1}</td>
+                    <td title="${escapeHtml(summary.project.path)}">${escapeHtml(summary.project.name)}</td>
+                    <td>${escapeHtml(describeTemplate(summary))}</td>
+                    <td>${formatDollars(summary.investment)}</td>
+                    <td>${formatDollars(summary.netBenefit)}</td>
+                    <td>${formatROI(summary.roi)}</td>
+                    <td style="width: 120px"><div class="bar ${(summary.roi ?? 0) >= 0 ? 'positive' : 'negative'}" style="width: ${((Math.abs(summary.roi ?? 0) / maxROI) * 100).toFixed(0)}%"></div></td>
+                    <td>${describeBreakEven(summary)}</td>
+                </tr>` : `<tr class="muted">
+                    <td>–</td>
+                    <td title="${escapeHtml(summary.project.path)}">${escapeHtml(summary.project.name)}</td>
+                    <td>${escapeHtml(describeTemplate(summary))}</td>
+                    <td>${summary.status === 'no-checks' ? formatDollars(summary.investment) : '–'}</td>
+                    <td>–</td>
+                    <td>–</td>
+                    <td></td>
+                    <td>${describeBreakEven(summary)}</td>
+                </tr>`).join('')}
+            </table>
+        </div>
+        <p class="muted">Generated ${new Date().toLocaleDateString()} from each project's .quallaa/ data.</p>
+    </div>
+</body>
+</html>`;
+}
@@ -6,6 +6,7 @@ import { generateCommand } from './commands/generate';
 import { doctorCommand } from './commands/doctor';
 import { outcomeCommand } from './commands/outcome';
 import { evaluatorsCommand } from './commands/evaluators';
+import { portfolioCommand } from './commands/portfolio';
 const packageJson = require('../package.json');
 const { version } = packageJson;
 
@@ -24,6 +25,7 @@ cli.addCommand(generateCommand);
 cli.addCommand(doctorCommand);
 cli.addCommand(outcomeCommand);
 cli.addCommand(evaluatorsCommand);
+cli.addCommand(portfolioCommand);
 
 // Global error handling
 cli.exitOverride();
@@ -0,0 +1,103 @@
+import { EvaluationResult } from '../../types/index.js';
+
+/**
+ * Display helpers shared by the scorecard, the ROI reports and their notifications
+ */
+
+export function formatMetricValue(metric: EvaluationResult): string {
+  return formatMetricNumber(metric.metric, metric.value);
+}
+
+export function formatMetricNumber(metric: string, value: number): string {
+  if (metric.includes('cost')) {
+    return `$${value.toFixed(3)}`;
+  } else if (metric.includes('rate') || metric.includes('ratio') || metric.includes('accuracy') || metric.includes('coverage')) {
+    return `${(value * 100).toFixed(1)}%`;
+  } else if (metric.includes('time')) {
+    return `${value.toFixed(2)}s`;
+  } else {
+    return value.toString();
+  }
+}
+
+/**
+ * Render min/target/max limits, falling back to the single legacy threshold
+ */
+export function formatThresholdRange(metric: EvaluationResult): string {
+  const range = metric.thresholdRange;
+  if (!range) {
+    return `≥${formatMetricNumber(metric.metric, metric.threshold)}`;
+  }
+
+  const parts: string[] = [];
+  if (range.min !== undefined) parts.push(`min ${formatMetricNumber(metric.metric, range.min)}`);
+  if (range.target !== undefined) parts.push(`target ${formatMetricNumber(metric.metric, range.target)}`);
+  if (range.max !== undefined) parts.push(`max ${formatMetricNumber(metric.metric, range.max)}`);
+  return parts.join(' · ');
+}
+
+export function describeAssessment(metric: EvaluationResult): string {
+  const assessment = metric.assessment;
+  if (!assessment) return metric.passed ? 'passed' : 'failed';
+
+  const gap = assessment.distanceToTarget !== undefined
+    ? formatMetricNumber(metric.metric, Math.abs(assessment.distanceToTarget))
+    : '';
+
+  switch (assessment.status) {
+    case 'below_min': return 'below minimum';
+    case 'above_max': return 'above maximum';
+    case 'below_target': return `${gap} below target`;
+    case 'above_target': return `${gap} above target`;
+    case 'on_target': return 'on target';
+  }
+}
+
+/**
+ * Whole dollars with thousands separators, e.g. "-$1,250"
+ */
+export function formatDollars(value: number): string {
+  return `${value < 0 ? '-' : ''}$${Math.abs(Math.round(value)).toLocaleString()}`;
+}
+
+/**
+ * Dollars and cents with thousands separators, e.g. "$1,204.50"
+ */
+export function formatDollarsAndCents(value: number): string {
+  return `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export const REDACTED_AMOUNT = '$•••';
+
+// Writes a dollar amount, in whole dollars unless cents are asked for (rates, running costs)
+export type AmountFormatter = (value: number, cents?: boolean) => string;
+
+/**
+ * How a report writes dollar amounts; a redacted report writes every one as "$•••"
+ */
+export function amountFormatter(redact: boolean = false): AmountFormatter {
+  if (redact) return () => REDACTED_AMOUNT;
+  return (value, cents = false) => cents ? formatDollarsAndCents(value) : formatDollars(value);
+}
+
+/**
+ * Escape text for HTML element content and double-quoted attribute values
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function formatRelativeChange(relativeChange: number): string {
+  return `${relativeChange >= 0 ? '+' : ''}${(relativeChange * 100).toFixed(1)}%`;
+}
+
+/**
+ * Spread across repeated runs, e.g. "± 1.2% (93.1%–96.0%, 4/5 runs passed)"
+ */
+export function formatVariance(metric: EvaluationResult): string {
+  const variance = metric.variance;
+  if (!variance) return '';
+
+  const spread = `${formatMetricNumber(metric.metric, variance.min)}–${formatMetricNumber(metric.metric, variance.max)}`;
+  return `± ${formatMetricNumber(metric.metric, variance.stdDev)} (${spread}, ${variance.passedRuns}/${variance.runs} runs passed)`;
+}
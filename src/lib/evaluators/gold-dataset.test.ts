@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fs from 'fs/promises';
+import {
+  compareToGoldDataset,
+  goldComparisonToResults,
+  loadGoldDatasetConfig,
+  runGoldDatasetEvaluator,
+} from './gold-dataset.js';
+
+vi.mock('fs/promises', () => ({
+  readFile: vi.fn(),
+}));
+
+describe('compareToGoldDataset', () => {
+  const gold = [
+    { id: 'exc_001', skuId: 'KB-002', expected: { price: 17999 }, impactAmount: 2000 },
+    { id: 'exc_002', skuId: 'WH-001', expected: { price: 9999 }, impactAmount: 500 },
+    { id: 'exc_003', skuId: 'MS-010', expected: { price: 2999 }, impactAmount: 120 },
+  ];
+
+  it('should report perfect agreement when output matches gold', () => {
+    const comparison = compareToGoldDataset(gold, gold, { key: 'id' });
+
+    expect(comparison.fieldAccuracy).toBe(1);
+    expect(comparison.matchedRecords).toBe(3);
+    expect(comparison.mismatches).toEqual([]);
+    expect(comparison.exceptions).toMatchObject({ precision: 1, recall: 1, f1: 1 });
+  });
+
+  it('should compute field accuracy and list mismatching fields', () => {
+    const output = [
+      { id: 'exc_001', skuId: 'KB-002', expected: { price: 17999 }, impactAmount: 1990 },
+      { id: 'exc_002', skuId: 'WH-001', expected: { price: 9999 }, impactAmount: 500 },
+      { id: 'exc_003', skuId: 'MS-010', expected: { price: 2999 }, impactAmount: 120 },
+    ];
+
+    const comparison = compareToGoldDataset(output, gold, { key: 'id' });
+
+    expect(comparison.fieldAccuracy).toBeCloseTo(8 / 9);
+    expect(comparison.fieldAccuracyByField.impactAmount).toBeCloseTo(2 / 3);
+    expect(comparison.mismatches).toEqual([
+      { key: 'exc_001', field: 'impactAmount', reason: 'field_mismatch', expected: 2000, actual: 1990 },
+    ]);
+  });
+
+  it('should honour numeric tolerance and an explicit field list', () => {
+    const output = gold.map(record => ({ ...record, impactAmount: record.impactAmount + 5, skuId: 'changed' }));
+
+    const comparison = compareToGoldDataset(output, gold, {
+      key: 'id',
+      fields: ['impactAmount', 'expected.price'],
+      numericTolerance: 10,
+    });
+
+    expect(comparison.fieldAccuracy).toBe(1);
+  });
+
+  it('should score exception flags with precision, recall and F1', () => {
+    const output = [
+      { id: 'exc_001' },
+      { id: 'exc_002' },
+      { id: 'exc_099' },
+    ];
+
+    const comparison = compareToGoldDataset(output, gold, { key: 'id', fields: [] });
+
+    expect(comparison.exceptions).toMatchObject({ truePositives: 2, falsePositives: 1, falseNegatives: 1 });
+    expect(comparison.exceptions.precision).toBeCloseTo(2 / 3);
+    expect(comparison.exceptions.recall).toBeCloseTo(2 / 3);
+    expect(comparison.exceptions.f1).toBeCloseTo(2 / 3);
+    expect(comparison.missingRecords).toBe(1);
+    expect(comparison.unexpectedRecords).toBe(1);
+  });
+
+  it('should read exception flags from a field when configured', () => {
+    const labelled = [
+      { orderId: 'o1', flagged: true },
+      { orderId: 'o2', flagged: false },
+      { orderId: 'o3', flagged: true },
+    ];
+    const output = [
+      { orderId: 'o1', flagged: true },
+      { orderId: 'o2', flagged: true },
+      { orderId: 'o3', flagged: false },
+    ];
+
+    const comparison = compareToGoldDataset(output, labelled, { key: 'orderId', exceptionField: 'flagged' });
+
+    expect(comparison.exceptions).toMatchObject({ truePositives: 1, falsePositives: 1, falseNegatives: 1 });
+  });
+
+  it('should join on composite and nested keys', () => {
+    const labelled = [{ order: { id: 1 }, line: 1, amount: 10 }, { order: { id: 1 }, line: 2, amount: 20 }];
+    const output = [{ order: { id: 1 }, line: 2, amount: 20 }, { order: { id: 1 }, line: 1, amount: 10 }];
+
+    const comparison = compareToGoldDataset(output, labelled, { key: ['order.id', 'line'] });
+
+    expect(comparison.matchedRecords).toBe(2);
+    expect(comparison.fieldAccuracy).toBe(1);
+  });
+
+  it('should reject records without a join key', () => {
+    expect(() => compareToGoldDataset([{ name: 'x' }], gold, { key: 'id' })).toThrow('missing join key');
+  });
+
+  it('should reject duplicate join keys instead of keeping the last record', () => {
+    const output = [...gold, { ...gold[0], impactAmount: 0 }];
+
+    expect(() => compareToGoldDataset(output, gold, { key: 'id' })).toThrow('Duplicate output join key(s) "id": exc_001');
+  });
+
+  it('should score 0, not 1, when there is nothing to compare', () => {
+    const comparison = compareToGoldDataset([{ id: 'x', v: 1 }], [{ id: 'y', v: 1 }], { key: 'id', exceptionField: 'flagged' });
+
+    expect(comparison.fieldAccuracy).toBe(0);
+    expect(comparison.exceptions).toMatchObject({ precision: 0, recall: 0, f1: 0 });
+  });
+});
+
+describe('goldComparisonToResults', () => {
+  it('should apply configured thresholds and tag results with the evaluator', () => {
+    const comparison = compareToGoldDataset([{ id: 'a', v: 1 }, { id: 'b', v: 3 }], [{ id: 'a', v: 1 }, { id: 'b', v: 2 }], { key: 'id' });
+
+    const results = goldComparisonToResults(comparison, {
+      name: 'reconciliation-accuracy',
+      thresholds: { field_accuracy: { min: 0.5, target: 1 } },
+    });
+
+    const accuracy = results.find(r => r.metric === 'field_accuracy');
+    expect(accuracy).toMatchObject({ value: 0.5, threshold: 0.5, passed: true, evaluator: 'reconciliation-accuracy', category: 'Quality' });
+    expect(accuracy?.mismatches).toHaveLength(1);
+    expect(results.map(r => r.metric)).toEqual([
+      'field_accuracy',
+      'record_coverage',
+      'exception_precision',
+      'exception_recall',
+      'exception_f1',
+    ]);
+  });
+
+  it('should fail metrics below the default thresholds', () => {
+    const comparison = compareToGoldDataset([], [{ id: 'a' }], { key: 'id' });
+
+    const results = goldComparisonToResults(comparison, { name: 'gold' });
+
+    expect(results.find(r => r.metric === 'record_coverage')?.passed).toBe(false);
+    expect(results.find(r => r.metric === 'exception_recall')?.passed).toBe(false);
+  });
+
+  it('should fail metrics with nothing compared and report the unmatched records', () => {
+    const comparison = compareToGoldDataset([{ id: 'b' }], [{ id: 'a' }], { key: 'id' });
+
+    const results = goldComparisonToResults(comparison, { name: 'gold', thresholds: { field_accuracy: { target: 0 } } });
+    const accuracy = results.find(r => r.metric === 'field_accuracy');
+
+    expect(accuracy).toMatchObject({ value: 0, passed: false });
+    expect(accuracy?.details).toMatch(/^Nothing to compare; 0 matched, 2 unmatched record\(s\)/);
+  });
+});
+
+describe('gold dataset configuration', () => {
+  beforeEach(() => {
+    vi.mocked(fs.readFile).mockReset();
+  });
+
+  it('should return no evaluators when the config file is absent', async () => {
+    vi.mocked(fs.readFile).mockRejectedValue(Object.assign(new Error('missing'), { code: 'ENOENT' }));
+
+    await expect(loadGoldDatasetConfig('/project')).resolves.toEqual([]);
+  });
+
+  it('should reject entries missing required fields', async () => {
+    vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify({ evaluators: [{ name: 'x', goldDataset: 'g.json' }] }));
+
+    await expect(loadGoldDatasetConfig('/project')).rejects.toThrow('missing "output"');
+  });
+
+  it('should load gold and output files and compare them', async () => {
+    vi.mocked(fs.readFile).mockImplementation(async (file) => {
+      if (String(file).endsWith('expected.json')) {
+        return JSON.stringify({ testCases: [{ id: 'case_001', status: 'matched' }] });
+      }
+      return JSON.stringify([{ id: 'case_001', status: 'matched' }]);
+    });
+
+    const results = await runGoldDatasetEvaluator(
+      { name: 'reco', goldDataset: 'gold-data/expected.json', output: 'reports/output.json', key: 'id' },
+      '/project'
+    );
+
+    expect(results.every(r => r.passed)).toBe(true);
+  });
+});
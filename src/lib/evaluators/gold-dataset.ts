@@ -0,0 +1,351 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { EvaluationResult, GoldRecordMismatch, MetricThreshold } from '../../types/index.js';
+import { assessThreshold, meetsThreshold, representativeThreshold } from './thresholds.js';
+
+/**
+ * Gold dataset comparison engine
+ * Joins system output with labelled gold records and measures how closely they agree
+ */
+
+export const GOLD_DATASET_CONFIG_PATH = path.join('evaluators', 'gold-datasets.json');
+
+type GoldRecord = Record<string, unknown>;
+
+export interface GoldDatasetEvaluatorConfig {
+  name: string;
+  description?: string;
+  goldDataset: string;
+  output: string;
+  key: string | string[];
+  fields?: string[];
+  exceptionField?: string;
+  numericTolerance?: number;
+  thresholds?: Record<string, MetricThreshold>;
+  category?: string;
+}
+
+export interface GoldDatasetComparison {
+  goldRecords: number;
+  outputRecords: number;
+  matchedRecords: number;
+  missingRecords: number;
+  unexpectedRecords: number;
+  fieldAccuracy: number;
+  fieldAccuracyByField: Record<string, number>;
+  exceptions: {
+    truePositives: number;
+    falsePositives: number;
+    falseNegatives: number;
+    precision: number;
+    recall: number;
+    f1: number;
+  };
+  mismatches: GoldRecordMismatch[];
+}
+
+export const DEFAULT_GOLD_THRESHOLDS: Record<string, MetricThreshold> = {
+  field_accuracy: { min: 0.95, target: 1 },
+  record_coverage: { min: 0.95, target: 1 },
+  exception_precision: { min: 0.9, target: 1 },
+  exception_recall: { min: 0.9, target: 1 },
+  exception_f1: { min: 0.9, target: 1 },
+};
+
+const MAX_LISTED_MISMATCHES = 5;
+
+/**
+ * Compare system output against gold records
+ *
+ * Records are joined on `key` (dotted paths, composite keys allowed). Field accuracy covers
+ * matched records only; missing and unexpected records are counted separately.
+ * Exception flags come from `exceptionField` when set, otherwise every record present
+ * in a dataset counts as a flagged exception (the shape of `expected-exceptions.json`).
+ * A ratio with nothing to compare (no matched fields, no flagged exceptions) scores 0, not 1.
+ */
+export function compareToGoldDataset(
+  output: GoldRecord[],
+  gold: GoldRecord[],
+  options: Pick<GoldDatasetEvaluatorConfig, 'key' | 'fields' | 'exceptionField' | 'numericTolerance'>
+): GoldDatasetComparison {
+  const keyPaths = Array.isArray(options.key) ? options.key : [options.key];
+  const tolerance = options.numericTolerance ?? 0;
+  const outputByKey = indexByKey(output, keyPaths, 'output');
+  const goldByKey = indexByKey(gold, keyPaths, 'gold');
+
+  const mismatches: GoldRecordMismatch[] = [];
+  const fieldTotals: Record<string, { compared: number; correct: number }> = {};
+  let matchedRecords = 0;
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+
+  const isFlagged = (record: GoldRecord | undefined): boolean => {
+    if (!record) return false;
+    return options.exceptionField ? Boolean(getPath(record, options.exceptionField)) : true;
+  };
+
+  for (const [key, expected] of goldByKey) {
+    const actual = outputByKey.get(key);
+
+    const expectedFlag = isFlagged(expected);
+    const actualFlag = isFlagged(actual);
+    if (expectedFlag && actualFlag) truePositives++;
+    else if (expectedFlag) falseNegatives++;
+    else if (actualFlag) falsePositives++;
+
+    if (!actual) {
+      mismatches.push({ key, reason: 'missing_in_output', expected, actual: null });
+      continue;
+    }
+
+    matchedRecords++;
+    const fields = options.fields ?? collectFields(expected, keyPaths);
+
+    for (const field of fields) {
+      const expectedValue = getPath(expected, field);
+      const actualValue = getPath(actual, field);
+      const totals = fieldTotals[field] ?? (fieldTotals[field] = { compared: 0, correct: 0 });
+
+      totals.compared++;
+      if (valuesMatch(expectedValue, actualValue, tolerance)) {
+        totals.correct++;
+      } else {
+        mismatches.push({ key, field, reason: 'field_mismatch', expected: expectedValue, actual: actualValue ?? null });
+      }
+    }
+  }
+
+  for (const [key, actual] of outputByKey) {
+    if (goldByKey.has(key)) continue;
+    if (isFlagged(actual)) falsePositives++;
+    mismatches.push({ key, reason: 'unexpected_in_output', expected: null, actual });
+  }
+
+  const compared = Object.values(fieldTotals).reduce((sum, t) => sum + t.compared, 0);
+  const correct = Object.values(fieldTotals).reduce((sum, t) => sum + t.correct, 0);
+  const precision = ratio(truePositives, truePositives + falsePositives);
+  const recall = ratio(truePositives, truePositives + falseNegatives);
+
+  return {
+    goldRecords: goldByKey.size,
+    outputRecords: outputByKey.size,
+    matchedRecords,
+    missingRecords: goldByKey.size - matchedRecords,
+    unexpectedRecords: [...outputByKey.keys()].filter(key => !goldByKey.has(key)).length,
+    fieldAccuracy: ratio(correct, compared),
+    fieldAccuracyByField: Object.fromEntries(
+      Object.entries(fieldTotals).map(([field, t]) => [field, ratio(t.correct, t.compared)])
+    ),
+    exceptions: {
+      truePositives,
+      falsePositives,
+      falseNegatives,
+      precision,
+      recall,
+      f1: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+    },
+    mismatches,
+  };
+}
+
+/**
+ * Convert a comparison into scorecard results
+ */
+export function goldComparisonToResults(
+  comparison: GoldDatasetComparison,
+  config: Pick<GoldDatasetEvaluatorConfig, 'name' | 'thresholds' | 'category'>
+): EvaluationResult[] {
+  const thresholds = { ...DEFAULT_GOLD_THRESHOLDS, ...config.thresholds };
+  const category = config.category ?? 'Quality';
+  const { exceptions } = comparison;
+
+  const worstFields = Object.entries(comparison.fieldAccuracyByField)
+    .filter(([, accuracy]) => accuracy < 1)
+    .sort(([, a], [, b]) => a - b)
+    .slice(0, 3)
+    .map(([field, accuracy]) => `${field} ${(accuracy * 100).toFixed(1)}%`);
+
+  const fieldMismatches = comparison.mismatches.filter(m => m.reason === 'field_mismatch');
+  const recordMismatches = comparison.mismatches.filter(m => m.reason !== 'field_mismatch');
+
+  const unmatched = comparison.missingRecords + comparison.unexpectedRecords;
+  const flagged = exceptions.truePositives + exceptions.falsePositives + exceptions.falseNegatives;
+
+  const measured: Array<{ metric: string; value: number; details: string; compared: number; mismatches?: GoldRecordMismatch[] }> = [
+    {
+      metric: 'field_accuracy',
+      value: comparison.fieldAccuracy,
+      compared: comparison.matchedRecords,
+      details: `${comparison.matchedRecords} matched, ${unmatched} unmatched record(s)` +
+        (worstFields.length > 0 ? `; lowest fields: ${worstFields.join(', ')}` : '') +
+        describeMismatches(fieldMismatches),
+      mismatches: fieldMismatches,
+    },
+    {
+      metric: 'record_coverage',
+      value: ratio(comparison.matchedRecords, comparison.goldRecords),
+      compared: comparison.goldRecords,
+      details: `${comparison.missingRecords} missing, ${comparison.unexpectedRecords} unexpected of ${comparison.goldRecords} gold record(s)` +
+        describeMismatches(recordMismatches),
+      mismatches: recordMismatches,
+    },
+    {
+      metric: 'exception_precision',
+      value: exceptions.precision,
+      compared: exceptions.truePositives + exceptions.falsePositives,
+      details: `${exceptions.truePositives} correct, ${exceptions.falsePositives} false positive(s)`,
+    },
+    {
+      metric: 'exception_recall',
+      value: exceptions.recall,
+      compared: exceptions.truePositives + exceptions.falseNegatives,
+      details: `${exceptions.truePositives} caught, ${exceptions.falseNegatives} missed`,
+    },
+    {
+      metric: 'exception_f1',
+      value: exceptions.f1,
+      compared: flagged,
+      details: `Harmonic mean of precision and recall`,
+    },
+  ];
+
+  return measured.map(({ metric, value, details, compared, mismatches }) => {
+    const threshold = thresholds[metric] ?? { target: 0 };
+    return {
+      metric,
+      value,
+      threshold: representativeThreshold(threshold),
+      passed: compared > 0 && meetsThreshold(value, threshold),
+      thresholdRange: threshold,
+      assessment: assessThreshold(value, threshold),
+      category,
+      evaluator: config.name,
+      source: GOLD_DATASET_CONFIG_PATH.split(path.sep).join('/'),
+      details: compared > 0 ? details : `Nothing to compare; ${details}`,
+      ...(mismatches && mismatches.length > 0 ? { mismatches } : {}),
+    };
+  });
+}
+
+/**
+ * Load gold records from a JSON file
+ * Accepts a bare array or an object wrapping one in `records`, `testCases` or `data`
+ */
+export async function loadGoldRecords(filePath: string): Promise<GoldRecord[]> {
+  const data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+
+  if (Array.isArray(data)) return data;
+  for (const field of ['records', 'testCases', 'data']) {
+    if (Array.isArray(data?.[field])) return data[field];
+  }
+
+  throw new Error(`${filePath} must contain an array of records`);
+}
+
+/**
+ * Load gold dataset evaluator definitions from evaluators/gold-datasets.json
+ */
+export async function loadGoldDatasetConfig(projectPath: string = process.cwd()): Promise<GoldDatasetEvaluatorConfig[]> {
+  const configPath = path.join(projectPath, GOLD_DATASET_CONFIG_PATH);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw new Error(`Invalid ${GOLD_DATASET_CONFIG_PATH}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const entries: unknown = Array.isArray(data) ? data : (data as { evaluators?: unknown } | null)?.evaluators;
+  if (!Array.isArray(entries)) {
+    throw new Error(`Invalid ${GOLD_DATASET_CONFIG_PATH}: expected an "evaluators" array`);
+  }
+
+  for (const [index, entry] of entries.entries()) {
+    for (const field of ['name', 'goldDataset', 'output', 'key']) {
+      if (!(entry as Record<string, unknown> | null)?.[field]) {
+        throw new Error(`Invalid ${GOLD_DATASET_CONFIG_PATH}: evaluator ${index} is missing "${field}"`);
+      }
+    }
+  }
+
+  return entries as GoldDatasetEvaluatorConfig[];
+}
+
+/**
+ * Run one configured gold dataset evaluator
+ */
+export async function runGoldDatasetEvaluator(
+  config: GoldDatasetEvaluatorConfig,
+  projectPath: string = process.cwd()
+): Promise<EvaluationResult[]> {
+  const [gold, output] = await Promise.all([
+    loadGoldRecords(path.resolve(projectPath, config.goldDataset)),
+    loadGoldRecords(path.resolve(projectPath, config.output)),
+  ]);
+
+  return goldComparisonToResults(compareToGoldDataset(output, gold, config), config);
+}
+
+function indexByKey(records: GoldRecord[], keyPaths: string[], source: string): Map<string, GoldRecord> {
+  const index = new Map<string, GoldRecord>();
+  const duplicates = new Set<string>();
+
+  for (const record of records) {
+    const parts = keyPaths.map(keyPath => getPath(record, keyPath));
+    if (parts.some(part => part === undefined || part === null)) {
+      throw new Error(`A ${source} record is missing join key "${keyPaths.join(', ')}"`);
+    }
+    const key = parts.map(String).join('|');
+    if (index.has(key)) duplicates.add(key);
+    index.set(key, record);
+  }
+
+  // A later record would silently replace an earlier one, hiding it from the comparison
+  if (duplicates.size > 0) {
+    const listed = [...duplicates].slice(0, MAX_LISTED_MISMATCHES).join(', ');
+    const more = duplicates.size > MAX_LISTED_MISMATCHES ? ` and ${duplicates.size - MAX_LISTED_MISMATCHES} more` : '';
+    throw new Error(`Duplicate ${source} join key(s) "${keyPaths.join(', ')}": ${listed}${more}`);
+  }
+
+  return index;
+}
+
+function collectFields(record: GoldRecord, keyPaths: string[]): string[] {
+  return Object.keys(record).filter(field => !keyPaths.includes(field));
+}
+
+function getPath(record: unknown, dottedPath: string): unknown {
+  return dottedPath.split('.').reduce<unknown>(
+    (value, part) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[part] : undefined),
+    record
+  );
+}
+
+function valuesMatch(expected: unknown, actual: unknown, tolerance: number): boolean {
+  if (typeof expected === 'number' && typeof actual === 'number') {
+    return Math.abs(expected - actual) <= tolerance;
+  }
+  if (expected !== null && typeof expected === 'object') {
+    return JSON.stringify(expected) === JSON.stringify(actual);
+  }
+  return expected === actual;
+}
+
+function describeMismatches(mismatches: GoldRecordMismatch[]): string {
+  if (mismatches.length === 0) return '';
+
+  const listed = mismatches
+    .slice(0, MAX_LISTED_MISMATCHES)
+    .map(m => (m.field ? `${m.key}.${m.field}` : `${m.key} (${m.reason.replace(/_/g, ' ')})`));
+  const more = mismatches.length > MAX_LISTED_MISMATCHES ? ` and ${mismatches.length - MAX_LISTED_MISMATCHES} more` : '';
+
+  return `; mismatches: ${listed.join(', ')}${more}`;
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? numerator / denominator : 0;
+}
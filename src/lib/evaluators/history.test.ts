@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EvaluationHistory, compareRuns } from './history.js';
+import { StateStore } from '../../storage/state-store.js';
+import type { EvaluationResult, EvaluationRun } from '../../types/index.js';
+
+vi.mock('../utils/git.js', () => ({
+  getGitInfo: vi.fn(() => ({ commit: 'abc1234def', branch: 'main' })),
+  resolveGitRef: vi.fn((ref: string) => (ref === 'main' ? 'abc1234def' : undefined)),
+}));
+
+const result = (metric: string, value: number, overrides: Partial<EvaluationResult> = {}): EvaluationResult => ({
+  metric,
+  value,
+  threshold: 0,
+  passed: true,
+  category: 'Quality',
+  evaluator: 'reconciliation',
+  ...overrides,
+});
+
+const run = (id: string, results: EvaluationResult[], recordedAt = new Date()): EvaluationRun => ({
+  id,
+  recordedAt,
+  git: {},
+  suite: {
+    name: 'Suite',
+    description: 'Test suite',
+    results,
+    overallScore: 1,
+    passed: true,
+    timestamp: recordedAt,
+    duration: 10,
+  },
+});
+
+describe('EvaluationHistory', () => {
+  let history: EvaluationHistory;
+  let projectPath: string;
+
+  beforeEach(() => {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'quallaa-history-'));
+    history = new EvaluationHistory(projectPath);
+  });
+
+  afterEach(() => {
+    StateStore.open(projectPath).close();
+    fs.rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  it('should store each run with git metadata', async () => {
+    const saved = await history.saveRun(run('ignored', [result('accuracy', 0.9)]).suite);
+
+    expect(saved.id).toMatch(/^eval_/);
+    expect(saved.git).toEqual({ commit: 'abc1234def', branch: 'main' });
+    await expect(new EvaluationHistory(projectPath).getLatestRun()).resolves.toMatchObject({ id: saved.id, git: saved.git });
+  });
+
+  it('should list runs oldest first with dates restored', async () => {
+    // Runs an earlier version of the CLI saved as .quallaa/evaluations/*.json
+    const evaluationsDir = path.join(projectPath, '.quallaa', 'evaluations');
+    fs.mkdirSync(evaluationsDir, { recursive: true });
+    fs.writeFileSync(path.join(evaluationsDir, 'b.json'), JSON.stringify(run('b', [], new Date('2025-02-01'))));
+    fs.writeFileSync(path.join(evaluationsDir, 'a.json'), JSON.stringify(run('a', [], new Date('2025-01-01'))));
+
+    const runs = await history.listRuns();
+
+    expect(runs.map(r => r.id)).toEqual(['a', 'b']);
+    expect(runs[0].recordedAt).toBeInstanceOf(Date);
+    expect(runs[0].suite.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should return no runs before anything is recorded', async () => {
+    await expect(history.listRuns()).resolves.toEqual([]);
+    await expect(history.getLatestRun()).resolves.toBeNull();
+  });
+
+  it('should find runs by id, prefix and git ref', async () => {
+    const first = await history.saveRun(run('x', [result('accuracy', 0.9)]).suite);
+
+    await expect(history.findRun(first.id)).resolves.toMatchObject({ id: first.id });
+    await expect(history.findRun(first.id.slice(0, 16))).resolves.toMatchObject({ id: first.id });
+    await expect(history.findRun('main')).resolves.toMatchObject({ id: first.id });
+    await expect(history.findRun('main', first.id)).resolves.toBeNull();
+    await expect(history.findRun('unknown-ref')).resolves.toBeNull();
+  });
+
+  it('should find the run before a given run', async () => {
+    StateStore.open(projectPath).insertRun(run('a', [], new Date('2025-01-01')));
+    StateStore.open(projectPath).insertRun(run('b', [], new Date('2025-02-01')));
+
+    const latest = await history.getLatestRun();
+
+    expect(latest?.id).toBe('b');
+    await expect(history.getPreviousRun(latest!)).resolves.toMatchObject({ id: 'a' });
+  });
+});
+
+describe('compareRuns', () => {
+  it('should classify improvements and regressions by metric direction', () => {
+    const base = run('a', [
+      result('accuracy', 0.9),
+      result('error_rate', 0.05),
+      result('coverage', 0.8),
+    ]);
+    const current = run('b', [
+      result('accuracy', 0.95),
+      result('error_rate', 0.06),
+      result('coverage', 0.8),
+    ]);
+
+    const changes = compareRuns(base, current);
+
+    expect(changes.find(c => c.metric === 'accuracy')).toMatchObject({ change: 'improved', exceedsTolerance: false });
+    expect(changes.find(c => c.metric === 'error_rate')).toMatchObject({ change: 'regressed', exceedsTolerance: true });
+    expect(changes.find(c => c.metric === 'coverage')).toMatchObject({ change: 'unchanged', delta: 0 });
+  });
+
+  it('should use the threshold direction when the metric declares one', () => {
+    const lowerIsBetter = { assessment: { status: 'on_target' as const, direction: 'lower' as const } };
+    const changes = compareRuns(
+      run('a', [result('exceptions_open', 10, lowerIsBetter)]),
+      run('b', [result('exceptions_open', 8, lowerIsBetter)])
+    );
+
+    expect(changes[0].change).toBe('improved');
+  });
+
+  it('should allow regressions within the relative tolerance', () => {
+    const base = run('a', [result('accuracy', 0.9)]);
+    const current = run('b', [result('accuracy', 0.89)]);
+
+    expect(compareRuns(base, current, 0.02)[0]).toMatchObject({ change: 'regressed', exceedsTolerance: false });
+    expect(compareRuns(base, current, 0.005)[0].exceedsTolerance).toBe(true);
+  });
+
+  it('should report added and removed metrics, counting a removed one as a regression', () => {
+    const changes = compareRuns(run('a', [result('accuracy', 0.9)]), run('b', [result('coverage', 0.8)]), 0.5);
+
+    expect(changes).toEqual([
+      expect.objectContaining({ metric: 'coverage', change: 'added', exceedsTolerance: false }),
+      expect.objectContaining({ metric: 'accuracy', change: 'removed', exceedsTolerance: true }),
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+import { EvaluationResult, EvaluationRun, EvaluationSuite, MetricChange } from '../../types/index.js';
+import { getGitInfo, resolveGitRef } from '../utils/git.js';
+import { StateStore, PeriodFilter } from '../../storage/state-store.js';
+
+// Used when a metric has no threshold range to tell us which way is better
+const LOWER_IS_BETTER_PATTERN = /error|rework|time|cost|leakage|latency|exception_count|duration/;
+
+/**
+ * Evaluation history store
+ * Keeps every evaluation suite in the project state store alongside the git commit and branch
+ */
+export class EvaluationHistory {
+  constructor(private projectPath: string = process.cwd()) {}
+
+  /**
+   * Wrap a completed suite with an id and git metadata without storing it
+   */
+  createRun(suite: EvaluationSuite): EvaluationRun {
+    return {
+      id: `eval_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      recordedAt: new Date(),
+      git: getGitInfo(this.projectPath),
+      suite,
+    };
+  }
+
+  /**
+   * Record a completed suite
+   */
+  async saveRun(suite: EvaluationSuite): Promise<EvaluationRun> {
+    const run = this.createRun(suite);
+    StateStore.open(this.projectPath).insertRun(run);
+    return run;
+  }
+
+  /**
+   * Load stored runs oldest first, optionally within a period of recording times
+   */
+  async listRuns(period: PeriodFilter = {}): Promise<EvaluationRun[]> {
+    return StateStore.open(this.projectPath).listRuns(period);
+  }
+
+  async getLatestRun(): Promise<EvaluationRun | null> {
+    const runs = await this.listRuns();
+    return runs[runs.length - 1] ?? null;
+  }
+
+  /**
+   * The run recorded immediately before the given one
+   */
+  async getPreviousRun(run: EvaluationRun): Promise<EvaluationRun | null> {
+    const earlier = (await this.listRuns()).filter(
+      candidate => candidate.id !== run.id && candidate.recordedAt.getTime() <= run.recordedAt.getTime()
+    );
+    return earlier[earlier.length - 1] ?? null;
+  }
+
+  /**
+   * Find a run by id (or unique id prefix), falling back to the latest run recorded at a git ref
+   */
+  async findRun(reference: string, excludeId?: string): Promise<EvaluationRun | null> {
+    const runs = (await this.listRuns()).filter(run => run.id !== excludeId);
+
+    const exact = runs.find(run => run.id === reference);
+    if (exact) return exact;
+
+    const prefixed = runs.filter(run => run.id.startsWith(reference));
+    if (prefixed.length === 1) return prefixed[0];
+
+    const commit = resolveGitRef(reference, this.projectPath);
+    if (!commit) return null;
+
+    const atCommit = runs.filter(run => run.git.commit === commit);
+    return atCommit[atCommit.length - 1] ?? null;
+  }
+}
+
+/**
+ * Compare each metric between two runs
+ * `tolerance` is the allowed worsening relative to the earlier value (0.02 = 2%),
+ * or an absolute amount when the earlier value is zero. A metric the current run no longer
+ * reports always exceeds it, since a dropped metric would otherwise hide a failure.
+ */
+export function compareRuns(base: EvaluationRun, current: EvaluationRun, tolerance: number = 0): MetricChange[] {
+  const before = indexResults(base.suite.results);
+  const after = indexResults(current.suite.results);
+  const changes: MetricChange[] = [];
+
+  for (const [key, result] of after) {
+    const previous = before.get(key);
+    if (!previous) {
+      changes.push({ metric: result.metric, evaluator: result.evaluator, after: result.value, change: 'added', exceedsTolerance: false });
+      continue;
+    }
+
+    const delta = result.value - previous.value;
+    const improvement = metricDirection(result, previous) === 'higher' ? delta : -delta;
+    const relativeChange = previous.value !== 0 ? delta / Math.abs(previous.value) : undefined;
+
+    let change: MetricChange['change'] = 'unchanged';
+    if (Math.abs(delta) > Number.EPSILON * Math.max(1, Math.abs(previous.value))) {
+      change = improvement > 0 ? 'improved' : 'regressed';
+    }
+
+    const worsening = change === 'regressed' ? Math.abs(delta) : 0;
+    const allowed = previous.value !== 0 ? tolerance * Math.abs(previous.value) : tolerance;
+
+    changes.push({
+      metric: result.metric,
+      evaluator: result.evaluator,
+      before: previous.value,
+      after: result.value,
+      delta,
+      ...(relativeChange !== undefined ? { relativeChange } : {}),
+      change,
+      exceedsTolerance: worsening > allowed,
+    });
+  }
+
+  for (const [key, result] of before) {
+    if (!after.has(key)) {
+      changes.push({ metric: result.metric, evaluator: result.evaluator, before: result.value, change: 'removed', exceedsTolerance: true });
+    }
+  }
+
+  return changes;
+}
+
+function indexResults(results: EvaluationResult[]): Map<string, EvaluationResult> {
+  return new Map(results.map(result => [`${result.evaluator ?? ''}:${result.metric}`, result]));
+}
+
+function metricDirection(current: EvaluationResult, previous: EvaluationResult): 'higher' | 'lower' {
+  const declared = current.assessment?.direction ?? previous.assessment?.direction;
+  if (declared) return declared;
+  return LOWER_IS_BETTER_PATTERN.test(current.metric) ? 'lower' : 'higher';
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseReportFormats,
+  generateJUnitReport,
+  generateMarkdownSummary,
+  generateSarifReport,
+} from './reporters.js';
+import type { EvaluationResult, EvaluationSuite, MetricChange } from '../../types/index.js';
+
+describe('reporters', () => {
+  const results: EvaluationResult[] = [
+    {
+      metric: 'field_accuracy',
+      value: 0.98,
+      threshold: 0.95,
+      passed: true,
+      category: 'Quality',
+      evaluator: 'reconciliation',
+      source: 'evaluators/reconciliation.ts',
+      thresholdRange: { min: 0.95, target: 0.99 },
+    },
+    {
+      metric: 'error_rate',
+      value: 0.08,
+      threshold: 0.05,
+      passed: false,
+      category: 'Quality',
+      evaluator: 'reconciliation',
+      source: 'evaluators/reconciliation.ts',
+      thresholdRange: { max: 0.05 },
+      details: '8 of 100 invoices <unmatched>',
+    },
+    {
+      metric: 'unit_cost',
+      value: 0.02,
+      threshold: 0,
+      passed: true,
+      category: 'Cost',
+      evaluator: 'billing',
+      duration: 250,
+    },
+  ];
+
+  const suite: EvaluationSuite = {
+    name: 'Quallaa Evaluation Suite',
+    description: 'Test suite',
+    results,
+    overallScore: 2 / 3,
+    passed: false,
+    timestamp: new Date('2025-03-01T12:00:00Z'),
+    duration: 1500,
+    targetsMet: 1,
+  };
+
+  describe('parseReportFormats', () => {
+    it('should accept a comma-separated list', () => {
+      expect(parseReportFormats('html, junit,html')).toEqual(['html', 'junit']);
+    });
+
+    it('should reject unknown formats', () => {
+      expect(() => parseReportFormats('html,pdf')).toThrow('Unknown output format "pdf"');
+    });
+  });
+
+  describe('generateJUnitReport', () => {
+    it('should emit a testsuite per evaluator and a failure per failed metric', () => {
+      const xml = generateJUnitReport(suite);
+
+      expect(xml).toContain('<testsuites name="Quallaa Evaluation Suite" tests="3" failures="1" time="1.500"');
+      expect(xml).toContain('<testsuite name="reconciliation" tests="2" failures="1" file="evaluators/reconciliation.ts">');
+      expect(xml).toContain('<testsuite name="billing" tests="1" failures="0" time="0.250">');
+      expect(xml).toContain('<testcase name="unit_cost" classname="evaluators.billing" time="0.250">');
+      expect(xml).toContain('<testcase name="error_rate" classname="evaluators.reconciliation"');
+      expect(xml).toContain('type="ThresholdNotMet">8 of 100 invoices &lt;unmatched&gt;</failure>');
+      expect(xml.match(/<failure /g)).toHaveLength(1);
+    });
+  });
+
+  describe('generateMarkdownSummary', () => {
+    it('should render a compact table with pass/fail markers', () => {
+      const markdown = generateMarkdownSummary(suite);
+
+      expect(markdown).toContain('### ❌ Quallaa Evaluation Suite');
+      expect(markdown).toContain('**Passed:** 2/3');
+      expect(markdown).toContain('| ❌ | error_rate | reconciliation | 8.0% | max 5.0% |');
+      expect(markdown).not.toContain('Δ');
+    });
+
+    it('should add deltas when compared with an earlier run', () => {
+      const changes: MetricChange[] = [
+        { metric: 'field_accuracy', evaluator: 'reconciliation', before: 0.96, after: 0.98, delta: 0.02, relativeChange: 0.02 / 0.96, change: 'improved', exceedsTolerance: false },
+        { metric: 'error_rate', evaluator: 'reconciliation', before: 0.04, after: 0.08, delta: 0.04, relativeChange: 1, change: 'regressed', exceedsTolerance: true },
+        { metric: 'unit_cost', evaluator: 'billing', after: 0.02, change: 'added', exceedsTolerance: false },
+        { metric: 'record_coverage', evaluator: 'reconciliation', before: 1, change: 'removed', exceedsTolerance: true },
+      ];
+
+      const markdown = generateMarkdownSummary(suite, changes);
+
+      expect(markdown).toContain('| Threshold | Δ |');
+      expect(markdown).toContain('| min 95.0% · target 99.0% | 📈 +2.1% |');
+      expect(markdown).toContain('| max 5.0% | 📉 +100.0% |');
+      expect(markdown).toContain('| $0.020 | ≥$0.000 | 🆕 |');
+      expect(markdown).toContain('_No longer reported: `record_coverage`_');
+    });
+  });
+
+  describe('generateSarifReport', () => {
+    it('should report failed metrics at the evaluator file', () => {
+      const sarif = JSON.parse(generateSarifReport(suite));
+      const run = sarif.runs[0];
+
+      expect(sarif.version).toBe('2.1.0');
+      expect(run.tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual(['error_rate']);
+      expect(run.results).toHaveLength(1);
+      expect(run.results[0]).toMatchObject({
+        ruleId: 'error_rate',
+        level: 'error',
+        locations: [{ physicalLocation: { artifactLocation: { uri: 'evaluators/reconciliation.ts' } } }],
+      });
+      expect(run.results[0].message.text).toContain('reconciliation: error_rate is 8.0%, required max 5.0%');
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { EvaluationResult, EvaluationSuite, MetricChange } from '../../types/index.js';
+import {
+  formatMetricValue,
+  formatMetricNumber,
+  formatThresholdRange,
+  describeAssessment,
+  formatRelativeChange,
+} from './formatting.js';
+
+/**
+ * CI-facing report formats for evaluation suites
+ * JUnit XML for test result panels, Markdown for PR comments, SARIF for code scanning.
+ */
+
+export const REPORT_FORMATS = ['html', 'json', 'text', 'junit', 'markdown', 'sarif'] as const;
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+/**
+ * Parse a comma-separated `--format` value such as `html,junit`
+ */
+export function parseReportFormats(value: string): ReportFormat[] {
+  const formats = value.split(',').map(format => format.trim().toLowerCase()).filter(Boolean);
+
+  if (formats.length === 0) {
+    throw new Error(`No output format given (expected one or more of ${REPORT_FORMATS.join(', ')})`);
+  }
+
+  for (const format of formats) {
+    if (!(REPORT_FORMATS as readonly string[]).includes(format)) {
+      throw new Error(`Unknown output format "${format}" (expected one or more of ${REPORT_FORMATS.join(', ')})`);
+    }
+  }
+
+  return [...new Set(formats)] as ReportFormat[];
+}
+
+/**
+ * JUnit XML with one testsuite per evaluator and one testcase per metric
+ */
+export function generateJUnitReport(suite: EvaluationSuite): string {
+  const groups = groupByEvaluator(suite.results);
+  const failures = suite.results.filter(r => !r.passed).length;
+
+  let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
+  xml += `<testsuites name="${escapeXml(suite.name)}" tests="${suite.results.length}" failures="${failures}" time="${toSeconds(suite.duration)}" timestamp="${suite.timestamp.toISOString()}">\n`;
+
+  for (const [evaluator, results] of groups) {
+    const evaluatorFailures = results.filter(r => !r.passed).length;
+    const durations = results.map(r => r.duration).filter((d): d is number => d !== undefined);
+    xml += `  <testsuite name="${escapeXml(evaluator)}" tests="${results.length}" failures="${evaluatorFailures}"`;
+    xml += durations.length > 0 ? ` time="${toSeconds(Math.max(...durations))}"` : '';
+    xml += results[0].source ? ` file="${escapeXml(results[0].source)}">\n` : '>\n';
+
+    for (const result of results) {
+      xml += `    <testcase name="${escapeXml(result.metric)}" classname="${escapeXml(`evaluators.${evaluator}`)}"`;
+      xml += result.duration !== undefined ? ` time="${toSeconds(result.duration)}"` : '';
+      xml += result.source ? ` file="${escapeXml(result.source)}">\n` : '>\n';
+
+      const summary = `${formatMetricValue(result)} (${formatThresholdRange(result)}; ${describeAssessment(result)})`;
+      if (result.passed) {
+        xml += `      <system-out>${escapeXml(summary)}</system-out>\n`;
+      } else {
+        xml += `      <failure message="${escapeXml(`${result.metric} ${summary}`)}" type="ThresholdNotMet">${escapeXml(result.details ?? summary)}</failure>\n`;
+      }
+      xml += '    </testcase>\n';
+    }
+
+    xml += '  </testsuite>\n';
+  }
+
+  xml += '</testsuites>\n';
+  return xml;
+}
+
+/**
+ * Compact Markdown summary for PR comments
+ * `changes` adds a delta column against an earlier run.
+ */
+export function generateMarkdownSummary(suite: EvaluationSuite, changes?: MetricChange[]): string {
+  const passedCount = suite.results.filter(r => r.passed).length;
+  const deltas = new Map((changes ?? []).map(change => [`${change.evaluator ?? ''}:${change.metric}`, change]));
+
+  let markdown = `### ${suite.passed ? '✅' : '❌'} ${suite.name}\n\n`;
+  markdown += `**Score:** ${(suite.overallScore * 100).toFixed(1)}% · **Passed:** ${passedCount}/${suite.results.length}`;
+  if (suite.targetsMet !== undefined) {
+    markdown += ` · **Targets met:** ${suite.targetsMet}/${suite.results.length}`;
+  }
+  if (suite.thresholdProfile) {
+    markdown += ` · **Profile:** \`${suite.thresholdProfile}\``;
+  }
+  markdown += '\n\n';
+
+  const categories = Object.entries(suite.categoryScores ?? {});
+  if (categories.length > 1) {
+    markdown += categories.map(([category, score]) => `${category} ${(score.score * 100).toFixed(0)}%`).join(' · ') + '\n\n';
+  }
+  if (suite.blockingFailures && suite.blockingFailures.length > 0) {
+    markdown += `⛔ **Blocking failures:** ${suite.blockingFailures.map(name => `\`${name}\``).join(', ')}\n\n`;
+  }
+  if (suite.flakyMetrics && suite.flakyMetrics.length > 0) {
+    markdown += `🎲 **Flaky across ${suite.repeat} runs:** ${suite.flakyMetrics.map(name => `\`${name}\``).join(', ')}\n\n`;
+  }
+
+  const showDeltas = changes !== undefined;
+  markdown += `| | Metric | Evaluator | Value | Threshold |${showDeltas ? ' Δ |' : ''}\n`;
+  markdown += `|---|---|---|---|---|${showDeltas ? '---|' : ''}\n`;
+
+  for (const result of suite.results) {
+    const cells = [
+      result.passed ? '✅' : '❌',
+      escapeMarkdown(result.metric),
+      escapeMarkdown(result.evaluator ?? ''),
+      formatMetricValue(result),
+      escapeMarkdown(formatThresholdRange(result)),
+    ];
+    if (showDeltas) {
+      cells.push(formatDelta(deltas.get(`${result.evaluator ?? ''}:${result.metric}`)));
+    }
+    markdown += `| ${cells.join(' | ')} |\n`;
+  }
+
+  const removed = (changes ?? []).filter(change => change.change === 'removed');
+  if (removed.length > 0) {
+    markdown += `\n_No longer reported: ${removed.map(change => `\`${change.metric}\``).join(', ')}_\n`;
+  }
+
+  return markdown;
+}
+
+/**
+ * SARIF 2.1.0 log with one result per failed metric, located at the evaluator file
+ */
+export function generateSarifReport(suite: EvaluationSuite): string {
+  const failed = suite.results.filter(r => !r.passed);
+  const ruleIds = [...new Set(failed.map(r => r.metric))];
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'quallaa-evaluators',
+            informationUri: 'https://github.com/jefftoffoli/quallaa-cli',
+            rules: ruleIds.map(id => ({
+              id,
+              name: id,
+              shortDescription: { text: `${id.replace(/_/g, ' ')} threshold` },
+              defaultConfiguration: { level: 'error' },
+            })),
+          },
+        },
+        results: failed.map(result => ({
+          ruleId: result.metric,
+          ruleIndex: ruleIds.indexOf(result.metric),
+          level: 'error',
+          message: {
+            text: `${result.evaluator ? `${result.evaluator}: ` : ''}${result.metric} is ${formatMetricValue(result)}, ` +
+              `required ${formatThresholdRange(result)}${result.details ? `. ${result.details}` : ''}`,
+          },
+          ...(result.source
+            ? {
+                locations: [
+                  {
+                    physicalLocation: {
+                      artifactLocation: { uri: result.source },
+                      region: { startLine: 1 },
+                    },
+                  },
+                ],
+              }
+            : {}),
+          properties: {
+            value: result.value,
+            threshold: result.thresholdRange ?? { min: result.threshold },
+            category: result.category,
+          },
+        })),
+      },
+    ],
+  };
+
+  return JSON.stringify(sarif, null, 2);
+}
+
+function groupByEvaluator(results: EvaluationResult[]): Map<string, EvaluationResult[]> {
+  const groups = new Map<string, EvaluationResult[]>();
+  for (const result of results) {
+    const name = result.evaluator ?? 'evaluators';
+    groups.set(name, [...(groups.get(name) ?? []), result]);
+  }
+  return groups;
+}
+
+function formatDelta(change?: MetricChange): string {
+  if (!change || change.change === 'added') return '🆕';
+  if (change.change === 'unchanged' || change.delta === undefined) return '—';
+
+  const icon = change.change === 'improved' ? '📈' : '📉';
+  const sign = change.delta >= 0 ? '+' : '-';
+  const amount = change.relativeChange !== undefined
+    ? formatRelativeChange(change.relativeChange)
+    : `${sign}${formatMetricNumber(change.metric, Math.abs(change.delta))}`;
+  return `${icon} ${amount}`;
+}
+
+function toSeconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/\|/g, '\\|');
+}
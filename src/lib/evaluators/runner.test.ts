@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runEvaluatorFile, createFailedEvaluatorResult, summarizeEvaluatorTimings } from './runner.js';
+import type { EvaluationResult } from '../../types/index.js';
+
+// The global test setup stubs spawn; these tests exercise real child processes
+vi.mock('child_process', async (importOriginal) => importOriginal<typeof import('child_process')>());
+
+describe('runEvaluatorFile', () => {
+  let tmpDir: string;
+
+  const writeEvaluator = (name: string, content: string): string => {
+    const file = path.join(tmpDir, name);
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'quallaa-evaluators-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should collect results computed at runtime by run()', async () => {
+    const file = writeEvaluator('runtime.js', `
+      // accuracy: 0.99 (commented out values must not be scraped)
+      exports.run = async () => {
+        const matched = [1, 1, 1, 0].filter(Boolean).length;
+        return [{ metric: 'accuracy', value: matched / 4, threshold: 0.9, passed: matched / 4 >= 0.9, category: 'Quality' }];
+      };
+    `);
+
+    const outcome = await runEvaluatorFile(file, { cwd: tmpDir });
+
+    expect(outcome.skipped).toBe(false);
+    expect(outcome.results).toEqual([
+      {
+        metric: 'accuracy',
+        value: 0.75,
+        threshold: 0.9,
+        passed: false,
+        category: 'Quality',
+        evaluator: 'runtime',
+        source: 'runtime.js',
+        duration: outcome.duration,
+      },
+    ]);
+    expect(outcome.duration).toBeGreaterThan(0);
+  });
+
+  it('should support an evaluator object exposing runEvaluation()', async () => {
+    const file = writeEvaluator('suite.js', `
+      exports.evaluator = {
+        threshold: 0.8,
+        async runEvaluation() {
+          return { name: 'Suite', results: [{ metric: 'error_rate', value: 0.02, threshold: this.threshold, passed: true }] };
+        },
+      };
+    `);
+
+    const outcome = await runEvaluatorFile(file, { cwd: tmpDir });
+
+    expect(outcome.results[0]).toMatchObject({ metric: 'error_rate', threshold: 0.8, category: 'General' });
+  });
+
+  it('should load ES modules', async () => {
+    const file = writeEvaluator('esm.mjs', `
+      export default async function () {
+        return [{ metric: 'coverage', value: 0.85, threshold: 0.8, passed: true, category: 'Quality' }];
+      }
+    `);
+
+    const outcome = await runEvaluatorFile(file, { cwd: tmpDir });
+
+    expect(outcome.results).toHaveLength(1);
+    expect(outcome.results[0].metric).toBe('coverage');
+  });
+
+  it('should skip modules without an evaluator contract', async () => {
+    const file = writeEvaluator('helpers.js', 'exports.sum = (a, b) => a + b;');
+
+    const outcome = await runEvaluatorFile(file, { cwd: tmpDir });
+
+    expect(outcome).toMatchObject({ skipped: true, results: [] });
+  });
+
+  it('should reject when the evaluator throws', async () => {
+    const file = writeEvaluator('throws.js', `exports.run = () => { throw new Error('gold data missing'); };`);
+
+    await expect(runEvaluatorFile(file, { cwd: tmpDir })).rejects.toThrow('gold data missing');
+  });
+
+  it('should reject when the process crashes before reporting', async () => {
+    const file = writeEvaluator('crash.js', `exports.run = () => { process.exit(3); };`);
+
+    await expect(runEvaluatorFile(file, { cwd: tmpDir })).rejects.toThrow('exited with code 3');
+  });
+
+  it('should kill evaluators that exceed the timeout', async () => {
+    const file = writeEvaluator('hangs.js', `exports.run = () => new Promise(() => setInterval(() => {}, 1000));`);
+
+    await expect(runEvaluatorFile(file, { cwd: tmpDir, timeoutMs: 500 })).rejects.toThrow('timed out after 500ms');
+  });
+
+  it('should reject malformed results', async () => {
+    const file = writeEvaluator('malformed.js', `exports.run = () => [{ metric: 'accuracy', value: 'high' }];`);
+
+    await expect(runEvaluatorFile(file, { cwd: tmpDir })).rejects.toThrow('invalid result at index 0');
+  });
+});
+
+describe('createFailedEvaluatorResult', () => {
+  it('should produce a failing health entry for the evaluator', () => {
+    const result = createFailedEvaluatorResult('/project/evaluators/reconciliation.ts', new Error('boom'), '/project');
+
+    expect(result).toEqual({
+      metric: 'reconciliation_execution',
+      value: 0,
+      threshold: 1,
+      passed: false,
+      category: 'Health',
+      evaluator: 'reconciliation',
+      source: 'evaluators/reconciliation.ts',
+      details: 'boom',
+    });
+  });
+});
+
+describe('summarizeEvaluatorTimings', () => {
+  it('should list evaluators slowest first', () => {
+    const result = (evaluator: string, duration?: number): EvaluationResult => ({
+      metric: 'accuracy',
+      value: 1,
+      threshold: 0,
+      passed: true,
+      category: 'Quality',
+      evaluator,
+      duration,
+    });
+
+    expect(summarizeEvaluatorTimings([
+      result('fast', 120),
+      result('slow', 4200),
+      result('slow', 4200),
+      result('untimed'),
+    ])).toEqual([
+      { evaluator: 'slow', duration: 4200, metrics: 2 },
+      { evaluator: 'fast', duration: 120, metrics: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,263 @@
+import { spawn } from 'child_process';
+import * as path from 'path';
+import { EvaluationResult, MetricThreshold } from '../../types/index.js';
+
+/**
+ * Evaluator module runner
+ * Executes each evaluator in an isolated child process so a hung or crashing
+ * evaluator only fails its own entry in the scorecard.
+ *
+ * Evaluator contract - a module (.ts, .js or .mjs) exports one of:
+ *   - `run()` or `runEvaluation()`
+ *   - a default export function, or a default object with `run()` / `runEvaluation()`
+ *   - an `evaluator` object with `run()` / `runEvaluation()` (generated outcome projects)
+ * The function may be async and returns `EvaluationResult[]` or `{ results: EvaluationResult[] }`.
+ * Results may carry `thresholdRange: { min, max, target }`; evaluators/thresholds.json overrides it.
+ */
+
+export const DEFAULT_EVALUATOR_TIMEOUT_MS = 60000;
+
+const OUTPUT_TAIL_LENGTH = 2000;
+
+export interface EvaluatorRunOptions {
+  cwd?: string;
+  timeoutMs?: number;
+}
+
+export interface EvaluatorRunOutcome {
+  file: string;
+  results: EvaluationResult[];
+  skipped: boolean;
+  duration: number;
+}
+
+export interface EvaluatorTiming {
+  evaluator: string;
+  duration: number;
+  metrics: number;
+}
+
+type ChildMessage =
+  | { type: 'results'; results: unknown }
+  | { type: 'no-contract' }
+  | { type: 'error'; message: string };
+
+// Runs inside the child process. Kept as plain CommonJS so it works with or without a TS loader.
+const CHILD_SCRIPT = `
+const { pathToFileURL } = require('url');
+const file = process.env.QUALLAA_EVALUATOR_FILE;
+
+function send(message) {
+  process.send(message, () => process.exit(0));
+}
+
+async function load() {
+  if (file.endsWith('.mjs')) return import(pathToFileURL(file).href);
+  try {
+    return require(file);
+  } catch (error) {
+    if (error && error.code === 'ERR_REQUIRE_ESM') return import(pathToFileURL(file).href);
+    throw error;
+  }
+}
+
+function resolveContract(mod) {
+  const owners = [mod, mod && mod.default, mod && mod.evaluator, mod && mod.default && mod.default.evaluator];
+  for (const owner of owners) {
+    if (!owner) continue;
+    for (const name of ['run', 'runEvaluation']) {
+      if (typeof owner[name] === 'function') return owner[name].bind(owner);
+    }
+  }
+  if (mod && typeof mod.default === 'function') return mod.default;
+  return null;
+}
+
+(async () => {
+  try {
+    const contract = resolveContract(await load());
+    if (!contract) return send({ type: 'no-contract' });
+    const output = await contract();
+    const results = Array.isArray(output) ? output : output && output.results;
+    send({ type: 'results', results: JSON.parse(JSON.stringify(results === undefined ? null : results)) });
+  } catch (error) {
+    send({ type: 'error', message: error && error.stack ? error.stack : String(error) });
+  }
+})();
+`;
+
+/**
+ * Run a single evaluator module and collect its results
+ */
+export async function runEvaluatorFile(filePath: string, options: EvaluatorRunOptions = {}): Promise<EvaluatorRunOutcome> {
+  const cwd = options.cwd ?? process.cwd();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_EVALUATOR_TIMEOUT_MS;
+  const file = path.resolve(cwd, filePath);
+
+  const startTime = Date.now();
+  const message = await executeInChild(file, cwd, timeoutMs);
+  const duration = Date.now() - startTime;
+
+  switch (message.type) {
+    case 'no-contract':
+      return { file, results: [], skipped: true, duration };
+    case 'error':
+      throw new Error(`Evaluator threw: ${message.message}`);
+    case 'results':
+      return {
+        file,
+        results: normalizeResults(message.results, file, cwd).map(result => ({ ...result, duration })),
+        skipped: false,
+        duration,
+      };
+  }
+}
+
+/**
+ * Per-evaluator durations, slowest first
+ */
+export function summarizeEvaluatorTimings(results: EvaluationResult[]): EvaluatorTiming[] {
+  const timings = new Map<string, EvaluatorTiming>();
+
+  for (const result of results) {
+    if (result.duration === undefined) continue;
+    const name = result.evaluator ?? result.metric;
+    const timing = timings.get(name) ?? { evaluator: name, duration: 0, metrics: 0 };
+    timing.duration = Math.max(timing.duration, result.duration);
+    timing.metrics++;
+    timings.set(name, timing);
+  }
+
+  return [...timings.values()].sort((a, b) => b.duration - a.duration);
+}
+
+/**
+ * Scorecard entry recorded for an evaluator that crashed, timed out or broke the contract
+ */
+export function createFailedEvaluatorResult(filePath: string, error: unknown, cwd: string = process.cwd()): EvaluationResult {
+  return {
+    metric: `${path.basename(filePath, path.extname(filePath))}_execution`,
+    value: 0,
+    threshold: 1,
+    passed: false,
+    category: 'Health',
+    evaluator: path.basename(filePath, path.extname(filePath)),
+    ...(path.extname(filePath) ? { source: toProjectPath(path.resolve(cwd, filePath), cwd) } : {}),
+    details: error instanceof Error ? error.message : String(error),
+  };
+}
+
+function executeInChild(file: string, cwd: string, timeoutMs: number): Promise<ChildMessage> {
+  const execArgv: string[] = [];
+  const env: NodeJS.ProcessEnv = { ...process.env, QUALLAA_EVALUATOR_FILE: file };
+
+  if (/\.[cm]?ts$/.test(file)) {
+    execArgv.push('-r', resolveTypeScriptLoader(cwd));
+    env.TS_NODE_COMPILER_OPTIONS = env.TS_NODE_COMPILER_OPTIONS ?? JSON.stringify({ module: 'commonjs' });
+  }
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [...execArgv, '-e', CHILD_SCRIPT], {
+      cwd,
+      env,
+      stdio: ['ignore', 'pipe', 'pipe', 'ipc'],
+    });
+
+    let output = '';
+    let received: ChildMessage | null = null;
+    let settled = false;
+
+    const collect = (chunk: Buffer): void => {
+      output = (output + chunk.toString()).slice(-OUTPUT_TAIL_LENGTH);
+    };
+    child.stdout?.on('data', collect);
+    child.stderr?.on('data', collect);
+
+    const finish = (error: Error | null, message?: ChildMessage): void => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      if (error) reject(error);
+      else resolve(message as ChildMessage);
+    };
+
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      finish(new Error(`Evaluator timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    child.on('message', (message: ChildMessage) => {
+      received = message;
+    });
+
+    child.on('error', (error) => finish(error));
+
+    child.on('exit', (code, signal) => {
+      if (received) {
+        finish(null, received);
+        return;
+      }
+      const reason = signal ? `signal ${signal}` : `code ${code}`;
+      const tail = output.trim();
+      finish(new Error(`Evaluator process exited with ${reason} before reporting results${tail ? `:\n${tail}` : ''}`));
+    });
+  });
+}
+
+/**
+ * Locate a require hook for TypeScript evaluators, preferring the project's own toolchain
+ */
+function resolveTypeScriptLoader(cwd: string): string {
+  const candidates = ['ts-node/register/transpile-only', 'tsx/cjs'];
+
+  for (const candidate of candidates) {
+    try {
+      return require.resolve(candidate, { paths: [cwd] });
+    } catch {
+      // Try the next loader
+    }
+  }
+
+  try {
+    return require.resolve('ts-node/register/transpile-only');
+  } catch {
+    throw new Error('TypeScript evaluators need ts-node or tsx installed in the project (npm install -D ts-node)');
+  }
+}
+
+function normalizeResults(raw: unknown, file: string, cwd: string): EvaluationResult[] {
+  if (!Array.isArray(raw)) {
+    throw new Error(`Evaluator ${path.basename(file)} must return EvaluationResult[] or { results: EvaluationResult[] }`);
+  }
+
+  return raw.map((entry, index) => {
+    const result = entry as Partial<EvaluationResult>;
+    if (!result || typeof result.metric !== 'string' || typeof result.value !== 'number' || !Number.isFinite(result.value)) {
+      throw new Error(`Evaluator ${path.basename(file)} returned an invalid result at index ${index}: metric and numeric value are required`);
+    }
+
+    const threshold = typeof result.threshold === 'number' ? result.threshold : 0;
+
+    return {
+      metric: result.metric,
+      value: result.value,
+      threshold,
+      passed: typeof result.passed === 'boolean' ? result.passed : result.value >= threshold,
+      category: typeof result.category === 'string' ? result.category : 'General',
+      evaluator: typeof result.evaluator === 'string' ? result.evaluator : path.basename(file, path.extname(file)),
+      source: toProjectPath(file, cwd),
+      ...(typeof result.details === 'string' ? { details: result.details } : {}),
+      ...(isThresholdRange(result.thresholdRange) ? { thresholdRange: result.thresholdRange } : {}),
+    };
+  });
+}
+
+function toProjectPath(file: string, cwd: string): string {
+  return path.relative(cwd, file).split(path.sep).join('/');
+}
+
+function isThresholdRange(value: unknown): value is MetricThreshold {
+  if (!value || typeof value !== 'object') return false;
+  const range = value as Record<string, unknown>;
+  return ['min', 'max', 'target'].every(field => range[field] === undefined || typeof range[field] === 'number');
+}
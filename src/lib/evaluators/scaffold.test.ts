@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fs from 'fs/promises';
+import { readdirSync } from 'fs';
+import * as path from 'path';
+import {
+  metricKind,
+  planEvaluatorScaffold,
+  scaffoldEvaluators,
+  generateEvaluatorModule,
+  TEMPLATE_GOLD_DATA_DIR,
+} from './scaffold.js';
+import type { OutcomeTemplateDefinition } from '../../types/index.js';
+
+vi.mock('fs/promises', () => ({
+  access: vi.fn(),
+  mkdir: vi.fn(),
+  readFile: vi.fn(),
+  writeFile: vi.fn(),
+}));
+
+vi.mock('fs', () => ({
+  readdirSync: vi.fn(),
+}));
+
+describe('evaluator scaffolding', () => {
+  const template = {
+    name: 'Billing Guardrails',
+    evaluators: {
+      'billing-accuracy': {
+        description: 'Invoice exception detection',
+        goldDataset: 'gold-data/billing/expected-exceptions.json',
+        metrics: ['accuracy_percentage', 'revenue_leakage'],
+        thresholds: { accuracy_percentage: { min: 95, target: 98 }, revenue_leakage: { max: 2, target: 0.5 } },
+      },
+    },
+    evaluatorMetrics: ['processing_time'],
+    roiTracking: {
+      enabled: true,
+      baselineMetrics: [],
+      businessImpactMapping: {
+        accuracy_percentage: { category: 'quality', weight: 3 },
+        revenue_leakage: { category: 'financial', weight: 2 },
+        processing_time: { category: 'performance', weight: 1 },
+      },
+    },
+  } as unknown as OutcomeTemplateDefinition;
+
+  const missing = (): Error => Object.assign(new Error('missing'), { code: 'ENOENT' });
+
+  beforeEach(() => {
+    vi.mocked(fs.access).mockReset().mockRejectedValue(missing());
+    vi.mocked(fs.readFile).mockReset().mockRejectedValue(missing());
+    vi.mocked(fs.writeFile).mockReset();
+    vi.mocked(readdirSync).mockReset().mockReturnValue(['sample-invoices.json', 'expected-results.json'] as never);
+  });
+
+  describe('metricKind', () => {
+    it('should infer what a metric measures from its name', () => {
+      expect(metricKind('reconciliation_rate')).toBe('ratio');
+      expect(metricKind('error_rate')).toBe('error_ratio');
+      expect(metricKind('data_completeness')).toBe('coverage');
+      expect(metricKind('exception_count')).toBe('count');
+      expect(metricKind('revenue_exposure')).toBe('amount');
+      expect(metricKind('time_to_first_contact')).toBe('duration');
+    });
+  });
+
+  describe('planEvaluatorScaffold', () => {
+    it('should plan a module per template metric with ratio thresholds as fractions', () => {
+      const plan = planEvaluatorScaffold('billing', template);
+
+      expect(plan.map(entry => entry.module)).toEqual([
+        'evaluators/accuracy-percentage.ts',
+        'evaluators/revenue-leakage.ts',
+        'evaluators/processing-time.ts',
+      ]);
+      expect(plan[0]).toMatchObject({
+        evaluator: 'billing-accuracy',
+        goldDataset: 'gold-data/billing/expected-exceptions.json',
+        output: 'reports/billing-accuracy.json',
+        thresholds: { min: 0.95, target: 0.98 },
+      });
+      expect(plan[1].thresholds).toEqual({ max: 2, target: 0.5 });
+    });
+
+    it('should wire listed metrics to the template expected results file', () => {
+      const [processing] = planEvaluatorScaffold('billing', template, { metric: 'processing_time' });
+
+      expect(processing).toMatchObject({
+        evaluator: 'billing',
+        kind: 'duration',
+        goldDataset: 'gold-data/billing/expected-results.json',
+        thresholds: { max: 5, target: 2 },
+      });
+    });
+
+    it('should reject metrics the template does not define', () => {
+      expect(() => planEvaluatorScaffold('billing', template, { metric: 'unit_cost' }))
+        .toThrow('Metric "unit_cost" is not defined by the Billing Guardrails template');
+    });
+  });
+
+  describe('scaffoldEvaluators', () => {
+    it('should not overwrite existing evaluator modules', async () => {
+      vi.mocked(fs.access).mockImplementation(async file => {
+        if (String(file).endsWith('accuracy-percentage.ts')) return;
+        throw missing();
+      });
+
+      const result = await scaffoldEvaluators('/project', 'billing', template, { goldDataDir: '/templates/gold-data' });
+
+      expect(result.skipped).toEqual(['evaluators/accuracy-percentage.ts']);
+      expect(result.created).toEqual(['evaluators/revenue-leakage.ts', 'evaluators/processing-time.ts']);
+      const written = vi.mocked(fs.writeFile).mock.calls.map(([file]) => String(file));
+      expect(written).not.toContain('/project/evaluators/accuracy-percentage.ts');
+      expect(result.scoringConfig).toBe('evaluators/scoring.json');
+    });
+
+    it('should copy template gold data and fall back to a sample record', async () => {
+      vi.mocked(fs.readFile).mockImplementation(async file => {
+        if (String(file) === '/templates/gold-data/billing/expected-exceptions.json') return '[{"id":"exc_001"}]';
+        throw missing();
+      });
+
+      const result = await scaffoldEvaluators('/project', 'billing', template, { goldDataDir: '/templates/gold-data' });
+
+      expect(result.goldDatasets).toEqual([
+        { path: 'gold-data/billing/expected-exceptions.json', sample: false },
+        { path: 'gold-data/billing/expected-results.json', sample: true },
+      ]);
+      const sample = vi.mocked(fs.writeFile).mock.calls.find(([file]) => String(file).endsWith('expected-results.json'));
+      expect(JSON.parse(String(sample?.[1]))[0]).toMatchObject({ id: 'sample_001', expected: { status: 'matched' } });
+    });
+  });
+
+  describe('TEMPLATE_GOLD_DATA_DIR', () => {
+    it('should point at gold data the build copies into the same place under dist', async () => {
+      const realFs = await vi.importActual<typeof import('fs')>('fs');
+      const sourceRoot = path.resolve(__dirname, '..', '..');
+      const goldData = path.relative(sourceRoot, TEMPLATE_GOLD_DATA_DIR).split(path.sep).join('/');
+      const { scripts } = JSON.parse(realFs.readFileSync(path.join(sourceRoot, '..', 'package.json'), 'utf-8'));
+
+      expect(realFs.readdirSync(TEMPLATE_GOLD_DATA_DIR)).toContain('order-cash-reco');
+      expect(scripts.build).toContain(`cpSync('src/${goldData}', 'dist/${goldData}'`);
+    });
+  });
+
+  describe('generateEvaluatorModule', () => {
+    it('should embed the gold dataset, output path and thresholds', () => {
+      const [accuracy] = planEvaluatorScaffold('billing', template);
+      const source = generateEvaluatorModule(accuracy, 'Billing Guardrails');
+
+      expect(source).toContain("const GOLD_DATASET = 'gold-data/billing/expected-exceptions.json';");
+      expect(source).toContain("const SYSTEM_OUTPUT = 'reports/billing-accuracy.json';");
+      expect(source).toContain('{"min":0.95,"target":0.98}');
+      expect(source).toContain('export async function run()');
+    });
+  });
+});
@@ -0,0 +1,333 @@
+import { readdirSync } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { MetricThreshold, OutcomeTemplateDefinition } from '../../types/index.js';
+import { SCORING_CONFIG_PATH, scoringConfigFromImpactMapping } from './scoring.js';
+
+/**
+ * Evaluator scaffolding
+ * Turns an outcome template's `evaluators` / `evaluatorMetrics` definitions into
+ * runnable evaluator modules that score system output against the template's gold data.
+ */
+
+// Gold data shipped with the templates; `npm run build` copies it next to the compiled modules
+export const TEMPLATE_GOLD_DATA_DIR = path.resolve(__dirname, '..', '..', 'templates', 'gold-data');
+
+export type MetricKind = 'ratio' | 'error_ratio' | 'coverage' | 'count' | 'amount' | 'duration';
+
+export interface ScaffoldMetric {
+  metric: string;
+  evaluator: string;
+  description: string;
+  kind: MetricKind;
+  goldDataset: string; // Project-relative path
+  output: string; // Project-relative path the system writes its output to
+  thresholds?: MetricThreshold;
+  module: string; // Project-relative path of the generated module
+}
+
+export interface ScaffoldOptions {
+  metric?: string;
+  goldDataDir?: string;
+}
+
+export interface ScaffoldResult {
+  created: string[];
+  skipped: string[];
+  goldDatasets: Array<{ path: string; sample: boolean }>;
+  scoringConfig?: string;
+}
+
+const SAMPLE_GOLD_RECORDS = [
+  {
+    id: 'sample_001',
+    description: 'Replace with a labelled record from your own system',
+    expected: { status: 'matched' },
+  },
+];
+
+// Thresholds for metrics the template lists without limits
+const DEFAULT_THRESHOLDS: Partial<Record<MetricKind, MetricThreshold>> = {
+  ratio: { min: 0.9, target: 0.97 },
+  error_ratio: { max: 0.05, target: 0.01 },
+  coverage: { min: 0.95, target: 1 },
+  count: { max: 5, target: 0 },
+  duration: { max: 5, target: 2 },
+};
+
+const KIND_CATEGORIES: Record<MetricKind, string> = {
+  ratio: 'Quality',
+  error_ratio: 'Quality',
+  coverage: 'Quality',
+  count: 'Quality',
+  amount: 'Cost',
+  duration: 'Performance',
+};
+
+/**
+ * Work out what a metric measures from its name
+ */
+export function metricKind(metric: string): MetricKind {
+  if (/(^time_|_time$|_time_|duration|latency)/.test(metric)) return 'duration';
+  if (/(leakage|exposure|cost|amount)/.test(metric)) return 'amount';
+  if (/(_count$|_risk$)/.test(metric)) return 'count';
+  if (/(error|exception|manual_intervention|rework)/.test(metric)) return 'error_ratio';
+  if (/(coverage|completeness)/.test(metric)) return 'coverage';
+  return 'ratio';
+}
+
+/**
+ * List the evaluator modules a template defines, optionally narrowed to one metric
+ */
+export function planEvaluatorScaffold(
+  templateKey: string,
+  template: OutcomeTemplateDefinition,
+  options: Pick<ScaffoldOptions, 'metric' | 'goldDataDir'> = {}
+): ScaffoldMetric[] {
+  const plan: ScaffoldMetric[] = [];
+
+  for (const [evaluator, definition] of Object.entries(template.evaluators ?? {})) {
+    for (const metric of definition.metrics) {
+      plan.push(
+        planMetric(metric, evaluator, definition.description, definition.goldDataset, definition.thresholds[metric])
+      );
+    }
+  }
+
+  const listedOnly = (template.evaluatorMetrics ?? []).filter(metric => !plan.some(entry => entry.metric === metric));
+  if (listedOnly.length > 0) {
+    const goldDataset = path.posix.join('gold-data', templateKey, findTemplateGoldFile(templateKey, options.goldDataDir));
+    for (const metric of listedOnly) {
+      plan.push(planMetric(metric, templateKey, `${template.name} ${humanize(metric)}`, goldDataset));
+    }
+  }
+
+  if (!options.metric) return plan;
+
+  const selected = plan.filter(entry => entry.metric === options.metric);
+  if (selected.length === 0) {
+    throw new Error(
+      `Metric "${options.metric}" is not defined by the ${template.name} template. Available: ${plan.map(entry => entry.metric).join(', ')}`
+    );
+  }
+  return selected;
+}
+
+/**
+ * Write evaluator modules, gold datasets and scoring config into a project
+ * Existing modules and gold datasets are left untouched.
+ */
+export async function scaffoldEvaluators(
+  projectPath: string,
+  templateKey: string,
+  template: OutcomeTemplateDefinition,
+  options: ScaffoldOptions = {}
+): Promise<ScaffoldResult> {
+  const goldDataDir = options.goldDataDir ?? TEMPLATE_GOLD_DATA_DIR;
+  const plan = planEvaluatorScaffold(templateKey, template, { ...options, goldDataDir });
+  const result: ScaffoldResult = { created: [], skipped: [], goldDatasets: [] };
+
+  for (const entry of plan) {
+    const modulePath = path.join(projectPath, entry.module);
+    if (await exists(modulePath)) {
+      result.skipped.push(entry.module);
+      continue;
+    }
+
+    await fs.mkdir(path.dirname(modulePath), { recursive: true });
+    await fs.writeFile(modulePath, generateEvaluatorModule(entry, template.name));
+    result.created.push(entry.module);
+  }
+
+  for (const goldDataset of new Set(plan.map(entry => entry.goldDataset))) {
+    const target = path.join(projectPath, goldDataset);
+    if (await exists(target)) continue;
+
+    const source = path.join(goldDataDir, path.relative('gold-data', goldDataset));
+    const contents = await readIfExists(source);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, contents ?? JSON.stringify(SAMPLE_GOLD_RECORDS, null, 2) + '\n');
+    result.goldDatasets.push({ path: goldDataset, sample: contents === undefined });
+  }
+
+  const mapping = template.roiTracking?.businessImpactMapping;
+  if (mapping && !(await exists(path.join(projectPath, SCORING_CONFIG_PATH)))) {
+    await fs.writeFile(
+      path.join(projectPath, SCORING_CONFIG_PATH),
+      JSON.stringify(scoringConfigFromImpactMapping(mapping), null, 2) + '\n'
+    );
+    result.scoringConfig = SCORING_CONFIG_PATH;
+  }
+
+  return result;
+}
+
+// Expressions computing each kind of metric inside the generated module
+const KIND_FORMULAS: Record<MetricKind, string> = {
+  ratio: 'gold.length === 0 ? 0 : (gold.length - missed.length - mismatched.length) / gold.length',
+  error_ratio: 'gold.length === 0 ? 0 : (missed.length + mismatched.length) / gold.length',
+  coverage: 'gold.length === 0 ? 0 : (gold.length - missed.length) / gold.length',
+  count: 'missed.length + mismatched.length',
+  amount: 'sum([...missed, ...mismatched].map(record => Number(record.impactAmount ?? record.discrepancyAmount ?? 0)))',
+  duration: 'average([...output.values()].map(record => Number(record.durationSeconds)).filter(Number.isFinite))',
+};
+
+// Helpers a formula relies on, appended to the generated module
+const KIND_HELPERS: Partial<Record<MetricKind, string>> = {
+  amount: `
+function sum(values: number[]): number {
+  return values.reduce((total, v) => total + v, 0);
+}
+`,
+  duration: `
+function average(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((total, v) => total + v, 0) / values.length;
+}
+`,
+};
+
+/**
+ * Source of a standalone evaluator module for one metric
+ */
+export function generateEvaluatorModule(entry: ScaffoldMetric, templateName: string): string {
+  return `/**
+ * ${humanize(entry.metric)} evaluator
+ * ${entry.description}
+ *
+ * Generated by \`quallaa evaluators init\` for the ${templateName} template.
+ * Compares the system output in ${entry.output} with the gold records in
+ * ${entry.goldDataset}, joined on \`id\`. Gold records with an \`expected\` object
+ * must match those fields; other gold records only need to be present in the output.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+type GoldRecord = Record<string, any>;
+
+const METRIC = '${entry.metric}';
+const EVALUATOR = '${entry.evaluator}';
+const GOLD_DATASET = '${entry.goldDataset}';
+const SYSTEM_OUTPUT = '${entry.output}';
+const THRESHOLDS: { min?: number; max?: number; target?: number } = ${JSON.stringify(entry.thresholds ?? {})};
+const NUMERIC_TOLERANCE = 0.01;
+
+export async function run() {
+  const gold = loadRecords(GOLD_DATASET);
+  if (!fs.existsSync(path.resolve(SYSTEM_OUTPUT))) {
+    throw new Error(\`No system output at \${SYSTEM_OUTPUT}; write one record per gold record id to score \${METRIC}\`);
+  }
+  const output = new Map(loadRecords(SYSTEM_OUTPUT).map(record => [String(record.id), record]));
+
+  const missed = gold.filter(record => !output.has(String(record.id)));
+  const mismatched = gold.filter(record => output.has(String(record.id)) && !matches(record, output.get(String(record.id))!));
+
+  const value = ${KIND_FORMULAS[entry.kind]};
+  const passed = (THRESHOLDS.min === undefined || value >= THRESHOLDS.min) &&
+    (THRESHOLDS.max === undefined || value <= THRESHOLDS.max);
+
+  return [
+    {
+      metric: METRIC,
+      value,
+      threshold: THRESHOLDS.min ?? THRESHOLDS.max ?? THRESHOLDS.target ?? 0,
+      passed,
+      category: '${KIND_CATEGORIES[entry.kind]}',
+      evaluator: EVALUATOR,
+      thresholdRange: THRESHOLDS,
+      details: \`\${gold.length} gold records: \${missed.length} missing from output, \${mismatched.length} mismatched\`,
+    },
+  ];
+}
+
+function loadRecords(file: string): GoldRecord[] {
+  const data = JSON.parse(fs.readFileSync(path.resolve(file), 'utf-8'));
+  const records = Array.isArray(data) ? data : data.records ?? data.testCases ?? data.data;
+  if (!Array.isArray(records)) {
+    throw new Error(\`\${file} must contain an array of records (or { records | testCases | data: [...] })\`);
+  }
+  return records;
+}
+
+function matches(gold: GoldRecord, actual: GoldRecord): boolean {
+  if (!gold.expected || typeof gold.expected !== 'object') return true;
+  return Object.entries(gold.expected).every(([field, expected]) => sameValue(expected, actual[field]));
+}
+
+function sameValue(expected: unknown, actual: unknown): boolean {
+  if (typeof expected === 'number' && typeof actual === 'number') {
+    return Math.abs(expected - actual) <= NUMERIC_TOLERANCE;
+  }
+  return JSON.stringify(expected) === JSON.stringify(actual);
+}
+${KIND_HELPERS[entry.kind] ?? ''}`;
+}
+
+function planMetric(
+  metric: string,
+  evaluator: string,
+  description: string,
+  goldDataset: string,
+  templateThresholds?: MetricThreshold
+): ScaffoldMetric {
+  const kind = metricKind(metric);
+  const thresholds = templateThresholds ? normalizeThresholds(kind, templateThresholds) : DEFAULT_THRESHOLDS[kind];
+
+  return {
+    metric,
+    evaluator,
+    description,
+    kind,
+    goldDataset,
+    output: path.posix.join('reports', `${evaluator}.json`),
+    ...(thresholds ? { thresholds } : {}),
+    module: path.posix.join('evaluators', `${metric.replace(/_/g, '-')}.ts`),
+  };
+}
+
+// Templates state ratio limits as percentages (min: 95); generated modules report ratios
+function normalizeThresholds(kind: MetricKind, thresholds: MetricThreshold): MetricThreshold {
+  if (kind !== 'ratio' && kind !== 'error_ratio' && kind !== 'coverage') return { ...thresholds };
+
+  const normalized: MetricThreshold = {};
+  for (const bound of ['min', 'max', 'target'] as const) {
+    const value = thresholds[bound];
+    if (value !== undefined) normalized[bound] = value > 1 ? value / 100 : value;
+  }
+  return normalized;
+}
+
+// Gold file holding expected results, for templates that list metrics without an evaluator definition
+function findTemplateGoldFile(templateKey: string, goldDataDir: string = TEMPLATE_GOLD_DATA_DIR): string {
+  try {
+    const files = readdirSync(path.join(goldDataDir, templateKey));
+    const expected = files.find(file => /(expected|test-cases)/.test(file) && file.endsWith('.json'));
+    if (expected) return expected;
+  } catch {
+    // Gold data is not shipped with this install
+  }
+  return 'expected-results.json';
+}
+
+function humanize(metric: string): string {
+  const words = metric.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function readIfExists(file: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(file, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
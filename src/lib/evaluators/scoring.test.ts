@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fs from 'fs/promises';
+import {
+  loadScoringConfig,
+  applyScoring,
+  scoreResults,
+  scoringConfigFromImpactMapping,
+  ScoringConfig,
+} from './scoring.js';
+import type { EvaluationResult } from '../../types/index.js';
+
+vi.mock('fs/promises', () => ({
+  readFile: vi.fn(),
+}));
+
+describe('scoring', () => {
+  const config: ScoringConfig = {
+    metrics: {
+      reconciliation_rate: { category: 'quality', weight: 3, blocking: true },
+      unit_cost: { category: 'financial', weight: 2 },
+      processing_time: { category: 'performance', weight: 1 },
+    },
+    overrides: {
+      'billing.unit_cost': { weight: 4 },
+    },
+  };
+
+  const result = (metric: string, passed: boolean, overrides: Partial<EvaluationResult> = {}): EvaluationResult => ({
+    metric,
+    value: passed ? 1 : 0,
+    threshold: 0.5,
+    passed,
+    category: 'General',
+    evaluator: 'reconciliation',
+    ...overrides,
+  });
+
+  describe('applyScoring', () => {
+    it('should attach weights and subscore categories from the impact mapping', () => {
+      const [reconciliation, cost, billingCost] = applyScoring(
+        [result('reconciliation_rate', true), result('unit_cost', true), result('unit_cost', true, { evaluator: 'billing' })],
+        config
+      );
+
+      expect(reconciliation).toMatchObject({ category: 'Quality', weight: 3, blocking: true });
+      expect(cost).toMatchObject({ category: 'Cost', weight: 2, blocking: false });
+      expect(billingCost.weight).toBe(4);
+    });
+
+    it('should default unmapped metrics to weight 1 and keep their category', () => {
+      const [health] = applyScoring([result('evaluator_exists', true, { category: 'Health' })], config);
+
+      expect(health).toMatchObject({ category: 'Health', weight: 1, blocking: false });
+    });
+
+    it('should mark metrics blocking from the command line', () => {
+      const scored = applyScoring(
+        [result('unit_cost', false), result('processing_time', false, { evaluator: 'sync' })],
+        config,
+        ['unit_cost', 'sync.processing_time']
+      );
+
+      expect(scored.every(r => r.blocking)).toBe(true);
+    });
+  });
+
+  describe('scoreResults', () => {
+    it('should weight the overall score by business impact', () => {
+      const scored = applyScoring(
+        [result('reconciliation_rate', true), result('evaluator_exists', false, { category: 'Health' })],
+        config
+      );
+
+      // A trivial health check no longer counts as much as reconciliation accuracy
+      expect(scoreResults(scored).overallScore).toBeCloseTo(0.75);
+    });
+
+    it('should calculate per-category subscores', () => {
+      const scored = applyScoring(
+        [result('reconciliation_rate', true), result('unit_cost', false), result('processing_time', true)],
+        config
+      );
+
+      const { categoryScores } = scoreResults(scored);
+
+      expect(categoryScores.Quality).toEqual({ score: 1, weight: 3, passed: 1, total: 1 });
+      expect(categoryScores.Cost).toEqual({ score: 0, weight: 2, passed: 0, total: 1 });
+      expect(categoryScores.Performance.score).toBe(1);
+    });
+
+    it('should report failed blocking metrics', () => {
+      const scored = applyScoring(
+        [result('reconciliation_rate', false), result('unit_cost', true), result('processing_time', true)],
+        config
+      );
+
+      expect(scoreResults(scored).blockingFailures).toEqual(['reconciliation.reconciliation_rate']);
+    });
+  });
+
+  describe('scoringConfigFromImpactMapping', () => {
+    it('should drop formulas and keep category, weight and blocking', () => {
+      expect(scoringConfigFromImpactMapping({
+        accuracy: { category: 'quality', weight: 3, formula: 'matched / total', blocking: true },
+        hours_saved: { category: 'productivity', weight: 1 },
+      })).toEqual({
+        metrics: {
+          accuracy: { category: 'quality', weight: 3, blocking: true },
+          hours_saved: { category: 'productivity', weight: 1 },
+        },
+      });
+    });
+  });
+
+  describe('loadScoringConfig', () => {
+    beforeEach(() => {
+      vi.mocked(fs.readFile).mockReset();
+    });
+
+    it('should return an empty config when the file is absent', async () => {
+      vi.mocked(fs.readFile).mockRejectedValue(Object.assign(new Error('missing'), { code: 'ENOENT' }));
+
+      await expect(loadScoringConfig('/project')).resolves.toEqual({});
+    });
+
+    it('should reject unknown categories', async () => {
+      vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify({ metrics: { accuracy: { category: 'speed' } } }));
+
+      await expect(loadScoringConfig('/project')).rejects.toThrow('metrics.accuracy.category must be one of');
+    });
+
+    it('should reject negative weights', async () => {
+      vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify({ overrides: { 'billing.accuracy': { weight: -1 } } }));
+
+      await expect(loadScoringConfig('/project')).rejects.toThrow('overrides.billing.accuracy.weight');
+    });
+  });
+});
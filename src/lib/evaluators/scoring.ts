@@ -0,0 +1,146 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { BusinessImpactMapping, CategoryScore, EvaluationResult } from '../../types/index.js';
+
+/**
+ * Weighted, category-aware suite scoring
+ * Loads evaluators/scoring.json (written from the template's `roiTracking.businessImpactMapping`)
+ * and scores a suite by the weight of the metrics that passed rather than their count.
+ */
+
+export const SCORING_CONFIG_PATH = path.join('evaluators', 'scoring.json');
+
+export const SCORE_CATEGORIES = ['Quality', 'Efficiency', 'Cost', 'Performance'] as const;
+
+// Business impact categories from outcome templates and the subscore each one feeds
+const IMPACT_CATEGORIES: Record<BusinessImpactMapping['category'], string> = {
+  quality: 'Quality',
+  productivity: 'Efficiency',
+  financial: 'Cost',
+  performance: 'Performance',
+};
+
+export type MetricScoring = Partial<Omit<BusinessImpactMapping, 'formula'>>;
+
+export interface ScoringConfig {
+  metrics?: Record<string, MetricScoring>;
+  overrides?: Record<string, MetricScoring>;
+}
+
+export interface SuiteScore {
+  overallScore: number;
+  categoryScores: Record<string, CategoryScore>;
+  blockingFailures: string[];
+}
+
+/**
+ * Load evaluators/scoring.json, returning an empty config when the file does not exist
+ */
+export async function loadScoringConfig(projectPath: string = process.cwd()): Promise<ScoringConfig> {
+  const configPath = path.join(projectPath, SCORING_CONFIG_PATH);
+
+  let config: ScoringConfig;
+  try {
+    config = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw new Error(`Invalid ${SCORING_CONFIG_PATH}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  for (const section of ['metrics', 'overrides'] as const) {
+    for (const [name, scoring] of Object.entries(config[section] ?? {})) {
+      if (scoring.weight !== undefined && (typeof scoring.weight !== 'number' || scoring.weight < 0)) {
+        throw new Error(`Invalid ${SCORING_CONFIG_PATH}: ${section}.${name}.weight must be a non-negative number`);
+      }
+      if (scoring.category !== undefined && !(scoring.category in IMPACT_CATEGORIES)) {
+        throw new Error(
+          `Invalid ${SCORING_CONFIG_PATH}: ${section}.${name}.category must be one of ${Object.keys(IMPACT_CATEGORIES).join(', ')}`
+        );
+      }
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Scoring config for a newly generated project
+ */
+export function scoringConfigFromImpactMapping(mapping: Record<string, BusinessImpactMapping>): ScoringConfig {
+  const metrics: Record<string, MetricScoring> = {};
+  for (const [metric, { category, weight, blocking }] of Object.entries(mapping)) {
+    metrics[metric] = { category, weight, ...(blocking ? { blocking } : {}) };
+  }
+  return { metrics };
+}
+
+/**
+ * Attach weight, blocking flag and subscore category to each result
+ * `blocking` adds metric names (or "evaluator.metric") that block regardless of the config.
+ */
+export function applyScoring(results: EvaluationResult[], config: ScoringConfig, blocking: string[] = []): EvaluationResult[] {
+  return results.map(result => {
+    const scoring: MetricScoring = {
+      ...config.metrics?.[result.metric],
+      ...(result.evaluator ? config.overrides?.[`${result.evaluator}.${result.metric}`] : undefined),
+    };
+
+    const isBlocking = scoring.blocking ?? result.blocking ?? false;
+    const forcedBlocking = blocking.includes(result.metric) ||
+      (result.evaluator !== undefined && blocking.includes(`${result.evaluator}.${result.metric}`));
+
+    return {
+      ...result,
+      category: scoring.category ? IMPACT_CATEGORIES[scoring.category] : normalizeCategory(result.category),
+      weight: scoring.weight ?? result.weight ?? 1,
+      blocking: isBlocking || forcedBlocking,
+    };
+  });
+}
+
+/**
+ * Weighted share of passing metrics, overall and per category
+ */
+export function scoreResults(results: EvaluationResult[]): SuiteScore {
+  const categoryScores: Record<string, CategoryScore> = {};
+  let totalWeight = 0;
+  let passedWeight = 0;
+
+  for (const result of results) {
+    const weight = result.weight ?? 1;
+    const category = (categoryScores[result.category] ??= { score: 0, weight: 0, passed: 0, total: 0 });
+
+    category.weight += weight;
+    category.total += 1;
+    totalWeight += weight;
+
+    if (result.passed) {
+      category.passed += 1;
+      category.score += weight;
+      passedWeight += weight;
+    }
+  }
+
+  for (const category of Object.values(categoryScores)) {
+    category.score = category.weight > 0 ? category.score / category.weight : category.passed / category.total;
+  }
+
+  // Fall back to a plain pass ratio when every weight is zero
+  const overallScore = totalWeight > 0
+    ? passedWeight / totalWeight
+    : results.length > 0 ? results.filter(r => r.passed).length / results.length : 0;
+
+  return {
+    overallScore,
+    categoryScores,
+    blockingFailures: results
+      .filter(r => r.blocking && !r.passed)
+      .map(r => (r.evaluator ? `${r.evaluator}.${r.metric}` : r.metric)),
+  };
+}
+
+function normalizeCategory(category: string): string {
+  return SCORE_CATEGORIES.find(name => name.toLowerCase() === category.toLowerCase()) ?? category;
+}
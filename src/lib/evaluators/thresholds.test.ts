@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import {
+  loadThresholdConfig,
+  selectThresholdProfile,
+  resolveThreshold,
+  applyThresholds,
+  assessThreshold,
+  ThresholdConfig,
+} from './thresholds.js';
+import type { EvaluationResult } from '../../types/index.js';
+
+vi.mock('fs/promises', () => ({
+  readFile: vi.fn(),
+}));
+
+describe('thresholds', () => {
+  const config: ThresholdConfig = {
+    metrics: {
+      accuracy: { min: 0.9, target: 0.97 },
+      error_rate: { max: 0.05, target: 0.01 },
+    },
+    overrides: {
+      'reconciliation.accuracy': { min: 0.95 },
+    },
+    profiles: {
+      main: {
+        metrics: { error_rate: { max: 0.02 } },
+      },
+    },
+  };
+
+  const result = (overrides: Partial<EvaluationResult>): EvaluationResult => ({
+    metric: 'accuracy',
+    value: 0.92,
+    threshold: 0.8,
+    passed: true,
+    category: 'Quality',
+    ...overrides,
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('resolveThreshold', () => {
+    it('should layer metric defaults, evaluator overrides and profiles', () => {
+      expect(resolveThreshold(config, 'accuracy')).toEqual({ min: 0.9, target: 0.97 });
+      expect(resolveThreshold(config, 'accuracy', 'reconciliation')).toEqual({ min: 0.95, target: 0.97 });
+      expect(resolveThreshold(config, 'error_rate', undefined, 'main')).toEqual({ max: 0.02, target: 0.01 });
+    });
+
+    it('should fall back to limits reported by the evaluator', () => {
+      expect(resolveThreshold(config, 'unit_cost', 'billing', undefined, { max: 0.1 })).toEqual({ max: 0.1 });
+      expect(resolveThreshold({}, 'unit_cost')).toBeUndefined();
+    });
+  });
+
+  describe('assessThreshold', () => {
+    it('should place higher-is-better values against min and target', () => {
+      expect(assessThreshold(0.85, { min: 0.9, target: 0.97 })).toMatchObject({ status: 'below_min', targetProgress: 0 });
+      const between = assessThreshold(0.935, { min: 0.9, target: 0.97 });
+      expect(between.status).toBe('below_target');
+      expect(between.targetProgress).toBeCloseTo(0.5);
+      expect(assessThreshold(0.98, { min: 0.9, target: 0.97 })).toMatchObject({ status: 'on_target', targetProgress: 1 });
+    });
+
+    it('should place lower-is-better values against max and target', () => {
+      expect(assessThreshold(0.06, { max: 0.05, target: 0.01 })).toMatchObject({ status: 'above_max', direction: 'lower' });
+      expect(assessThreshold(0.03, { max: 0.05, target: 0.01 }).status).toBe('above_target');
+      expect(assessThreshold(0.005, { max: 0.05, target: 0.01 }).status).toBe('on_target');
+    });
+  });
+
+  describe('applyThresholds', () => {
+    it('should re-score results against configured limits', () => {
+      const [scored] = applyThresholds([result({ evaluator: 'reconciliation' })], config);
+
+      expect(scored.passed).toBe(false);
+      expect(scored.threshold).toBe(0.95);
+      expect(scored.thresholdRange).toEqual({ min: 0.95, target: 0.97 });
+      expect(scored.assessment?.status).toBe('below_min');
+    });
+
+    it('should apply stricter profile limits', () => {
+      const errorRate = result({ metric: 'error_rate', value: 0.03 });
+
+      expect(applyThresholds([errorRate], config)[0].passed).toBe(true);
+      expect(applyThresholds([errorRate], config, 'main')[0].passed).toBe(false);
+    });
+
+    it('should leave metrics without configured limits untouched', () => {
+      const untouched = result({ metric: 'custom_metric' });
+
+      expect(applyThresholds([untouched], config)[0]).toBe(untouched);
+    });
+  });
+
+  describe('selectThresholdProfile', () => {
+    it('should use an explicit profile', () => {
+      expect(selectThresholdProfile(config, 'main')).toBe('main');
+    });
+
+    it('should reject unknown explicit profiles', () => {
+      expect(() => selectThresholdProfile(config, 'staging')).toThrow('Threshold profile "staging" not found');
+    });
+
+    it('should match the current branch to a profile', () => {
+      vi.stubEnv('GITHUB_HEAD_REF', '');
+      vi.stubEnv('GITHUB_REF_NAME', 'main');
+
+      expect(selectThresholdProfile(config)).toBe('main');
+    });
+
+    it('should return no profile when the branch has none', () => {
+      vi.stubEnv('GITHUB_HEAD_REF', 'feature/new-report');
+
+      expect(selectThresholdProfile(config)).toBeUndefined();
+    });
+  });
+
+  describe('loadThresholdConfig', () => {
+    beforeEach(() => {
+      vi.mocked(fs.readFile).mockReset();
+    });
+
+    it('should return an empty config when the file is absent', async () => {
+      vi.mocked(fs.readFile).mockRejectedValue(Object.assign(new Error('missing'), { code: 'ENOENT' }));
+
+      await expect(loadThresholdConfig('/project')).resolves.toEqual({});
+    });
+
+    it('should reject non-numeric limits', async () => {
+      vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify({ metrics: { accuracy: { min: '90%' } } }));
+
+      await expect(loadThresholdConfig('/project')).rejects.toThrow('metrics.accuracy.min must be a number');
+    });
+
+    it('should reject inverted limits inside profiles', async () => {
+      vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify({
+        profiles: { main: { overrides: { 'billing.error_rate': { min: 0.5, max: 0.1 } } } },
+      }));
+
+      await expect(loadThresholdConfig('/project')).rejects.toThrow('profile "main"');
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { EvaluationResult, MetricThreshold, ThresholdAssessment } from '../../types/index.js';
+import { getCurrentBranch } from '../utils/git.js';
+
+/**
+ * Declarative threshold configuration
+ * Loads evaluators/thresholds.json and resolves {min, max, target} limits for each metric.
+ *
+ * Resolution order (later wins, fields merge): limits returned by the evaluator,
+ * `metrics[metric]`, `overrides["evaluator.metric"]`, then the same two keys in the active profile.
+ */
+
+export const THRESHOLDS_CONFIG_PATH = path.join('evaluators', 'thresholds.json');
+
+export interface ThresholdRules {
+  metrics?: Record<string, MetricThreshold>;
+  overrides?: Record<string, MetricThreshold>;
+}
+
+export interface ThresholdConfig extends ThresholdRules {
+  profiles?: Record<string, ThresholdRules>;
+}
+
+/**
+ * Load evaluators/thresholds.json, returning an empty config when the file does not exist
+ */
+export async function loadThresholdConfig(projectPath: string = process.cwd()): Promise<ThresholdConfig> {
+  const configPath = path.join(projectPath, THRESHOLDS_CONFIG_PATH);
+
+  let config: ThresholdConfig;
+  try {
+    config = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw new Error(`Invalid ${THRESHOLDS_CONFIG_PATH}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  validateRules(config, THRESHOLDS_CONFIG_PATH);
+  for (const [name, profile] of Object.entries(config.profiles ?? {})) {
+    validateRules(profile, `${THRESHOLDS_CONFIG_PATH} profile "${name}"`);
+  }
+
+  return config;
+}
+
+/**
+ * Pick the threshold profile for this run
+ * An explicit name must exist; otherwise the current branch is used when a profile matches it.
+ */
+export function selectThresholdProfile(config: ThresholdConfig, explicit?: string): string | undefined {
+  const profiles = config.profiles ?? {};
+  const requested = explicit ?? process.env.QUALLAA_THRESHOLD_PROFILE;
+
+  if (requested) {
+    if (!profiles[requested]) {
+      throw new Error(`Threshold profile "${requested}" not found in ${THRESHOLDS_CONFIG_PATH}`);
+    }
+    return requested;
+  }
+
+  const branch = getCurrentBranch();
+  return branch && profiles[branch] ? branch : undefined;
+}
+
+/**
+ * Resolve the limits for one metric of one evaluator
+ */
+export function resolveThreshold(
+  config: ThresholdConfig,
+  metric: string,
+  evaluator?: string,
+  profile?: string,
+  base?: MetricThreshold
+): MetricThreshold | undefined {
+  const layers: Array<ThresholdRules | undefined> = [config, profile ? config.profiles?.[profile] : undefined];
+  let resolved: MetricThreshold | undefined = base ? { ...base } : undefined;
+
+  for (const rules of layers) {
+    if (!rules) continue;
+    for (const candidate of [rules.metrics?.[metric], evaluator ? rules.overrides?.[`${evaluator}.${metric}`] : undefined]) {
+      if (candidate) resolved = { ...resolved, ...candidate };
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Re-score results against the configured thresholds
+ */
+export function applyThresholds(results: EvaluationResult[], config: ThresholdConfig, profile?: string): EvaluationResult[] {
+  return results.map(result => {
+    const range = resolveThreshold(config, result.metric, result.evaluator, profile, result.thresholdRange);
+    if (!range || !hasLimits(range)) return result;
+
+    const assessment = assessThreshold(result.value, range);
+    return {
+      ...result,
+      threshold: representativeThreshold(range),
+      thresholdRange: range,
+      passed: assessment.status !== 'below_min' && assessment.status !== 'above_max',
+      assessment,
+    };
+  });
+}
+
+/**
+ * Describe where a value sits against its min, target and max
+ */
+export function assessThreshold(value: number, range: MetricThreshold): ThresholdAssessment {
+  const direction = thresholdDirection(range);
+
+  let status: ThresholdAssessment['status'];
+  if (range.min !== undefined && value < range.min) {
+    status = 'below_min';
+  } else if (range.max !== undefined && value > range.max) {
+    status = 'above_max';
+  } else if (range.target === undefined) {
+    status = 'on_target';
+  } else if (direction === 'higher') {
+    status = value >= range.target ? 'on_target' : 'below_target';
+  } else {
+    status = value <= range.target ? 'on_target' : 'above_target';
+  }
+
+  // Fraction of the way from the failing limit to the target (1 = target reached)
+  const limit = direction === 'higher' ? range.min : range.max;
+  let targetProgress: number | undefined;
+  if (range.target !== undefined && limit !== undefined && range.target !== limit) {
+    targetProgress = Math.max(0, Math.min(1, (value - limit) / (range.target - limit)));
+  } else if (range.target !== undefined) {
+    targetProgress = status === 'on_target' ? 1 : 0;
+  }
+
+  return {
+    status,
+    direction,
+    ...(range.target !== undefined ? { distanceToTarget: value - range.target } : {}),
+    ...(targetProgress !== undefined ? { targetProgress } : {}),
+  };
+}
+
+/**
+ * Whether a value passes its hard limits
+ */
+export function meetsThreshold(value: number, range: MetricThreshold): boolean {
+  if (range.min !== undefined && value < range.min) return false;
+  if (range.max !== undefined && value > range.max) return false;
+  return true;
+}
+
+/**
+ * Single number kept in `EvaluationResult.threshold` for older consumers
+ */
+export function representativeThreshold(range: MetricThreshold): number {
+  return range.min ?? range.max ?? range.target ?? 0;
+}
+
+function thresholdDirection(range: MetricThreshold): 'higher' | 'lower' {
+  if (range.min !== undefined && range.max === undefined) return 'higher';
+  if (range.max !== undefined && range.min === undefined) return 'lower';
+  if (range.min !== undefined && range.max !== undefined && range.target !== undefined) {
+    return range.target - range.min >= range.max - range.target ? 'higher' : 'lower';
+  }
+  return 'higher';
+}
+
+function hasLimits(range: MetricThreshold): boolean {
+  return range.min !== undefined || range.max !== undefined || range.target !== undefined;
+}
+
+function validateRules(rules: ThresholdRules, source: string): void {
+  for (const section of ['metrics', 'overrides'] as const) {
+    for (const [name, range] of Object.entries(rules[section] ?? {})) {
+      for (const field of ['min', 'max', 'target'] as const) {
+        if (range[field] !== undefined && typeof range[field] !== 'number') {
+          throw new Error(`Invalid ${source}: ${section}.${name}.${field} must be a number`);
+        }
+      }
+      if (range.min !== undefined && range.max !== undefined && range.min > range.max) {
+        throw new Error(`Invalid ${source}: ${section}.${name} has min greater than max`);
+      }
+    }
+  }
+}
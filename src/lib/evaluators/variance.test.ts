@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateRepetitions, calculateVariance, findFlakyMetrics, runRepetitions } from './variance.js';
+import { applyScoring, scoreResults } from './scoring.js';
+import { describeAssessment } from './formatting.js';
+import type { EvaluationResult } from '../../types/index.js';
+
+describe('variance', () => {
+  const result = (metric: string, value: number, passed: boolean, duration = 100): EvaluationResult => ({
+    metric,
+    value,
+    threshold: 0.9,
+    passed,
+    category: 'Quality',
+    evaluator: 'sampling',
+    duration,
+  });
+
+  describe('calculateVariance', () => {
+    it('should report mean, sample standard deviation and range', () => {
+      const variance = calculateVariance([0.9, 0.94, 0.92], 3);
+
+      expect(variance.mean).toBeCloseTo(0.92);
+      expect(variance.stdDev).toBeCloseTo(0.02);
+      expect(variance).toMatchObject({ runs: 3, min: 0.9, max: 0.94, passedRuns: 3, flaky: false });
+    });
+
+    it('should report no spread for a single run', () => {
+      expect(calculateVariance([0.5], 0).stdDev).toBe(0);
+    });
+  });
+
+  describe('aggregateRepetitions', () => {
+    it('should collapse repeated runs into one result per metric valued at the mean', () => {
+      const [accuracy, latency] = aggregateRepetitions([
+        [result('accuracy', 0.92, true, 100), result('latency', 1, true, 100)],
+        [result('accuracy', 0.96, true, 300), result('latency', 1, true, 300)],
+      ]);
+
+      expect(accuracy.value).toBeCloseTo(0.94);
+      expect(accuracy).toMatchObject({ passed: true, duration: 200 });
+      expect(accuracy.variance).toMatchObject({ runs: 2, min: 0.92, max: 0.96, flaky: false });
+      expect(latency.variance?.stdDev).toBe(0);
+    });
+
+    it('should flag metrics that pass in some runs and fail in others', () => {
+      const [accuracy] = aggregateRepetitions([
+        [result('accuracy', 0.91, true)],
+        [result('accuracy', 0.88, false)],
+        [result('accuracy', 0.93, true)],
+      ]);
+
+      expect(accuracy.passed).toBe(false);
+      expect(accuracy.variance).toMatchObject({ passedRuns: 2, flaky: true });
+      expect(findFlakyMetrics([accuracy])).toEqual(['sampling.accuracy']);
+    });
+
+    it('should count a run that did not report the metric as failed', () => {
+      const [accuracy] = aggregateRepetitions([[result('accuracy', 0.95, true)], []]);
+
+      expect(accuracy.variance).toMatchObject({ runs: 1, passedRuns: 1, flaky: true });
+    });
+  });
+
+  describe('runRepetitions', () => {
+    it('should keep the all-runs verdict of a flaky metric through scoring', async () => {
+      // Mean 0.9067 clears the 0.9 minimum, but one run of three fell below it
+      const values = [0.91, 0.88, 0.93];
+      const task = async (repetition: number): Promise<EvaluationResult[]> => [result('accuracy', values[repetition], true)];
+
+      const results = await runRepetitions(task, 3, { metrics: { accuracy: { min: 0.9 } } });
+      const [accuracy] = applyScoring(results, {});
+
+      expect(accuracy.value).toBeCloseTo(0.9067, 4);
+      expect(accuracy.passed).toBe(false);
+      expect(accuracy.variance).toMatchObject({ passedRuns: 2, flaky: true });
+      expect(findFlakyMetrics([accuracy])).toEqual(['sampling.accuracy']);
+      expect(scoreResults([accuracy]).overallScore).toBe(0);
+    });
+
+    it('should not show a failing metric as on target because its last run passed', async () => {
+      const runs: EvaluationResult[] = [
+        { ...result('accuracy', 0.85, true), details: '85 of 100 records', mismatches: [{ key: 'inv-7', reason: 'missing_in_output' }] },
+        { ...result('accuracy', 0.97, true), details: '97 of 100 records' },
+      ];
+
+      const [accuracy] = await runRepetitions(async repetition => [runs[repetition]], 2, { metrics: { accuracy: { min: 0.9, target: 0.95 } } });
+
+      expect(accuracy.passed).toBe(false);
+      expect(accuracy.assessment).toMatchObject({ status: 'below_min', direction: 'higher' });
+      expect(accuracy.assessment?.distanceToTarget).toBeCloseTo(-0.04);
+      expect(describeAssessment(accuracy)).toBe('below minimum');
+      expect(accuracy.details).toBeUndefined();
+      expect(accuracy.mismatches).toBeUndefined();
+    });
+
+    it('should score a single run against the thresholds', async () => {
+      const [accuracy] = await runRepetitions(async () => [result('accuracy', 0.88, true)], 1, { metrics: { accuracy: { min: 0.9 } } });
+
+      expect(accuracy).toMatchObject({ passed: false, threshold: 0.9 });
+      expect(accuracy.variance).toBeUndefined();
+    });
+  });
+});
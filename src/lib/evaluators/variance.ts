@@ -0,0 +1,105 @@
+import { EvaluationResult, MetricThreshold, MetricVariance, ThresholdAssessment } from '../../types/index.js';
+import { applyThresholds, assessThreshold, ThresholdConfig } from './thresholds.js';
+
+/**
+ * Variance across repeated evaluator runs
+ * Collapses `--repeat N` runs into one result per metric, valued at the mean,
+ * and flags metrics whose pass/fail outcome changes from run to run.
+ */
+
+/**
+ * Run an evaluator `repeat` times and score each run against the configured thresholds
+ * Thresholds are applied once per run, before the runs are combined, so the combined
+ * `passed` is the all-runs verdict; re-applying them to the mean would overwrite it.
+ */
+export async function runRepetitions(
+  task: (repetition: number) => Promise<EvaluationResult[]>,
+  repeat: number,
+  thresholds: ThresholdConfig,
+  profile?: string
+): Promise<EvaluationResult[]> {
+  const repetitions: EvaluationResult[][] = [];
+  for (let repetition = 0; repetition < repeat; repetition++) {
+    repetitions.push(applyThresholds(await task(repetition), thresholds, profile));
+  }
+  return repeat > 1 ? aggregateRepetitions(repetitions) : repetitions[0];
+}
+
+/**
+ * Combine the results of repeated runs of the same evaluator
+ * Each repetition must already have its thresholds applied so `passed` is final.
+ * A metric missing from a repetition (e.g. the evaluator crashed) counts as a failed run.
+ */
+export function aggregateRepetitions(repetitions: EvaluationResult[][]): EvaluationResult[] {
+  const groups = new Map<string, EvaluationResult[]>();
+
+  for (const results of repetitions) {
+    for (const result of results) {
+      const key = metricKey(result);
+      groups.set(key, [...(groups.get(key) ?? []), result]);
+    }
+  }
+
+  return [...groups.values()].map(runs => {
+    const variance = calculateVariance(
+      runs.map(run => run.value),
+      runs.filter(run => run.passed).length,
+      repetitions.length
+    );
+    const durations = runs.map(run => run.duration).filter((d): d is number => d !== undefined);
+    const passed = variance.passedRuns === repetitions.length;
+    const last = runs[runs.length - 1];
+
+    return {
+      ...last,
+      value: variance.mean,
+      passed,
+      assessment: last.thresholdRange ? assessRepetitions(variance.mean, last.thresholdRange, passed) : undefined,
+      // Mismatches belong to one run; details are kept only when every run reported the same
+      details: runs.every(run => run.details === last.details) ? last.details : undefined,
+      mismatches: undefined,
+      ...(durations.length > 0 ? { duration: Math.round(durations.reduce((a, b) => a + b, 0) / durations.length) } : {}),
+      variance,
+    };
+  });
+}
+
+/**
+ * Where the mean sits against the range, failing whenever a run failed
+ * The mean of a flaky metric can sit inside the limits, so the failing limit stands in for it.
+ */
+function assessRepetitions(mean: number, range: MetricThreshold, passed: boolean): ThresholdAssessment {
+  const assessment = assessThreshold(mean, range);
+  const failing = assessment.status === 'below_min' || assessment.status === 'above_max';
+  if (passed || failing) return assessment;
+  return { ...assessment, status: assessment.direction === 'higher' ? 'below_min' : 'above_max' };
+}
+
+/**
+ * Mean, sample standard deviation and range of a metric's values
+ */
+export function calculateVariance(values: number[], passedRuns: number, totalRuns: number = values.length): MetricVariance {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const squaredDeviations = values.reduce((sum, value) => sum + (value - mean) ** 2, 0);
+
+  return {
+    runs: values.length,
+    mean,
+    stdDev: values.length > 1 ? Math.sqrt(squaredDeviations / (values.length - 1)) : 0,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    passedRuns,
+    flaky: passedRuns > 0 && passedRuns < totalRuns,
+  };
+}
+
+/**
+ * Metrics flagged as flaky, as `evaluator.metric`
+ */
+export function findFlakyMetrics(results: EvaluationResult[]): string[] {
+  return results.filter(result => result.variance?.flaky).map(metricKey);
+}
+
+function metricKey(result: EvaluationResult): string {
+  return result.evaluator ? `${result.evaluator}.${result.metric}` : result.metric;
+}
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as fsSync from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import axios from 'axios';
+import { AlertMonitor, AlertConfig, evaluateAlertRules, loadAlertConfig, DEFAULT_ALERT_CONFIG } from './alerts.js';
+import { ROICalculator } from './calculator.js';
+import { StateStore } from '../../storage/state-store.js';
+import { roiBaseline, roiCheck } from '../../test/roi-fixtures.js';
+import type { BenchmarkComparison } from '../../types/index.js';
+
+vi.mock('fs/promises', () => ({
+  readFile: vi.fn(),
+  appendFile: vi.fn(),
+  mkdir: vi.fn(),
+}));
+vi.mock('axios');
+
+describe('ROI alerts', () => {
+  const baseline = roiBaseline();
+  const calculator = new ROICalculator('/project');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('evaluateAlertRules', () => {
+    it('should fire when ROI has fallen for the configured number of checks', async () => {
+      // 20 hours saved at $75 is $1,500/month; rising maintenance then eats into it
+      const snapshots = await Promise.all([
+        roiCheck(baseline, 1),
+        roiCheck(baseline, 2),
+        roiCheck(baseline, 3, { maintenanceCosts: 600 }),
+        roiCheck(baseline, 4, { maintenanceCosts: 900 }),
+      ]);
+      const context = { projectId: 'acme', snapshots, roiTrend: calculator.analyzeTrend(snapshots, 'financial.currentROI') };
+
+      expect(evaluateAlertRules(context, [{ type: 'roi-declined', snapshots: 3 }])).toEqual([]);
+      const [alert] = evaluateAlertRules(context, [{ type: 'roi-declined', snapshots: 2, severity: 'critical' }]);
+
+      expect(alert).toMatchObject({ rule: 'roi-declined', severity: 'critical', projectId: 'acme', snapshotId: 'roi_4' });
+      expect(alert.title).toBe('ROI has fallen for 2 checks in a row');
+      expect(alert.message).toBe('ROI went from -90.0% to -92.0% over the last 2 checks.');
+    });
+
+    it('should fire when the projected break-even moves out by more than the allowed months', async () => {
+      // $30,000 paid back at $1,500/month, then at $1,250/month
+      const slipped = await Promise.all([roiCheck(baseline, 2), roiCheck(baseline, 3, { maintenanceCosts: 250 })]);
+
+      expect(evaluateAlertRules({ projectId: 'acme', snapshots: slipped }, [{ type: 'break-even-slipped', months: 4 }])).toEqual([]);
+      expect(evaluateAlertRules({ projectId: 'acme', snapshots: slipped }, [{ type: 'break-even-slipped', months: 3 }])[0].title)
+        .toBe('Projected break-even slipped 4.0 months');
+
+      // No hours saved any more, so no savings to pay back with
+      const never = await Promise.all([roiCheck(baseline, 2), roiCheck(baseline, 3, { currentProcessingHours: 60 })]);
+      expect(evaluateAlertRules({ projectId: 'acme', snapshots: never }, [{ type: 'break-even-slipped' }])[0].title)
+        .toBe('Break-even is no longer in sight');
+    });
+
+    it('should compare adoption with the configured target or the peer median', async () => {
+      const snapshots = [await roiCheck(baseline, 3, { employeeAdoptionRate: 0.4 })];
+      const benchmarks: BenchmarkComparison = {
+        datasetVersion: 'test',
+        template: 'all',
+        companySize: 'all',
+        placements: [{ metric: 'adoptionRate', value: 40, percentile: 10, peers: { p10: 20, p25: 35, p50: 55, p75: 70, p90: 85 } }],
+      };
+
+      expect(evaluateAlertRules({ projectId: 'acme', snapshots, benchmarks }, [{ type: 'adoption-below-target' }])[0].message)
+        .toBe('Adoption is 40%, under the peer median of 55%.');
+      expect(evaluateAlertRules({ projectId: 'acme', snapshots, benchmarks }, [{ type: 'adoption-below-target', target: 35 }])).toEqual([]);
+
+      // The built-in ranges are not real peers, so only an explicit target counts against them
+      const illustrative = { ...benchmarks, provenance: { source: 'Built-in', illustrative: true } };
+      expect(evaluateAlertRules({ projectId: 'acme', snapshots, benchmarks: illustrative }, [{ type: 'adoption-below-target' }])).toEqual([]);
+      expect(evaluateAlertRules({ projectId: 'acme', snapshots, benchmarks: illustrative }, [{ type: 'adoption-below-target', target: 60 }])[0].message)
+        .toBe('Adoption is 40%, under the target of 60%.');
+    });
+  });
+
+  describe('AlertMonitor', () => {
+    let projectPath: string;
+    const config: AlertConfig = {
+      rules: [{ type: 'adoption-below-target', target: 60 }],
+      channels: [{ type: 'file', path: '.quallaa/alerts.log' }, { type: 'webhook', url: 'https://hooks.example.com/roi' }],
+    };
+
+    beforeEach(async () => {
+      projectPath = fsSync.mkdtempSync(path.join(os.tmpdir(), 'quallaa-alerts-'));
+      (fs.readFile as any).mockRejectedValue({ code: 'ENOENT' });
+      StateStore.open(projectPath).insertSnapshot(await roiCheck(baseline, 3, { employeeAdoptionRate: 0.4 }));
+    });
+
+    afterEach(() => {
+      StateStore.open(projectPath).close();
+      fsSync.rmSync(projectPath, { recursive: true, force: true });
+    });
+
+    it('should notify every channel once until the alert clears', async () => {
+      vi.mocked(axios.post).mockResolvedValue({ data: {} });
+      const monitor = new AlertMonitor(projectPath);
+
+      const dryRun = await monitor.run('acme', config, { dryRun: true });
+      expect(dryRun.fresh).toHaveLength(1);
+      expect(fs.appendFile).not.toHaveBeenCalled();
+
+      const first = await monitor.run('acme', config);
+      expect(first.deliveries).toEqual([
+        { channel: 'file .quallaa/alerts.log', delivered: true },
+        { channel: 'webhook https://hooks.example.com/roi', delivered: true },
+      ]);
+      expect(JSON.parse((fs.appendFile as any).mock.calls[0][1])).toMatchObject({ rule: 'adoption-below-target', snapshotId: 'roi_3' });
+      expect(vi.mocked(axios.post).mock.calls[0][1]).toMatchObject({ text: expect.stringContaining('1 ROI alert for acme') });
+
+      const second = await monitor.run('acme', config);
+      expect(second.firing).toHaveLength(1);
+      expect(second.fresh).toEqual([]);
+      expect(fs.appendFile).toHaveBeenCalledTimes(1);
+
+      // Adoption recovers, then drops again
+      StateStore.open(projectPath).insertSnapshot(await roiCheck(baseline, 4, { employeeAdoptionRate: 0.7 }));
+      expect((await monitor.run('acme', config)).firing).toEqual([]);
+      StateStore.open(projectPath).insertSnapshot(await roiCheck(baseline, 5, { employeeAdoptionRate: 0.45 }));
+      expect((await monitor.run('acme', config)).fresh).toHaveLength(1);
+    });
+
+    it('should try again on the next run when no channel delivered', async () => {
+      vi.mocked(axios.post).mockRejectedValue(new Error('Service Unavailable'));
+      const webhookOnly: AlertConfig = { ...config, channels: [config.channels[1]] };
+      const monitor = new AlertMonitor(projectPath);
+
+      const failed = await monitor.run('acme', webhookOnly);
+      expect(failed.deliveries).toEqual([{ channel: 'webhook https://hooks.example.com/roi', delivered: false, error: 'Service Unavailable' }]);
+
+      vi.mocked(axios.post).mockResolvedValue({ data: {} });
+      expect((await monitor.run('acme', webhookOnly)).deliveries[0].delivered).toBe(true);
+    });
+  });
+
+  describe('loadAlertConfig', () => {
+    it('should use the default rules and file channel when there is no config file', async () => {
+      (fs.readFile as any).mockRejectedValue({ code: 'ENOENT' });
+
+      expect(await loadAlertConfig('/project')).toEqual(DEFAULT_ALERT_CONFIG);
+    });
+
+    it('should fill in defaults and reject invalid rules and channels', async () => {
+      (fs.readFile as any).mockResolvedValue(JSON.stringify({ channels: [{ type: 'email', to: ['ops@acme.com'] }] }));
+      expect((await loadAlertConfig('/project')).rules).toEqual(DEFAULT_ALERT_CONFIG.rules);
+
+      (fs.readFile as any).mockResolvedValue(JSON.stringify({ rules: [{ type: 'roi-declined', snapshots: 0 }] }));
+      await expect(loadAlertConfig('/project')).rejects.toThrow('Invalid evaluators/alerts.json: rules[0].snapshots must be a whole number of at least 1');
+
+      (fs.readFile as any).mockResolvedValue(JSON.stringify({ rules: [{ type: 'adoption-below-target' }, { type: 'adoption-below-target', target: 50 }] }));
+      await expect(loadAlertConfig('/project')).rejects.toThrow('rules[1].id "adoption-below-target" is already used');
+
+      (fs.readFile as any).mockResolvedValue(JSON.stringify({ channels: [{ type: 'slack', url: 'https://hooks.slack.com/x' }] }));
+      await expect(loadAlertConfig('/project')).rejects.toThrow('channels[0].type must be one of: email, webhook, file');
+    });
+  });
+});
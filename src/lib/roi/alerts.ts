@@ -0,0 +1,377 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import axios from 'axios';
+import {
+  AlertRuleType,
+  AlertSeverity,
+  BenchmarkComparison,
+  ROIAlert,
+  ROISnapshot,
+  ROITrend,
+} from '../../types/index.js';
+import { ROICalculator, MS_PER_MONTH } from './calculator.js';
+import { compareToBenchmarks, loadBenchmarkDataset } from './benchmarks.js';
+import { escapeHtml } from '../evaluators/formatting.js';
+import { sendEmail } from '../../services/resend.js';
+import { StateStore } from '../../storage/state-store.js';
+
+/**
+ * ROI alerts
+ * Rules watch the checks recorded for a project and fire when ROI keeps falling, the projected
+ * break-even date slips or adoption stays under target. A rule notifies when it starts firing and
+ * not again until it has cleared, so a daily scheduled check does not repeat the same alert.
+ * Rules and notification channels (Resend email, webhook, local file) are set in evaluators/alerts.json.
+ */
+
+export const ALERTS_CONFIG_PATH = 'evaluators/alerts.json';
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = ['roi-declined', 'break-even-slipped', 'adoption-below-target'];
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ['warning', 'critical'];
+
+// Consecutive checks with falling ROI before roi-declined fires
+const DEFAULT_DECLINE_CHECKS = 3;
+// Months break-even may move out between two checks before break-even-slipped fires
+const DEFAULT_SLIP_MONTHS = 3;
+
+export interface AlertRuleConfig {
+  id?: string; // Defaults to the type; needed when a type is used more than once
+  type: AlertRuleType;
+  snapshots?: number; // roi-declined: consecutive checks in which ROI fell
+  months?: number; // break-even-slipped: how far the projection may move out since the previous check
+  target?: number; // adoption-below-target: adoption % (default: the peer median for the baseline's template and size, unless the benchmarks are illustrative)
+  severity?: AlertSeverity;
+}
+
+export type AlertChannelConfig =
+  | { type: 'email'; to: string[]; from?: string }
+  | { type: 'webhook'; url: string; headers?: Record<string, string> } // ${VAR} in header values is read from the environment
+  | { type: 'file'; path: string };
+
+export interface AlertConfig {
+  rules: AlertRuleConfig[];
+  channels: AlertChannelConfig[];
+}
+
+export const DEFAULT_ALERT_CONFIG: AlertConfig = {
+  rules: [
+    { type: 'roi-declined' },
+    { type: 'break-even-slipped' },
+    { type: 'adoption-below-target' },
+  ],
+  channels: [{ type: 'file', path: '.quallaa/alerts.log' }],
+};
+
+export interface AlertContext {
+  projectId: string;
+  snapshots: ROISnapshot[]; // Oldest first; the last one is the check being alerted on
+  roiTrend?: ROITrend; // ROI across the checks, when there are at least 2
+  benchmarks?: BenchmarkComparison;
+}
+
+export interface AlertChannel {
+  name: string; // Shown in output, e.g. "email to ops@acme.com"
+  send: (alerts: ROIAlert[]) => Promise<void>;
+}
+
+export interface AlertDelivery {
+  channel: string;
+  delivered: boolean;
+  error?: string;
+}
+
+export interface AlertRunResult {
+  firing: ROIAlert[]; // Every rule firing on the latest check
+  fresh: ROIAlert[]; // Those not notified before, which go to the channels unless this is a dry run
+  deliveries: AlertDelivery[];
+  dryRun: boolean;
+}
+
+type RuleResult = Pick<ROIAlert, 'title' | 'message'> | null;
+
+const RULE_TYPES: Record<AlertRuleType, (rule: AlertRuleConfig, context: AlertContext) => RuleResult> = {
+  'roi-declined': (rule, context): RuleResult => {
+    const values = context.roiTrend?.values.map(entry => entry.value) ?? [];
+    let declines = 0;
+    for (let i = values.length - 1; i > 0 && values[i] < values[i - 1]; i--) declines++;
+    if (declines === 0 || declines < (rule.snapshots ?? DEFAULT_DECLINE_CHECKS)) return null;
+
+    const from = values[values.length - 1 - declines];
+    const to = values[values.length - 1];
+    const comparison = context.roiTrend?.statistics?.comparison;
+    const significance = context.roiTrend?.trend === 'declining' && comparison
+      ? ` The drop across all checks is statistically significant (p = ${comparison.pValue.toFixed(3)}).`
+      : '';
+    return {
+      title: `ROI has fallen for ${declines} checks in a row`,
+      message: `ROI went from ${from.toFixed(1)}% to ${to.toFixed(1)}% over the last ${declines} checks.${significance}`,
+    };
+  },
+  'break-even-slipped': (rule, context): RuleResult => {
+    if (context.snapshots.length < 2) return null;
+    const [previous, latest] = context.snapshots.slice(-2).map(projectedBreakEven);
+    if (!previous) return null; // Nothing to slip from
+
+    if (!latest) {
+      return {
+        title: 'Break-even is no longer in sight',
+        message: `The previous check projected break-even by ${formatDate(previous)}. At the latest check's savings and running costs the project never pays back.`,
+      };
+    }
+    const slip = (latest.getTime() - previous.getTime()) / MS_PER_MONTH;
+    if (slip <= (rule.months ?? DEFAULT_SLIP_MONTHS)) return null;
+    return {
+      title: `Projected break-even slipped ${slip.toFixed(1)} months`,
+      message: `Break-even moved out from ${formatDate(previous)} to ${formatDate(latest)} since the previous check.`,
+    };
+  },
+  'adoption-below-target': (rule, context): RuleResult => {
+    const adoption = context.snapshots[context.snapshots.length - 1].metrics.productivity.employeeAdoptionRate;
+    // Illustrative benchmarks are not real peers, so without a target there is nothing to fall short of
+    const peers = context.benchmarks?.provenance?.illustrative ? undefined : context.benchmarks;
+    const target = rule.target ?? peers?.placements.find(placement => placement.metric === 'adoptionRate')?.peers.p50;
+    if (target === undefined || adoption >= target) return null;
+
+    return {
+      title: 'Adoption is below target',
+      message: `Adoption is ${adoption.toFixed(0)}%, under the ${rule.target !== undefined ? 'target' : 'peer median'} of ${target.toFixed(0)}%.`,
+    };
+  },
+};
+
+const CHANNEL_TYPES: {
+  [T in AlertChannelConfig['type']]: (config: Extract<AlertChannelConfig, { type: T }>, projectPath: string) => AlertChannel;
+} = {
+  email: config => ({
+    name: `email to ${config.to.join(', ')}`,
+    send: async (alerts): Promise<void> => {
+      await sendEmail({ to: config.to, from: config.from, subject: summarizeAlerts(alerts), html: formatAlertEmail(alerts) });
+    },
+  }),
+  webhook: config => ({
+    name: `webhook ${config.url}`,
+    send: async (alerts): Promise<void> => {
+      const headers = Object.fromEntries(Object.entries(config.headers ?? {}).map(([name, value]) => [name, expandEnv(value)]));
+      // `text` lets chat webhooks (Slack, Teams) show the alerts without a custom integration
+      await axios.post(config.url, { text: [summarizeAlerts(alerts), ...alerts.map(alert => `• ${alert.title}: ${alert.message}`)].join('\n'), alerts }, {
+        headers: { 'Content-Type': 'application/json', ...headers },
+      });
+    },
+  }),
+  file: (config, projectPath) => ({
+    name: `file ${config.path}`,
+    send: async (alerts): Promise<void> => {
+      const file = path.resolve(projectPath, config.path);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.appendFile(file, alerts.map(alert => JSON.stringify(alert) + '\n').join(''));
+    },
+  }),
+};
+
+export class AlertMonitor {
+  private calculator: ROICalculator;
+
+  constructor(private projectPath: string = process.cwd()) {
+    this.calculator = new ROICalculator(projectPath);
+  }
+
+  /**
+   * Rules firing on the project's latest check
+   */
+  async evaluate(projectId: string, config: AlertConfig): Promise<ROIAlert[]> {
+    const snapshots = await this.calculator.getSnapshots(projectId);
+    if (snapshots.length === 0) return [];
+
+    const latest = snapshots[snapshots.length - 1];
+    const roiTrend = snapshots.length >= 2 ? await this.calculator.calculateTrends(projectId, 'financial.currentROI') : undefined;
+    const benchmarks = compareToBenchmarks(latest.metrics, await loadBenchmarkDataset(this.projectPath), {
+      template: latest.baseline.template,
+      companySize: latest.baseline.companySize,
+    });
+    return evaluateAlertRules({ projectId, snapshots, roiTrend, benchmarks }, config.rules);
+  }
+
+  /**
+   * Send the alerts that started firing to every channel
+   * A dry run reports what would be sent without sending it or recording it as sent.
+   */
+  async run(projectId: string, config: AlertConfig, options: { dryRun?: boolean } = {}): Promise<AlertRunResult> {
+    const firing = await this.evaluate(projectId, config);
+    const store = StateStore.open(this.projectPath);
+    const active = new Map(store.listActiveAlerts(projectId).map(alert => [alert.rule, alert]));
+    const fresh = firing.filter(alert => !active.has(alert.rule));
+    const channels = config.channels.map(channel => createAlertChannel(channel, this.projectPath));
+
+    if (options.dryRun) {
+      return { firing, fresh, deliveries: channels.map(channel => ({ channel: channel.name, delivered: false })), dryRun: true };
+    }
+
+    const deliveries = fresh.length > 0
+      ? await Promise.all(channels.map(async (channel): Promise<AlertDelivery> => {
+        try {
+          await channel.send(fresh);
+          return { channel: channel.name, delivered: true };
+        } catch (error) {
+          return { channel: channel.name, delivered: false, error: error instanceof Error ? error.message : String(error) };
+        }
+      }))
+      : [];
+
+    // Alerts no channel delivered stay inactive, so the next check tries them again;
+    // rules that stopped firing are cleared and notify again if they fire later
+    const delivered = deliveries.some(delivery => delivery.delivered);
+    store.setActiveAlerts(projectId, firing
+      .filter(alert => active.has(alert.rule) || delivered)
+      .map(alert => active.get(alert.rule) ?? { rule: alert.rule, snapshotId: alert.snapshotId, firedAt: alert.triggeredAt }));
+
+    return { firing, fresh, deliveries, dryRun: false };
+  }
+}
+
+/**
+ * Alerts for the rules that fire on the latest of the context's checks
+ */
+export function evaluateAlertRules(context: AlertContext, rules: AlertRuleConfig[]): ROIAlert[] {
+  const latest = context.snapshots[context.snapshots.length - 1];
+  if (!latest) return [];
+
+  const triggeredAt = new Date();
+  return rules.flatMap(rule => {
+    const result = RULE_TYPES[rule.type](rule, context);
+    return result
+      ? [{
+        rule: rule.id ?? rule.type,
+        type: rule.type,
+        severity: rule.severity ?? 'warning',
+        projectId: context.projectId,
+        ...result,
+        snapshotId: latest.id,
+        triggeredAt,
+      }]
+      : [];
+  });
+}
+
+export function createAlertChannel(config: AlertChannelConfig, projectPath: string = process.cwd()): AlertChannel {
+  const create = CHANNEL_TYPES[config.type] as (config: AlertChannelConfig, projectPath: string) => AlertChannel;
+  return create(config, projectPath);
+}
+
+/**
+ * Load evaluators/alerts.json, filling in the default rules or channels it leaves out
+ */
+export async function loadAlertConfig(projectPath: string = process.cwd()): Promise<AlertConfig> {
+  let config: Partial<AlertConfig>;
+  try {
+    config = JSON.parse(await fs.readFile(path.join(projectPath, ALERTS_CONFIG_PATH), 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return DEFAULT_ALERT_CONFIG;
+    }
+    throw new Error(`Invalid ${ALERTS_CONFIG_PATH}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const merged: AlertConfig = {
+    rules: config.rules ?? DEFAULT_ALERT_CONFIG.rules,
+    channels: config.channels ?? DEFAULT_ALERT_CONFIG.channels,
+  };
+  try {
+    validateAlertConfig(merged);
+  } catch (error) {
+    throw new Error(`Invalid ${ALERTS_CONFIG_PATH}: ${error instanceof Error ? error.message : error}`);
+  }
+  return merged;
+}
+
+/**
+ * Check rule types, thresholds and ids, and that every channel has somewhere to send to
+ */
+export function validateAlertConfig(config: AlertConfig): void {
+  if (!Array.isArray(config.rules)) throw new Error('rules must be a list');
+  const ids = new Set<string>();
+  config.rules.forEach((rule, index) => {
+    const at = `rules[${index}]`;
+    if (!ALERT_RULE_TYPES.includes(rule.type)) {
+      throw new Error(`${at}.type must be one of: ${ALERT_RULE_TYPES.join(', ')}`);
+    }
+    const id = rule.id ?? rule.type;
+    if (typeof id !== 'string' || id.trim() === '') throw new Error(`${at}.id must be a non-empty string`);
+    if (ids.has(id)) throw new Error(`${at}.id "${id}" is already used; give rules of the same type their own id`);
+    ids.add(id);
+
+    if (rule.snapshots !== undefined && (!Number.isInteger(rule.snapshots) || rule.snapshots < 1)) {
+      throw new Error(`${at}.snapshots must be a whole number of at least 1`);
+    }
+    if (rule.months !== undefined && (typeof rule.months !== 'number' || !Number.isFinite(rule.months) || rule.months < 0)) {
+      throw new Error(`${at}.months must be a number of months, 0 or more`);
+    }
+    if (rule.target !== undefined && (typeof rule.target !== 'number' || rule.target < 0 || rule.target > 100)) {
+      throw new Error(`${at}.target must be an adoption percentage between 0 and 100`);
+    }
+    if (rule.severity !== undefined && !ALERT_SEVERITIES.includes(rule.severity)) {
+      throw new Error(`${at}.severity must be one of: ${ALERT_SEVERITIES.join(', ')}`);
+    }
+  });
+
+  if (!Array.isArray(config.channels) || config.channels.length === 0) {
+    throw new Error('channels must list at least one channel');
+  }
+  config.channels.forEach((channel, index) => {
+    const at = `channels[${index}]`;
+    switch (channel.type) {
+      case 'email':
+        if (!Array.isArray(channel.to) || channel.to.length === 0 || channel.to.some(to => typeof to !== 'string' || !to.includes('@'))) {
+          throw new Error(`${at}.to must list at least one email address`);
+        }
+        break;
+      case 'webhook':
+        if (typeof channel.url !== 'string' || !/^https?:\/\//.test(channel.url)) {
+          throw new Error(`${at}.url must be an http(s) URL`);
+        }
+        break;
+      case 'file':
+        if (typeof channel.path !== 'string' || channel.path.trim() === '') {
+          throw new Error(`${at}.path must be a file path`);
+        }
+        break;
+      default:
+        throw new Error(`${at}.type must be one of: ${Object.keys(CHANNEL_TYPES).join(', ')}`);
+    }
+  });
+}
+
+/**
+ * One-line summary used as the email subject and webhook text
+ */
+export function summarizeAlerts(alerts: ROIAlert[]): string {
+  const critical = alerts.some(alert => alert.severity === 'critical');
+  const projects = [...new Set(alerts.map(alert => alert.projectId))].join(', ');
+  return `${critical ? '[critical] ' : ''}${alerts.length} ROI alert${alerts.length === 1 ? '' : 's'} for ${projects}`;
+}
+
+// Projected break-even date of a check, or null when it never pays back
+function projectedBreakEven(snapshot: ROISnapshot): Date | null {
+  const months = snapshot.metrics.financial.breakEvenMonths;
+  // Checks stored as JSON keep a never-paying-back Infinity as null
+  return typeof months === 'number' && Number.isFinite(months)
+    ? new Date(snapshot.period.startDate.getTime() + months * MS_PER_MONTH)
+    : null;
+}
+
+function formatAlertEmail(alerts: ROIAlert[]): string {
+  return `
+        <h1>${escapeHtml(summarizeAlerts(alerts))}</h1>
+        ${alerts.map(alert => `
+        <h2>${alert.severity === 'critical' ? '🚨' : '⚠️'} ${escapeHtml(alert.title)}</h2>
+        <p>${escapeHtml(alert.message)}</p>`).join('')}
+        <p>Run <code>quallaa evaluators report</code> for the full picture.</p>
+      `;
+}
+
+function expandEnv(value: string): string {
+  return value.replace(/\$\{(\w+)\}/g, (_, name: string) => process.env[name] ?? '');
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString();
+}
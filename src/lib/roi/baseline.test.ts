@@ -1,15 +1,32 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import * as fs from 'fs/promises';
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { BaselineCollector, collectBaselineInteractively } from './baseline.js';
+import { BaselineCollector, collectBaselineInteractively, diffBaselines, parseBaselineUpdates } from './baseline.js';
+import { StateStore, STATE_DB_PATH } from '../../storage/state-store.js';
 import type { ROIBaseline } from '../../types/index.js';
 
-// Mock fs/promises
-vi.mock('fs/promises', () => ({
-  mkdir: vi.fn().mockResolvedValue(undefined),
-  readFile: vi.fn(),
-  writeFile: vi.fn().mockResolvedValue(undefined),
-}));
+let projectPath: string;
+
+// Each test gets its own project directory and state store
+const useTempProject = (): void => {
+  beforeEach(() => {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'quallaa-baseline-'));
+  });
+
+  afterEach(() => {
+    StateStore.open(projectPath).close();
+    fs.rmSync(projectPath, { recursive: true, force: true });
+  });
+};
+
+// Files an earlier version of the CLI left in .quallaa/, imported when the store first opens
+const writeLegacyFiles = (files: Record<string, unknown>): void => {
+  fs.mkdirSync(path.join(projectPath, '.quallaa'), { recursive: true });
+  for (const [name, data] of Object.entries(files)) {
+    fs.writeFileSync(path.join(projectPath, '.quallaa', name), JSON.stringify(data));
+  }
+};
 
 // Mock inquirer
 vi.mock('inquirer', () => ({
@@ -20,10 +37,22 @@ vi.mock('inquirer', () => ({
 
 describe('BaselineCollector', () => {
   let collector: BaselineCollector;
-  const mockProjectPath = '/tmp/test-project';
+  const baselineV1 = {
+    establishedAt: '2024-01-01T00:00:00.000Z',
+    developmentCost: 50000,
+    currentSaasSpend: 1500,
+    teamSize: 5,
+    currentProcessingHours: 40,
+    errorRateBaseline: 0.05,
+    accuracyBaseline: 0.85,
+    complianceScore: 0.7,
+    customerSatisfactionScore: 7.5,
+  };
+
+  useTempProject();
 
   beforeEach(() => {
-    collector = new BaselineCollector(mockProjectPath);
+    collector = new BaselineCollector(projectPath);
     vi.clearAllMocks();
   });
 
@@ -32,6 +61,7 @@ describe('BaselineCollector', () => {
   });
 
   describe('establishBaseline', () => {
+
     it('should create valid baseline with all required fields', async () => {
       const inputs = {
         developmentCost: 50000,
@@ -86,7 +116,17 @@ describe('BaselineCollector', () => {
         .rejects.toThrow('Invalid developmentCost: must be a positive number');
     });
 
-    it('should save baseline to correct file path', async () => {
+    it('should reject labour cost models whose shares do not add up to 100%', async () => {
+      await expect(collector.establishBaseline({
+        developmentCost: 25000,
+        currentSaasSpend: 1500,
+        teamSize: 5,
+        currentProcessingHours: 40,
+        labourCostModel: { roles: [{ role: 'Finance clerk', hourlyRate: 42, hoursShare: 0.5 }] },
+      })).rejects.toThrow('role hour shares add up to 50%, expected 100%');
+    });
+
+    it('should save baseline to the project state store', async () => {
       const inputs = {
         developmentCost: 50000,
         currentSaasSpend: 1500,
@@ -96,21 +136,25 @@ describe('BaselineCollector', () => {
 
       await collector.establishBaseline(inputs);
 
-      expect(fs.mkdir).toHaveBeenCalledWith(
-        path.join(mockProjectPath, '.quallaa'),
-        { recursive: true }
-      );
+      expect(fs.existsSync(path.join(projectPath, STATE_DB_PATH))).toBe(true);
+      expect(await new BaselineCollector(projectPath).getBaseline()).toMatchObject(inputs);
+    });
 
-      expect(fs.writeFile).toHaveBeenCalledWith(
-        path.join(mockProjectPath, '.quallaa', 'roi-baseline.json'),
-        expect.any(String),
-        'utf-8'
+    it('should start the history at version 1', async () => {
+      const baseline = await collector.establishBaseline(
+        { developmentCost: 50000, currentSaasSpend: 1500, teamSize: 5, currentProcessingHours: 40 },
+        { author: 'dana' }
       );
+
+      expect(baseline.version).toBe(1);
+      const history = await collector.getHistory();
+      expect(history).toHaveLength(1);
+      expect(history[0]).toMatchObject({ version: 1, author: 'dana', reason: 'Baseline established' });
     });
   });
 
   describe('getBaseline', () => {
-    it('should return parsed baseline when file exists', async () => {
+    it('should return the baseline imported from an older roi-baseline.json', async () => {
       const mockBaseline = {
         establishedAt: '2024-01-01T00:00:00.000Z',
         developmentCost: 50000,
@@ -123,7 +167,7 @@ describe('BaselineCollector', () => {
         customerSatisfactionScore: 7.5,
       };
 
-      (fs.readFile as any).mockResolvedValue(JSON.stringify(mockBaseline));
+      writeLegacyFiles({ 'roi-baseline.json': mockBaseline });
 
       const result = await collector.getBaseline();
 
@@ -133,21 +177,18 @@ describe('BaselineCollector', () => {
       });
     });
 
-    it('should return null when file does not exist', async () => {
-      const error = new Error('ENOENT') as NodeJS.ErrnoException;
-      error.code = 'ENOENT';
-      (fs.readFile as any).mockRejectedValue(error);
-
+    it('should return null when no baseline was established', async () => {
       const result = await collector.getBaseline();
 
       expect(result).toBeNull();
     });
 
-    it('should throw error for other file system errors', async () => {
-      const error = new Error('Permission denied');
-      (fs.readFile as any).mockRejectedValue(error);
+    it('should throw when an older baseline file cannot be read', async () => {
+      fs.mkdirSync(path.join(projectPath, '.quallaa'), { recursive: true });
+      fs.writeFileSync(path.join(projectPath, '.quallaa', 'roi-baseline.json'), '{ not json');
 
-      await expect(collector.getBaseline()).rejects.toThrow('Permission denied');
+      await expect(collector.getBaseline()).rejects.toThrow('Could not migrate .quallaa/roi-baseline.json');
+      fs.rmSync(path.join(projectPath, '.quallaa', 'roi-baseline.json')); // Lets the store open again for cleanup
     });
   });
 
@@ -165,7 +206,7 @@ describe('BaselineCollector', () => {
         customerSatisfactionScore: 7.5,
       };
 
-      (fs.readFile as any).mockResolvedValue(JSON.stringify(existingBaseline));
+      writeLegacyFiles({ 'roi-baseline.json': existingBaseline });
 
       const updates = {
         currentSaasSpend: 1200,
@@ -182,13 +223,66 @@ describe('BaselineCollector', () => {
     });
 
     it('should throw error when no baseline exists', async () => {
-      const error = new Error('ENOENT') as NodeJS.ErrnoException;
-      error.code = 'ENOENT';
-      (fs.readFile as any).mockRejectedValue(error);
-
       await expect(collector.updateBaseline({ teamSize: 6 }))
         .rejects.toThrow('No baseline exists to update. Establish baseline first.');
     });
+
+    it('should append a new version and keep the earlier ones', async () => {
+      const original = { ...baselineV1, version: 1 };
+      writeLegacyFiles({
+        'roi-baseline.json': original,
+        'roi-baseline-history.json': [{ version: 1, baseline: original, recordedAt: '2024-01-01T00:00:00.000Z', author: 'dana', reason: 'Baseline established' }],
+      });
+
+      const updated = await collector.updateBaseline({ developmentCost: 60000 }, { reason: 'Invoice came in higher', author: 'lee' });
+
+      expect(updated).toMatchObject({ version: 2, developmentCost: 60000, establishedAt: new Date('2024-01-01') });
+      const history = await collector.getHistory();
+      expect(history.map(entry => [entry.version, entry.baseline.developmentCost, entry.author])).toEqual([[1, 50000, 'dana'], [2, 60000, 'lee']]);
+      expect(history[1].reason).toBe('Invoice came in higher');
+    });
+
+    it('should treat a baseline from before history was kept as version 1', async () => {
+      writeLegacyFiles({ 'roi-baseline.json': baselineV1 });
+
+      const history = await collector.getHistory();
+      const updated = await collector.updateBaseline({ teamSize: 8 }, { reason: 'Team grew' });
+
+      expect(history).toMatchObject([{ version: 1, author: 'unknown' }]);
+      expect(history[0].baseline.establishedAt).toBeInstanceOf(Date);
+      expect(updated.version).toBe(2);
+    });
+
+    it('should reject updates that make the baseline invalid', async () => {
+      writeLegacyFiles({ 'roi-baseline.json': baselineV1 });
+
+      await expect(collector.updateBaseline({ teamSize: 0 }, { reason: 'Typo' })).rejects.toThrow('Team size must be at least 1');
+      expect(await collector.getHistory()).toHaveLength(1);
+    });
+  });
+
+  describe('baseline versions', () => {
+    it('should list only the fields that changed', () => {
+      const changes = diffBaselines(
+        { ...baselineV1, establishedAt: new Date('2024-01-01') },
+        { ...baselineV1, establishedAt: new Date('2024-01-01'), developmentCost: 60000, labourCostModel: { roles: [{ role: 'Ops', hourlyRate: 50, hoursShare: 1 }] }, companySize: 'small' }
+      );
+
+      expect(changes.map(change => change.field)).toEqual(['developmentCost', 'labourCostModel', 'companySize']);
+      expect(changes[0]).toEqual({ field: 'developmentCost', from: 50000, to: 60000 });
+    });
+
+    it('should parse --set values for known fields only', () => {
+      expect(parseBaselineUpdates(['developmentCost=25000', 'accuracyBaseline=0.9'])).toEqual({ developmentCost: 25000, accuracyBaseline: 0.9 });
+      expect(() => parseBaselineUpdates(['developmentCost'])).toThrow('expected <field>=<number>');
+      expect(() => parseBaselineUpdates(['establishedAt=2024'])).toThrow('unknown field "establishedAt"');
+    });
+
+    it('should explain which versions exist when one is missing', async () => {
+      writeLegacyFiles({ 'roi-baseline.json': baselineV1 });
+
+      await expect(collector.getVersion(3)).rejects.toThrow('Baseline version 3 not found. Versions: 1');
+    });
   });
 
   describe('calculateBaselineHealth', () => {
@@ -267,7 +361,7 @@ describe('BaselineCollector', () => {
         customerSatisfactionScore: 7.5,
       };
 
-      (fs.readFile as any).mockResolvedValue(JSON.stringify(mockBaseline));
+      writeLegacyFiles({ 'roi-baseline.json': mockBaseline });
 
       const report = await collector.generateBaselineReport();
 
@@ -281,10 +375,6 @@ describe('BaselineCollector', () => {
     });
 
     it('should return help message when no baseline exists', async () => {
-      const error = new Error('ENOENT') as NodeJS.ErrnoException;
-      error.code = 'ENOENT';
-      (fs.readFile as any).mockRejectedValue(error);
-
       const report = await collector.generateBaselineReport();
 
       expect(report).toBe('No baseline established. Run: quallaa evaluators baseline');
@@ -305,7 +395,7 @@ describe('BaselineCollector', () => {
         customerSatisfactionScore: 7.5,
       };
 
-      (fs.readFile as any).mockResolvedValue(JSON.stringify(recentBaseline));
+      writeLegacyFiles({ 'roi-baseline.json': recentBaseline });
 
       const result = await collector.requireBaseline();
 
@@ -316,10 +406,6 @@ describe('BaselineCollector', () => {
     });
 
     it('should throw error when no baseline exists', async () => {
-      const error = new Error('ENOENT') as NodeJS.ErrnoException;
-      error.code = 'ENOENT';
-      (fs.readFile as any).mockRejectedValue(error);
-
       await expect(collector.requireBaseline())
         .rejects.toThrow('ROI baseline required but not found. Run: quallaa evaluators baseline --help');
     });
@@ -337,7 +423,7 @@ describe('BaselineCollector', () => {
         customerSatisfactionScore: 7.5,
       };
 
-      (fs.readFile as any).mockResolvedValue(JSON.stringify(oldBaseline));
+      writeLegacyFiles({ 'roi-baseline.json': oldBaseline });
 
       // Mock console.warn to verify warning
       const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
@@ -358,8 +444,11 @@ describe('BaselineCollector', () => {
 });
 
 describe('collectBaselineInteractively', () => {
+  useTempProject();
+
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.spyOn(process, 'cwd').mockReturnValue(projectPath);
   });
 
   it('should collect baseline data interactively', async () => {
@@ -380,6 +469,7 @@ describe('collectBaselineInteractively', () => {
     const inquirer = await import('inquirer');
     (inquirer.default.prompt as any)
       .mockResolvedValueOnce(mockAnswers)
+      .mockResolvedValueOnce({ role: 'Finance clerk', hourlyRate: 42, share: 100 })
       .mockResolvedValueOnce(mockQualityAnswers);
 
     const result = await collectBaselineInteractively();
@@ -405,7 +495,9 @@ describe('collectBaselineInteractively', () => {
     };
 
     const inquirer = await import('inquirer');
-    (inquirer.default.prompt as any).mockResolvedValueOnce(mockAnswers);
+    (inquirer.default.prompt as any)
+      .mockResolvedValueOnce(mockAnswers)
+      .mockResolvedValueOnce({ role: 'Finance clerk', hourlyRate: 42, share: 100 });
 
     const result = await collectBaselineInteractively();
 
@@ -418,4 +510,21 @@ describe('collectBaselineInteractively', () => {
       accuracyBaseline: 0.85, // default
     });
   });
+
+  it('should ask for roles until their shares of the hours add up to 100%', async () => {
+    const inquirer = await import('inquirer');
+    (inquirer.default.prompt as any)
+      .mockResolvedValueOnce({ developmentCost: 50000, currentSaasSpend: 0, teamSize: 3, currentProcessingHours: 100, includeQuality: false })
+      .mockResolvedValueOnce({ role: 'Finance clerk', hourlyRate: 42, share: 70 })
+      .mockResolvedValueOnce({ role: 'Controller', hourlyRate: 95, share: 30 });
+
+    const result = await collectBaselineInteractively();
+
+    expect(result.labourCostModel).toEqual({
+      roles: [
+        { role: 'Finance clerk', hourlyRate: 42, hoursShare: 0.7 },
+        { role: 'Controller', hourlyRate: 95, hoursShare: 0.3 },
+      ],
+    });
+  });
 });
\ No newline at end of file
@@ -1,28 +1,44 @@
-import { ROIBaseline, ROIConfig } from '../../types/index.js';
-import * as fs from 'fs/promises';
-import * as path from 'path';
+import { BaselineFieldChange, BaselineVersion, CompanySize, LabourCostModel, LabourRole, OutcomeTemplate, ROIBaseline, ROIConfig } from '../../types/index.js';
 import chalk from 'chalk';
+import { getGitUser } from '../utils/git.js';
+import { StateStore } from '../../storage/state-store.js';
+import { blendedHourlyRate, describeLabourCostModel, validateLabourCostModel } from './labour.js';
+import { readInputFile, BASELINE_INPUT_SCHEMA, BaselineInputFile } from './input-files.js';
+import { COMPANY_SIZES } from './benchmarks.js';
+import { listOutcomeTemplates } from '../../templates/outcomes/index.js';
+
+// Baseline fields `evaluators baseline rebase --set` can change
+export const BASELINE_FIELDS = [
+  'developmentCost',
+  'currentSaasSpend',
+  'teamSize',
+  'currentProcessingHours',
+  'errorRateBaseline',
+  'accuracyBaseline',
+  'complianceScore',
+  'customerSatisfactionScore',
+] as const;
+
+export interface BaselineChange {
+  reason?: string;
+  author?: string; // Defaults to the CI actor or git user
+}
 
 /**
  * ROI Baseline Collection System
- * Implements academic best practices for establishing measurement baselines
+ * Implements academic best practices for establishing measurement baselines.
+ * Every version is kept in the project's state store and the latest one is the current baseline,
+ * so corrections never silently rewrite earlier ROI figures.
  */
 export class BaselineCollector {
-  private baselineFilePath: string;
   private config: ROIConfig;
 
-  constructor(projectPath: string = process.cwd(), config?: Partial<ROIConfig>) {
-    this.baselineFilePath = path.join(projectPath, '.quallaa', 'roi-baseline.json');
+  constructor(private projectPath: string = process.cwd(), config?: Partial<ROIConfig>) {
     this.config = {
       trackingEnabled: true,
       baselineRequired: true,
       confidenceLevel: 0.95,
       reportingFrequency: 'monthly',
-      benchmarkTargets: {
-        roiTarget: 2.48, // 248% ROI from Forrester research
-        paybackMonths: 6,
-        adoptionRate: 0.66
-      },
       ...config
     };
   }
@@ -40,12 +56,16 @@ export class BaselineCollector {
     accuracyBaseline?: number;
     complianceScore?: number;
     customerSatisfactionScore?: number;
-  }): Promise<ROIBaseline> {
+    labourCostModel?: LabourCostModel;
+    template?: OutcomeTemplate;
+    companySize?: CompanySize;
+  }, change: BaselineChange = {}): Promise<ROIBaseline> {
     
     // Validate required inputs
     this.validateBaselineInputs(inputs);
 
-    const baseline: ROIBaseline = {
+    // Setting up again starts a new version rather than discarding the history
+    const { baseline } = StateStore.open(this.projectPath).appendBaselineVersion(previous => this.createVersion({
       establishedAt: new Date(),
       developmentCost: inputs.developmentCost,
       currentSaasSpend: inputs.currentSaasSpend,
@@ -54,11 +74,15 @@ export class BaselineCollector {
       errorRateBaseline: inputs.errorRateBaseline ?? 0.05, // Default 5% error rate
       accuracyBaseline: inputs.accuracyBaseline ?? 0.85, // Default 85% accuracy
       complianceScore: inputs.complianceScore ?? 0.7, // Default 70% compliance
-      customerSatisfactionScore: inputs.customerSatisfactionScore ?? 7.5 // Default 7.5/10
-    };
-
-    // Persist baseline data
-    await this.saveBaseline(baseline);
+      customerSatisfactionScore: inputs.customerSatisfactionScore ?? 7.5, // Default 7.5/10
+      ...(inputs.labourCostModel ? { labourCostModel: inputs.labourCostModel } : {}),
+      ...(inputs.template ? { template: inputs.template } : {}),
+      ...(inputs.companySize ? { companySize: inputs.companySize } : {}),
+      version: previous ? previous.version + 1 : 1
+    }, {
+      reason: change.reason ?? (previous ? 'Baseline re-established' : 'Baseline established'),
+      author: change.author,
+    }));
     
     // Log establishment for audit trail
     console.log(`✅ ROI baseline established at ${baseline.establishedAt.toISOString()}`);
@@ -66,6 +90,9 @@ export class BaselineCollector {
     console.log(`💰 Current SaaS spend: $${baseline.currentSaasSpend.toLocaleString()}/month`);
     console.log(`👥 Team size: ${baseline.teamSize} members`);
     console.log(`⏱️  Processing hours: ${baseline.currentProcessingHours} hours/month`);
+    if (baseline.labourCostModel) {
+      console.log(`🧾 Labour cost: $${blendedHourlyRate(baseline.labourCostModel).toFixed(2)}/hour blended across ${baseline.labourCostModel.roles.length} role(s)`);
+    }
 
     return baseline;
   }
@@ -74,39 +101,57 @@ export class BaselineCollector {
    * Load existing baseline data
    */
   async getBaseline(): Promise<ROIBaseline | null> {
-    try {
-      const data = await fs.readFile(this.baselineFilePath, 'utf-8');
-      const baseline = JSON.parse(data);
-      
-      // Convert date strings back to Date objects
-      baseline.establishedAt = new Date(baseline.establishedAt);
-      
-      return baseline;
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        return null; // File doesn't exist
-      }
-      throw error;
-    }
+    return StateStore.open(this.projectPath).currentBaseline();
   }
 
+
   /**
    * Update baseline with new measurements
-   * Supports iterative baseline refinement
+   * Records a new version; earlier versions and the snapshots calculated against them are kept.
    */
-  async updateBaseline(updates: Partial<Omit<ROIBaseline, 'establishedAt'>>): Promise<ROIBaseline> {
+  async updateBaseline(
+    updates: Partial<Omit<ROIBaseline, 'establishedAt' | 'version'>>,
+    change: BaselineChange = {}
+  ): Promise<ROIBaseline> {
     const existing = await this.getBaseline();
     if (!existing) {
       throw new Error('No baseline exists to update. Establish baseline first.');
     }
 
-    const updated: ROIBaseline = {
-      ...existing,
-      ...updates
-    };
+    const { baseline } = StateStore.open(this.projectPath).appendBaselineVersion(previous => {
+      const updated: ROIBaseline = {
+        ...(previous?.baseline ?? existing),
+        ...updates,
+        version: (previous?.version ?? 0) + 1
+      };
+      this.validateBaselineInputs(updated);
+      return this.createVersion(updated, { reason: change.reason ?? 'Baseline updated', author: change.author });
+    });
+    return baseline;
+  }
 
-    await this.saveBaseline(updated);
-    return updated;
+  /**
+   * Every baseline version, oldest first
+   * Baselines recorded before history was kept appear as version 1 with an unknown author.
+   */
+  async getHistory(): Promise<BaselineVersion[]> {
+    return StateStore.open(this.projectPath).listBaselineVersions();
+  }
+
+  /**
+   * One baseline version, by number
+   */
+  async getVersion(version: number): Promise<BaselineVersion> {
+    const history = await this.getHistory();
+    const entry = history.find(candidate => candidate.version === version);
+    if (!entry) {
+      throw new Error(
+        history.length > 0
+          ? `Baseline version ${version} not found. Versions: ${history.map(candidate => candidate.version).join(', ')}`
+          : 'No baseline exists yet. Run: quallaa evaluators setup'
+      );
+    }
+    return entry;
   }
 
   /**
@@ -204,8 +249,10 @@ export class BaselineCollector {
 
 ## Baseline Overview
 - **Established:** ${baseline.establishedAt.toLocaleDateString()}
+- **Version:** ${baseline.version ?? 1}
 - **Age:** ${monthsSinceBaseline.toFixed(1)} months
 - **Health Score:** ${health.score}/100
+- **Benchmark Peers:** ${baseline.template ?? 'any template'}, ${baseline.companySize ?? 'any company size'}
 
 ## Financial Baseline
 - **Development Investment:** $${baseline.developmentCost.toLocaleString()}
@@ -217,6 +264,10 @@ export class BaselineCollector {
 - **Processing Hours:** ${baseline.currentProcessingHours} hours/month
 - **Hourly Processing Cost:** $${((baseline.currentSaasSpend / baseline.currentProcessingHours) || 0).toFixed(2)}
 
+## Labour Cost Model
+- **Blended Rate:** $${blendedHourlyRate(baseline.labourCostModel).toFixed(2)}/hour
+${describeLabourCostModel(baseline.labourCostModel).map(line => `- ${line}`).join('\n')}
+
 ## Quality Baseline
 - **Accuracy:** ${(baseline.accuracyBaseline * 100).toFixed(1)}%
 - **Error Rate:** ${(baseline.errorRateBaseline * 100).toFixed(1)}%
@@ -247,19 +298,59 @@ ${health.recommendations.map(rec => `- 💡 ${rec}`).join('\n')}` : ''}
     if (inputs.teamSize < 1) {
       throw new Error('Team size must be at least 1');
     }
+
+    if (inputs.labourCostModel) {
+      validateLabourCostModel(inputs.labourCostModel);
+    }
   }
 
-  private async saveBaseline(baseline: ROIBaseline): Promise<void> {
-    // Ensure .quallaa directory exists
-    await fs.mkdir(path.dirname(this.baselineFilePath), { recursive: true });
-    
-    // Save with proper formatting
-    await fs.writeFile(
-      this.baselineFilePath, 
-      JSON.stringify(baseline, null, 2), 
-      'utf-8'
-    );
+  private createVersion(baseline: ROIBaseline, change: BaselineChange): BaselineVersion {
+    return {
+      version: baseline.version ?? 1,
+      baseline,
+      recordedAt: new Date(),
+      author: change.author || getGitUser(this.projectPath) || process.env.USER || 'unknown',
+      reason: change.reason || 'Baseline updated',
+    };
+  }
+}
+
+/**
+ * Fields that differ between two baseline versions
+ */
+export function diffBaselines(from: ROIBaseline, to: ROIBaseline): BaselineFieldChange[] {
+  const changes: BaselineFieldChange[] = BASELINE_FIELDS
+    .filter(field => from[field] !== to[field])
+    .map(field => ({ field, from: from[field], to: to[field] }));
+
+  if (JSON.stringify(from.labourCostModel ?? null) !== JSON.stringify(to.labourCostModel ?? null)) {
+    changes.push({ field: 'labourCostModel', from: from.labourCostModel, to: to.labourCostModel });
+  }
+  for (const field of ['template', 'companySize'] as const) {
+    if (from[field] !== to[field]) changes.push({ field, from: from[field], to: to[field] });
+  }
+  return changes;
+}
+
+/**
+ * Parse `--set` values such as "developmentCost=25000"
+ */
+export function parseBaselineUpdates(values: string[]): Partial<Pick<ROIBaseline, typeof BASELINE_FIELDS[number]>> {
+  const updates: Partial<Pick<ROIBaseline, typeof BASELINE_FIELDS[number]>> = {};
+
+  for (const value of values) {
+    const match = value.match(/^(\w+)=(-?[\d.]+)$/);
+    if (!match) {
+      throw new Error(`Invalid --set "${value}": expected <field>=<number>, e.g. developmentCost=25000`);
+    }
+    const field = BASELINE_FIELDS.find(candidate => candidate === match[1]);
+    if (!field) {
+      throw new Error(`Invalid --set "${value}": unknown field "${match[1]}". Use one of: ${BASELINE_FIELDS.join(', ')}`);
+    }
+    updates[field] = parseFloat(match[2]);
   }
+
+  return updates;
 }
 
 /**
@@ -299,6 +390,21 @@ export async function collectBaselineInteractively(): Promise<ROIBaseline> {
       default: 0,
       validate: (value) => value >= 0 || 'Must be 0 or more',
     },
+    {
+      type: 'list',
+      name: 'template',
+      message: 'Which outcome template is this built on? (to compare with similar projects)',
+      choices: [
+        ...listOutcomeTemplates().map(template => ({ name: template.name, value: template.value })),
+        { name: 'None of these', value: undefined },
+      ],
+    },
+    {
+      type: 'list',
+      name: 'companySize',
+      message: 'How big is the company?',
+      choices: COMPANY_SIZES,
+    },
     {
       type: 'confirm',
       name: 'includeQuality',
@@ -307,6 +413,10 @@ export async function collectBaselineInteractively(): Promise<ROIBaseline> {
     }
   ]);
 
+  const labourCostModel = answers.currentProcessingHours > 0
+    ? await collectLabourCostModel(inquirer.default)
+    : undefined;
+
   let qualityMetrics = {};
   if (answers.includeQuality) {
     console.log(chalk.gray('\nGreat! A few quick quality questions...'));
@@ -345,5 +455,56 @@ export async function collectBaselineInteractively(): Promise<ROIBaseline> {
   }
 
   const collector = new BaselineCollector();
-  return await collector.establishBaseline({ ...answers, ...qualityMetrics });
+  return await collector.establishBaseline({ ...answers, ...qualityMetrics, labourCostModel });
+}
+
+/**
+ * Baseline from a JSON file (or stdin for "-") validated against BASELINE_INPUT_SCHEMA, for CI
+ */
+export async function establishBaselineFromFile(source: string): Promise<ROIBaseline> {
+  const inputs = await readInputFile<BaselineInputFile>(source, BASELINE_INPUT_SCHEMA);
+
+  const collector = new BaselineCollector();
+  return await collector.establishBaseline(inputs);
+}
+
+/**
+ * Ask who does the manual work today and what an hour of their time costs
+ */
+async function collectLabourCostModel(inquirer: typeof import('inquirer')): Promise<LabourCostModel> {
+  console.log(chalk.gray('\nWho does that manual work today? Use fully loaded rates (salary, benefits, overhead).'));
+
+  const roles: LabourRole[] = [];
+  let remaining = 100;
+
+  while (remaining > 0) {
+    const answer = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'role',
+        message: roles.length === 0 ? 'Role that does most of it?' : 'Next role?',
+        default: roles.length === 0 ? 'Operations specialist' : 'Finance clerk',
+        validate: (value: string) => value.trim() !== '' || 'Need a role name',
+      },
+      {
+        type: 'number',
+        name: 'hourlyRate',
+        message: 'Loaded cost per hour for this role? ($)',
+        default: 50,
+        validate: (value: number) => value >= 0 || 'Must be 0 or more',
+      },
+      {
+        type: 'number',
+        name: 'share',
+        message: `What share of the hours does this role do? (%, ${remaining}% left)`,
+        default: remaining,
+        validate: (value: number) => (value > 0 && value <= remaining) || `Must be between 1 and ${remaining}`,
+      },
+    ]);
+
+    roles.push({ role: answer.role.trim(), hourlyRate: answer.hourlyRate, hoursShare: answer.share / 100 });
+    remaining = Math.round((remaining - answer.share) * 100) / 100;
+  }
+
+  return { roles };
 }
\ No newline at end of file
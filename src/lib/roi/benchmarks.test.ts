@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fs from 'fs/promises';
+import {
+  BUILT_IN_BENCHMARKS,
+  compareToBenchmarks,
+  loadBenchmarkDataset,
+  placeInDistribution,
+  selectCohort,
+  validateBenchmarkDataset,
+} from './benchmarks.js';
+import type { BenchmarkDataset, ROIMetrics } from '../../types/index.js';
+
+vi.mock('fs/promises', () => ({
+  readFile: vi.fn(),
+}));
+
+describe('ROI benchmarks', () => {
+  const distribution = { p10: 10, p25: 20, p50: 40, p75: 60, p90: 80 };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('placeInDistribution', () => {
+    it('should interpolate between the dataset percentiles', () => {
+      expect(placeInDistribution(40, distribution)).toBe(50);
+      expect(placeInDistribution(50, distribution)).toBe(63);
+      expect(placeInDistribution(15, distribution)).toBe(18);
+    });
+
+    it('should extend past p10 and p90 but stay within 1-99', () => {
+      expect(placeInDistribution(90, distribution)).toBe(98);
+      expect(placeInDistribution(500, distribution)).toBe(99);
+      expect(placeInDistribution(-100, distribution)).toBe(1);
+    });
+
+    it('should rank lower values higher when lower is better', () => {
+      const payback = { p10: 3, p25: 5, p50: 8, p75: 12, p90: 18 };
+
+      expect(placeInDistribution(5, payback, true)).toBe(75);
+      expect(placeInDistribution(Infinity, payback, true)).toBe(1);
+    });
+  });
+
+  describe('selectCohort', () => {
+    it('should fall back from template and size to the template, then to every project', () => {
+      expect(selectCohort(BUILT_IN_BENCHMARKS, 'order-cash-reco', 'small')).toMatchObject({ template: 'order-cash-reco', companySize: 'small' });
+      expect(selectCohort(BUILT_IN_BENCHMARKS, 'order-cash-reco')).toMatchObject({ template: 'order-cash-reco', companySize: 'all' });
+      expect(selectCohort(BUILT_IN_BENCHMARKS, undefined, 'small')).toMatchObject({ template: 'all', companySize: 'all' });
+    });
+  });
+
+  it('should place the latest check against its peers', () => {
+    const metrics = {
+      financial: { breakEvenMonths: 5 },
+      productivity: { processingTimeReduction: 50, errorReductionRate: 45, employeeAdoptionRate: 68 },
+    } as ROIMetrics;
+
+    const comparison = compareToBenchmarks(metrics, BUILT_IN_BENCHMARKS, { template: 'order-cash-reco', companySize: 'mid-market' });
+
+    expect(comparison).toMatchObject({
+      datasetVersion: BUILT_IN_BENCHMARKS.version,
+      provenance: { illustrative: true },
+      template: 'order-cash-reco',
+      companySize: 'mid-market',
+    });
+    expect(comparison.placements.map(placement => [placement.metric, placement.percentile])).toEqual([
+      ['hoursSavedPercent', 50],
+      ['errorRateReduction', 50],
+      ['paybackMonths', 75],
+      ['adoptionRate', 50],
+    ]);
+  });
+
+  it('should ship a valid dataset with a cohort for every template and size', () => {
+    expect(() => validateBenchmarkDataset(BUILT_IN_BENCHMARKS)).not.toThrow();
+    expect(BUILT_IN_BENCHMARKS.cohorts).toHaveLength(21);
+  });
+
+  it('should pool each template\'s sizes into its cohort across sizes', () => {
+    const sized = (['small', 'mid-market', 'enterprise'] as const).map(size => selectCohort(BUILT_IN_BENCHMARKS, 'order-cash-reco', size));
+
+    expect(selectCohort(BUILT_IN_BENCHMARKS, 'order-cash-reco').metrics.paybackMonths).toEqual({ p10: 3, p25: 5, p50: 8, p75: 13, p90: 19 });
+    expect(selectCohort(BUILT_IN_BENCHMARKS, 'order-cash-reco').metrics).not.toEqual(sized[1].metrics);
+  });
+
+  describe('loadBenchmarkDataset', () => {
+    const custom: BenchmarkDataset = {
+      version: 'acme-2025-q3',
+      description: 'Our own projects',
+      provenance: { source: 'Delivered Acme projects', sampleSize: 48, collectedAt: '2025-06' },
+      cohorts: [{
+        template: 'all',
+        companySize: 'all',
+        metrics: { hoursSavedPercent: distribution, errorRateReduction: distribution, paybackMonths: distribution, adoptionRate: distribution },
+      }],
+    };
+
+    it('should use the built-in dataset when there is no config file', async () => {
+      (fs.readFile as any).mockRejectedValue({ code: 'ENOENT' });
+
+      expect(await loadBenchmarkDataset('/project')).toBe(BUILT_IN_BENCHMARKS);
+    });
+
+    it('should replace it with the project dataset', async () => {
+      (fs.readFile as any).mockResolvedValue(JSON.stringify(custom));
+
+      expect((await loadBenchmarkDataset('/project')).version).toBe('acme-2025-q3');
+    });
+
+    it('should reject datasets without a fallback cohort or with falling percentiles', async () => {
+      (fs.readFile as any).mockResolvedValue(JSON.stringify({ ...custom, cohorts: [{ ...custom.cohorts[0], template: 'order-cash-reco' }] }));
+      await expect(loadBenchmarkDataset('/project')).rejects.toThrow(
+        'Invalid evaluators/benchmarks.json: cohorts needs one with template "all" and companySize "all" to fall back on'
+      );
+
+      const falling = { ...custom.cohorts[0], metrics: { ...custom.cohorts[0].metrics, paybackMonths: { ...distribution, p75: 5 } } };
+      (fs.readFile as any).mockResolvedValue(JSON.stringify({ ...custom, cohorts: [falling] }));
+      await expect(loadBenchmarkDataset('/project')).rejects.toThrow('cohorts[0].metrics.paybackMonths must not decrease from p10 to p90');
+
+      (fs.readFile as any).mockResolvedValue(JSON.stringify({ ...custom, provenance: { source: 'Our projects', sampleSize: 0 } }));
+      await expect(loadBenchmarkDataset('/project')).rejects.toThrow('provenance.sampleSize must be a whole number of projects');
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  BenchmarkCohort,
+  BenchmarkComparison,
+  BenchmarkDataset,
+  BenchmarkDistribution,
+  BenchmarkMetric,
+  BenchmarkPlacement,
+  CompanySize,
+  OutcomeTemplate,
+  ROIMetrics,
+} from '../../types/index.js';
+
+/**
+ * Peer benchmarks
+ * Places a project's latest check against the distribution for projects built on the same outcome
+ * template at companies of the same size. The dataset that ships with the CLI holds illustrative
+ * ranges, not measured ones; evaluators/benchmarks.json replaces it. Reports name the dataset's
+ * version and provenance, so a comparison always says what it was made against.
+ */
+
+export const BENCHMARK_CONFIG_PATH = 'evaluators/benchmarks.json';
+
+export const COMPANY_SIZES: Array<{ value: CompanySize; name: string }> = [
+  { value: 'small', name: 'Small (under 50 employees)' },
+  { value: 'mid-market', name: 'Mid-market (50-499 employees)' },
+  { value: 'enterprise', name: 'Enterprise (500+ employees)' },
+];
+
+export const BENCHMARK_METRICS: Array<{ metric: BenchmarkMetric; label: string; lowerIsBetter: boolean }> = [
+  { metric: 'hoursSavedPercent', label: 'Manual hours saved', lowerIsBetter: false },
+  { metric: 'errorRateReduction', label: 'Error-rate reduction', lowerIsBetter: false },
+  { metric: 'paybackMonths', label: 'Payback', lowerIsBetter: true },
+  { metric: 'adoptionRate', label: 'Team adoption', lowerIsBetter: false },
+];
+
+const PERCENTILES: Array<[number, keyof BenchmarkDistribution]> = [[10, 'p10'], [25, 'p25'], [50, 'p50'], [75, 'p75'], [90, 'p90']];
+
+// Hours saved, error-rate reduction and adoption are percentages; payback is in months
+function cohort(
+  template: OutcomeTemplate | 'all',
+  companySize: CompanySize | 'all',
+  hoursSavedPercent: number[],
+  errorRateReduction: number[],
+  paybackMonths: number[],
+  adoptionRate: number[]
+): BenchmarkCohort {
+  const distribution = ([p10, p25, p50, p75, p90]: number[]): BenchmarkDistribution => ({ p10, p25, p50, p75, p90 });
+  return {
+    template,
+    companySize,
+    metrics: {
+      hoursSavedPercent: distribution(hoursSavedPercent),
+      errorRateReduction: distribution(errorRateReduction),
+      paybackMonths: distribution(paybackMonths),
+      adoptionRate: distribution(adoptionRate),
+    },
+  };
+}
+
+// Set per template and company size; the wider cohorts are pooled from these
+const SIZED_COHORTS: BenchmarkCohort[] = [
+  cohort('order-cash-reco', 'small', [18, 32, 45, 58, 70], [14, 28, 43, 57, 71], [2, 4, 6, 10, 14], [46, 61, 74, 86, 96]),
+  cohort('order-cash-reco', 'mid-market', [20, 35, 50, 65, 78], [15, 30, 45, 60, 75], [3, 5, 8, 12, 18], [40, 55, 68, 80, 90]),
+  cohort('order-cash-reco', 'enterprise', [22, 38, 55, 72, 86], [16, 32, 47, 63, 79], [4, 7, 11, 16, 24], [32, 47, 60, 72, 82]),
+  cohort('lead-lifecycle-core', 'small', [14, 22, 36, 50, 61], [10, 19, 33, 48, 59], [3, 5, 7, 11, 16], [41, 56, 68, 81, 92]),
+  cohort('lead-lifecycle-core', 'mid-market', [15, 25, 40, 55, 68], [10, 20, 35, 50, 62], [4, 6, 9, 14, 20], [35, 50, 62, 75, 86]),
+  cohort('lead-lifecycle-core', 'enterprise', [16, 28, 44, 61, 75], [10, 21, 37, 52, 65], [5, 8, 12, 19, 27], [27, 42, 54, 67, 78]),
+  cohort('project-invoice-guardrails', 'small', [16, 27, 40, 54, 65], [19, 33, 48, 62, 74], [2, 4, 6, 9, 13], [51, 64, 76, 88, 97]),
+  cohort('project-invoice-guardrails', 'mid-market', [18, 30, 45, 60, 72], [20, 35, 50, 65, 78], [3, 5, 7, 11, 16], [45, 58, 70, 82, 91]),
+  cohort('project-invoice-guardrails', 'enterprise', [20, 33, 50, 66, 79], [21, 37, 52, 68, 82], [4, 7, 9, 15, 22], [37, 50, 62, 74, 83]),
+  cohort('donor-member-rollups', 'small', [18, 29, 43, 56, 68], [11, 24, 38, 52, 65], [3, 5, 8, 12, 18], [44, 58, 71, 84, 94]),
+  cohort('donor-member-rollups', 'mid-market', [20, 32, 48, 62, 75], [12, 25, 40, 55, 68], [4, 6, 10, 15, 22], [38, 52, 65, 78, 88]),
+  cohort('donor-member-rollups', 'enterprise', [22, 35, 53, 68, 82], [13, 26, 42, 58, 71], [5, 8, 14, 20, 30], [30, 44, 57, 70, 80]),
+  cohort('inventory-pricing-sync', 'small', [20, 34, 50, 63, 74], [17, 30, 46, 59, 71], [2, 3, 6, 8, 12], [48, 62, 75, 87, 96]),
+  cohort('inventory-pricing-sync', 'mid-market', [22, 38, 55, 70, 82], [18, 32, 48, 62, 75], [3, 4, 7, 10, 15], [42, 56, 69, 81, 90]),
+  cohort('inventory-pricing-sync', 'enterprise', [24, 42, 61, 77, 90], [19, 34, 50, 65, 79], [4, 5, 9, 14, 20], [34, 48, 61, 73, 82]),
+];
+
+/**
+ * A cohort covering others, averaging each percentile across them
+ * Approximates the pooled distribution, as the projects behind the percentiles are not kept.
+ */
+function pooledCohort(template: OutcomeTemplate | 'all', companySize: CompanySize | 'all', cohorts: BenchmarkCohort[]): BenchmarkCohort {
+  const average = (metric: BenchmarkMetric): BenchmarkDistribution => {
+    const [p10, p25, p50, p75, p90] = PERCENTILES.map(([, key]) =>
+      Math.round(cohorts.reduce((sum, entry) => sum + entry.metrics[metric][key], 0) / cohorts.length));
+    return { p10, p25, p50, p75, p90 };
+  };
+  return {
+    template,
+    companySize,
+    metrics: {
+      hoursSavedPercent: average('hoursSavedPercent'),
+      errorRateReduction: average('errorRateReduction'),
+      paybackMonths: average('paybackMonths'),
+      adoptionRate: average('adoptionRate'),
+    },
+  };
+}
+
+const TEMPLATE_COHORTS = [...new Set(SIZED_COHORTS.map(entry => entry.template))].map(template =>
+  pooledCohort(template, 'all', SIZED_COHORTS.filter(entry => entry.template === template)));
+
+export const BUILT_IN_BENCHMARKS: BenchmarkDataset = {
+  version: '2025.2',
+  description: 'Illustrative reference ranges for outcome packs by template and company size',
+  provenance: {
+    source: 'Ranges set by the Quallaa team to illustrate the comparison, not measured from delivered projects',
+    illustrative: true,
+  },
+  cohorts: [pooledCohort('all', 'all', TEMPLATE_COHORTS), ...TEMPLATE_COHORTS, ...SIZED_COHORTS],
+};
+
+/**
+ * The project's benchmark dataset: evaluators/benchmarks.json when present, else the built-in one
+ */
+export async function loadBenchmarkDataset(projectPath: string = process.cwd()): Promise<BenchmarkDataset> {
+  let dataset: BenchmarkDataset;
+  try {
+    dataset = JSON.parse(await fs.readFile(path.join(projectPath, BENCHMARK_CONFIG_PATH), 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return BUILT_IN_BENCHMARKS;
+    }
+    throw new Error(`Invalid ${BENCHMARK_CONFIG_PATH}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  try {
+    validateBenchmarkDataset(dataset);
+  } catch (error) {
+    throw new Error(`Invalid ${BENCHMARK_CONFIG_PATH}: ${error instanceof Error ? error.message : error}`);
+  }
+  return dataset;
+}
+
+/**
+ * Check the version, the provenance, the fallback cohort and that every distribution rises with its percentile
+ */
+export function validateBenchmarkDataset(dataset: BenchmarkDataset): void {
+  if (typeof dataset.version !== 'string' || dataset.version.trim() === '') {
+    throw new Error('version must be a non-empty string');
+  }
+  const provenance = dataset.provenance;
+  if (provenance !== undefined) {
+    if (typeof provenance?.source !== 'string' || provenance.source.trim() === '') {
+      throw new Error('provenance.source must say where the numbers come from');
+    }
+    if (provenance.sampleSize !== undefined && !(Number.isInteger(provenance.sampleSize) && provenance.sampleSize > 0)) {
+      throw new Error('provenance.sampleSize must be a whole number of projects');
+    }
+    if (provenance.collectedAt !== undefined && typeof provenance.collectedAt !== 'string') {
+      throw new Error('provenance.collectedAt must be a string, e.g. "2025-06"');
+    }
+  }
+  if (!Array.isArray(dataset.cohorts)) {
+    throw new Error('cohorts must be an array');
+  }
+  if (!dataset.cohorts.some(entry => entry.template === 'all' && entry.companySize === 'all')) {
+    throw new Error('cohorts needs one with template "all" and companySize "all" to fall back on');
+  }
+
+  const sizes = ['all', ...COMPANY_SIZES.map(size => size.value)];
+  dataset.cohorts.forEach((entry, index) => {
+    const at = `cohorts[${index}]`;
+    if (!sizes.includes(entry.companySize)) {
+      throw new Error(`${at}.companySize must be one of: ${sizes.join(', ')}`);
+    }
+    for (const { metric } of BENCHMARK_METRICS) {
+      const distribution = entry.metrics?.[metric];
+      const values = PERCENTILES.map(([, key]) => distribution?.[key]);
+      if (values.some(value => typeof value !== 'number' || !Number.isFinite(value))) {
+        throw new Error(`${at}.metrics.${metric} needs numbers p10, p25, p50, p75 and p90`);
+      }
+      if (values.some((value, i) => i > 0 && value! < values[i - 1]!)) {
+        throw new Error(`${at}.metrics.${metric} must not decrease from p10 to p90`);
+      }
+    }
+  });
+}
+
+/**
+ * Closest cohort: template and size, then the template at any size, then every project
+ */
+export function selectCohort(dataset: BenchmarkDataset, template?: OutcomeTemplate, companySize?: CompanySize): BenchmarkCohort {
+  const find = (wantedTemplate: string, wantedSize: string): BenchmarkCohort | undefined =>
+    dataset.cohorts.find(entry => entry.template === wantedTemplate && entry.companySize === wantedSize);
+
+  return (template && companySize ? find(template, companySize) : undefined)
+    ?? (template ? find(template, 'all') : undefined)
+    ?? find('all', 'all')!;
+}
+
+/**
+ * Share of peers (1-99) the value is better than
+ * Interpolates linearly between the dataset's percentiles and extends the outer segments past p10 and p90.
+ */
+export function placeInDistribution(value: number, distribution: BenchmarkDistribution, lowerIsBetter: boolean = false): number {
+  const points = PERCENTILES.map(([rank, key]) => ({ rank, value: distribution[key] }));
+  const interpolate = (from: typeof points[number], to: typeof points[number]): number =>
+    to.value === from.value ? (value >= to.value ? to.rank : from.rank) : from.rank + ((value - from.value) / (to.value - from.value)) * (to.rank - from.rank);
+
+  let rank: number;
+  if (!Number.isFinite(value)) {
+    rank = value > 0 ? 99 : 1;
+  } else if (value <= points[0].value) {
+    rank = interpolate(points[0], points[1]);
+  } else if (value >= points[points.length - 1].value) {
+    rank = interpolate(points[points.length - 2], points[points.length - 1]);
+  } else {
+    const upper = points.findIndex(point => point.value >= value);
+    rank = interpolate(points[upper - 1], points[upper]);
+  }
+
+  const clamped = Math.min(99, Math.max(1, rank));
+  return Math.round(lowerIsBetter ? 100 - clamped : clamped);
+}
+
+/**
+ * Place the latest check's metrics against the closest cohort of peers
+ */
+export function compareToBenchmarks(
+  metrics: ROIMetrics,
+  dataset: BenchmarkDataset,
+  peers: { template?: OutcomeTemplate; companySize?: CompanySize } = {}
+): BenchmarkComparison {
+  const selected = selectCohort(dataset, peers.template, peers.companySize);
+  const values: Record<BenchmarkMetric, number> = {
+    hoursSavedPercent: metrics.productivity.processingTimeReduction,
+    errorRateReduction: metrics.productivity.errorReductionRate,
+    paybackMonths: metrics.financial.breakEvenMonths,
+    adoptionRate: metrics.productivity.employeeAdoptionRate,
+  };
+
+  const placements: BenchmarkPlacement[] = BENCHMARK_METRICS.map(({ metric, lowerIsBetter }) => ({
+    metric,
+    value: values[metric],
+    percentile: placeInDistribution(values[metric], selected.metrics[metric], lowerIsBetter),
+    peers: selected.metrics[metric],
+  }));
+
+  return {
+    datasetVersion: dataset.version,
+    provenance: dataset.provenance,
+    template: selected.template,
+    companySize: selected.companySize,
+    placements,
+  };
+}
@@ -1,19 +1,20 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import * as fs from 'fs/promises';
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { ROICalculator } from './calculator.js';
+import { StateStore } from '../../storage/state-store.js';
 import type { ROIBaseline, ROISnapshot } from '../../types/index.js';
 
-// Mock fs/promises
-vi.mock('fs/promises', () => ({
-  mkdir: vi.fn().mockResolvedValue(undefined),
-  readFile: vi.fn(),
-  writeFile: vi.fn().mockResolvedValue(undefined),
-}));
-
 describe('ROICalculator', () => {
   let calculator: ROICalculator;
-  const mockProjectPath = '/tmp/test-project';
+  let projectPath: string;
+
+  // Snapshots an earlier version of the CLI saved to roi-snapshots.json, imported when the store first opens
+  const writeLegacySnapshots = (snapshots: unknown[]): void => {
+    fs.mkdirSync(path.join(projectPath, '.quallaa'), { recursive: true });
+    fs.writeFileSync(path.join(projectPath, '.quallaa', 'roi-snapshots.json'), JSON.stringify(snapshots));
+  };
 
   const mockBaseline: ROIBaseline = {
     establishedAt: new Date('2024-01-01'),
@@ -28,11 +29,14 @@ describe('ROICalculator', () => {
   };
 
   beforeEach(() => {
-    calculator = new ROICalculator(mockProjectPath);
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'quallaa-roi-'));
+    calculator = new ROICalculator(projectPath);
     vi.clearAllMocks();
   });
 
   afterEach(() => {
+    StateStore.open(projectPath).close();
+    fs.rmSync(projectPath, { recursive: true, force: true });
     vi.resetAllMocks();
   });
 
@@ -97,6 +101,74 @@ describe('ROICalculator', () => {
       expect(roiMetrics.quality.accuracyImprovement).toBeLessThan(0);
     });
 
+    it('should value saved hours at the baseline labour cost model', async () => {
+      const labourBaseline: ROIBaseline = {
+        ...mockBaseline,
+        labourCostModel: {
+          roles: [
+            { role: 'Finance clerk', hourlyRate: 40, hoursShare: 0.75 },
+            { role: 'Controller', hourlyRate: 100, hoursShare: 0.25 },
+          ],
+        },
+      };
+      const currentMetrics = {
+        monthsInOperation: 2,
+        currentSaasSpend: 1500,
+        maintenanceCosts: 0,
+        currentProcessingHours: 20, // 20 hours saved/month
+        tasksAutomated: 5,
+        employeeAdoptionRate: 0.6,
+        currentAccuracy: 0.9,
+        currentErrorRate: 0.03,
+        currentComplianceScore: 0.75,
+        currentCustomerSatisfaction: 8.0,
+      };
+
+      const { financial } = await calculator.calculateROI(labourBaseline, currentMetrics);
+
+      expect(financial.hourlyRate).toBe(55); // 0.75 * $40 + 0.25 * $100
+      expect(financial.operationalCostReduction).toBe(20 * 55 * 2);
+      expect(financial.labourSavings).toEqual([
+        { role: 'Finance clerk', hourlyRate: 40, hoursSaved: 30, savings: 1200 },
+        { role: 'Controller', hourlyRate: 100, hoursSaved: 10, savings: 1000 },
+      ]);
+    });
+
+    it('should discount the monthly cash flows recorded by earlier checks', async () => {
+      const earlier = {
+        id: 'roi_1',
+        projectId: 'test',
+        timestamp: new Date('2024-03-01'),
+        baseline: mockBaseline,
+        period: { startDate: mockBaseline.establishedAt, endDate: new Date(mockBaseline.establishedAt.getTime() + 2 * 30 * 24 * 60 * 60 * 1000) },
+        metrics: { financial: { cumulativeSavings: 1000, maintenanceCosts: 0 } },
+      } as unknown as ROISnapshot;
+      const currentMetrics = {
+        monthsInOperation: 4,
+        currentSaasSpend: 500, // $1000/month SaaS savings
+        maintenanceCosts: 0,
+        currentProcessingHours: 40,
+        tasksAutomated: 0,
+        employeeAdoptionRate: 0.6,
+        currentAccuracy: 0.9,
+        currentErrorRate: 0.03,
+        currentComplianceScore: 0.75,
+        currentCustomerSatisfaction: 8.0,
+      };
+
+      const { financial } = await calculator.calculateROI(mockBaseline, currentMetrics, 0.95, {
+        annualDiscountRate: 0.12,
+        history: [earlier],
+      });
+
+      // $500/month measured at month 2, $1000/month now
+      expect(financial.cashFlows).toEqual([-25000, 500, 500, 1000, 1000]);
+      expect(financial.discountRate).toBe(0.12);
+      expect(financial.npv).toBeLessThan(-25000 + 4000);
+      expect(financial.irr).toBeLessThan(0); // Far from paid back so far
+      expect(financial.discountedPaybackMonths).toBeGreaterThan(financial.breakEvenMonths);
+    });
+
     it('should handle edge case with zero baseline hours', async () => {
       const zeroHoursBaseline = { ...mockBaseline, currentProcessingHours: 0 };
       const currentMetrics = {
@@ -179,8 +251,6 @@ describe('ROICalculator', () => {
         endDate: new Date('2024-06-01'),
       };
 
-      (fs.readFile as any).mockRejectedValue({ code: 'ENOENT' }); // No existing snapshots
-
       const snapshot = await calculator.createSnapshot(
         'test-project',
         mockBaseline,
@@ -195,11 +265,8 @@ describe('ROICalculator', () => {
       expect(snapshot.statisticalSignificance.pValue).toBeLessThan(0.05);
       expect(snapshot.statisticalSignificance.isSignificant).toBe(true);
 
-      expect(fs.writeFile).toHaveBeenCalledWith(
-        path.join(mockProjectPath, '.quallaa', 'roi-snapshots.json'),
-        expect.any(String),
-        'utf-8'
-      );
+      const saved = await new ROICalculator(projectPath).getSnapshots('test-project');
+      expect(saved.map(entry => entry.id)).toEqual([snapshot.id]);
     });
 
     it('should append to existing snapshots', async () => {
@@ -215,7 +282,7 @@ describe('ROICalculator', () => {
         },
       ];
 
-      (fs.readFile as any).mockResolvedValue(JSON.stringify(existingSnapshots));
+      writeLegacySnapshots(existingSnapshots);
 
       const mockROIMetrics = {
         financial: { currentROI: 200 } as any,
@@ -232,21 +299,38 @@ describe('ROICalculator', () => {
         { startDate: new Date(), endDate: new Date() }
       );
 
-      const writeCall = (fs.writeFile as any).mock.calls[0][1];
-      const savedSnapshots = JSON.parse(writeCall);
+      const savedSnapshots = await calculator.getSnapshots();
 
       expect(savedSnapshots).toHaveLength(2); // Original + new snapshot
       expect(savedSnapshots[0].id).toBe('existing-1');
       expect(savedSnapshots[1].projectId).toBe('test-project');
     });
+
+    it('should record whether each input was measured or estimated', async () => {
+      const snapshot = await calculator.createSnapshot(
+        'test-project',
+        mockBaseline,
+        {
+          financial: { currentROI: 120 } as any,
+          productivity: {} as any,
+          quality: {} as any,
+          timestamp: new Date(),
+          confidenceInterval: { lower: 100, upper: 140, confidenceLevel: 0.95 },
+        },
+        { startDate: new Date(), endDate: new Date() },
+        {
+          currentAccuracy: { value: 0.96, source: 'measured', metric: 'accuracy', evaluationRunId: 'eval_1' },
+          currentSaasSpend: { value: 500, source: 'estimated' },
+        }
+      );
+
+      expect(snapshot.inputs?.currentAccuracy?.source).toBe('measured');
+      expect(snapshot.inputs?.currentSaasSpend?.source).toBe('estimated');
+    });
   });
 
   describe('getSnapshots', () => {
-    it('should return empty array when no snapshots file exists', async () => {
-      const error = new Error('ENOENT') as NodeJS.ErrnoException;
-      error.code = 'ENOENT';
-      (fs.readFile as any).mockRejectedValue(error);
-
+    it('should return empty array when no snapshots were saved', async () => {
       const snapshots = await calculator.getSnapshots();
 
       expect(snapshots).toEqual([]);
@@ -282,7 +366,7 @@ describe('ROICalculator', () => {
         },
       ];
 
-      (fs.readFile as any).mockResolvedValue(JSON.stringify(mockSnapshots));
+      writeLegacySnapshots(mockSnapshots);
 
       const snapshots = await calculator.getSnapshots();
 
@@ -326,7 +410,7 @@ describe('ROICalculator', () => {
         },
       ];
 
-      (fs.readFile as any).mockResolvedValue(JSON.stringify(mockSnapshots));
+      writeLegacySnapshots(mockSnapshots);
 
       const snapshots = await calculator.getSnapshots('project-1');
 
@@ -385,17 +469,51 @@ describe('ROICalculator', () => {
         },
       ];
 
-      (fs.readFile as any).mockResolvedValue(JSON.stringify(mockSnapshots));
+      writeLegacySnapshots(mockSnapshots);
     });
 
-    it('should calculate improving trend for ROI', async () => {
+    // One check a month with the given values for a metric
+    const monthlyChecks = (metric: 'currentROI' | 'maintenanceCosts', values: number[]): unknown[] => values.map((value, i) => ({
+      id: `snap-${i}`,
+      projectId: 'test-project',
+      timestamp: new Date(Date.UTC(2024, i, 1)).toISOString(),
+      metrics: { financial: { [metric]: value }, confidenceInterval: { lower: value - 10, upper: value + 10, confidenceLevel: 0.95 } },
+      baseline: { ...mockBaseline, establishedAt: '2024-01-01T00:00:00.000Z' },
+      period: { startDate: '2024-01-01T00:00:00.000Z', endDate: new Date(Date.UTC(2024, i, 1)).toISOString() },
+      statisticalSignificance: { pValue: 0.01, isSignificant: true },
+    }));
+
+    it('should not call a trend from too few checks to test', async () => {
       const trend = await calculator.calculateTrends('test-project', 'financial.currentROI');
 
       expect(trend.metric).toBe('financial.currentROI');
       expect(trend.category).toBe('financial');
       expect(trend.values).toHaveLength(3);
-      expect(trend.trend).toBe('improving'); // ROI increasing from 100 to 200
-      expect(trend.trendConfidence).toBeGreaterThan(0);
+      expect(trend.trend).toBe('stable'); // ROI rose from 100 to 200, but three checks cannot show it is real
+      expect(trend.trendConfidence).toBe(0);
+      expect(trend.statistics?.comparison).toBeNull();
+      expect(trend.statistics?.slopePerMonth).toBeGreaterThan(0);
+    });
+
+    it('should call ROI improving when later checks are significantly higher', async () => {
+      writeLegacySnapshots(monthlyChecks('currentROI', [-60, -55, -58, -40, 10, 14, 9, 18]));
+
+      const trend = await calculator.calculateTrends('test-project', 'financial.currentROI');
+
+      expect(trend.trend).toBe('improving');
+      expect(trend.trendConfidence).toBeGreaterThan(0.95);
+      expect(trend.statistics?.comparison).toMatchObject({ test: 'mann-whitney', exact: true });
+      expect(trend.statistics?.method).toMatch(/Mann-Whitney/);
+    });
+
+    it('should call a fall in costs an improvement and noise stable', async () => {
+      writeLegacySnapshots(monthlyChecks('maintenanceCosts', [900, 880, 910, 890, 400, 420, 390, 410]));
+      expect((await calculator.calculateTrends('test-project', 'financial.maintenanceCosts', { test: 'welch' })).trend).toBe('improving');
+      StateStore.open(projectPath).close();
+
+      fs.rmSync(path.join(projectPath, '.quallaa'), { recursive: true });
+      writeLegacySnapshots(monthlyChecks('currentROI', [40, 55, 38, 52, 41, 56, 39, 50]));
+      expect((await calculator.calculateTrends('test-project', 'financial.currentROI')).trend).toBe('stable');
     });
 
     it('should require at least 2 snapshots', async () => {
@@ -413,7 +531,7 @@ describe('ROICalculator', () => {
         },
       ];
 
-      (fs.readFile as any).mockResolvedValue(JSON.stringify(singleSnapshot));
+      writeLegacySnapshots(singleSnapshot);
 
       await expect(calculator.calculateTrends('test-project', 'financial.currentROI'))
         .rejects.toThrow('At least 2 snapshots required for trend analysis');
@@ -464,6 +582,29 @@ describe('ROICalculator', () => {
       }
     });
 
+    it('should reproduce the simulated interval for the same seed', async () => {
+      const currentMetrics = {
+        monthsInOperation: 6,
+        currentSaasSpend: 800,
+        maintenanceCosts: 200,
+        currentProcessingHours: 20,
+        tasksAutomated: 15,
+        employeeAdoptionRate: 0.8,
+        currentAccuracy: 0.95,
+        currentErrorRate: 0.02,
+        currentComplianceScore: 0.85,
+        currentCustomerSatisfaction: 8.5,
+      };
+
+      const first = await calculator.calculateROI(mockBaseline, currentMetrics, 0.9, {}, { iterations: 1000, seed: 11 });
+      const second = await calculator.calculateROI(mockBaseline, currentMetrics, 0.9, {}, { iterations: 1000, seed: 11 });
+
+      expect(second.confidenceInterval).toEqual(first.confidenceInterval);
+      expect(first.confidenceInterval.lower).toBe(first.simulation?.percentiles.p5);
+      expect(first.confidenceInterval.upper).toBe(first.simulation?.percentiles.p95);
+      expect(first.simulation).toMatchObject({ iterations: 1000, seed: 11 });
+    });
+
     it('should handle p-value calculation for statistical significance', async () => {
       const mockROIMetrics = {
         financial: { currentROI: 200 } as any,
@@ -473,8 +614,6 @@ describe('ROICalculator', () => {
         confidenceInterval: { lower: 180, upper: 220, confidenceLevel: 0.95 },
       };
 
-      (fs.readFile as any).mockRejectedValue({ code: 'ENOENT' });
-
       const snapshot = await calculator.createSnapshot(
         'test-project',
         mockBaseline,
@@ -486,5 +625,25 @@ describe('ROICalculator', () => {
       expect(snapshot.statisticalSignificance.pValue).toBeLessThan(1);
       expect(snapshot.statisticalSignificance.isSignificant).toBeDefined();
     });
+
+    it('should take the p-value from the simulated outcomes when the check has them', async () => {
+      const roiMetrics = await calculator.calculateROI(mockBaseline, {
+        monthsInOperation: 6,
+        currentSaasSpend: 800,
+        maintenanceCosts: 200,
+        currentProcessingHours: 20,
+        tasksAutomated: 15,
+        employeeAdoptionRate: 0.8,
+        currentAccuracy: 0.95,
+        currentErrorRate: 0.02,
+        currentComplianceScore: 0.85,
+        currentCustomerSatisfaction: 8.5,
+      }, 0.95, {}, { iterations: 999, seed: 3 });
+
+      const snapshot = await calculator.createSnapshot('test-project', mockBaseline, roiMetrics, { startDate: new Date(), endDate: new Date() });
+
+      const losses = Math.round(roiMetrics.simulation!.lossProbability! * 999);
+      expect(snapshot.statisticalSignificance).toMatchObject({ pValue: (losses + 1) / 1000, method: 'monte-carlo' });
+    });
   });
 });
\ No newline at end of file
@@ -2,24 +2,54 @@ import {
   ROIBaseline, 
   ROIMetrics, 
   ROISnapshot, 
+  ROIInputs,
+  ROIInputSource,
   FinancialMetrics, 
   ProductivityMetrics, 
   QualityMetrics,
-  ROITrend
+  ROITrend,
+  ForecastScenario,
+  ForecastMonth,
+  ScenarioForecast
 } from '../../types/index.js';
-import * as fs from 'fs/promises';
-import * as path from 'path';
+import { blendedHourlyRate, labourSavingsByRole } from './labour.js';
+import { analyzeCashFlows, monthlyCashFlows, DiscountedCashFlow, DEFAULT_ANNUAL_DISCOUNT_RATE } from './cash-flow.js';
+import { simulateROI, SimulationOptions } from './simulation.js';
+import { StateStore, PeriodFilter } from '../../storage/state-store.js';
+import { testTrend, normalCDF, normalQuantile, TrendTestOptions, DEFAULT_SIGNIFICANCE_LEVEL } from './statistics.js';
+
+export const MS_PER_MONTH = 1000 * 60 * 60 * 24 * 30;
+
+// Trend metrics where a fall is an improvement
+const LOWER_IS_BETTER_METRICS = /maintenanceCosts|breakEvenMonths|PaybackMonths|developmentCost/;
+
+export interface CashFlowOptions {
+  annualDiscountRate?: number;
+  history?: ROISnapshot[]; // Earlier snapshots; their cumulative savings shape the monthly series
+}
+
+/**
+ * A check's inputs at another adoption rate, with hours saved scaled in proportion as in forecasts
+ * The ROI formula reads hours, not adoption, so changing adoption alone would change nothing.
+ * Returns null when nobody uses the system yet, since there are no hours saved to scale.
+ */
+export function withAdoptionRate(baseline: ROIBaseline, inputs: ROIInputs, adoptionRate: number): ROIInputs | null {
+  if (!(inputs.employeeAdoptionRate > 0)) return null;
+
+  const hoursSaved = Math.max(0, baseline.currentProcessingHours - inputs.currentProcessingHours) * (adoptionRate / inputs.employeeAdoptionRate);
+  return {
+    ...inputs,
+    employeeAdoptionRate: adoptionRate,
+    currentProcessingHours: Math.max(0, baseline.currentProcessingHours - hoursSaved),
+  };
+}
 
 /**
  * Multi-dimensional ROI calculation engine
  * Implements academic-grade statistical analysis for business impact measurement
  */
 export class ROICalculator {
-  private snapshotsPath: string;
-  
-  constructor(projectPath: string = process.cwd()) {
-    this.snapshotsPath = path.join(projectPath, '.quallaa', 'roi-snapshots.json');
-  }
+  constructor(private projectPath: string = process.cwd()) {}
 
   /**
    * Calculate current ROI metrics against baseline
@@ -27,28 +57,28 @@ export class ROICalculator {
    */
   async calculateROI(
     baseline: ROIBaseline,
-    currentMetrics: {
-      // Financial inputs
-      monthsInOperation: number;
-      currentSaasSpend: number;
-      maintenanceCosts: number;
-      
-      // Productivity inputs  
-      currentProcessingHours: number;
-      tasksAutomated: number;
-      employeeAdoptionRate: number;
-      
-      // Quality inputs
-      currentAccuracy: number;
-      currentErrorRate: number;
-      currentComplianceScore: number;
-      currentCustomerSatisfaction: number;
-    },
-    confidenceLevel: number = 0.95
+    currentMetrics: ROIInputs,
+    confidenceLevel: number = 0.95,
+    cashFlowOptions: CashFlowOptions = {},
+    simulationOptions: SimulationOptions = {}
   ): Promise<ROIMetrics> {
 
-    // Calculate financial metrics
-    const financial = this.calculateFinancialMetrics(baseline, currentMetrics);
+    // Calculate financial metrics, discounted over the monthly cash-flow series
+    const simpleFinancial = this.calculateFinancialMetrics(baseline, currentMetrics);
+    const financial: FinancialMetrics = {
+      ...simpleFinancial,
+      ...this.calculateDiscountedCashFlow(
+        baseline,
+        [
+          ...this.cashFlowObservations(baseline, cashFlowOptions.history ?? []),
+          {
+            months: currentMetrics.monthsInOperation,
+            monthlyNet: (simpleFinancial.cumulativeSavings - simpleFinancial.maintenanceCosts) / currentMetrics.monthsInOperation
+          },
+        ],
+        cashFlowOptions.annualDiscountRate
+      )
+    };
     
     // Calculate productivity metrics
     const productivity = this.calculateProductivityMetrics(baseline, currentMetrics);
@@ -56,11 +86,13 @@ export class ROICalculator {
     // Calculate quality metrics
     const quality = this.calculateQualityMetrics(baseline, currentMetrics);
 
-    // Calculate overall ROI confidence interval using Monte Carlo simulation
-    const confidenceInterval = this.calculateConfidenceInterval(
-      financial.currentROI,
-      [financial, productivity, quality],
-      confidenceLevel
+    // ROI confidence interval from the percentiles of a Monte Carlo simulation over the inputs
+    const { simulation, confidenceInterval } = simulateROI(
+      baseline,
+      currentMetrics,
+      (sampledBaseline, sampledCurrent) => this.calculateFinancialMetrics(sampledBaseline, sampledCurrent),
+      confidenceLevel,
+      simulationOptions
     );
 
     return {
@@ -68,14 +100,16 @@ export class ROICalculator {
       productivity,
       quality,
       timestamp: new Date(),
-      confidenceInterval
+      confidenceInterval,
+      simulation
     };
   }
 
   /**
    * Financial ROI calculation following Forrester methodology
+   * Public so simulations and sensitivity analysis can recompute ROI for altered inputs.
    */
-  private calculateFinancialMetrics(
+  calculateFinancialMetrics(
     baseline: ROIBaseline, 
     current: any
   ): FinancialMetrics {
@@ -83,8 +117,8 @@ export class ROICalculator {
     // SaaS replacement savings (monthly)
     const saasReplacementSavings = Math.max(0, baseline.currentSaasSpend - current.currentSaasSpend);
     
-    // Operational cost reduction (based on time savings)
-    const hourlyRate = 75; // Average developer hourly rate
+    // Operational cost reduction (saved hours at the loaded rate of the roles doing them)
+    const hourlyRate = blendedHourlyRate(baseline.labourCostModel);
     const timeSavedHours = Math.max(0, baseline.currentProcessingHours - current.currentProcessingHours);
     const operationalCostReduction = timeSavedHours * hourlyRate;
     
@@ -111,10 +145,50 @@ export class ROICalculator {
       maintenanceCosts: current.maintenanceCosts * current.monthsInOperation,
       cumulativeSavings,
       breakEvenMonths,
-      currentROI
+      currentROI,
+      hourlyRate,
+      labourSavings: labourSavingsByRole(baseline.labourCostModel, timeSavedHours * current.monthsInOperation)
     };
   }
 
+  /**
+   * Discounted cash-flow metrics recomputed from stored snapshots
+   * Lets reports apply a different discount rate than the one used when checks were saved.
+   */
+  calculateCashFlowMetrics(
+    baseline: ROIBaseline,
+    snapshots: ROISnapshot[],
+    annualDiscountRate: number = DEFAULT_ANNUAL_DISCOUNT_RATE
+  ): DiscountedCashFlow {
+    return this.calculateDiscountedCashFlow(baseline, this.cashFlowObservations(baseline, snapshots), annualDiscountRate);
+  }
+
+  private calculateDiscountedCashFlow(
+    baseline: ROIBaseline,
+    observations: Array<{ months: number; monthlyNet: number }>,
+    annualDiscountRate: number = DEFAULT_ANNUAL_DISCOUNT_RATE
+  ): DiscountedCashFlow {
+    const cashFlows = monthlyCashFlows(baseline.developmentCost, observations);
+
+    // Beyond the last observation, assume its savings rate continues
+    const latest = [...observations].sort((a, b) => a.months - b.months).pop();
+
+    return analyzeCashFlows(cashFlows, annualDiscountRate, latest?.monthlyNet ?? 0);
+  }
+
+  // Monthly net savings measured by each snapshot of this baseline, by months since it was established
+  private cashFlowObservations(baseline: ROIBaseline, snapshots: ROISnapshot[]): Array<{ months: number; monthlyNet: number }> {
+    const establishedAt = new Date(baseline.establishedAt).getTime();
+
+    return snapshots
+      .filter(snapshot => !snapshot.baseline || new Date(snapshot.baseline.establishedAt).getTime() === establishedAt)
+      .map(snapshot => {
+        const months = Math.max(1, (new Date(snapshot.period.endDate).getTime() - establishedAt) / MS_PER_MONTH);
+        const { cumulativeSavings, maintenanceCosts } = snapshot.metrics.financial;
+        return { months, monthlyNet: (cumulativeSavings - maintenanceCosts) / months };
+      });
+  }
+
   /**
    * Productivity impact calculation following academic research
    */
@@ -140,7 +214,8 @@ export class ROICalculator {
       errorReductionRate: errorReductionRate * 100,
       employeeAdoptionRate: current.employeeAdoptionRate * 100,
       processingTimeReduction,
-      throughputIncrease
+      throughputIncrease,
+      ...(current.currentProcessingTime !== undefined ? { averageProcessingTime: current.currentProcessingTime } : {})
     };
   }
 
@@ -171,56 +246,73 @@ export class ROICalculator {
   }
 
   /**
-   * Statistical confidence interval calculation using Monte Carlo simulation
-   * Addresses AI productivity paradox through objective measurement uncertainty
+   * Project month-by-month ROI for a what-if scenario
+   * Hours saved scale with adoption; cancelled SaaS spend is saved in full from its cancellation date.
    */
-  private calculateConfidenceInterval(
-    pointEstimate: number,
-    metricSets: any[],
-    confidenceLevel: number
-  ): { lower: number; upper: number; confidenceLevel: number } {
-    
-    const iterations = 10000;
-    const samples: number[] = [];
-    
-    // Monte Carlo simulation with realistic uncertainty
-    for (let i = 0; i < iterations; i++) {
-      let adjustedEstimate = pointEstimate;
-      
-      // Add uncertainty based on measurement volatility
-      const uncertaintyFactor = this.calculateUncertaintyFactor(metricSets);
-      const randomVariation = (Math.random() - 0.5) * 2 * uncertaintyFactor;
-      adjustedEstimate += adjustedEstimate * randomVariation;
-      
-      samples.push(adjustedEstimate);
+  projectScenario(baseline: ROIBaseline, scenario: ForecastScenario): ScenarioForecast {
+    const hourlyRate = blendedHourlyRate(baseline.labourCostModel);
+    const start = baseline.establishedAt.getTime();
+    const months: ForecastMonth[] = [];
+    let cumulativeSavings = 0;
+    let breakEvenMonth: number | null = null;
+
+    for (let month = 1; month <= scenario.horizonMonths; month++) {
+      const startDate = new Date(start + (month - 1) * MS_PER_MONTH);
+      const adoptionRate = this.adoptionAt(scenario.adoptionRamp, month);
+      const hoursSaved = scenario.hoursSavedPerMonth * adoptionRate;
+      const labourSavings = hoursSaved * hourlyRate;
+      const saasSavings = scenario.saasCancellations
+        .filter(cancellation => cancellation.cancelAt.getTime() <= startDate.getTime())
+        .reduce((sum, cancellation) => sum + cancellation.monthlyCost, 0);
+      const netSavings = saasSavings + labourSavings - scenario.maintenanceCostPerMonth;
+      cumulativeSavings += netSavings;
+
+      const roi = baseline.developmentCost > 0
+        ? ((cumulativeSavings - baseline.developmentCost) / baseline.developmentCost) * 100
+        : 0;
+      if (breakEvenMonth === null && cumulativeSavings >= baseline.developmentCost) {
+        breakEvenMonth = month;
+      }
+
+      months.push({
+        month,
+        startDate,
+        adoptionRate,
+        hoursSaved,
+        saasSavings,
+        labourSavings,
+        maintenanceCosts: scenario.maintenanceCostPerMonth,
+        netSavings,
+        cumulativeSavings,
+        roi
+      });
     }
-    
-    // Sort samples and calculate percentiles
-    samples.sort((a, b) => a - b);
-    const alpha = (1 - confidenceLevel) / 2;
-    const lowerIndex = Math.floor(samples.length * alpha);
-    const upperIndex = Math.floor(samples.length * (1 - alpha));
-    
+
     return {
-      lower: samples[lowerIndex],
-      upper: samples[upperIndex],
-      confidenceLevel
+      scenario: scenario.name,
+      months,
+      breakEvenMonth,
+      breakEvenDate: breakEvenMonth !== null ? new Date(start + breakEvenMonth * MS_PER_MONTH) : null,
+      cumulativeSavings,
+      finalROI: months[months.length - 1]?.roi ?? -100
     };
   }
 
   /**
-   * Calculate measurement uncertainty factor based on data quality
+   * Adoption at a month, linear between ramp points and flat outside them
    */
-  private calculateUncertaintyFactor(metricSets: any[]): number {
-    let baseUncertainty = 0.15; // 15% base uncertainty
-    
-    // Reduce uncertainty with more comprehensive data
-    if (metricSets.length >= 3) baseUncertainty *= 0.8;
-    
-    // Account for measurement maturity (simplified)
-    baseUncertainty *= 0.9; // Assume some maturity
-    
-    return Math.max(0.05, Math.min(0.3, baseUncertainty)); // Clamp between 5-30%
+  private adoptionAt(ramp: ForecastScenario['adoptionRamp'], month: number): number {
+    const points = [...ramp].sort((a, b) => a.month - b.month);
+    if (month <= points[0].month) return points[0].rate;
+
+    for (let i = 1; i < points.length; i++) {
+      if (month <= points[i].month) {
+        const from = points[i - 1];
+        const to = points[i];
+        return from.rate + (to.rate - from.rate) * ((month - from.month) / (to.month - from.month));
+      }
+    }
+    return points[points.length - 1].rate;
   }
 
   /**
@@ -230,23 +322,21 @@ export class ROICalculator {
     projectId: string,
     baseline: ROIBaseline,
     metrics: ROIMetrics,
-    period: { startDate: Date; endDate: Date }
+    period: { startDate: Date; endDate: Date },
+    inputs?: Partial<Record<keyof ROIInputs, ROIInputSource>>
   ): Promise<ROISnapshot> {
     
-    // Calculate statistical significance (simplified p-value)
-    const pValue = this.calculatePValue(metrics.financial.currentROI, metrics.confidenceInterval);
-    
     const snapshot: ROISnapshot = {
       id: `roi_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       projectId,
       timestamp: new Date(),
       metrics,
       baseline,
+      baselineVersion: baseline.version ?? 1,
       period,
-      statisticalSignificance: {
-        pValue,
-        isSignificant: pValue < 0.05
-      }
+      // How likely ROI is not actually positive, given the uncertainty in the inputs
+      statisticalSignificance: this.calculateSignificance(metrics),
+      ...(inputs ? { inputs } : {})
     };
 
     await this.saveSnapshot(snapshot);
@@ -254,43 +344,24 @@ export class ROICalculator {
   }
 
   /**
-   * Load historical snapshots
+   * Load historical snapshots, optionally for one project and a period of check times
    */
-  async getSnapshots(projectId?: string): Promise<ROISnapshot[]> {
-    try {
-      const data = await fs.readFile(this.snapshotsPath, 'utf-8');
-      const snapshots: ROISnapshot[] = JSON.parse(data);
-      
-      // Convert date strings back to Date objects
-      snapshots.forEach(snapshot => {
-        snapshot.timestamp = new Date(snapshot.timestamp);
-        if (snapshot.period) {
-          snapshot.period.startDate = new Date(snapshot.period.startDate);
-          snapshot.period.endDate = new Date(snapshot.period.endDate);
-        }
-        if (snapshot.baseline) {
-          snapshot.baseline.establishedAt = new Date(snapshot.baseline.establishedAt);
-        }
-      });
-      
-      return projectId ? 
-        snapshots.filter(s => s.projectId === projectId) : 
-        snapshots;
-        
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        return [];
-      }
-      throw error;
-    }
+  async getSnapshots(projectId?: string, period: PeriodFilter = {}): Promise<ROISnapshot[]> {
+    return StateStore.open(this.projectPath).listSnapshots(projectId, period);
   }
 
   /**
    * Calculate trends from historical snapshots
    */
-  async calculateTrends(projectId: string, metric: string): Promise<ROITrend> {
-    const snapshots = await this.getSnapshots(projectId);
-    
+  async calculateTrends(projectId: string, metric: string, options: TrendTestOptions = {}): Promise<ROITrend> {
+    return this.analyzeTrend(await this.getSnapshots(projectId), metric, options);
+  }
+
+  /**
+   * Test whether a metric improved, declined or held steady across the given snapshots
+   * See statistics.ts for the change-point, before/after and bootstrap methods.
+   */
+  analyzeTrend(snapshots: ROISnapshot[], metric: string, options: TrendTestOptions = {}): ROITrend {
     if (snapshots.length < 2) {
       throw new Error('At least 2 snapshots required for trend analysis');
     }
@@ -304,49 +375,47 @@ export class ROICalculator {
       };
     });
 
-    // Simple trend calculation using linear regression
-    const trend = this.calculateLinearTrend(values.map(v => v.value));
-    const trendConfidence = this.calculateTrendConfidence(values.map(v => v.value));
-    const category = this.getMetricCategory(metric);
+    const { trend, trendConfidence, statistics } = testTrend(values, {
+      lowerIsBetter: LOWER_IS_BETTER_METRICS.test(metric),
+      ...options
+    });
 
     return {
       metric,
-      category,
+      category: this.getMetricCategory(metric),
       values,
-      trend: trend > 0.05 ? 'improving' : trend < -0.05 ? 'declining' : 'stable',
-      trendConfidence
+      trend,
+      trendConfidence,
+      statistics
     };
   }
 
-  private calculatePValue(roi: number, confidenceInterval: any): number {
-    // Simplified p-value calculation
-    // In practice, this would use proper statistical tests
-    const margin = Math.abs(confidenceInterval.upper - confidenceInterval.lower) / 2;
-    const zScore = Math.abs(roi) / (margin / 1.96); // Approximate z-score
-    return Math.max(0.001, 2 * (1 - this.normalCDF(Math.abs(zScore))));
-  }
-
-  private normalCDF(x: number): number {
-    // Approximation of normal CDF
-    return 0.5 * (1 + this.erf(x / Math.sqrt(2)));
+  /**
+   * Significance of ROI against zero, as recorded on each snapshot
+   * Public so snapshots recomputed against another baseline can be re-assessed.
+   */
+  calculateSignificance(metrics: ROIMetrics): ROISnapshot['statisticalSignificance'] {
+    const { pValue, method } = this.calculatePValue(metrics);
+    return { pValue, isSignificant: pValue < DEFAULT_SIGNIFICANCE_LEVEL, method };
   }
 
-  private erf(x: number): number {
-    // Approximation of error function
-    const a1 =  0.254829592;
-    const a2 = -0.284496736;
-    const a3 =  1.421413741;
-    const a4 = -1.453152027;
-    const a5 =  1.061405429;
-    const p  =  0.3275911;
-
-    const sign = x < 0 ? -1 : 1;
-    x = Math.abs(x);
-
-    const t = 1.0 / (1.0 + p * x);
-    const y = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-x * x);
+  /**
+   * One-sided p-value against ROI at or below zero
+   * From the Monte Carlo draws when the check recorded them (with the +1 correction so it is
+   * never zero), else a normal approximation from the width of the confidence interval.
+   */
+  private calculatePValue(metrics: ROIMetrics): { pValue: number; method: 'monte-carlo' | 'normal-approximation' } {
+    const simulation = metrics.simulation;
+    if (simulation?.lossProbability !== undefined) {
+      const losses = Math.round(simulation.lossProbability * simulation.iterations);
+      return { pValue: (losses + 1) / (simulation.iterations + 1), method: 'monte-carlo' };
+    }
 
-    return sign * y;
+    const { lower, upper, confidenceLevel } = metrics.confidenceInterval;
+    const standardError = (upper - lower) / (2 * normalQuantile(0.5 + confidenceLevel / 2));
+    const roi = metrics.financial.currentROI;
+    const pValue = standardError > 0 ? normalCDF(-roi / standardError) : (roi > 0 ? 0 : 1);
+    return { pValue, method: 'normal-approximation' };
   }
 
   private extractMetricValue(metrics: ROIMetrics, metricName: string): number {
@@ -362,35 +431,6 @@ export class ROICalculator {
     return typeof value === 'number' ? value : 0;
   }
 
-  private calculateLinearTrend(values: number[]): number {
-    if (values.length < 2) return 0;
-    
-    const n = values.length;
-    const sumX = (n * (n - 1)) / 2;
-    const sumY = values.reduce((a, b) => a + b, 0);
-    const sumXY = values.reduce((sum, y, x) => sum + x * y, 0);
-    const sumXX = (n * (n - 1) * (2 * n - 1)) / 6;
-    
-    const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
-    return slope;
-  }
-
-  private calculateTrendConfidence(values: number[]): number {
-    if (values.length < 3) return 0;
-    
-    // Calculate R-squared as confidence measure
-    const mean = values.reduce((a, b) => a + b, 0) / values.length;
-    const totalVariation = values.reduce((sum, y) => sum + Math.pow(y - mean, 2), 0);
-    
-    if (totalVariation === 0) return 0;
-    
-    const trend = this.calculateLinearTrend(values);
-    const predicted = values.map((_, i) => mean + trend * (i - (values.length - 1) / 2));
-    const explainedVariation = predicted.reduce((sum, y) => sum + Math.pow(y - mean, 2), 0);
-    
-    return Math.min(1, explainedVariation / totalVariation);
-  }
-
   private getMetricCategory(metric: string): 'financial' | 'productivity' | 'quality' {
     if (metric.includes('cost') || metric.includes('roi') || metric.includes('savings') || metric.includes('financial')) {
       return 'financial';
@@ -402,17 +442,6 @@ export class ROICalculator {
   }
 
   private async saveSnapshot(snapshot: ROISnapshot): Promise<void> {
-    const snapshots = await this.getSnapshots();
-    snapshots.push(snapshot);
-    
-    // Ensure directory exists
-    await fs.mkdir(path.dirname(this.snapshotsPath), { recursive: true });
-    
-    // Save with proper formatting
-    await fs.writeFile(
-      this.snapshotsPath, 
-      JSON.stringify(snapshots, null, 2), 
-      'utf-8'
-    );
+    StateStore.open(this.projectPath).insertSnapshot(snapshot);
   }
 }
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  monthlyRate,
+  netPresentValue,
+  internalRateOfReturn,
+  discountedPaybackMonths,
+  analyzeCashFlows,
+  monthlyCashFlows,
+} from './cash-flow.js';
+
+describe('cash-flow analysis', () => {
+  it('should convert an annual discount rate to the equivalent monthly rate', () => {
+    expect(Math.pow(1 + monthlyRate(0.1), 12)).toBeCloseTo(1.1);
+  });
+
+  it('should discount later months', () => {
+    expect(netPresentValue([-1000, 1100], 0.1)).toBeCloseTo(0);
+    expect(netPresentValue([-1000, 500, 500], 0)).toBe(0);
+  });
+
+  it('should find the rate at which NPV is zero', () => {
+    expect(internalRateOfReturn([-1000, 1100])).toBeCloseTo(0.1, 5);
+    expect(internalRateOfReturn([-1000, 0, 0])).toBeUndefined();
+  });
+
+  it('should project discounted payback past the observed months', () => {
+    // Undiscounted payback would be month 4; discounting pushes it to month 5
+    expect(discountedPaybackMonths([-1000, 250], monthlyRate(0.5), 250)).toBe(5);
+    expect(discountedPaybackMonths([-1000, 250], 0, 250)).toBe(4);
+    expect(discountedPaybackMonths([-1000, -10], 0, -10)).toBe(Infinity);
+  });
+
+  it('should annualise IRR as a percentage', () => {
+    const analysis = analyzeCashFlows([-1200, 100, 100, 100, 100, 100, 100, 100, 100, 100, 100, 100, 100, 100], 0.1, 100);
+
+    expect(analysis.irr).toBeGreaterThan(0);
+    expect(analysis.irr).toBeLessThan(20);
+    expect(analysis.npv).toBeLessThan(100);
+    expect(analysis.discountRate).toBe(0.1);
+  });
+
+  it('should give each month the savings rate observed when it closed', () => {
+    expect(monthlyCashFlows(5000, [
+      { months: 4, monthlyNet: 1000 },
+      { months: 2, monthlyNet: 500 },
+    ])).toEqual([-5000, 500, 500, 1000, 1000]);
+  });
+
+  it('should keep a partial final month', () => {
+    const cashFlows = monthlyCashFlows(1000, [{ months: 1.5, monthlyNet: 200 }]);
+
+    expect(cashFlows).toHaveLength(3);
+    expect(cashFlows[1]).toBeCloseTo(200);
+    expect(cashFlows[2]).toBeCloseTo(100);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Discounted cash-flow analysis
+ * NPV, IRR and discounted payback over a monthly cash-flow series where
+ * month 0 is the development investment and later months are net savings.
+ */
+
+export const DEFAULT_ANNUAL_DISCOUNT_RATE = 0.1;
+
+// How far ahead discounted payback is projected before it is reported as never
+const MAX_PAYBACK_MONTHS = 600;
+
+const IRR_TOLERANCE = 1e-7;
+const IRR_MAX_ITERATIONS = 200;
+
+export interface DiscountedCashFlow {
+  discountRate: number;
+  npv: number;
+  irr?: number;
+  discountedPaybackMonths: number;
+  cashFlows: number[];
+}
+
+/**
+ * Monthly rate equivalent to an annual discount rate
+ */
+export function monthlyRate(annualRate: number): number {
+  return Math.pow(1 + annualRate, 1 / 12) - 1;
+}
+
+/**
+ * Net present value of monthly cash flows, month 0 undiscounted
+ */
+export function netPresentValue(cashFlows: number[], rate: number): number {
+  return cashFlows.reduce((sum, cashFlow, month) => sum + cashFlow / Math.pow(1 + rate, month), 0);
+}
+
+/**
+ * Monthly internal rate of return, found by bisection
+ * Returns undefined when the cash flows never change sign (no rate makes NPV zero).
+ */
+export function internalRateOfReturn(cashFlows: number[]): number | undefined {
+  let low = -0.5; // -99.97% a year, low enough for any project worth reporting
+  let high = 1;
+  let npvLow = netPresentValue(cashFlows, low);
+  let npvHigh = netPresentValue(cashFlows, high);
+
+  // Very fast paybacks need a higher upper bound
+  while (npvLow * npvHigh > 0 && high < 1000) {
+    high *= 10;
+    npvHigh = netPresentValue(cashFlows, high);
+  }
+  if (!Number.isFinite(npvLow) || npvLow * npvHigh > 0) return undefined;
+
+  for (let i = 0; i < IRR_MAX_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    const npvMid = netPresentValue(cashFlows, mid);
+    if (Math.abs(npvMid) < IRR_TOLERANCE || (high - low) / 2 < IRR_TOLERANCE) return mid;
+
+    if (npvMid * npvLow > 0) {
+      low = mid;
+      npvLow = npvMid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return (low + high) / 2;
+}
+
+/**
+ * First month in which cumulative discounted cash flow reaches zero
+ * Months beyond the series repeat `projectedMonthlyCashFlow`; Infinity when it never pays back.
+ */
+export function discountedPaybackMonths(cashFlows: number[], rate: number, projectedMonthlyCashFlow: number): number {
+  let cumulative = 0;
+  for (let month = 0; month < MAX_PAYBACK_MONTHS; month++) {
+    const cashFlow = month < cashFlows.length ? cashFlows[month] : projectedMonthlyCashFlow;
+    cumulative += cashFlow / Math.pow(1 + rate, month);
+    if (cumulative >= 0 && month > 0) return month;
+    if (month >= cashFlows.length && projectedMonthlyCashFlow <= 0) break;
+  }
+  return Infinity;
+}
+
+/**
+ * NPV, annualised IRR (percent) and discounted payback for a cash-flow series
+ */
+export function analyzeCashFlows(
+  cashFlows: number[],
+  annualDiscountRate: number,
+  projectedMonthlyCashFlow: number
+): DiscountedCashFlow {
+  const rate = monthlyRate(annualDiscountRate);
+  const irr = internalRateOfReturn(cashFlows);
+
+  return {
+    discountRate: annualDiscountRate,
+    npv: netPresentValue(cashFlows, rate),
+    ...(irr !== undefined ? { irr: (Math.pow(1 + irr, 12) - 1) * 100 } : {}),
+    discountedPaybackMonths: discountedPaybackMonths(cashFlows, rate, projectedMonthlyCashFlow),
+    cashFlows,
+  };
+}
+
+/**
+ * Monthly cash flows from savings rates observed at points in time
+ * Each observation is months since the baseline and the monthly net savings measured then.
+ * A month takes the rate of the first observation at or after its end; the last month may be partial.
+ */
+export function monthlyCashFlows(
+  investment: number,
+  observations: Array<{ months: number; monthlyNet: number }>
+): number[] {
+  const sorted = observations.filter(o => o.months > 0).sort((a, b) => a.months - b.months);
+  const cashFlows = [-investment];
+  if (sorted.length === 0) return cashFlows;
+
+  const last = sorted[sorted.length - 1];
+  for (let month = 1; month - 1 < last.months; month++) {
+    const observation = sorted.find(o => o.months >= month) ?? last;
+    cashFlows.push(observation.monthlyNet * (Math.min(month, last.months) - (month - 1)));
+  }
+  return cashFlows;
+}
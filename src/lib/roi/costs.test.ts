@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as fsSync from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CostCollector, CostConfig, loadCostConfig, maintenanceCostInput, previousMonth, readCostCsv, useCollectedCosts } from './costs.js';
+import { fetchVercelCosts } from '../../services/vercel.js';
+import { fetchResendCosts } from '../../services/resend.js';
+import { StateStore } from '../../storage/state-store.js';
+
+vi.mock('fs/promises', () => ({
+  readFile: vi.fn(),
+}));
+vi.mock('../../services/vercel.js', () => ({ fetchVercelCosts: vi.fn() }));
+vi.mock('../../services/supabase.js', () => ({ fetchSupabaseCosts: vi.fn() }));
+vi.mock('../../services/typesense.js', () => ({ fetchTypesenseCosts: vi.fn() }));
+vi.mock('../../services/resend.js', () => ({
+  fetchResendCosts: vi.fn(),
+  RESEND_PLANS: [{ plan: 'free', price: 0, emails: 3000 }, { plan: 'pro', price: 20, emails: 50000 }],
+}));
+
+describe('ROI costs', () => {
+  const csv = [
+    'month,provider,name,amount,category',
+    '2025-08,aws,S3 storage,12.40,',
+    '2025-09,aws,S3 storage,"$1,204.50",infrastructure',
+    '2025-09,,On-call rota,300,maintenance',
+  ].join('\n');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('CostCollector', () => {
+    let projectPath: string;
+    const config: CostConfig = {
+      sources: [
+        { type: 'vercel', project: 'invoice-guardrails' },
+        { type: 'manual', name: 'Evaluator upkeep', amount: 400 },
+        { type: 'csv', path: 'costs/aws.csv' },
+      ],
+    };
+
+    beforeEach(() => {
+      projectPath = fsSync.mkdtempSync(path.join(os.tmpdir(), 'quallaa-costs-'));
+      (fs.readFile as any).mockResolvedValue(csv);
+    });
+
+    afterEach(() => {
+      StateStore.open(projectPath).close();
+      fsSync.rmSync(projectPath, { recursive: true, force: true });
+    });
+
+    it('should record the month\'s items from every source', async () => {
+      vi.mocked(fetchVercelCosts).mockResolvedValue([
+        { provider: 'vercel', name: 'Function Invocations', category: 'infrastructure', amount: 6.5, source: 'measured' },
+      ]);
+      const collector = new CostCollector(projectPath);
+
+      const { costs, failures } = await collector.collect('acme', '2025-09', config);
+
+      expect(failures).toEqual([]);
+      expect(vi.mocked(fetchVercelCosts).mock.calls[0]).toEqual([
+        { from: new Date('2025-09-01T00:00:00Z'), to: new Date('2025-10-01T00:00:00Z') },
+        'invoice-guardrails',
+      ]);
+      expect(fs.readFile).toHaveBeenCalledWith(path.resolve(projectPath, 'costs/aws.csv'), 'utf-8');
+      expect(costs.items.map(item => [item.provider, item.name, item.category, item.amount])).toEqual([
+        ['vercel', 'Function Invocations', 'infrastructure', 6.5],
+        ['manual', 'Evaluator upkeep', 'maintenance', 400],
+        ['aws', 'S3 storage', 'infrastructure', 1204.5],
+        ['csv', 'On-call rota', 'maintenance', 300],
+      ]);
+      expect(costs.total).toBe(1911);
+      expect(await collector.getCosts('acme', { from: '2025-09' })).toEqual([costs]);
+      expect(maintenanceCostInput(costs)).toEqual({ value: 1911, source: 'estimated', metric: 'costs for 2025-09' });
+    });
+
+    it('should book the project\'s share of an account-wide cost', async () => {
+      vi.mocked(fetchResendCosts).mockResolvedValue([
+        { provider: 'resend', name: 'Pro plan (41,200 emails)', category: 'infrastructure', amount: 20, source: 'estimated' },
+      ]);
+
+      const { costs } = await new CostCollector(projectPath).collect('acme', '2025-09', { sources: [{ type: 'resend', share: 0.25 }] });
+
+      expect(costs.items).toEqual([
+        { provider: 'resend', name: 'Pro plan (41,200 emails) (25% share)', category: 'infrastructure', amount: 5, source: 'estimated', sourceId: 'resend' },
+      ]);
+    });
+
+    it('should stand in last month\'s items for a provider that fails', async () => {
+      const collector = new CostCollector(projectPath);
+      vi.mocked(fetchVercelCosts).mockResolvedValue([
+        { provider: 'vercel', name: 'Pro Seats', category: 'infrastructure', amount: 20, source: 'measured' },
+      ]);
+      await collector.collect('acme', '2025-08', { sources: [{ type: 'vercel', project: 'invoice-guardrails' }] });
+
+      vi.mocked(fetchVercelCosts).mockRejectedValue(new Error('Request failed with status code 503'));
+      const { costs, failures } = await collector.collect('acme', '2025-09', { sources: [{ type: 'vercel', project: 'invoice-guardrails' }] });
+
+      expect(failures).toEqual([{ source: 'vercel', error: 'Request failed with status code 503', reused: true }]);
+      expect(costs.items).toEqual([{ provider: 'vercel', name: 'Pro Seats', category: 'infrastructure', amount: 20, source: 'estimated', sourceId: 'vercel' }]);
+      expect((await collector.getCosts('acme')).map(entry => entry.month)).toEqual(['2025-08', '2025-09']);
+    });
+
+    it('should stand in only the failed source\'s own items', async () => {
+      const collector = new CostCollector(projectPath);
+      const sources: CostConfig['sources'] = [
+        { type: 'vercel', id: 'app', project: 'invoice-guardrails' },
+        { type: 'vercel', id: 'docs', project: 'invoice-docs' },
+        { type: 'csv', path: 'costs/aws.csv' },
+      ];
+      vi.mocked(fetchVercelCosts).mockImplementation(async (_period, project) => [
+        { provider: 'vercel', name: `${project} functions`, category: 'infrastructure', amount: 10, source: 'measured' },
+      ]);
+      await collector.collect('acme', '2025-09', { sources });
+
+      vi.mocked(fetchVercelCosts).mockImplementation(async (_period, project) => {
+        if (project === 'invoice-docs') throw new Error('Request failed with status code 503');
+        return [{ provider: 'vercel', name: `${project} functions`, category: 'infrastructure', amount: 12, source: 'measured' }];
+      });
+      (fs.readFile as any).mockRejectedValue(new Error('ENOENT: no such file or directory'));
+      const { costs, failures } = await collector.collect('acme', '2025-10', { sources });
+
+      expect(failures.map(failure => [failure.source, failure.reused])).toEqual([['docs', true], ['csv', true]]);
+      expect(costs.items.map(item => [item.sourceId, item.provider, item.name, item.amount])).toEqual([
+        ['app', 'vercel', 'invoice-guardrails functions', 12],
+        ['docs', 'vercel', 'invoice-docs functions', 10],
+        ['csv', 'aws', 'S3 storage', 1204.5],
+        ['csv', 'csv', 'On-call rota', 300],
+      ]);
+    });
+  });
+
+  describe('useCollectedCosts', () => {
+    const collection = (amounts: number[], failed: boolean): any => ({
+      costs: { items: amounts.map(amount => ({ amount })), total: amounts.reduce((sum, amount) => sum + amount, 0) },
+      failures: failed ? [{ source: 'vercel', error: 'getaddrinfo ENOTFOUND api.vercel.com', reused: false }] : [],
+    });
+
+    it('should never replace maintenanceCosts with an empty or incomplete collection', () => {
+      expect(useCollectedCosts(collection([], true), 250)).toBe(false);
+      expect(useCollectedCosts(collection([], true))).toBe(false);
+      expect(useCollectedCosts(collection([400], true), 250)).toBe(false);
+      expect(useCollectedCosts(collection([400], true))).toBe(true);
+      expect(useCollectedCosts(collection([400], false), 250)).toBe(true);
+    });
+  });
+
+  describe('readCostCsv', () => {
+    it('should report missing columns and bad amounts by line', () => {
+      expect(() => readCostCsv('month,name\n2025-09,S3', '2025-09', 'aws.csv')).toThrow('aws.csv: missing column(s) amount');
+      expect(() => readCostCsv('month,name,amount\n2025-09,S3,twelve', '2025-09', 'aws.csv')).toThrow('aws.csv line 2: amount "twelve" is not a number');
+      expect(readCostCsv(csv, '2025-07')).toEqual([]);
+    });
+  });
+
+  describe('previousMonth', () => {
+    it('should return the last full month, across a year boundary', () => {
+      expect(previousMonth(new Date('2026-01-15T12:00:00Z'))).toBe('2025-12');
+    });
+  });
+
+  describe('loadCostConfig', () => {
+    it('should read no sources when there is no config file', async () => {
+      (fs.readFile as any).mockRejectedValue({ code: 'ENOENT' });
+
+      expect(await loadCostConfig('/project')).toEqual({ sources: [] });
+    });
+
+    it('should reject unknown sources and sources missing their settings', async () => {
+      (fs.readFile as any).mockResolvedValue(JSON.stringify({ sources: [{ type: 'typesense' }] }));
+      await expect(loadCostConfig('/project')).rejects.toThrow('Invalid evaluators/costs.json: sources[0].monthlyCost must be a dollar amount');
+
+      (fs.readFile as any).mockResolvedValue(JSON.stringify({ sources: [{ type: 'vercel' }] }));
+      await expect(loadCostConfig('/project')).rejects.toThrow('sources[0].share must be this project\'s share of the team cost, from 0 to 1');
+
+      (fs.readFile as any).mockResolvedValue(JSON.stringify({ sources: [{ type: 'supabase', share: 1.5 }] }));
+      await expect(loadCostConfig('/project')).rejects.toThrow('sources[0].share must be this project\'s share of the organization plan cost');
+
+      (fs.readFile as any).mockResolvedValue(JSON.stringify({ sources: [{ type: 'resend', share: 1, plan: 'enterprise' }] }));
+      await expect(loadCostConfig('/project')).rejects.toThrow('sources[0].plan must be one of: free, pro');
+
+      (fs.readFile as any).mockResolvedValue(JSON.stringify({ sources: [{ type: 'aws' }] }));
+      await expect(loadCostConfig('/project')).rejects.toThrow('sources[0].type must be one of: vercel, supabase, typesense, resend, manual, csv');
+
+      (fs.readFile as any).mockResolvedValue(JSON.stringify({ sources: [{ type: 'vercel', project: 'app' }, { type: 'vercel', project: 'docs' }] }));
+      await expect(loadCostConfig('/project')).rejects.toThrow('sources[1].id "vercel" is already used; give sources of the same type their own id');
+    });
+  });
+});
@@ -0,0 +1,310 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CostCategory, CostItem, CostPeriod, MonthlyCosts, ROIInputSource } from '../../types/index.js';
+import { fetchVercelCosts } from '../../services/vercel.js';
+import { fetchSupabaseCosts } from '../../services/supabase.js';
+import { fetchTypesenseCosts } from '../../services/typesense.js';
+import { fetchResendCosts, RESEND_PLANS } from '../../services/resend.js';
+import { StateStore } from '../../storage/state-store.js';
+
+/**
+ * Infrastructure and maintenance costs
+ * Each month's running costs are collected per project from one source per provider: Vercel's
+ * billing API, list prices for the Supabase plan and the Resend email volume, and a configured price
+ * for Typesense, plus manual amounts and CSV exports for anything else. The month's total is the
+ * maintenanceCosts input of a check. Sources are only read when listed in evaluators/costs.json:
+ * provider accounts are usually shared between projects, so each source is limited to the project
+ * (Vercel charges tagged with it) or booked at the project's share of the account.
+ */
+
+export const COSTS_CONFIG_PATH = 'evaluators/costs.json';
+
+export const COST_CATEGORIES: CostCategory[] = ['infrastructure', 'maintenance'];
+
+// `share` is the part of an account-wide cost booked to this project, from 0 to 1
+export type CostSourceConfig = (
+  | { type: 'vercel'; project?: string; share?: number } // Needs a project (Vercel name or id), a share, or both
+  | { type: 'supabase'; share: number } // Share of the organization plan; the project's add-ons are booked in full
+  | { type: 'typesense'; monthlyCost: number }
+  | { type: 'resend'; share: number; plan?: string } // Default plan: the cheapest that includes the month's emails
+  | { type: 'manual'; name: string; amount: number; category?: CostCategory } // The same amount every month
+  | { type: 'csv'; path: string } // Columns: month (YYYY-MM), name, amount, and optionally provider and category
+) & { id?: string }; // Defaults to the type; needed when a type is used more than once
+
+export interface CostConfig {
+  sources: CostSourceConfig[];
+}
+
+export interface CostCollection {
+  costs: MonthlyCosts;
+  // Sources that could not be read; `reused` when their items from an earlier month stand in for them
+  failures: Array<{ source: string; error: string; reused: boolean }>;
+}
+
+const SOURCE_TYPES: {
+  [T in CostSourceConfig['type']]: (config: Extract<CostSourceConfig, { type: T }>, month: string, projectPath: string) => Promise<CostItem[]>;
+} = {
+  vercel: async (config, month): Promise<CostItem[]> =>
+    allocate(await fetchVercelCosts(monthPeriod(month), config.project), config.share ?? 1),
+  supabase: config => fetchSupabaseCosts(config.share),
+  typesense: config => fetchTypesenseCosts(config.monthlyCost),
+  resend: async (config, month): Promise<CostItem[]> =>
+    allocate(await fetchResendCosts(monthPeriod(month), config.plan), config.share),
+  manual: async (config): Promise<CostItem[]> => [{
+    provider: 'manual',
+    name: config.name,
+    category: config.category ?? 'maintenance',
+    amount: config.amount,
+    source: 'estimated',
+  }],
+  csv: async (config, month, projectPath): Promise<CostItem[]> =>
+    readCostCsv(await fs.readFile(path.resolve(projectPath, config.path), 'utf-8'), month, config.path),
+};
+
+export class CostCollector {
+  constructor(private projectPath: string = process.cwd()) {}
+
+  /**
+   * Collect and store a project's costs for a month
+   * A source that fails is reported, and the items it collected in the latest earlier month stand in
+   * for it as estimates, so one provider's outage does not drop its costs from ROI. Items are tagged
+   * with the id of their source to find them again.
+   */
+  async collect(projectId: string, month: string, config: CostConfig): Promise<CostCollection> {
+    const store = StateStore.open(this.projectPath);
+    const earlier = store.listMonthlyCosts(projectId).filter(entry => entry.month < month);
+    const previous = earlier[earlier.length - 1];
+
+    const results = await Promise.all(config.sources.map(async source => {
+      const sourceId = source.id ?? source.type;
+      try {
+        const items = await collectSource(source, month, this.projectPath);
+        return { items: items.map((item): CostItem => ({ ...item, sourceId })) };
+      } catch (error) {
+        const reused = (previous?.items ?? [])
+          .filter(item => item.sourceId === sourceId)
+          .map(item => ({ ...item, source: 'estimated' as const }));
+        return {
+          items: reused,
+          failure: { source: sourceId, error: error instanceof Error ? error.message : String(error), reused: reused.length > 0 },
+        };
+      }
+    }));
+
+    const items = results.flatMap(result => result.items);
+    const costs: MonthlyCosts = {
+      projectId,
+      month,
+      items,
+      total: items.reduce((sum, item) => sum + item.amount, 0),
+      collectedAt: new Date(),
+    };
+    store.saveMonthlyCosts(costs);
+
+    return { costs, failures: results.flatMap(result => (result.failure ? [result.failure] : [])) };
+  }
+
+  /**
+   * Costs recorded for a project, oldest month first, optionally from and to a month
+   */
+  async getCosts(projectId: string, range: { from?: string; to?: string } = {}): Promise<MonthlyCosts[]> {
+    return StateStore.open(this.projectPath).listMonthlyCosts(projectId)
+      .filter(entry => (!range.from || entry.month >= range.from) && (!range.to || entry.month <= range.to));
+  }
+}
+
+/**
+ * Whether a check should use the collected costs rather than the maintenanceCosts it was given
+ * A collection with nothing in it never counts as $0, and one with failed sources only stands in
+ * for a missing value, since it may be missing a provider's costs.
+ */
+export function useCollectedCosts(collection: CostCollection, provided?: number): boolean {
+  if (collection.costs.items.length === 0) return false;
+  return provided === undefined || collection.failures.length === 0;
+}
+
+/**
+ * A month's total as the maintenanceCosts input of a check, measured only when every item was billed
+ */
+export function maintenanceCostInput(costs: MonthlyCosts): ROIInputSource {
+  return {
+    value: costs.total,
+    source: costs.items.length > 0 && costs.items.every(item => item.source === 'measured') ? 'measured' : 'estimated',
+    metric: `costs for ${costs.month}`,
+  };
+}
+
+/**
+ * The last full calendar month before a date, as YYYY-MM
+ */
+export function previousMonth(date: Date = new Date()): string {
+  return formatMonth(new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - 1, 1)));
+}
+
+export function formatMonth(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+export function monthPeriod(month: string): CostPeriod {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return { from: new Date(Date.UTC(year, monthIndex - 1, 1)), to: new Date(Date.UTC(year, monthIndex, 1)) };
+}
+
+/**
+ * Rows of a cost export for one month
+ * The header names the columns: month (YYYY-MM), name and amount are required, provider defaults
+ * to "csv" and category to infrastructure. Amounts may include "$" and thousands separators.
+ */
+export function readCostCsv(content: string, month: string, label: string = 'CSV'): CostItem[] {
+  const [header, ...rows] = content.split(/\r?\n/).filter(line => line.trim() !== '').map(parseCsvLine);
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim().toLowerCase());
+  const missing = ['month', 'name', 'amount'].filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`${label}: missing column(s) ${missing.join(', ')}`);
+  }
+
+  const items: CostItem[] = [];
+  rows.forEach((row, index) => {
+    const value = (column: string): string | undefined => row[columns.indexOf(column)]?.trim() || undefined;
+    if (value('month') !== month) return;
+
+    const line = index + 2;
+    const amount = Number(value('amount')?.replace(/[$,]/g, ''));
+    if (!Number.isFinite(amount)) {
+      throw new Error(`${label} line ${line}: amount "${value('amount') ?? ''}" is not a number`);
+    }
+    const category = (value('category') ?? 'infrastructure') as CostCategory;
+    if (!COST_CATEGORIES.includes(category)) {
+      throw new Error(`${label} line ${line}: category must be one of: ${COST_CATEGORIES.join(', ')}`);
+    }
+    items.push({ provider: value('provider') ?? 'csv', name: value('name') ?? 'Unnamed cost', category, amount, source: 'measured' });
+  });
+  return items;
+}
+
+/**
+ * Load evaluators/costs.json, with no sources when there is none
+ */
+export async function loadCostConfig(projectPath: string = process.cwd()): Promise<CostConfig> {
+  let config: CostConfig;
+  try {
+    config = JSON.parse(await fs.readFile(path.join(projectPath, COSTS_CONFIG_PATH), 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { sources: [] };
+    throw new Error(`Invalid ${COSTS_CONFIG_PATH}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  try {
+    validateCostConfig(config);
+  } catch (error) {
+    throw new Error(`Invalid ${COSTS_CONFIG_PATH}: ${error instanceof Error ? error.message : error}`);
+  }
+  return config;
+}
+
+/**
+ * Check every source is a known type with the settings it needs, and has an id of its own
+ */
+export function validateCostConfig(config: CostConfig): void {
+  if (!Array.isArray(config.sources)) throw new Error('sources must be a list');
+
+  const ids = new Set<string>();
+  config.sources.forEach((source, index) => {
+    const at = `sources[${index}]`;
+    switch (source.type) {
+      case 'vercel':
+        if (source.project !== undefined && (typeof source.project !== 'string' || source.project.trim() === '')) {
+          throw new Error(`${at}.project must be a Vercel project name or id`);
+        }
+        if (source.share !== undefined || source.project === undefined) checkShare(source.share, at, 'team');
+        break;
+      case 'supabase':
+        checkShare(source.share, at, 'organization plan');
+        break;
+      case 'typesense':
+        if (!isAmount(source.monthlyCost)) {
+          throw new Error(`${at}.monthlyCost must be a dollar amount; Typesense does not report what it costs`);
+        }
+        break;
+      case 'resend':
+        checkShare(source.share, at, 'account');
+        if (source.plan !== undefined && !RESEND_PLANS.some(entry => entry.plan === source.plan)) {
+          throw new Error(`${at}.plan must be one of: ${RESEND_PLANS.map(entry => entry.plan).join(', ')}`);
+        }
+        break;
+      case 'manual':
+        if (typeof source.name !== 'string' || source.name.trim() === '') throw new Error(`${at}.name must be a non-empty string`);
+        if (!isAmount(source.amount)) throw new Error(`${at}.amount must be a dollar amount`);
+        if (source.category !== undefined && !COST_CATEGORIES.includes(source.category)) {
+          throw new Error(`${at}.category must be one of: ${COST_CATEGORIES.join(', ')}`);
+        }
+        break;
+      case 'csv':
+        if (typeof source.path !== 'string' || source.path.trim() === '') throw new Error(`${at}.path must be a file path`);
+        break;
+      default:
+        throw new Error(`${at}.type must be one of: ${Object.keys(SOURCE_TYPES).join(', ')}`);
+    }
+
+    const id = source.id ?? source.type;
+    if (typeof id !== 'string' || id.trim() === '') throw new Error(`${at}.id must be a non-empty string`);
+    if (ids.has(id)) throw new Error(`${at}.id "${id}" is already used; give sources of the same type their own id`);
+    ids.add(id);
+  });
+}
+
+function collectSource(source: CostSourceConfig, month: string, projectPath: string): Promise<CostItem[]> {
+  const collect = SOURCE_TYPES[source.type] as (config: CostSourceConfig, month: string, projectPath: string) => Promise<CostItem[]>;
+  return collect(source, month, projectPath);
+}
+
+// A project's part of an account-wide cost, so the account is not booked in full to every project
+function checkShare(share: unknown, at: string, account: string): void {
+  if (typeof share !== 'number' || !(share > 0 && share <= 1)) {
+    throw new Error(`${at}.share must be this project's share of the ${account} cost, from 0 to 1 (e.g. 0.25)`);
+  }
+}
+
+function allocate(items: CostItem[], share: number): CostItem[] {
+  if (share === 1) return items;
+  return items.map(item => ({ ...item, name: `${item.name} (${formatShare(share)} share)`, amount: item.amount * share }));
+}
+
+function formatShare(share: number): string {
+  return `${Math.round(share * 1000) / 10}%`;
+}
+
+function isAmount(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+// Fields of one CSV line; quoted fields may contain commas and doubled quotes
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fs from 'fs/promises';
+import {
+  ForecastScenarioStore,
+  presetScenario,
+  parseAdoptionRamp,
+  parseSaasCancellation,
+  validateScenario,
+  forecastROIAt,
+  compareWithActuals,
+} from './forecast.js';
+import { ROICalculator, MS_PER_MONTH } from './calculator.js';
+import { roiBaseline, roiCheck } from '../../test/roi-fixtures.js';
+import type { ForecastScenario } from '../../types/index.js';
+
+vi.mock('fs/promises', () => ({
+  readFile: vi.fn(),
+  writeFile: vi.fn(),
+  mkdir: vi.fn(),
+}));
+
+describe('ROI forecasting', () => {
+  const baseline = roiBaseline({
+    establishedAt: new Date('2024-01-01'),
+    developmentCost: 12000,
+    currentSaasSpend: 1000,
+    teamSize: 5,
+    currentProcessingHours: 40,
+  });
+
+  const scenario: ForecastScenario = {
+    name: 'expected',
+    createdAt: new Date('2024-01-01'),
+    horizonMonths: 12,
+    adoptionRamp: [{ month: 0, rate: 0 }, { month: 4, rate: 1 }],
+    hoursSavedPerMonth: 20,
+    saasCancellations: [{ tool: 'Zendesk', monthlyCost: 500, cancelAt: new Date(baseline.establishedAt.getTime() + 2 * MS_PER_MONTH) }],
+    maintenanceCostPerMonth: 100,
+  };
+
+  const calculator = new ROICalculator('/test/project');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('projectScenario', () => {
+    it('should scale hours saved with the adoption ramp', () => {
+      const forecast = calculator.projectScenario(baseline, scenario);
+
+      expect(forecast.months.map(month => month.adoptionRate)).toEqual([0.25, 0.5, 0.75, 1, 1, 1, 1, 1, 1, 1, 1, 1]);
+      expect(forecast.months[1].labourSavings).toBe(10 * 75);
+    });
+
+    it('should start SaaS savings with the first month after cancellation', () => {
+      const forecast = calculator.projectScenario(baseline, scenario);
+
+      expect(forecast.months.map(month => month.saasSavings).slice(0, 4)).toEqual([0, 0, 500, 500]);
+    });
+
+    it('should report the month and date ROI turns positive', () => {
+      const forecast = calculator.projectScenario(baseline, scenario);
+      // Net per month: 275, 650, 1525, then 1900 a month; 11,950 by month 8, so 12,000 is covered in month 9
+      expect(forecast.breakEvenMonth).toBe(9);
+      expect(forecast.breakEvenDate).toEqual(new Date(baseline.establishedAt.getTime() + 9 * MS_PER_MONTH));
+      expect(forecast.months[7].roi).toBeLessThan(0);
+      expect(forecast.months[8].roi).toBeGreaterThanOrEqual(0);
+      expect(forecast.cumulativeSavings).toBe(forecast.months[11].cumulativeSavings);
+    });
+
+    it('should not break even when savings never cover the cost', () => {
+      const forecast = calculator.projectScenario(baseline, { ...scenario, hoursSavedPerMonth: 0, saasCancellations: [] });
+
+      expect(forecast.breakEvenMonth).toBeNull();
+      expect(forecast.breakEvenDate).toBeNull();
+      expect(forecast.finalROI).toBeLessThan(-100);
+    });
+  });
+
+  describe('presets', () => {
+    it('should size presets from the baseline', () => {
+      const expected = presetScenario('expected', baseline);
+      const pessimistic = presetScenario('pessimistic', baseline, 'worst-case');
+
+      expect(expected.hoursSavedPerMonth).toBe(20);
+      expect(expected.saasCancellations[0].monthlyCost).toBe(1000);
+      expect(pessimistic.name).toBe('worst-case');
+      expect(pessimistic.saasCancellations[0].monthlyCost).toBe(500);
+
+      const forecasts = ['pessimistic', 'expected', 'optimistic'].map(preset =>
+        calculator.projectScenario(baseline, presetScenario(preset as 'expected', baseline))
+      );
+      expect(forecasts[0].finalROI).toBeLessThan(forecasts[1].finalROI);
+      expect(forecasts[1].finalROI).toBeLessThan(forecasts[2].finalROI);
+    });
+  });
+
+  describe('parsing', () => {
+    it('should parse adoption ramps as fractions or percentages', () => {
+      expect(parseAdoptionRamp('0:0.1, 3:50%,6:80')).toEqual([
+        { month: 0, rate: 0.1 },
+        { month: 3, rate: 0.5 },
+        { month: 6, rate: 0.8 },
+      ]);
+      expect(() => parseAdoptionRamp('soon')).toThrow('expected month:rate pairs');
+    });
+
+    it('should parse SaaS cancellations with month or day precision', () => {
+      expect(parseSaasCancellation('Zendesk:400:2025-03')).toEqual({ tool: 'Zendesk', monthlyCost: 400, cancelAt: new Date('2025-03-01') });
+      expect(parseSaasCancellation('HubSpot Sales:1200.50:2025-03-15').cancelAt).toEqual(new Date('2025-03-15'));
+      expect(() => parseSaasCancellation('Zendesk:400')).toThrow('expected tool:monthlyCost:YYYY-MM');
+    });
+
+    it('should reject scenarios with impossible assumptions', () => {
+      expect(() => validateScenario({ ...scenario, name: 'board case' })).toThrow('Invalid scenario name');
+      expect(() => validateScenario({ ...scenario, adoptionRamp: [{ month: 3, rate: 1.5 }] })).toThrow('between 0 and 1');
+      expect(() => validateScenario({ ...scenario, hoursSavedPerMonth: NaN })).toThrow('hours saved must be a non-negative number');
+    });
+  });
+
+  describe('actual vs forecast', () => {
+    it('should interpolate forecast ROI between months', () => {
+      const forecast = calculator.projectScenario(baseline, scenario);
+
+      expect(forecastROIAt(forecast, 0)).toBe(-100);
+      expect(forecastROIAt(forecast, 2)).toBe(forecast.months[1].roi);
+      expect(forecastROIAt(forecast, 2.5)).toBeCloseTo((forecast.months[1].roi + forecast.months[2].roi) / 2);
+    });
+
+    it('should compare each snapshot with the forecast at the same point', async () => {
+      const forecast = calculator.projectScenario(baseline, scenario);
+      const actual = await roiCheck(baseline, 4);
+      const [comparison] = compareWithActuals(forecast, [actual]);
+
+      expect(comparison.monthsInOperation).toBeCloseTo(4);
+      expect(comparison.forecastROI).toBeCloseTo(forecast.months[3].roi);
+      expect(comparison.difference).toBeCloseTo(actual.metrics.financial.currentROI - forecast.months[3].roi);
+    });
+  });
+
+  describe('ForecastScenarioStore', () => {
+    it('should replace a scenario with the same name', async () => {
+      (fs.readFile as any).mockResolvedValue(JSON.stringify([scenario, { ...scenario, name: 'optimistic' }]));
+
+      await new ForecastScenarioStore('/test/project').save({ ...scenario, hoursSavedPerMonth: 30 });
+
+      const written: ForecastScenario[] = JSON.parse((fs.writeFile as any).mock.calls[0][1]);
+      expect(written.map(saved => saved.name)).toEqual(['expected', 'optimistic']);
+      expect(written[0].hoursSavedPerMonth).toBe(30);
+    });
+
+    it('should restore dates when loading', async () => {
+      (fs.readFile as any).mockResolvedValue(JSON.stringify([scenario]));
+
+      const [loaded] = await new ForecastScenarioStore('/test/project').list();
+
+      expect(loaded.saasCancellations[0].cancelAt).toBeInstanceOf(Date);
+      expect(loaded.createdAt).toBeInstanceOf(Date);
+    });
+
+    it('should return no scenarios before any are saved', async () => {
+      (fs.readFile as any).mockRejectedValue({ code: 'ENOENT' });
+
+      expect(await new ForecastScenarioStore('/test/project').list()).toEqual([]);
+      expect(await new ForecastScenarioStore('/test/project').remove('expected')).toBe(false);
+    });
+  });
+});
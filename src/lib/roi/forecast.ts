@@ -0,0 +1,234 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  ForecastComparison,
+  ForecastScenario,
+  ROIBaseline,
+  ROISnapshot,
+  SaasCancellation,
+  ScenarioForecast,
+} from '../../types/index.js';
+import { MS_PER_MONTH } from './calculator.js';
+
+/**
+ * What-if forecasting
+ * Named scenarios of how a project is expected to ramp up, stored in .quallaa/roi-scenarios.json
+ * so projected ROI can be reported before go-live and compared with actual checks afterwards.
+ */
+
+export const SCENARIO_PRESETS = ['pessimistic', 'expected', 'optimistic'] as const;
+export type ScenarioPreset = typeof SCENARIO_PRESETS[number];
+
+export const DEFAULT_HORIZON_MONTHS = 24;
+const MAX_HORIZON_MONTHS = 120;
+
+interface PresetAssumptions {
+  description: string;
+  adoptionRamp: Array<{ month: number; rate: number }>;
+  hoursSavedShare: number; // Of the baseline manual hours
+  saasCancelledShare: number; // Of the baseline SaaS spend
+  cancelAfterMonths: number;
+  maintenanceShare: number; // Of the development cost, per month
+}
+
+const PRESET_ASSUMPTIONS: Record<ScenarioPreset, PresetAssumptions> = {
+  pessimistic: {
+    description: 'Slow rollout, a third of the manual work automated, half the SaaS spend cancelled after 6 months',
+    adoptionRamp: [{ month: 0, rate: 0 }, { month: 9, rate: 0.4 }],
+    hoursSavedShare: 0.3,
+    saasCancelledShare: 0.5,
+    cancelAfterMonths: 6,
+    maintenanceShare: 0.03,
+  },
+  expected: {
+    description: 'Most of the team on board by month 6, half the manual work automated, SaaS cancelled after 3 months',
+    adoptionRamp: [{ month: 0, rate: 0 }, { month: 6, rate: 0.7 }],
+    hoursSavedShare: 0.5,
+    saasCancelledShare: 1,
+    cancelAfterMonths: 3,
+    maintenanceShare: 0.02,
+  },
+  optimistic: {
+    description: 'Everyone on board by month 3, most manual work automated, SaaS cancelled after the first month',
+    adoptionRamp: [{ month: 0, rate: 0.2 }, { month: 3, rate: 0.9 }],
+    hoursSavedShare: 0.7,
+    saasCancelledShare: 1,
+    cancelAfterMonths: 1,
+    maintenanceShare: 0.01,
+  },
+};
+
+/**
+ * Scenario store
+ */
+export class ForecastScenarioStore {
+  private scenariosPath: string;
+
+  constructor(projectPath: string = process.cwd()) {
+    this.scenariosPath = path.join(projectPath, '.quallaa', 'roi-scenarios.json');
+  }
+
+  /**
+   * Load all scenarios in the order they were created
+   */
+  async list(): Promise<ForecastScenario[]> {
+    try {
+      const scenarios: ForecastScenario[] = JSON.parse(await fs.readFile(this.scenariosPath, 'utf-8'));
+
+      // Convert date strings back to Date objects
+      scenarios.forEach(scenario => {
+        scenario.createdAt = new Date(scenario.createdAt);
+        scenario.saasCancellations.forEach(cancellation => {
+          cancellation.cancelAt = new Date(cancellation.cancelAt);
+        });
+      });
+
+      return scenarios;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async get(name: string): Promise<ForecastScenario | null> {
+    const scenarios = await this.list();
+    return scenarios.find(scenario => scenario.name === name) ?? null;
+  }
+
+  /**
+   * Add a scenario, replacing any existing scenario with the same name in place
+   */
+  async save(scenario: ForecastScenario): Promise<void> {
+    validateScenario(scenario);
+
+    const scenarios = await this.list();
+    const index = scenarios.findIndex(existing => existing.name === scenario.name);
+    await this.write(index >= 0 ? scenarios.map((existing, i) => i === index ? scenario : existing) : [...scenarios, scenario]);
+  }
+
+  /**
+   * Remove a scenario, returning false when there was none by that name
+   */
+  async remove(name: string): Promise<boolean> {
+    const scenarios = await this.list();
+    const remaining = scenarios.filter(scenario => scenario.name !== name);
+    if (remaining.length === scenarios.length) return false;
+
+    await this.write(remaining);
+    return true;
+  }
+
+  private async write(scenarios: ForecastScenario[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.scenariosPath), { recursive: true });
+    await fs.writeFile(this.scenariosPath, JSON.stringify(scenarios, null, 2), 'utf-8');
+  }
+}
+
+/**
+ * Scenario from one of the presets, sized from the baseline
+ */
+export function presetScenario(preset: ScenarioPreset, baseline: ROIBaseline, name: string = preset): ForecastScenario {
+  const assumptions = PRESET_ASSUMPTIONS[preset];
+  const cancelAt = new Date(baseline.establishedAt.getTime() + assumptions.cancelAfterMonths * MS_PER_MONTH);
+
+  return {
+    name,
+    description: assumptions.description,
+    createdAt: new Date(),
+    horizonMonths: DEFAULT_HORIZON_MONTHS,
+    adoptionRamp: assumptions.adoptionRamp,
+    hoursSavedPerMonth: baseline.currentProcessingHours * assumptions.hoursSavedShare,
+    saasCancellations: baseline.currentSaasSpend > 0
+      ? [{ tool: 'Current SaaS tools', monthlyCost: baseline.currentSaasSpend * assumptions.saasCancelledShare, cancelAt }]
+      : [],
+    maintenanceCostPerMonth: Math.round(baseline.developmentCost * assumptions.maintenanceShare),
+  };
+}
+
+/**
+ * Check a scenario before it is stored
+ */
+export function validateScenario(scenario: ForecastScenario): void {
+  if (!/^[\w-]+$/.test(scenario.name)) {
+    throw new Error(`Invalid scenario name "${scenario.name}": use letters, numbers, - and _`);
+  }
+  if (!Number.isInteger(scenario.horizonMonths) || scenario.horizonMonths < 1 || scenario.horizonMonths > MAX_HORIZON_MONTHS) {
+    throw new Error(`Invalid scenario "${scenario.name}": horizon must be 1-${MAX_HORIZON_MONTHS} months`);
+  }
+  if (scenario.adoptionRamp.length === 0) {
+    throw new Error(`Invalid scenario "${scenario.name}": adoption ramp needs at least one point`);
+  }
+  for (const point of scenario.adoptionRamp) {
+    if (point.month < 0 || point.rate < 0 || point.rate > 1) {
+      throw new Error(`Invalid scenario "${scenario.name}": adoption at month ${point.month} must be between 0 and 1`);
+    }
+  }
+  for (const [label, value] of [['hours saved', scenario.hoursSavedPerMonth], ['maintenance cost', scenario.maintenanceCostPerMonth]] as const) {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid scenario "${scenario.name}": ${label} must be a non-negative number`);
+    }
+  }
+  for (const cancellation of scenario.saasCancellations) {
+    if (cancellation.monthlyCost < 0 || Number.isNaN(cancellation.cancelAt.getTime())) {
+      throw new Error(`Invalid scenario "${scenario.name}": cancellation of ${cancellation.tool} needs a cost and a valid date`);
+    }
+  }
+}
+
+/**
+ * Parse an adoption ramp such as "0:0.1,3:0.5,6:80%" (month:rate pairs)
+ */
+export function parseAdoptionRamp(value: string): Array<{ month: number; rate: number }> {
+  return value.split(',').map(point => {
+    const match = point.trim().match(/^(\d+):([\d.]+)(%?)$/);
+    if (!match) {
+      throw new Error(`Invalid adoption ramp "${value}": expected month:rate pairs such as 0:0.1,6:0.8`);
+    }
+    const rate = parseFloat(match[2]);
+    return { month: parseInt(match[1], 10), rate: match[3] || rate > 1 ? rate / 100 : rate };
+  });
+}
+
+/**
+ * Parse a SaaS cancellation such as "Zendesk:400:2025-03" (tool:monthly cost:date)
+ */
+export function parseSaasCancellation(value: string): SaasCancellation {
+  const match = value.match(/^(.+):([\d.]+):(\d{4}-\d{2}(?:-\d{2})?)$/);
+  const cancelAt = match ? new Date(match[3].length === 7 ? `${match[3]}-01` : match[3]) : null;
+  if (!match || !cancelAt || Number.isNaN(cancelAt.getTime())) {
+    throw new Error(`Invalid cancellation "${value}": expected tool:monthlyCost:YYYY-MM, e.g. Zendesk:400:2025-03`);
+  }
+  return { tool: match[1], monthlyCost: parseFloat(match[2]), cancelAt };
+}
+
+/**
+ * Forecast ROI after a fractional number of months, interpolating between months
+ * Month 0 is the investment alone (-100%); beyond the horizon the last month is used.
+ */
+export function forecastROIAt(forecast: ScenarioForecast, months: number): number {
+  const roiAt = (month: number): number => month <= 0 ? -100 : forecast.months[Math.min(month, forecast.months.length) - 1].roi;
+  const below = Math.floor(months);
+  return roiAt(below) + (roiAt(below + 1) - roiAt(below)) * (months - below);
+}
+
+/**
+ * Actual ROI of each snapshot against the forecast at the same point in time
+ */
+export function compareWithActuals(forecast: ScenarioForecast, snapshots: ROISnapshot[]): ForecastComparison[] {
+  const start = forecast.months[0]?.startDate.getTime() ?? 0;
+
+  return snapshots.map(snapshot => {
+    const monthsInOperation = Math.max(0, (snapshot.period.endDate.getTime() - start) / MS_PER_MONTH);
+    const forecastROI = forecastROIAt(forecast, monthsInOperation);
+    return {
+      snapshotId: snapshot.id,
+      timestamp: snapshot.timestamp,
+      monthsInOperation,
+      actualROI: snapshot.metrics.financial.currentROI,
+      forecastROI,
+      difference: snapshot.metrics.financial.currentROI - forecastROI,
+    };
+  });
+}
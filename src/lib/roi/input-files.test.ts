@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fs from 'fs/promises';
+import { readInputFile, toJsonSchema, validateAgainstSchema, CHECK_INPUT_SCHEMA, BASELINE_INPUT_SCHEMA } from './input-files.js';
+
+vi.mock('fs/promises', () => ({
+  readFile: vi.fn(),
+}));
+
+describe('ROI input files', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('validateAgainstSchema', () => {
+    it('should accept a complete baseline with a labour cost model', () => {
+      expect(validateAgainstSchema({
+        developmentCost: 20000,
+        currentSaasSpend: 800,
+        teamSize: 4,
+        currentProcessingHours: 60,
+        labourCostModel: { roles: [{ role: 'Ops', hourlyRate: 55, hoursShare: 1 }] },
+      }, BASELINE_INPUT_SCHEMA)).toEqual([]);
+    });
+
+    it('should report every missing and invalid field with its path', () => {
+      const errors = validateAgainstSchema({
+        developmentCost: 0,
+        teamSize: 2.5,
+        currentProcessingHours: '60',
+        labourCostModel: { roles: [{ role: 'Ops', hourlyRate: 55 }] },
+      }, BASELINE_INPUT_SCHEMA);
+
+      expect(errors).toEqual([
+        'developmentCost: must be greater than 0, got 0',
+        'currentSaasSpend: required field is missing',
+        'teamSize: expected a whole number, got 2.5',
+        'currentProcessingHours: expected a number, got "60"',
+        'labourCostModel.roles[0].hoursShare: required field is missing',
+      ]);
+    });
+
+    it('should reject unknown fields so typos do not pass silently', () => {
+      const errors = validateAgainstSchema({ currentSaasSpend: 100, employeeAdoptionRate: 0.7, maintenanceCost: 50 }, CHECK_INPUT_SCHEMA);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatch(/^maintenanceCost: unknown field \(expected one of: .*maintenanceCosts/);
+    });
+
+    it('should only accept known templates and company sizes', () => {
+      const baseline = { developmentCost: 20000, currentSaasSpend: 800, teamSize: 4, currentProcessingHours: 60 };
+
+      expect(validateAgainstSchema({ ...baseline, template: 'order-cash-reco', companySize: 'enterprise' }, BASELINE_INPUT_SCHEMA)).toEqual([]);
+      expect(validateAgainstSchema({ ...baseline, companySize: 'huge' }, BASELINE_INPUT_SCHEMA))
+        .toEqual(['companySize: must be one of small, mid-market, enterprise, got "huge"']);
+    });
+
+    it('should check ratios stay between 0 and 1', () => {
+      expect(validateAgainstSchema({ currentSaasSpend: 100, employeeAdoptionRate: 70 }, CHECK_INPUT_SCHEMA))
+        .toEqual(['employeeAdoptionRate: must be at most 1, got 70']);
+    });
+  });
+
+  describe('toJsonSchema', () => {
+    it('should publish the same constraints the files are validated with', () => {
+      const schema = toJsonSchema(BASELINE_INPUT_SCHEMA, 'Quallaa ROI baseline input');
+
+      expect(schema).toMatchObject({
+        $schema: 'http://json-schema.org/draft-07/schema#',
+        title: 'Quallaa ROI baseline input',
+        type: 'object',
+        required: ['developmentCost', 'currentSaasSpend', 'teamSize', 'currentProcessingHours'],
+        additionalProperties: false,
+      });
+      expect(schema.properties).toMatchObject({
+        $schema: { type: 'string' },
+        developmentCost: { type: 'number', exclusiveMinimum: 0, description: 'Total cost to build ($)' },
+        teamSize: { type: 'integer', minimum: 1 },
+        errorRateBaseline: { type: 'number', minimum: 0, maximum: 1 },
+        companySize: { type: 'string', enum: ['small', 'mid-market', 'enterprise'] },
+      });
+      expect(schema.properties?.labourCostModel.properties?.roles).toMatchObject({
+        type: 'array',
+        minItems: 1,
+        items: { required: ['role', 'hourlyRate', 'hoursShare'], properties: { role: { type: 'string', minLength: 1 } } },
+      });
+    });
+  });
+
+  describe('readInputFile', () => {
+    it('should return the validated values without the $schema reference', async () => {
+      (fs.readFile as any).mockResolvedValue(JSON.stringify({ $schema: './roi-check-input.json', currentSaasSpend: 100, employeeAdoptionRate: 0.7 }));
+
+      expect(await readInputFile('metrics.json', CHECK_INPUT_SCHEMA)).toEqual({ currentSaasSpend: 100, employeeAdoptionRate: 0.7 });
+    });
+
+    it('should list all schema errors in one message', async () => {
+      (fs.readFile as any).mockResolvedValue(JSON.stringify({ currentSaasSpend: -5 }));
+
+      await expect(readInputFile('metrics.json', CHECK_INPUT_SCHEMA)).rejects.toThrow(
+        'Invalid metrics.json:\n  • currentSaasSpend: must be at least 0, got -5\n  • employeeAdoptionRate: required field is missing'
+      );
+    });
+
+    it('should explain unreadable input', async () => {
+      (fs.readFile as any).mockResolvedValue('{ currentSaasSpend: 100 }');
+      await expect(readInputFile('metrics.json', CHECK_INPUT_SCHEMA)).rejects.toThrow('Invalid metrics.json: not valid JSON');
+
+      (fs.readFile as any).mockRejectedValue({ code: 'ENOENT' });
+      await expect(readInputFile('missing.json', CHECK_INPUT_SCHEMA)).rejects.toThrow('Input file not found: missing.json');
+    });
+  });
+});
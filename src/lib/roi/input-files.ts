@@ -0,0 +1,227 @@
+import * as fs from 'fs/promises';
+import { z } from 'zod';
+import { CompanySize, OutcomeTemplate } from '../../types/index.js';
+import { listOutcomeTemplates } from '../../templates/outcomes/index.js';
+import { COMPANY_SIZES } from './benchmarks.js';
+
+/**
+ * Non-interactive ROI inputs
+ * Zod schemas for `evaluators check --input` and `evaluators setup --input`, the JSON schemas
+ * published from them, and the loader that reads a file (or stdin for "-") and reports every
+ * schema violation at once.
+ */
+
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: 'object' | 'array' | 'number' | 'integer' | 'string';
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  minLength?: number;
+  enum?: string[];
+}
+
+const ratio = (description: string): z.ZodNumber => z.number().min(0).max(1).describe(description);
+const amount = (description: string): z.ZodNumber => z.number().min(0).describe(description);
+const satisfaction = (description: string): z.ZodNumber => z.number().min(1).max(10).describe(description);
+
+// Unknown fields are rejected so typos do not pass silently
+function strictObject<T extends z.ZodRawShape>(shape: T): z.ZodObject<T, 'strict'> {
+  return z.object(shape).strict(`unknown field (expected one of: ${Object.keys(shape).join(', ')})`);
+}
+
+export const CHECK_INPUT_SCHEMA = strictObject({
+  currentSaasSpend: amount('Monthly SaaS spend now ($)'),
+  employeeAdoptionRate: ratio('Share of the team using the system (0-1)'),
+  currentProcessingHours: amount('Manual hours per month now; required unless an evaluator measured manual_hours or rework_ratio').optional(),
+  currentAccuracy: ratio('Process accuracy now (0-1); required unless an evaluator measured it').optional(),
+  currentErrorRate: ratio('Error rate now (0-1); required unless an evaluator measured it').optional(),
+  maintenanceCosts: amount('Monthly maintenance cost ($), default 0').optional(),
+  currentComplianceScore: ratio('Compliance score now (0-1), default the baseline score').optional(),
+  currentCustomerSatisfaction: satisfaction('Customer satisfaction now (1-10), default the baseline score').optional(),
+}).describe('Current values for `quallaa evaluators check --input`. Inputs measured by the latest evaluation run take precedence.');
+
+export const BASELINE_INPUT_SCHEMA = strictObject({
+  developmentCost: z.number().gt(0).describe('Total cost to build ($)'),
+  currentSaasSpend: amount('Monthly SaaS spend before the project ($)'),
+  teamSize: z.number().int().min(1).describe('People who will use the system'),
+  currentProcessingHours: amount('Manual hours per month the project could replace'),
+  errorRateBaseline: ratio('Error rate before the project (0-1), default 0.05').optional(),
+  accuracyBaseline: ratio('Accuracy before the project (0-1), default 0.85').optional(),
+  complianceScore: ratio('Compliance score before the project (0-1), default 0.7').optional(),
+  customerSatisfactionScore: satisfaction('Customer satisfaction (1-10), default 7.5').optional(),
+  labourCostModel: strictObject({
+    roles: z.array(strictObject({
+      role: z.string().trim().min(1),
+      hourlyRate: amount('Fully loaded cost per hour ($)'),
+      hoursShare: ratio('Share of the processing hours this role does (0-1)'),
+    })).min(1),
+  }).describe('Roles doing the manual work; hoursShare values add up to 1').optional(),
+  template: z.enum(listOutcomeTemplates().map(template => template.value) as [OutcomeTemplate, ...OutcomeTemplate[]])
+    .describe('Outcome template the project was built on, for peer benchmarks').optional(),
+  companySize: z.enum(COMPANY_SIZES.map(size => size.value) as [CompanySize, ...CompanySize[]])
+    .describe('Company size, for peer benchmarks').optional(),
+}).describe('Pre-project baseline for `quallaa evaluators setup --input`.');
+
+export type CheckInputFile = z.infer<typeof CHECK_INPUT_SCHEMA>;
+export type BaselineInputFile = z.infer<typeof BASELINE_INPUT_SCHEMA>;
+
+/**
+ * JSON schema (draft-07) of an input schema, for editors and `evaluators schema`
+ * Covers the zod types the input schemas use. A top-level "$schema" reference is allowed.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny, title: string): JsonSchema {
+  const root = convertSchema(schema);
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title,
+    ...root,
+    properties: { $schema: { type: 'string' }, ...root.properties },
+  };
+}
+
+/**
+ * Every violation of the schema, as "<path>: <problem>" lines
+ */
+export function validateAgainstSchema(value: unknown, schema: z.ZodTypeAny): string[] {
+  const result = schema.safeParse(value);
+  return result.success ? [] : result.error.issues.flatMap(issue => describeIssue(issue, value));
+}
+
+/**
+ * Read and validate a JSON input file, or stdin when the source is "-"
+ * A top-level "$schema" reference is allowed for editor support and dropped from the result.
+ */
+export async function readInputFile<T>(source: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T> {
+  const label = source === '-' ? 'stdin' : source;
+
+  let text: string;
+  try {
+    text = source === '-' ? await readStdin() : await fs.readFile(source, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`Input file not found: ${source}`);
+    }
+    throw error;
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid ${label}: not valid JSON (${error instanceof Error ? error.message : error})`);
+  }
+
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    delete (value as Record<string, unknown>).$schema;
+  }
+
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const errors = result.error.issues.flatMap(issue => describeIssue(issue, value));
+    throw new Error(`Invalid ${label}:\n${errors.map(error => `  • ${error}`).join('\n')}`);
+  }
+  return result.data;
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+function convertSchema(schema: z.ZodTypeAny): JsonSchema {
+  const description = schema.description !== undefined ? { description: schema.description } : {};
+
+  if (schema instanceof z.ZodOptional) {
+    return { ...convertSchema(schema.unwrap()), ...description };
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape: z.ZodRawShape = schema.shape;
+    return {
+      type: 'object',
+      ...description,
+      properties: Object.fromEntries(Object.entries(shape).map(([field, fieldSchema]) => [field, convertSchema(fieldSchema)])),
+      required: Object.keys(shape).filter(field => !shape[field].isOptional()),
+      ...(schema._def.unknownKeys === 'strict' ? { additionalProperties: false } : {}),
+    };
+  }
+  if (schema instanceof z.ZodArray) {
+    const minItems = schema._def.minLength?.value;
+    return { type: 'array', ...description, ...(minItems !== undefined ? { minItems } : {}), items: convertSchema(schema.element) };
+  }
+  if (schema instanceof z.ZodNumber) {
+    const json: JsonSchema = { type: schema.isInt ? 'integer' : 'number', ...description };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+      if (check.kind === 'max') json.maximum = check.value;
+    }
+    return json;
+  }
+  if (schema instanceof z.ZodString) {
+    return { type: 'string', ...description, ...(schema.minLength !== null ? { minLength: schema.minLength } : {}) };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: schema.options, ...description };
+  }
+  throw new Error(`No JSON schema for ${schema._def.typeName}`);
+}
+
+// Zod's issues in the wording the CLI uses elsewhere, with the offending value
+function describeIssue(issue: z.ZodIssue, input: unknown): string[] {
+  const at = formatPath(issue.path);
+  const value = valueAt(input, issue.path);
+
+  switch (issue.code) {
+    case 'invalid_type':
+      if (issue.received === 'undefined') return [`${at}: required field is missing`];
+      if (issue.expected === 'integer') return [`${at}: expected a whole number, got ${value}`];
+      return [`${at}: expected ${EXPECTED_TYPES[issue.expected] ?? issue.expected}, got ${describeType(value)}`];
+    case 'too_small':
+      if (issue.type === 'array') return [`${at}: needs at least ${issue.minimum} item(s)`];
+      if (issue.type === 'string') return [`${at}: must not be empty`];
+      return [`${at}: must be ${issue.inclusive ? 'at least' : 'greater than'} ${issue.minimum}, got ${value}`];
+    case 'too_big':
+      return [`${at}: must be at most ${issue.maximum}, got ${value}`];
+    case 'invalid_enum_value':
+      return [`${at}: must be one of ${issue.options.join(', ')}, got "${issue.received}"`];
+    case 'unrecognized_keys':
+      return issue.keys.map(key => `${formatPath([...issue.path, key])}: ${issue.message}`);
+    default:
+      return [`${at}: ${issue.message}`];
+  }
+}
+
+const EXPECTED_TYPES: Partial<Record<z.ZodParsedType, string>> = {
+  object: 'an object',
+  array: 'an array',
+  number: 'a number',
+  string: 'a string',
+};
+
+function formatPath(path: Array<string | number>): string {
+  if (path.length === 0) return 'input';
+  return path.map((part, index) => (typeof part === 'number' ? `[${part}]` : index === 0 ? part : `.${part}`)).join('');
+}
+
+function valueAt(input: unknown, path: Array<string | number>): unknown {
+  return path.reduce<unknown>(
+    (node, part) => (typeof node === 'object' && node !== null ? (node as Record<string | number, unknown>)[part] : undefined),
+    input
+  );
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'string' ? `"${value}"` : typeof value;
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import {
+  blendedHourlyRate,
+  labourSavingsByRole,
+  validateLabourCostModel,
+  describeLabourCostModel,
+  DEFAULT_HOURLY_RATE,
+} from './labour.js';
+import type { LabourCostModel } from '../../types/index.js';
+
+describe('labour cost model', () => {
+  const model: LabourCostModel = {
+    roles: [
+      { role: 'Ops specialist', hourlyRate: 48, hoursShare: 0.5 },
+      { role: 'Finance clerk', hourlyRate: 36, hoursShare: 0.5 },
+    ],
+  };
+
+  it('should blend role rates by their share of the hours', () => {
+    expect(blendedHourlyRate(model)).toBe(42);
+  });
+
+  it('should fall back to the default rate for baselines without a model', () => {
+    expect(blendedHourlyRate(undefined)).toBe(DEFAULT_HOURLY_RATE);
+    expect(labourSavingsByRole(undefined, 100)).toEqual([]);
+    expect(describeLabourCostModel(undefined)[0]).toContain(`$${DEFAULT_HOURLY_RATE.toFixed(2)}/hour`);
+  });
+
+  it('should split saved hours across roles', () => {
+    expect(labourSavingsByRole(model, 10)).toEqual([
+      { role: 'Ops specialist', hourlyRate: 48, hoursSaved: 5, savings: 240 },
+      { role: 'Finance clerk', hourlyRate: 36, hoursSaved: 5, savings: 180 },
+    ]);
+  });
+
+  it('should accept rounded percentage shares', () => {
+    const thirds = ['A', 'B', 'C'].map(role => ({ role, hourlyRate: 40, hoursShare: 0.33 }));
+
+    expect(() => validateLabourCostModel({ roles: thirds })).not.toThrow();
+  });
+
+  it('should reject negative rates and empty models', () => {
+    expect(() => validateLabourCostModel({ roles: [] })).toThrow('list at least one role');
+    expect(() => validateLabourCostModel({ roles: [{ role: 'Clerk', hourlyRate: -1, hoursShare: 1 }] }))
+      .toThrow('roles[0].hourlyRate');
+  });
+});
@@ -0,0 +1,80 @@
+import { LabourCostModel, LabourRole, LabourSavings } from '../../types/index.js';
+import { AmountFormatter, amountFormatter } from '../evaluators/formatting.js';
+
+/**
+ * Labour cost model
+ * Values saved processing hours at the fully loaded rate of the roles that did them,
+ * instead of one flat rate for everyone.
+ */
+
+// Rate for baselines recorded before they carried a labour cost model
+export const DEFAULT_HOURLY_RATE = 75;
+
+// Shares may be entered as rounded percentages (33/33/33)
+const SHARE_TOLERANCE = 0.02;
+
+/**
+ * Hourly rate of the whole model, weighted by each role's share of the hours
+ */
+export function blendedHourlyRate(model?: LabourCostModel): number {
+  const roles = model?.roles ?? [];
+  const totalShare = roles.reduce((sum, role) => sum + role.hoursShare, 0);
+  if (totalShare <= 0) return DEFAULT_HOURLY_RATE;
+
+  return roles.reduce((sum, role) => sum + role.hourlyRate * role.hoursShare, 0) / totalShare;
+}
+
+/**
+ * Split saved hours across roles by their share and value them at each role's rate
+ */
+export function labourSavingsByRole(model: LabourCostModel | undefined, hoursSaved: number): LabourSavings[] {
+  const roles = model?.roles ?? [];
+  const totalShare = roles.reduce((sum, role) => sum + role.hoursShare, 0);
+  if (totalShare <= 0) return [];
+
+  return roles.map(role => {
+    const roleHours = hoursSaved * (role.hoursShare / totalShare);
+    return {
+      role: role.role,
+      hourlyRate: role.hourlyRate,
+      hoursSaved: roleHours,
+      savings: roleHours * role.hourlyRate,
+    };
+  });
+}
+
+/**
+ * Check a labour cost model before it is stored in a baseline
+ */
+export function validateLabourCostModel(model: LabourCostModel): void {
+  if (!Array.isArray(model.roles) || model.roles.length === 0) {
+    throw new Error('Invalid labourCostModel: list at least one role');
+  }
+
+  model.roles.forEach((role: LabourRole, index) => {
+    if (typeof role.role !== 'string' || role.role.trim() === '') {
+      throw new Error(`Invalid labourCostModel.roles[${index}].role: must be a non-empty name`);
+    }
+    if (typeof role.hourlyRate !== 'number' || role.hourlyRate < 0) {
+      throw new Error(`Invalid labourCostModel.roles[${index}].hourlyRate: must be a positive number`);
+    }
+    if (typeof role.hoursShare !== 'number' || role.hoursShare < 0 || role.hoursShare > 1) {
+      throw new Error(`Invalid labourCostModel.roles[${index}].hoursShare: must be between 0 and 1`);
+    }
+  });
+
+  const totalShare = model.roles.reduce((sum, role) => sum + role.hoursShare, 0);
+  if (Math.abs(totalShare - 1) > SHARE_TOLERANCE) {
+    throw new Error(`Invalid labourCostModel: role hour shares add up to ${(totalShare * 100).toFixed(0)}%, expected 100%`);
+  }
+}
+
+/**
+ * One line per role, e.g. "Finance clerk: 60% of hours at $42.00/hour"
+ */
+export function describeLabourCostModel(model?: LabourCostModel, formatAmount: AmountFormatter = amountFormatter()): string[] {
+  if (!model || model.roles.length === 0) {
+    return [`All roles: default ${formatAmount(DEFAULT_HOURLY_RATE, true)}/hour (no labour cost model in baseline)`];
+  }
+  return model.roles.map(role => `${role.role}: ${(role.hoursShare * 100).toFixed(0)}% of hours at ${formatAmount(role.hourlyRate, true)}/hour`);
+}
@@ -0,0 +1,207 @@
+import { describe, it, expect } from 'vitest';
+import { collectMeasuredInputs, estimatedInput, inputsFromSnapshot, isStaleRun, recalculateSnapshots } from './measurements.js';
+import { ROICalculator } from './calculator.js';
+import type { EvaluationResult, EvaluationRun, ROIBaseline, ROISnapshot } from '../../types/index.js';
+
+describe('collectMeasuredInputs', () => {
+  const baseline: ROIBaseline = {
+    establishedAt: new Date('2024-01-01'),
+    developmentCost: 25000,
+    currentSaasSpend: 1500,
+    teamSize: 5,
+    currentProcessingHours: 40,
+    errorRateBaseline: 0.05,
+    accuracyBaseline: 0.85,
+    complianceScore: 0.7,
+    customerSatisfactionScore: 7.5,
+  };
+
+  const run = (results: Array<Pick<EvaluationResult, 'metric' | 'value'>>): EvaluationRun => ({
+    id: 'eval_123',
+    recordedAt: new Date('2024-06-01'),
+    git: {},
+    suite: {
+      name: 'Suite',
+      description: 'Test suite',
+      results: results.map(result => ({ ...result, threshold: 0, passed: true, category: 'Quality' })),
+      overallScore: 1,
+      passed: true,
+      timestamp: new Date('2024-06-01'),
+      duration: 10,
+    },
+  });
+  const now = new Date('2024-06-10');
+
+  it('should map evaluator metrics onto ROI inputs', () => {
+    const measured = collectMeasuredInputs(
+      run([
+        { metric: 'accuracy', value: 0.96 },
+        { metric: 'error_rate', value: 0.02 },
+        { metric: 'rework_ratio', value: 0.25 },
+        { metric: 'processing_time', value: 2.1 },
+      ]),
+      baseline,
+      now
+    );
+
+    expect(measured.currentAccuracy).toEqual({ value: 0.96, source: 'measured', metric: 'accuracy', evaluationRunId: 'eval_123' });
+    expect(measured.currentErrorRate?.value).toBe(0.02);
+    expect(measured.currentProcessingHours).toEqual({ value: 10, source: 'estimated', metric: 'rework_ratio', evaluationRunId: 'eval_123' });
+    expect(measured.currentProcessingTime?.value).toBe(2.1);
+  });
+
+  it('should prefer measured manual hours over an estimate from the rework ratio', () => {
+    const measured = collectMeasuredInputs(run([{ metric: 'rework_ratio', value: 0.25 }, { metric: 'manual_hours', value: 12 }]), baseline, now);
+
+    expect(measured.currentProcessingHours).toMatchObject({ value: 12, source: 'measured', metric: 'manual_hours' });
+  });
+
+  it('should ignore a run older than the maximum age', () => {
+    const stale = run([{ metric: 'accuracy', value: 0.96 }]);
+
+    expect(isStaleRun(stale, new Date('2024-07-01'))).toBe(false);
+    expect(isStaleRun(stale, new Date('2024-07-02'))).toBe(true);
+    expect(collectMeasuredInputs(stale, baseline, new Date('2024-07-02'))).toEqual({});
+  });
+
+  it('should average a metric reported by several evaluators', () => {
+    const measured = collectMeasuredInputs(
+      run([{ metric: 'accuracy', value: 0.9 }, { metric: 'accuracy', value: 0.98 }]),
+      baseline,
+      now
+    );
+
+    expect(measured.currentAccuracy?.value).toBeCloseTo(0.94);
+  });
+
+  it('should fall back to gold dataset field accuracy and normalise percentages', () => {
+    const measured = collectMeasuredInputs(run([{ metric: 'field_accuracy', value: 97 }]), baseline, now);
+
+    expect(measured.currentAccuracy).toMatchObject({ value: 0.97, metric: 'field_accuracy' });
+  });
+
+  it('should leave unmeasured inputs out', () => {
+    expect(collectMeasuredInputs(run([{ metric: 'unit_cost', value: 0.08 }]), baseline, now)).toEqual({});
+    expect(collectMeasuredInputs(null, baseline)).toEqual({});
+  });
+});
+
+describe('estimatedInput', () => {
+  it('should mark the value as estimated', () => {
+    expect(estimatedInput(500)).toEqual({ value: 500, source: 'estimated' });
+  });
+});
+
+describe('inputsFromSnapshot', () => {
+  const baseline = {
+    establishedAt: new Date('2024-01-01'),
+    developmentCost: 25000,
+    currentSaasSpend: 1500,
+    teamSize: 5,
+    currentProcessingHours: 40,
+    errorRateBaseline: 0.05,
+    accuracyBaseline: 0.85,
+    complianceScore: 0.7,
+    customerSatisfactionScore: 7.5,
+  };
+
+  const snapshot = (inputs?: ROISnapshot['inputs']): ROISnapshot => ({
+    id: 'roi_1',
+    projectId: 'project',
+    timestamp: new Date('2024-04-01'),
+    metrics: {} as ROISnapshot['metrics'],
+    baseline,
+    period: { startDate: new Date('2024-01-01'), endDate: new Date('2024-03-31') },
+    statisticalSignificance: { pValue: 0.5, isSignificant: false },
+    inputs,
+  });
+
+  it('should rebuild the inputs a check used', () => {
+    const inputs = inputsFromSnapshot(snapshot({
+      currentSaasSpend: estimatedInput(600),
+      maintenanceCosts: estimatedInput(0),
+      employeeAdoptionRate: estimatedInput(0.7),
+      currentProcessingHours: { value: 10, source: 'measured', metric: 'rework_ratio' },
+      currentAccuracy: estimatedInput(0.92),
+    }));
+
+    expect(inputs).toMatchObject({
+      monthsInOperation: 3,
+      currentSaasSpend: 600,
+      currentProcessingHours: 10,
+      tasksAutomated: 30,
+      employeeAdoptionRate: 0.7,
+      currentAccuracy: 0.92,
+      currentErrorRate: 0.05, // Not recorded, so the baseline value
+    });
+  });
+
+  it('should return null for snapshots saved without inputs', () => {
+    expect(inputsFromSnapshot(snapshot())).toBeNull();
+  });
+});
+
+describe('recalculateSnapshots', () => {
+  const baseline: ROIBaseline = {
+    establishedAt: new Date('2024-01-01'),
+    developmentCost: 25000,
+    currentSaasSpend: 1500,
+    teamSize: 5,
+    currentProcessingHours: 40,
+    errorRateBaseline: 0.05,
+    accuracyBaseline: 0.85,
+    complianceScore: 0.7,
+    customerSatisfactionScore: 7.5,
+    version: 1,
+  };
+
+  const snapshot = (inputs?: ROISnapshot['inputs']): ROISnapshot => ({
+    id: 'roi_1',
+    projectId: 'project',
+    timestamp: new Date('2024-04-01'),
+    metrics: {
+      financial: { currentROI: 12, npv: 100, cashFlows: [-25000] },
+      confidenceInterval: { lower: 10, upper: 14, confidenceLevel: 0.9 },
+      simulation: { iterations: 500, seed: 42 },
+    } as ROISnapshot['metrics'],
+    baseline,
+    baselineVersion: 1,
+    period: { startDate: new Date('2024-01-01'), endDate: new Date('2024-03-31') },
+    statisticalSignificance: { pValue: 0.5, isSignificant: false },
+    inputs,
+  });
+
+  it('should recompute checks that recorded their inputs against another baseline', () => {
+    const corrected = { ...baseline, developmentCost: 50000, version: 2 };
+    const { snapshots, unchanged } = recalculateSnapshots(
+      [snapshot({ currentSaasSpend: estimatedInput(500), currentProcessingHours: estimatedInput(40) }), snapshot()],
+      corrected,
+      new ROICalculator('/test/project')
+    );
+
+    // $1,000/month of SaaS for 3 months against $50,000
+    expect(snapshots[0].metrics.financial.currentROI).toBeCloseTo(((3000 - 50000) / 50000) * 100);
+    expect(snapshots[0].metrics.financial.npv).toBeUndefined();
+    expect(snapshots[0].metrics.financial.cashFlows).toBeUndefined();
+    expect(snapshots[0].baselineVersion).toBe(2);
+    expect(snapshots[1].metrics.financial.currentROI).toBe(12);
+    expect(unchanged).toBe(1);
+  });
+
+  it('should re-simulate the ROI range and its significance around the new baseline', () => {
+    const corrected = { ...baseline, developmentCost: 50000, version: 2 };
+    const [recalculated] = recalculateSnapshots(
+      [snapshot({ currentSaasSpend: estimatedInput(500), currentProcessingHours: estimatedInput(40) })],
+      corrected,
+      new ROICalculator('/test/project')
+    ).snapshots;
+
+    const roi = recalculated.metrics.financial.currentROI;
+    expect(recalculated.metrics.simulation).toMatchObject({ iterations: 500, seed: 42 });
+    expect(recalculated.metrics.confidenceInterval.confidenceLevel).toBe(0.9);
+    expect(recalculated.metrics.confidenceInterval.lower).toBeLessThan(roi);
+    expect(recalculated.metrics.confidenceInterval.upper).toBeGreaterThan(roi);
+    // Every draw loses money against $50,000, so nothing about the recorded p-value survives
+    expect(recalculated.statisticalSignificance).toMatchObject({ pValue: 1, isSignificant: false, method: 'monte-carlo' });
+  });
+});
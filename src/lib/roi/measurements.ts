@@ -0,0 +1,177 @@
+import { EvaluationRun, ROIBaseline, ROIInputs, ROIInputSource, ROISnapshot } from '../../types/index.js';
+import { MS_PER_MONTH, ROICalculator } from './calculator.js';
+import { simulateROI, SimulationConfig } from './simulation.js';
+
+/**
+ * Measured ROI inputs
+ * Maps the latest stored evaluator results onto `ROICalculator.calculateROI` inputs
+ * so checks use what the evaluators observed instead of guessed improvements.
+ */
+
+export type MeasuredInputs = Partial<Record<keyof ROIInputs, ROIInputSource>>;
+
+// Runs older than this no longer describe the system a check is about
+export const MAX_RUN_AGE_DAYS = 30;
+
+interface MeasuredInputRule {
+  input: keyof ROIInputs;
+  metrics: string[]; // Accepted metric names, first match wins
+  toInput: (value: number, baseline: ROIBaseline) => number;
+  derived?: boolean; // Computed from another quantity with assumptions, so recorded as estimated
+}
+
+const MEASURED_INPUT_RULES: MeasuredInputRule[] = [
+  {
+    input: 'currentAccuracy',
+    metrics: ['accuracy', 'field_accuracy'],
+    toInput: value => toRatio(value),
+  },
+  {
+    input: 'currentErrorRate',
+    metrics: ['error_rate'],
+    toInput: value => toRatio(value),
+  },
+  {
+    input: 'currentProcessingHours',
+    metrics: ['manual_hours'],
+    toInput: value => value,
+  },
+  {
+    // Assumes only reworked items still need manual handling, at the baseline effort per item
+    input: 'currentProcessingHours',
+    metrics: ['rework_ratio'],
+    toInput: (value, baseline) => baseline.currentProcessingHours * toRatio(value),
+    derived: true,
+  },
+  {
+    input: 'currentProcessingTime',
+    metrics: ['processing_time'],
+    toInput: value => value,
+  },
+];
+
+/**
+ * Collect every ROI input the evaluation run measured
+ * A metric reported by several evaluators is averaged. A run older than MAX_RUN_AGE_DAYS is
+ * ignored, and inputs derived from a metric rather than measured directly are marked estimated.
+ */
+export function collectMeasuredInputs(run: EvaluationRun | null, baseline: ROIBaseline, now: Date = new Date()): MeasuredInputs {
+  const measured: MeasuredInputs = {};
+  if (!run || isStaleRun(run, now)) return measured;
+
+  for (const rule of MEASURED_INPUT_RULES) {
+    if (measured[rule.input]) continue;
+    for (const metric of rule.metrics) {
+      const matches = run.suite.results.filter(result => result.metric === metric);
+      if (matches.length === 0) continue;
+
+      const value = matches.reduce((sum, result) => sum + result.value, 0) / matches.length;
+      measured[rule.input] = {
+        value: rule.toInput(value, baseline),
+        source: rule.derived ? 'estimated' : 'measured',
+        metric,
+        evaluationRunId: run.id,
+      };
+      break;
+    }
+  }
+
+  return measured;
+}
+
+/**
+ * Whether a run is too old for its results to stand in for the current system
+ */
+export function isStaleRun(run: EvaluationRun, now: Date = new Date()): boolean {
+  return now.getTime() - run.recordedAt.getTime() > MAX_RUN_AGE_DAYS * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Record a value that was answered or assumed rather than measured
+ */
+export function estimatedInput(value: number): ROIInputSource {
+  return { value, source: 'estimated' };
+}
+
+/**
+ * The `calculateROI` inputs a stored check used
+ * Returns null for snapshots saved before checks recorded their inputs.
+ */
+export function inputsFromSnapshot(snapshot: ROISnapshot): ROIInputs | null {
+  const inputs = snapshot.inputs;
+  if (!inputs?.currentSaasSpend || !inputs.currentProcessingHours) return null;
+
+  const value = (input: keyof ROIInputs, fallback: number): number => inputs[input]?.value ?? fallback;
+  const currentProcessingHours = inputs.currentProcessingHours.value;
+  return {
+    monthsInOperation: Math.max(1, (snapshot.period.endDate.getTime() - snapshot.period.startDate.getTime()) / MS_PER_MONTH),
+    currentSaasSpend: inputs.currentSaasSpend.value,
+    maintenanceCosts: value('maintenanceCosts', 0),
+    currentProcessingHours,
+    tasksAutomated: Math.max(0, snapshot.baseline.currentProcessingHours - currentProcessingHours),
+    employeeAdoptionRate: value('employeeAdoptionRate', 0),
+    currentAccuracy: value('currentAccuracy', snapshot.baseline.accuracyBaseline),
+    currentErrorRate: value('currentErrorRate', snapshot.baseline.errorRateBaseline),
+    currentComplianceScore: value('currentComplianceScore', snapshot.baseline.complianceScore),
+    currentCustomerSatisfaction: value('currentCustomerSatisfaction', snapshot.baseline.customerSatisfactionScore),
+    ...(inputs.currentProcessingTime ? { currentProcessingTime: inputs.currentProcessingTime.value } : {}),
+  };
+}
+
+/**
+ * Snapshots with their financial figures recomputed against another baseline version
+ * Only snapshots that recorded their inputs can be recomputed; the rest keep the figures
+ * they were saved with and are counted in `unchanged`. The ROI range is re-simulated with
+ * each check's recorded seed and iterations, and its significance re-assessed. Discounted
+ * cash flows are left out, since they depend on the checks before each one.
+ */
+export function recalculateSnapshots(
+  snapshots: ROISnapshot[],
+  baseline: ROIBaseline,
+  calculator: Pick<ROICalculator, 'calculateFinancialMetrics' | 'calculateSignificance'>,
+  simulationConfig: SimulationConfig = {}
+): { snapshots: ROISnapshot[]; unchanged: number } {
+  let unchanged = 0;
+
+  const recalculated = snapshots.map(snapshot => {
+    const inputs = inputsFromSnapshot(snapshot);
+    if (!inputs) {
+      unchanged++;
+      return snapshot;
+    }
+
+    const recorded = snapshot.metrics.simulation;
+    const { simulation, confidenceInterval } = simulateROI(
+      baseline,
+      inputs,
+      (sampledBaseline, sampledCurrent) => calculator.calculateFinancialMetrics(sampledBaseline, sampledCurrent),
+      snapshot.metrics.confidenceInterval.confidenceLevel,
+      {
+        ...simulationConfig,
+        ...(recorded ? { iterations: recorded.iterations, seed: recorded.seed } : {}),
+        sources: snapshot.inputs,
+      }
+    );
+    const metrics = {
+      ...snapshot.metrics,
+      financial: calculator.calculateFinancialMetrics(baseline, inputs),
+      confidenceInterval,
+      simulation,
+    };
+
+    return {
+      ...snapshot,
+      baseline,
+      baselineVersion: baseline.version ?? 1,
+      metrics,
+      statisticalSignificance: calculator.calculateSignificance(metrics),
+    };
+  });
+
+  return { snapshots: recalculated, unchanged };
+}
+
+// Evaluators may report ratios as percentages (e.g. 96 instead of 0.96)
+function toRatio(value: number): number {
+  return value > 1 ? value / 100 : value;
+}
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as fsSync from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PortfolioRegistry, summarizeProject, summarizePortfolio } from './portfolio.js';
+import { MS_PER_MONTH } from './calculator.js';
+import { StateStore } from '../../storage/state-store.js';
+import type { PortfolioProject, PortfolioProjectSummary } from '../../types/index.js';
+
+vi.mock('fs/promises', () => ({
+  readFile: vi.fn(),
+  writeFile: vi.fn(),
+  mkdir: vi.fn(),
+  stat: vi.fn(),
+}));
+
+// Serve file contents by absolute path, as if only these files existed
+const mockFiles = (files: Record<string, unknown>): void => {
+  (fs.readFile as any).mockImplementation(async (filePath: string) => {
+    if (!(filePath in files)) throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+    return JSON.stringify(files[filePath]);
+  });
+};
+
+describe('Portfolio ROI', () => {
+  const project: PortfolioProject = { name: 'acme', path: '/work/acme', addedAt: new Date('2024-01-01') };
+  const baseline = {
+    establishedAt: new Date('2024-01-01'),
+    developmentCost: 20000,
+    currentSaasSpend: 1000,
+    teamSize: 5,
+    currentProcessingHours: 40,
+    errorRateBaseline: 0.05,
+    accuracyBaseline: 0.85,
+    complianceScore: 0.7,
+    customerSatisfactionScore: 7.5,
+  };
+  const snapshot = (financial: Record<string, number>): unknown => ({
+    id: 'roi_1',
+    projectId: 'acme',
+    timestamp: new Date('2024-05-01'),
+    metrics: { financial },
+    baseline,
+    period: { startDate: baseline.establishedAt, endDate: new Date(baseline.establishedAt.getTime() + 4 * MS_PER_MONTH) },
+    statisticalSignificance: { pValue: 0.5, isSignificant: false },
+  });
+
+  const summary = (name: string, investment: number, netBenefit: number): PortfolioProjectSummary => ({
+    project: { name, path: `/work/${name}`, addedAt: new Date('2024-01-01') },
+    status: 'tracked',
+    investment,
+    netBenefit,
+    roi: (netBenefit / investment) * 100,
+    monthsInOperation: 6,
+    breakEven: { status: netBenefit >= 0 ? 'reached' : 'on-track', monthsRemaining: netBenefit >= 0 ? 0 : 3 },
+    latestCheck: new Date('2024-07-01'),
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('summarizeProject', () => {
+    let tracked: PortfolioProject;
+
+    // Files an earlier version of the CLI left in the project's .quallaa/
+    const writeProjectFiles = (files: Record<string, unknown>): void => {
+      fsSync.mkdirSync(path.join(tracked.path, '.quallaa'), { recursive: true });
+      for (const [name, data] of Object.entries(files)) {
+        fsSync.writeFileSync(path.join(tracked.path, '.quallaa', name), JSON.stringify(data));
+      }
+    };
+
+    // The project's own CLI imports them into its store the first time it runs there
+    const writeProjectState = (files: Record<string, unknown>): void => {
+      writeProjectFiles(files);
+      StateStore.open(tracked.path).close();
+    };
+
+    beforeEach(() => {
+      tracked = { ...project, path: fsSync.mkdtempSync(path.join(os.tmpdir(), 'quallaa-portfolio-')) };
+    });
+
+    afterEach(() => {
+      fsSync.rmSync(tracked.path, { recursive: true, force: true });
+    });
+
+    it('should report months left to break even from the latest check', async () => {
+      writeProjectState({
+        'roi-baseline.json': baseline,
+        'roi-snapshots.json': [
+          snapshot({ cumulativeSavings: 12000, maintenanceCosts: 400, breakEvenMonths: 7, currentROI: -42 }),
+        ],
+      });
+
+      const result = await summarizeProject(tracked);
+
+      expect(result).toMatchObject({ status: 'tracked', investment: 20000, netBenefit: -8400, roi: -42 });
+      expect(result.monthsInOperation).toBeCloseTo(4);
+      expect(result.breakEven.status).toBe('on-track');
+      expect(result.breakEven.monthsRemaining).toBeCloseTo(3);
+    });
+
+    it('should flag projects that never break even at the current rate', async () => {
+      writeProjectState({
+        'roi-baseline.json': baseline,
+        'roi-snapshots.json': [
+          snapshot({ cumulativeSavings: 0, maintenanceCosts: 0, breakEvenMonths: null as unknown as number, currentROI: -100 }),
+        ],
+      });
+
+      expect((await summarizeProject(tracked)).breakEven.status).toBe('not-on-track');
+    });
+
+    it('should note projects without a baseline', async () => {
+      expect((await summarizeProject(tracked)).status).toBe('no-baseline');
+      expect(fsSync.existsSync(path.join(tracked.path, '.quallaa'))).toBe(false);
+    });
+
+    it('should leave a project\'s files alone until its own CLI imports them', async () => {
+      writeProjectFiles({ 'roi-baseline.json': baseline });
+
+      expect((await summarizeProject(tracked)).status).toBe('no-baseline');
+      expect(fsSync.readdirSync(path.join(tracked.path, '.quallaa'))).toEqual(['roi-baseline.json']);
+    });
+
+    it('should note projects with a baseline but no checks', async () => {
+      writeProjectState({ 'roi-baseline.json': baseline });
+      expect(await summarizeProject(tracked)).toMatchObject({ status: 'no-checks', investment: 20000, roi: null });
+    });
+  });
+
+  describe('summarizePortfolio', () => {
+    it('should weight blended ROI by investment and rank by ROI', () => {
+      const portfolio = summarizePortfolio([
+        summary('small-win', 10000, 5000),
+        summary('big-loss', 90000, -45000),
+        summary('steady', 20000, 2000),
+      ]);
+
+      expect(portfolio.totalInvestment).toBe(120000);
+      expect(portfolio.totalNetBenefit).toBe(-38000);
+      expect(portfolio.blendedROI).toBeCloseTo((-38000 / 120000) * 100);
+      expect(portfolio.projects.map(project => project.project.name)).toEqual(['small-win', 'steady', 'big-loss']);
+      expect(portfolio.best?.project.name).toBe('small-win');
+      expect(portfolio.worst?.project.name).toBe('big-loss');
+    });
+
+    it('should count untracked investment without letting it into blended ROI', () => {
+      const waiting: PortfolioProjectSummary = { ...summary('waiting', 30000, 0), status: 'no-checks', roi: null };
+      const portfolio = summarizePortfolio([waiting, summary('steady', 20000, 2000)]);
+
+      expect(portfolio.totalInvestment).toBe(50000);
+      expect(portfolio.blendedROI).toBeCloseTo(10);
+      expect(portfolio.projects[1].project.name).toBe('waiting');
+      expect(portfolio.worst).toBeNull();
+    });
+  });
+
+  describe('PortfolioRegistry', () => {
+    it('should store absolute paths and replace projects with the same name', async () => {
+      (fs.stat as any).mockResolvedValue({ isDirectory: () => true });
+      mockFiles({ '/home/me/portfolio.json': [project] });
+
+      await new PortfolioRegistry('/home/me/portfolio.json').add({ name: 'acme', path: 'clients/acme' });
+
+      const written: PortfolioProject[] = JSON.parse((fs.writeFile as any).mock.calls[0][1]);
+      expect(written).toHaveLength(1);
+      expect(written[0].path).toBe(path.resolve('clients/acme'));
+    });
+
+    it('should reject missing directories and paths already registered', async () => {
+      const registry = new PortfolioRegistry('/home/me/portfolio.json');
+      mockFiles({ '/home/me/portfolio.json': [project] });
+
+      (fs.stat as any).mockRejectedValue(Object.assign(new Error('ENOENT'), { code: 'ENOENT' }));
+      await expect(registry.add({ name: 'ghost', path: '/work/ghost' })).rejects.toThrow('Project directory not found: /work/ghost');
+
+      (fs.stat as any).mockResolvedValue({ isDirectory: () => true });
+      await expect(registry.add({ name: 'acme-2', path: '/work/acme' })).rejects.toThrow('already in the portfolio as "acme"');
+    });
+  });
+});
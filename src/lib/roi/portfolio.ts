@@ -0,0 +1,169 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PortfolioProject, PortfolioProjectSummary, PortfolioSummary, ROIBaseline, ROISnapshot } from '../../types/index.js';
+import { MS_PER_MONTH } from './calculator.js';
+import { StateStore } from '../../storage/state-store.js';
+
+/**
+ * Portfolio ROI
+ * Registers project directories in ~/.quallaa/portfolio.json and aggregates each project's
+ * own .quallaa/ baseline and snapshots into totals and a ranking across projects.
+ */
+
+export const DEFAULT_PORTFOLIO_PATH = path.join(os.homedir(), '.quallaa', 'portfolio.json');
+
+/**
+ * Registered projects
+ */
+export class PortfolioRegistry {
+  constructor(private registryPath: string = DEFAULT_PORTFOLIO_PATH) {}
+
+  async list(): Promise<PortfolioProject[]> {
+    try {
+      const projects: PortfolioProject[] = JSON.parse(await fs.readFile(this.registryPath, 'utf-8'));
+
+      // Convert date strings back to Date objects
+      projects.forEach(project => {
+        project.addedAt = new Date(project.addedAt);
+      });
+
+      return projects;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Register a project directory, replacing any project with the same name
+   */
+  async add(project: Omit<PortfolioProject, 'addedAt'>): Promise<PortfolioProject> {
+    const projectPath = path.resolve(project.path);
+    const stats = await fs.stat(projectPath).catch(() => null);
+    if (!stats?.isDirectory()) {
+      throw new Error(`Project directory not found: ${projectPath}`);
+    }
+
+    const projects = await this.list();
+    const samePath = projects.find(existing => existing.path === projectPath && existing.name !== project.name);
+    if (samePath) {
+      throw new Error(`${projectPath} is already in the portfolio as "${samePath.name}"`);
+    }
+
+    const added: PortfolioProject = { ...project, path: projectPath, addedAt: new Date() };
+    const index = projects.findIndex(existing => existing.name === project.name);
+    await this.write(index >= 0 ? projects.map((existing, i) => i === index ? added : existing) : [...projects, added]);
+    return added;
+  }
+
+  /**
+   * Unregister a project, returning false when there was none by that name
+   */
+  async remove(name: string): Promise<boolean> {
+    const projects = await this.list();
+    const remaining = projects.filter(project => project.name !== name);
+    if (remaining.length === projects.length) return false;
+
+    await this.write(remaining);
+    return true;
+  }
+
+  private async write(projects: PortfolioProject[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.registryPath), { recursive: true });
+    await fs.writeFile(this.registryPath, JSON.stringify(projects, null, 2), 'utf-8');
+  }
+}
+
+/**
+ * Where one project stands, from its current baseline and latest check
+ */
+export async function summarizeProject(project: PortfolioProject): Promise<PortfolioProjectSummary> {
+  // Read-only, so reporting never creates or migrates state in another project's directory
+  const store = StateStore.openReadOnly(project.path);
+  let baseline: ROIBaseline | null;
+  let snapshots: ROISnapshot[];
+  try {
+    baseline = store?.currentBaseline() ?? null;
+    // Each project keeps its own .quallaa/, so every snapshot in it belongs to the project
+    snapshots = store?.listSnapshots() ?? [];
+  } finally {
+    store?.close();
+  }
+
+  if (!baseline) {
+    return {
+      project,
+      status: 'no-baseline',
+      investment: 0,
+      netBenefit: 0,
+      roi: null,
+      monthsInOperation: 0,
+      breakEven: { status: 'unknown', monthsRemaining: null },
+      latestCheck: null,
+    };
+  }
+
+  const latest = snapshots[snapshots.length - 1];
+  if (!latest) {
+    return {
+      project,
+      status: 'no-checks',
+      investment: baseline.developmentCost,
+      netBenefit: 0,
+      roi: null,
+      monthsInOperation: 0,
+      breakEven: { status: 'unknown', monthsRemaining: null },
+      latestCheck: null,
+    };
+  }
+
+  const { cumulativeSavings, maintenanceCosts, breakEvenMonths, currentROI } = latest.metrics.financial;
+  const netBenefit = cumulativeSavings - maintenanceCosts - baseline.developmentCost;
+  const monthsInOperation = Math.max(0, (latest.period.endDate.getTime() - latest.period.startDate.getTime()) / MS_PER_MONTH);
+
+  let breakEven: PortfolioProjectSummary['breakEven'];
+  if (netBenefit >= 0) {
+    breakEven = { status: 'reached', monthsRemaining: 0 };
+  } else if (Number.isFinite(breakEvenMonths)) {
+    breakEven = { status: 'on-track', monthsRemaining: Math.max(0, breakEvenMonths - monthsInOperation) };
+  } else {
+    breakEven = { status: 'not-on-track', monthsRemaining: null };
+  }
+
+  return {
+    project,
+    status: 'tracked',
+    investment: baseline.developmentCost,
+    netBenefit,
+    roi: currentROI,
+    monthsInOperation,
+    breakEven,
+    latestCheck: latest.timestamp,
+  };
+}
+
+/**
+ * Totals and ranking across projects
+ * Blended ROI weights each project by its investment: total net benefit over total investment
+ * of the projects that have been checked.
+ */
+export function summarizePortfolio(projects: PortfolioProjectSummary[]): PortfolioSummary {
+  const tracked = projects
+    .filter(summary => summary.status === 'tracked')
+    .sort((a, b) => (b.roi ?? 0) - (a.roi ?? 0));
+  const untracked = projects.filter(summary => summary.status !== 'tracked');
+  const trackedInvestment = tracked.reduce((sum, summary) => sum + summary.investment, 0);
+  const totalNetBenefit = tracked.reduce((sum, summary) => sum + summary.netBenefit, 0);
+
+  return {
+    projects: [...tracked, ...untracked],
+    totalInvestment: projects.reduce((sum, summary) => sum + summary.investment, 0),
+    totalNetBenefit,
+    blendedROI: trackedInvestment > 0 ? (totalNetBenefit / trackedInvestment) * 100 : null,
+    best: tracked[0] ?? null,
+    worst: tracked.length > 1 ? tracked[tracked.length - 1] : null,
+  };
+}
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fs from 'fs/promises';
+import { generateRecommendations, loadRecommendationConfig, RecommendationContext } from './recommendations.js';
+import { compareToBenchmarks } from './benchmarks.js';
+import { amountFormatter } from '../evaluators/formatting.js';
+import { ROICalculator } from './calculator.js';
+import { roiBaseline, roiCheck } from '../../test/roi-fixtures.js';
+import type { BenchmarkDataset, ROISnapshot } from '../../types/index.js';
+
+vi.mock('fs/promises', () => ({
+  readFile: vi.fn(),
+}));
+
+describe('ROI recommendations', () => {
+  const calculator = new ROICalculator('/project');
+  const baseline = roiBaseline();
+
+  // Fixed peers, so the expected figures do not move with the built-in ranges
+  const peers: BenchmarkDataset = {
+    version: 'test',
+    description: 'Peers with a 67% adoption median',
+    cohorts: [{
+      template: 'all',
+      companySize: 'all',
+      metrics: {
+        hoursSavedPercent: { p10: 19, p25: 32, p50: 48, p75: 62, p90: 75 },
+        errorRateReduction: { p10: 15, p25: 28, p50: 44, p75: 58, p90: 72 },
+        paybackMonths: { p10: 3, p25: 5, p50: 8, p75: 12, p90: 18 },
+        adoptionRate: { p10: 40, p25: 54, p50: 67, p75: 79, p90: 89 },
+      },
+    }],
+  };
+
+  const contextFor = (snapshots: ROISnapshot[]): RecommendationContext => ({
+    baseline,
+    snapshots,
+    trends: [],
+    benchmarks: compareToBenchmarks(snapshots[snapshots.length - 1].metrics, peers),
+    calculate: (b, c) => calculator.calculateFinancialMetrics(b, c),
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should flag low adoption with the payback it costs', async () => {
+    const [adoption] = generateRecommendations(contextFor([await roiCheck(baseline, 6, { employeeAdoptionRate: 0.3, currentProcessingHours: 50 })]))
+      .filter(recommendation => recommendation.rule === 'low-adoption');
+
+    expect(adoption.priority).toBe('high');
+    expect(adoption.explanation).toContain('Adoption is 30%, below the peer median of 67%');
+    // 10 hours saved at 30% adoption scale to about 22 at 67%
+    expect(adoption.impact.paybackMonths).toEqual({ current: 40, projected: 18 });
+    expect(adoption.impact.summary).toBe('Raising adoption to 67% would shorten payback from 40 to 18 months and lift ROI from -85% to -67%.');
+  });
+
+  it('should notice maintenance growing faster than savings', async () => {
+    const recommendations = generateRecommendations(contextFor(await Promise.all([
+      roiCheck(baseline, 2, { maintenanceCosts: 200 }),
+      roiCheck(baseline, 6, { maintenanceCosts: 900 }),
+    ])));
+    const maintenance = recommendations.find(recommendation => recommendation.rule === 'maintenance-outpacing-savings');
+
+    expect(maintenance?.explanation).toMatch(/^Maintenance went from \$200 to \$900\/month \(\+350%\)/);
+    expect(maintenance?.impact.paybackMonths).toEqual({ current: 50, projected: 24 });
+  });
+
+  it('should put projects that never pay back first', async () => {
+    const recommendations = generateRecommendations(contextFor([await roiCheck(baseline, 3, { currentProcessingHours: 60, employeeAdoptionRate: 0.9 })]));
+
+    expect(recommendations[0]).toMatchObject({ rule: 'no-payback', priority: 'high' });
+    expect(recommendations[0].explanation).toBe('The project is not saving anything yet, so it never pays back at this rate.');
+    expect(recommendations[0].impact.summary).toContain('Another $1,250/month');
+    expect(recommendations.map(recommendation => recommendation.priority))
+      .toEqual([...recommendations.map(recommendation => recommendation.priority)].sort((a, b) => ['high', 'medium', 'low'].indexOf(a) - ['high', 'medium', 'low'].indexOf(b)));
+  });
+
+  it('should point out estimated inputs with the simulation spreads they cost', async () => {
+    const latest = await roiCheck(baseline, 6);
+    latest.inputs!.currentAccuracy = { value: 0.9, source: 'estimated' };
+    const { lower, upper } = latest.metrics.confidenceInterval;
+
+    const [recommendation] = generateRecommendations(contextFor([latest])).filter(recommendation => recommendation.rule === 'estimated-inputs');
+
+    expect(recommendation.explanation).toBe('Accuracy is typed in rather than measured by an evaluator.');
+    expect(recommendation.impact.summary)
+      .toContain(`Measured inputs vary ±5% in the ROI simulation instead of ±20%, narrowing today's range of ${lower.toFixed(0)}% to ${upper.toFixed(0)}%.`);
+  });
+
+  it('should apply custom rules and skip disabled built-in ones', async () => {
+    const recommendations = generateRecommendations(contextFor([await roiCheck(baseline, 6, { employeeAdoptionRate: 0.3, maintenanceCosts: 300 })]), {
+      disable: ['low-adoption'],
+      rules: [{
+        id: 'maintenance-budget',
+        metric: 'financial.maintenanceCosts',
+        above: 1200,
+        priority: 'high',
+        title: 'Renegotiate hosting',
+        explanation: 'Maintenance is ${value} so far, over the ${threshold} budget.',
+        whatIf: { maintenanceCosts: 100 },
+      }],
+    });
+
+    expect(recommendations.some(recommendation => recommendation.rule === 'low-adoption')).toBe(false);
+    expect(recommendations[0]).toMatchObject({
+      rule: 'maintenance-budget',
+      source: 'custom',
+      explanation: 'Maintenance is $1,800 so far, over the $1,200 budget.',
+      impact: { paybackMonths: { current: 25, projected: 22 } },
+    });
+    expect(recommendations[0].impact.summary).toMatch(/^Changing maintenanceCosts to \$100 would shorten payback from 25 to 22 months/);
+  });
+
+  it('should write every dollar amount with the formatter it is given', async () => {
+    const recommendations = generateRecommendations({
+      ...contextFor(await Promise.all([roiCheck(baseline, 2, { maintenanceCosts: 200 }), roiCheck(baseline, 6, { maintenanceCosts: 900 })])),
+      formatAmount: amountFormatter(true),
+    }, {
+      rules: [{
+        id: 'maintenance-budget',
+        metric: 'financial.maintenanceCosts',
+        above: 1200,
+        title: 'Renegotiate hosting',
+        explanation: 'Maintenance is ${value} so far, over the {threshold} budget.',
+        whatIf: { maintenanceCosts: 100 },
+      }],
+    });
+    const text = recommendations.map(recommendation => `${recommendation.explanation} ${recommendation.impact.summary}`).join('\n');
+
+    expect(text).toContain('Maintenance went from $••• to $•••/month');
+    expect(text).toContain('Maintenance is $••• so far, over the $••• budget. Changing maintenanceCosts to $•••');
+    expect(text).not.toMatch(/\$\d/);
+  });
+
+  it('should scale hours saved when a custom rule changes adoption', async () => {
+    const [recommendation] = generateRecommendations(contextFor([await roiCheck(baseline, 6, { employeeAdoptionRate: 0.3, currentProcessingHours: 50 })]), {
+      disable: ['low-adoption'],
+      rules: [{
+        id: 'adoption-drive',
+        metric: 'productivity.employeeAdoptionRate',
+        below: 50,
+        title: 'Run an adoption drive',
+        explanation: 'Adoption is ${value}%.',
+        whatIf: { employeeAdoptionRate: 0.67 },
+      }],
+    }).filter(recommendation => recommendation.rule === 'adoption-drive');
+
+    // The same estimate as the built-in low-adoption rule for the peer median of 67%
+    expect(recommendation.impact.paybackMonths).toEqual({ current: 40, projected: 18 });
+  });
+
+  describe('loadRecommendationConfig', () => {
+    it('should use no custom rules when there is no config file', async () => {
+      (fs.readFile as any).mockRejectedValue({ code: 'ENOENT' });
+
+      expect(await loadRecommendationConfig('/project')).toEqual({});
+    });
+
+    it('should reject unknown rules and custom rules without a condition or impact', async () => {
+      (fs.readFile as any).mockResolvedValue(JSON.stringify({ disable: ['low-adoptoin'] }));
+      await expect(loadRecommendationConfig('/project')).rejects.toThrow('Invalid evaluators/recommendations.json: disable: unknown rule "low-adoptoin"');
+
+      (fs.readFile as any).mockResolvedValue(JSON.stringify({ rules: [{ id: 'x', metric: 'financial.currentROI', title: 't', explanation: 'e', impact: 'i' }] }));
+      await expect(loadRecommendationConfig('/project')).rejects.toThrow('rules[0] needs a condition: below, above or trend');
+
+      (fs.readFile as any).mockResolvedValue(JSON.stringify({ rules: [{ id: 'x', metric: 'financial.currentROI', below: 0, title: 't', explanation: 'e' }] }));
+      await expect(loadRecommendationConfig('/project')).rejects.toThrow('rules[0] needs whatIf inputs or an impact statement');
+
+      (fs.readFile as any).mockResolvedValue(JSON.stringify({ rules: [{ id: 'x', metric: 'financial.currentROI', below: 0, title: 't', explanation: 'e', whatIf: { employeeAdoptionRate: 67 } }] }));
+      await expect(loadRecommendationConfig('/project')).rejects.toThrow('rules[0].whatIf.employeeAdoptionRate must be a fraction from 0 to 1');
+    });
+  });
+});
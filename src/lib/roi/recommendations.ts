@@ -0,0 +1,468 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  BenchmarkComparison,
+  BenchmarkPlacement,
+  Recommendation,
+  RecommendationImpact,
+  RecommendationPriority,
+  ROIBaseline,
+  ROIInputs,
+  ROISnapshot,
+  ROITrend,
+} from '../../types/index.js';
+import { MS_PER_MONTH, withAdoptionRate } from './calculator.js';
+import { blendedHourlyRate } from './labour.js';
+import { inputsFromSnapshot } from './measurements.js';
+import { AmountFormatter, amountFormatter } from '../evaluators/formatting.js';
+import { FINANCIAL_AMOUNTS, INPUT_AMOUNTS } from './report.js';
+import { DEFAULT_SPREAD, ROIEvaluator } from './simulation.js';
+
+/**
+ * ROI recommendations
+ * Rules inspect the latest check, the trends across checks and the peer benchmarks, and each
+ * one that fires explains what it saw and what fixing it is worth. Impacts are what-if
+ * recalculations of the latest check's inputs, so they use the same formula as the ROI itself.
+ * Teams add their own threshold rules, or turn built-in ones off, in evaluators/recommendations.json.
+ */
+
+export const RECOMMENDATIONS_CONFIG_PATH = 'evaluators/recommendations.json';
+
+export const RECOMMENDATION_PRIORITIES: RecommendationPriority[] = ['high', 'medium', 'low'];
+
+// Payback the no-payback rule asks the project to reach
+const TARGET_PAYBACK_MONTHS = 24;
+// Months ahead the declining-ROI rule projects the trend
+const TREND_HORIZON_MONTHS = 6;
+// Inputs whose estimates matter most to ROI, checked by the estimated-inputs rule
+const KEY_MEASURED_INPUTS: Array<{ input: keyof ROIInputs; label: string }> = [
+  { input: 'currentProcessingHours', label: 'manual hours' },
+  { input: 'currentAccuracy', label: 'accuracy' },
+  { input: 'currentErrorRate', label: 'error rate' },
+];
+
+// Inputs custom rules may change in their what-if estimate
+const WHAT_IF_INPUTS: Array<keyof ROIInputs> = [
+  'currentSaasSpend',
+  'maintenanceCosts',
+  'currentProcessingHours',
+  'employeeAdoptionRate',
+  'currentAccuracy',
+  'currentErrorRate',
+];
+
+export interface RecommendationContext {
+  baseline: ROIBaseline;
+  snapshots: ROISnapshot[]; // Oldest first; the last one is the check being reported
+  trends: ROITrend[];
+  benchmarks: BenchmarkComparison;
+  calculate: ROIEvaluator;
+  formatAmount?: AmountFormatter; // How dollar amounts are written, e.g. redacted for sharing; whole dollars by default
+}
+
+export interface CustomRecommendationRule {
+  id: string;
+  metric: string; // Path into the latest check's metrics, e.g. "productivity.employeeAdoptionRate"
+  below?: number;
+  above?: number;
+  trend?: ROITrend['trend']; // Needs a metric the report tests for trends
+  priority?: RecommendationPriority;
+  title: string;
+  explanation: string; // {value} and {threshold} are replaced
+  whatIf?: Partial<ROIInputs>; // Inputs to change for the impact estimate
+  impact?: string; // Stated impact, for rules whose effect ROI cannot show
+}
+
+export interface RecommendationConfig {
+  disable?: string[]; // Built-in rule ids to turn off
+  rules?: CustomRecommendationRule[];
+}
+
+type RuleResult = Omit<Recommendation, 'rule' | 'source'> | null;
+
+interface RecommendationRule {
+  id: string;
+  evaluate: (context: RecommendationContext) => RuleResult;
+}
+
+export const BUILT_IN_RULES: RecommendationRule[] = [
+  {
+    id: 'no-payback',
+    evaluate: (context): RuleResult => {
+      const money = amountsFor(context);
+      const latest = latestSnapshot(context);
+      if (Number.isFinite(latest.metrics.financial.breakEvenMonths)) return null;
+
+      const months = monthsOf(latest);
+      const monthlySavings = latest.metrics.financial.cumulativeSavings / months;
+      const monthlyMaintenance = latest.metrics.financial.maintenanceCosts / months;
+      const needed = context.baseline.developmentCost / TARGET_PAYBACK_MONTHS - (monthlySavings - monthlyMaintenance);
+      return {
+        priority: 'high',
+        title: 'Get monthly savings above running costs',
+        explanation: monthlyMaintenance > 0
+          ? `Savings of ${money(monthlySavings)}/month do not cover maintenance of ${money(monthlyMaintenance)}/month, so the project never pays back at this rate.`
+          : 'The project is not saving anything yet, so it never pays back at this rate.',
+        impact: { summary: `Another ${money(needed)}/month in savings or lower maintenance would pay back the ${money(context.baseline.developmentCost)} build within ${TARGET_PAYBACK_MONTHS} months.` },
+      };
+    },
+  },
+  {
+    id: 'roi-declining',
+    evaluate: (context): RuleResult => {
+      const trend = context.trends.find(entry => entry.metric === 'financial.currentROI');
+      if (trend?.trend !== 'declining' || !trend.statistics?.comparison) return null;
+
+      const { slopePerMonth, changePoint, comparison } = trend.statistics;
+      const since = changePoint && trend.statistics.split === 'change-point' ? ` since ${changePoint.timestamp.toLocaleDateString()}` : '';
+      return {
+        priority: 'high',
+        title: 'Find out why ROI is falling',
+        explanation: `ROI has dropped${since} (p = ${comparison.pValue.toFixed(3)}, ${slopePerMonth.toFixed(1)} points/month). Check whether savings fell or costs rose around then.`,
+        impact: { summary: `At this rate ROI falls another ${Math.abs(slopePerMonth * TREND_HORIZON_MONTHS).toFixed(0)} points over the next ${TREND_HORIZON_MONTHS} months.` },
+      };
+    },
+  },
+  {
+    id: 'maintenance-outpacing-savings',
+    evaluate: (context): RuleResult => {
+      const money = amountsFor(context);
+      if (context.snapshots.length < 2) return null;
+      const first = context.snapshots[0];
+      const latest = latestSnapshot(context);
+      const monthly = (snapshot: ROISnapshot, value: number): number => value / monthsOf(snapshot);
+      const maintenance = [monthly(first, first.metrics.financial.maintenanceCosts), monthly(latest, latest.metrics.financial.maintenanceCosts)];
+      const savings = [monthly(first, first.metrics.financial.cumulativeSavings), monthly(latest, latest.metrics.financial.cumulativeSavings)];
+      if (maintenance[1] <= maintenance[0]) return null;
+
+      const maintenanceGrowth = maintenance[0] > 0 ? maintenance[1] / maintenance[0] - 1 : Infinity;
+      const savingsGrowth = savings[0] > 0 ? savings[1] / savings[0] - 1 : 0;
+      if (maintenanceGrowth <= savingsGrowth) return null;
+
+      const estimate = estimateWhatIf(context, inputs => ({ ...inputs, maintenanceCosts: maintenance[0] }));
+      return {
+        priority: savings[1] <= maintenance[1] ? 'high' : 'medium',
+        title: 'Maintenance costs are growing faster than savings',
+        explanation: `Maintenance went from ${money(maintenance[0])} to ${money(maintenance[1])}/month${Number.isFinite(maintenanceGrowth) ? ` (${formatChange(maintenanceGrowth)})` : ''} since ${first.timestamp.toLocaleDateString()}, while savings changed ${formatChange(savingsGrowth)}.`,
+        impact: withEstimate(`Holding maintenance at ${money(maintenance[0])}/month`, estimate),
+      };
+    },
+  },
+  {
+    id: 'low-adoption',
+    evaluate: (context): RuleResult => {
+      const adoption = findPlacement(context.benchmarks, 'adoptionRate');
+      if (!adoption || adoption.value >= adoption.peers.p50) return null;
+
+      const target = adoption.peers.p50;
+      const estimate = estimateWhatIf(context, inputs => withAdoptionRate(context.baseline, inputs, target / 100));
+      return {
+        priority: adoption.percentile < 25 ? 'high' : 'medium',
+        title: 'Raise team adoption',
+        explanation: `Adoption is ${adoption.value.toFixed(0)}%, below the peer median of ${target.toFixed(0)}%. Hours saved only grow as more of the team uses the system, so savings are capped near today's level.`,
+        impact: withEstimate(`Raising adoption to ${target.toFixed(0)}%`, estimate),
+      };
+    },
+  },
+  {
+    id: 'slow-payback',
+    evaluate: (context): RuleResult => {
+      const money = amountsFor(context);
+      const payback = findPlacement(context.benchmarks, 'paybackMonths');
+      if (!payback || !Number.isFinite(payback.value) || payback.percentile >= 25) return null;
+
+      const latest = latestSnapshot(context);
+      const months = monthsOf(latest);
+      const monthlyNet = (latest.metrics.financial.cumulativeSavings - latest.metrics.financial.maintenanceCosts) / months;
+      const hourlyRate = blendedHourlyRate(context.baseline.labourCostModel);
+      const neededHours = Math.ceil((context.baseline.developmentCost / payback.peers.p50 - monthlyNet) / hourlyRate);
+      // Cannot save more hours than are still done by hand
+      const remainingHours = inputsFromSnapshot(latest)?.currentProcessingHours ?? Infinity;
+      const extraHours = Math.min(neededHours, remainingHours);
+      const estimate = estimateWhatIf(context, inputs => ({ ...inputs, currentProcessingHours: Math.max(0, inputs.currentProcessingHours - extraHours) }));
+      const change = extraHours < neededHours
+        ? `Automating all ${extraHours} remaining manual hours a month at ${money(hourlyRate)}/hour`
+        : `Saving about ${extraHours} more manual hours a month at ${money(hourlyRate)}/hour`;
+      return {
+        priority: 'medium',
+        title: 'Shorten payback',
+        explanation: `Payback of ${payback.value} months is slower than ${100 - payback.percentile}% of peers (median ${payback.peers.p50} months).`,
+        impact: withEstimate(change, estimate),
+      };
+    },
+  },
+  {
+    id: 'saas-spend-unchanged',
+    evaluate: (context): RuleResult => {
+      const money = amountsFor(context);
+      const inputs = inputsFromSnapshot(latestSnapshot(context));
+      if (!inputs || context.baseline.currentSaasSpend <= 0 || inputs.currentSaasSpend < context.baseline.currentSaasSpend) return null;
+
+      const estimate = estimateWhatIf(context, current => ({ ...current, currentSaasSpend: 0 }));
+      return {
+        priority: 'medium',
+        title: 'Cancel the tools this project replaces',
+        explanation: `SaaS spend is still ${money(inputs.currentSaasSpend)}/month, no lower than the ${money(context.baseline.currentSaasSpend)}/month before the project.`,
+        impact: withEstimate(`If the project replaces them, cancelling all ${money(context.baseline.currentSaasSpend)}/month`, estimate),
+      };
+    },
+  },
+  {
+    id: 'low-error-reduction',
+    evaluate: (context): RuleResult => {
+      const errors = findPlacement(context.benchmarks, 'errorRateReduction');
+      if (!errors || errors.percentile >= 25) return null;
+
+      return {
+        priority: 'low',
+        title: 'Cut more errors',
+        explanation: `Errors are down ${errors.value.toFixed(0)}%, less than ${100 - errors.percentile}% of peers manage (median ${errors.peers.p50.toFixed(0)}%).`,
+        impact: { summary: `Reaching the peer median would remove another ${(errors.peers.p50 - errors.value).toFixed(0)}% of the errors you had before the project.` },
+      };
+    },
+  },
+  {
+    id: 'estimated-inputs',
+    evaluate: (context): RuleResult => {
+      const latest = latestSnapshot(context);
+      if (!latest.inputs) return null;
+      const estimated = KEY_MEASURED_INPUTS.filter(({ input }) => latest.inputs?.[input]?.source === 'estimated');
+      if (estimated.length === 0) return null;
+
+      const { lower, upper } = latest.metrics.confidenceInterval;
+      return {
+        priority: 'low',
+        title: 'Measure the inputs that are still estimates',
+        explanation: `${capitalize(listItems(estimated.map(entry => entry.label)))} ${estimated.length === 1 ? 'is' : 'are'} typed in rather than measured by an evaluator.`,
+        impact: { summary: `Measured inputs vary ±${Math.round(DEFAULT_SPREAD.measured * 100)}% in the ROI simulation instead of ±${Math.round(DEFAULT_SPREAD.estimated * 100)}%, narrowing today's range of ${lower.toFixed(0)}% to ${upper.toFixed(0)}%. Run quallaa evaluators init to add evaluators.` },
+      };
+    },
+  },
+];
+
+/**
+ * Every recommendation that applies, highest priority first, then the largest estimated gain
+ */
+export function generateRecommendations(context: RecommendationContext, config: RecommendationConfig = {}): Recommendation[] {
+  const disabled = new Set(config.disable ?? []);
+  const recommendations: Recommendation[] = [];
+
+  for (const rule of BUILT_IN_RULES) {
+    if (disabled.has(rule.id)) continue;
+    const result = rule.evaluate(context);
+    if (result) recommendations.push({ rule: rule.id, source: 'built-in', ...result });
+  }
+  for (const rule of config.rules ?? []) {
+    const result = evaluateCustomRule(rule, context);
+    if (result) recommendations.push(result);
+  }
+
+  const gain = (recommendation: Recommendation): number => {
+    const payback = recommendation.impact.paybackMonths;
+    if (payback) return (payback.current - payback.projected) || 0; // Infinity - Infinity is NaN
+    const roi = recommendation.impact.roi;
+    return roi ? (roi.projected - roi.current) / 100 : 0;
+  };
+  return recommendations.sort((a, b) =>
+    RECOMMENDATION_PRIORITIES.indexOf(a.priority) - RECOMMENDATION_PRIORITIES.indexOf(b.priority) || gain(b) - gain(a)
+  );
+}
+
+/**
+ * Load evaluators/recommendations.json, returning an empty config when the file does not exist
+ */
+export async function loadRecommendationConfig(projectPath: string = process.cwd()): Promise<RecommendationConfig> {
+  let config: RecommendationConfig;
+  try {
+    config = JSON.parse(await fs.readFile(path.join(projectPath, RECOMMENDATIONS_CONFIG_PATH), 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw new Error(`Invalid ${RECOMMENDATIONS_CONFIG_PATH}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  try {
+    validateRecommendationConfig(config);
+  } catch (error) {
+    throw new Error(`Invalid ${RECOMMENDATIONS_CONFIG_PATH}: ${error instanceof Error ? error.message : error}`);
+  }
+  return config;
+}
+
+/**
+ * Check disabled ids exist and every custom rule has a condition, a message and an impact
+ */
+export function validateRecommendationConfig(config: RecommendationConfig): void {
+  const builtIn = BUILT_IN_RULES.map(rule => rule.id);
+  for (const id of config.disable ?? []) {
+    if (!builtIn.includes(id)) {
+      throw new Error(`disable: unknown rule "${id}" (built-in rules: ${builtIn.join(', ')})`);
+    }
+  }
+
+  const ids = new Set<string>(builtIn);
+  (config.rules ?? []).forEach((rule, index) => {
+    const at = `rules[${index}]`;
+    if (typeof rule.id !== 'string' || rule.id.trim() === '') throw new Error(`${at}.id must be a non-empty string`);
+    if (ids.has(rule.id)) throw new Error(`${at}.id "${rule.id}" is already used`);
+    ids.add(rule.id);
+    if (typeof rule.metric !== 'string' || !/^(financial|productivity|quality)\.\w+$/.test(rule.metric)) {
+      throw new Error(`${at}.metric must be a path such as "productivity.employeeAdoptionRate"`);
+    }
+    if (rule.below === undefined && rule.above === undefined && rule.trend === undefined) {
+      throw new Error(`${at} needs a condition: below, above or trend`);
+    }
+    for (const key of ['below', 'above'] as const) {
+      if (rule[key] !== undefined && (typeof rule[key] !== 'number' || !Number.isFinite(rule[key]))) {
+        throw new Error(`${at}.${key} must be a number`);
+      }
+    }
+    if (rule.trend !== undefined && !['improving', 'declining', 'stable'].includes(rule.trend)) {
+      throw new Error(`${at}.trend must be improving, declining or stable`);
+    }
+    if (rule.priority !== undefined && !RECOMMENDATION_PRIORITIES.includes(rule.priority)) {
+      throw new Error(`${at}.priority must be one of: ${RECOMMENDATION_PRIORITIES.join(', ')}`);
+    }
+    if (typeof rule.title !== 'string' || typeof rule.explanation !== 'string') {
+      throw new Error(`${at} needs a title and an explanation`);
+    }
+    if (rule.whatIf === undefined && typeof rule.impact !== 'string') {
+      throw new Error(`${at} needs whatIf inputs or an impact statement`);
+    }
+    for (const [input, value] of Object.entries(rule.whatIf ?? {})) {
+      if (!WHAT_IF_INPUTS.includes(input as keyof ROIInputs)) {
+        throw new Error(`${at}.whatIf.${input} is not an ROI input (use one of: ${WHAT_IF_INPUTS.join(', ')})`);
+      }
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new Error(`${at}.whatIf.${input} must be a number`);
+      }
+      if (input === 'employeeAdoptionRate' && (value < 0 || value > 1)) {
+        throw new Error(`${at}.whatIf.employeeAdoptionRate must be a fraction from 0 to 1`);
+      }
+    }
+  });
+}
+
+function evaluateCustomRule(rule: CustomRecommendationRule, context: RecommendationContext): Recommendation | null {
+  const value = readMetric(latestSnapshot(context).metrics, rule.metric);
+  if (value === undefined) return null;
+  if (rule.below !== undefined && !(value < rule.below)) return null;
+  if (rule.above !== undefined && !(value > rule.above)) return null;
+  if (rule.trend !== undefined && context.trends.find(trend => trend.metric === rule.metric)?.trend !== rule.trend) return null;
+
+  const threshold = rule.below ?? rule.above;
+  // Dollar metrics are written like every other amount, taking the place of a "$" typed before the placeholder
+  const isAmount = rule.metric.startsWith('financial.') && FINANCIAL_AMOUNTS.includes(rule.metric.slice('financial.'.length));
+  const format = (number: number): string => isAmount ? amountsFor(context)(number) : formatNumber(number);
+  const placeholder = (name: string): RegExp => new RegExp(`${isAmount ? '\\$?' : ''}\\{${name}\\}`, 'g');
+  const fill = (text: string): string => text
+    .replace(placeholder('value'), format(value))
+    .replace(placeholder('threshold'), threshold !== undefined ? format(threshold) : '');
+
+  let impact: RecommendationImpact = { summary: rule.impact ? fill(rule.impact) : '' };
+  if (rule.whatIf) {
+    // Adoption moves hours saved the way the built-in low-adoption rule does; other inputs are set as given
+    const { employeeAdoptionRate, ...changes } = rule.whatIf;
+    const estimate = estimateWhatIf(context, inputs => {
+      const adopted = employeeAdoptionRate !== undefined ? withAdoptionRate(context.baseline, inputs, employeeAdoptionRate) : inputs;
+      return adopted && { ...adopted, ...changes };
+    });
+    impact = withEstimate(
+      `Changing ${Object.entries(rule.whatIf).map(([input, target]) => `${input} to ${INPUT_AMOUNTS.includes(input as keyof ROIInputs) ? amountsFor(context)(target as number) : formatNumber(target as number)}`).join(' and ')}`,
+      estimate
+    );
+    if (rule.impact) impact.summary = `${fill(rule.impact)} ${impact.summary}`;
+  }
+
+  return {
+    rule: rule.id,
+    source: 'custom',
+    priority: rule.priority ?? 'medium',
+    title: fill(rule.title),
+    explanation: fill(rule.explanation),
+    impact,
+  };
+}
+
+type WhatIfEstimate = Required<Pick<RecommendationImpact, 'roi' | 'paybackMonths'>>;
+
+// Recalculate the latest check with changed inputs; null when it did not record its inputs or cannot be changed
+function estimateWhatIf(context: RecommendationContext, change: (inputs: ROIInputs) => ROIInputs | null): WhatIfEstimate | null {
+  const inputs = inputsFromSnapshot(latestSnapshot(context));
+  const changed = inputs && change(inputs);
+  if (!inputs || !changed) return null;
+
+  const before = context.calculate(context.baseline, inputs);
+  const after = context.calculate(context.baseline, changed);
+  return {
+    roi: { current: before.currentROI, projected: after.currentROI },
+    paybackMonths: { current: before.breakEvenMonths, projected: after.breakEvenMonths },
+  };
+}
+
+// e.g. "Raising adoption to 67% would shorten payback from 14 to 8 months and lift ROI from -20% to 15%."
+function withEstimate(change: string, estimate: WhatIfEstimate | null): RecommendationImpact {
+  if (!estimate) {
+    return { summary: `${change} would raise savings; record inputs with the next check to estimate by how much.` };
+  }
+
+  const { roi, paybackMonths } = estimate;
+  let payback: string;
+  if (paybackMonths.projected === paybackMonths.current) {
+    payback = Number.isFinite(paybackMonths.current) ? `leave payback at ${paybackMonths.current} months` : 'still not pay back';
+  } else if (!Number.isFinite(paybackMonths.current)) {
+    payback = `bring payback to ${paybackMonths.projected} months`;
+  } else if (!Number.isFinite(paybackMonths.projected)) {
+    payback = 'stop the project paying back';
+  } else {
+    payback = `${paybackMonths.projected < paybackMonths.current ? 'shorten' : 'lengthen'} payback from ${paybackMonths.current} to ${paybackMonths.projected} months`;
+  }
+  const direction = roi.projected >= roi.current ? 'lift' : 'lower';
+  return {
+    summary: `${change} would ${payback} and ${direction} ROI from ${roi.current.toFixed(0)}% to ${roi.projected.toFixed(0)}%.`,
+    roi,
+    paybackMonths,
+  };
+}
+
+function amountsFor(context: RecommendationContext): AmountFormatter {
+  return context.formatAmount ?? amountFormatter();
+}
+
+function latestSnapshot(context: RecommendationContext): ROISnapshot {
+  return context.snapshots[context.snapshots.length - 1];
+}
+
+function monthsOf(snapshot: ROISnapshot): number {
+  return Math.max(1, (snapshot.period.endDate.getTime() - snapshot.period.startDate.getTime()) / MS_PER_MONTH);
+}
+
+function findPlacement(benchmarks: BenchmarkComparison, metric: BenchmarkPlacement['metric']): BenchmarkPlacement | undefined {
+  return benchmarks.placements.find(placement => placement.metric === metric);
+}
+
+function readMetric(metrics: ROISnapshot['metrics'], metricPath: string): number | undefined {
+  const value = metricPath.split('.').reduce<unknown>(
+    (node, key) => (typeof node === 'object' && node !== null ? (node as Record<string, unknown>)[key] : undefined),
+    metrics
+  );
+  return typeof value === 'number' ? value : undefined;
+}
+
+function formatChange(ratio: number): string {
+  return `${ratio >= 0 ? '+' : ''}${(ratio * 100).toFixed(0)}%`;
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+}
+
+// e.g. "manual hours, accuracy and error rate"
+function listItems(items: string[]): string {
+  return items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items.join('');
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
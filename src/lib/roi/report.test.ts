@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { buildReportData, embedJson } from './report.js';
+import { amountFormatter } from '../evaluators/formatting.js';
+import { roiBaseline, roiCheck } from '../../test/roi-fixtures.js';
+import type { ROIInputs, ROISnapshot } from '../../types/index.js';
+
+describe('ROI report data', () => {
+  const baseline = roiBaseline({
+    developmentCost: 20000,
+    currentSaasSpend: 800,
+    labourCostModel: { roles: [{ role: 'Accountant', hourlyRate: 75, hoursShare: 1 }] },
+  });
+
+  // A check after `months` months saving $500/month of SaaS and 20 hours at $75, less $200/month of maintenance
+  const check = (months: number, current: Partial<ROIInputs> = {}): Promise<ROISnapshot> =>
+    roiCheck(baseline, months, { currentSaasSpend: 300, maintenanceCosts: 200, ...current });
+
+  it('should chart each check\'s ROI, net position and savings', async () => {
+    const paying = await check(2);
+    // Nothing saved any more, so it never pays back
+    const never = await check(5, { currentSaasSpend: 800, currentProcessingHours: 60 });
+    const data = buildReportData([paying, never]);
+    const { lower, upper } = paying.metrics.confidenceInterval;
+
+    expect(data.unit).toBe('dollars');
+    expect(data.points[0]).toEqual({
+      id: 'roi_2',
+      timestamp: paying.timestamp.toISOString(),
+      monthsInOperation: 2,
+      roi: -82,
+      confidence: { lower, upper, level: 0.95 },
+      breakEvenMonths: 12,
+      netPosition: -16400,
+      savings: { saas: 1000, operational: 3000, maintenance: 400 },
+    });
+    expect(data.points[1].breakEvenMonths).toBeNull();
+    expect(data.snapshots).toHaveLength(2);
+  });
+
+  it('should show redacted amounts as a share of the development cost and drop them from the checks', async () => {
+    const data = buildReportData([await check(5)], { redact: true });
+    const [snapshot] = data.snapshots as any[];
+
+    expect(data.unit).toBe('percent');
+    expect(data.points[0].netPosition).toBeCloseTo(-55);
+    expect(data.points[0].savings).toEqual({ saas: 12.5, operational: 37.5, maintenance: 5 });
+
+    expect(snapshot.baseline).toMatchObject({ developmentCost: null, currentSaasSpend: null, teamSize: 10 });
+    expect(snapshot.baseline.labourCostModel.roles[0]).toEqual({ role: 'Accountant', hourlyRate: null, hoursShare: 1 });
+    expect(snapshot.metrics.financial).toMatchObject({ cumulativeSavings: null, npv: null, cashFlows: null, hourlyRate: null, breakEvenMonths: 12 });
+    expect(snapshot.metrics.financial.currentROI).toBeCloseTo(-55);
+    expect(snapshot.metrics.financial.labourSavings[0]).toMatchObject({ hourlyRate: null, savings: null, hoursSaved: 100 });
+    expect(snapshot.inputs).toMatchObject({
+      currentSaasSpend: { value: null, source: 'measured' },
+      maintenanceCosts: { value: null, source: 'measured' },
+      employeeAdoptionRate: { value: 0.7, source: 'measured' },
+    });
+  });
+
+  it('should write every amount as "$•••" when redacting', () => {
+    const formatAmount = amountFormatter(true);
+
+    expect(`Saved ${formatAmount(12500)} at ${formatAmount(75, true)}/hr; NPV ${formatAmount(-3200)}`).toBe('Saved $••• at $•••/hr; NPV $•••');
+    expect(amountFormatter()(-3200)).toMatch(/^-\$3.200$/);
+    expect(amountFormatter()(1204.5, true)).toBe('$1,204.50');
+  });
+
+  it('should embed JSON that cannot close its script element', () => {
+    const embedded = embedJson({ note: '</script><script>alert(1)</script>' });
+
+    expect(embedded).not.toContain('</script>');
+    expect(JSON.parse(embedded)).toEqual({ note: '</script><script>alert(1)</script>' });
+  });
+});
@@ -0,0 +1,343 @@
+import { ROIInputs, ROISnapshot } from '../../types/index.js';
+import { MS_PER_MONTH } from './calculator.js';
+
+/**
+ * Data behind the interactive ROI report (`report --web`)
+ * The page embeds one JSON document: a point per check for the charts, and the checks as recorded
+ * so readers can audit every figure. The charts are drawn in the browser by REPORT_SCRIPT, with no
+ * external scripts, so the file works offline. Redacting replaces dollar amounts with percentages
+ * of the development cost in the charts and removes them from the recorded checks.
+ */
+
+export interface ReportPoint {
+  id: string;
+  timestamp: string;
+  monthsInOperation: number;
+  roi: number;
+  confidence: { lower: number; upper: number; level: number };
+  breakEvenMonths: number | null; // Null when the project never pays back at the current rate
+  netPosition: number; // Savings less maintenance and the development cost so far
+  savings: { saas: number; operational: number; maintenance: number };
+}
+
+export interface ReportData {
+  generatedAt: string;
+  redacted: boolean;
+  unit: 'dollars' | 'percent'; // Of netPosition and savings; percent of the development cost when redacted
+  points: ReportPoint[];
+  snapshots: unknown[]; // As recorded, without dollar amounts when redacted
+}
+
+// Fields holding dollar amounts, removed when redacting
+const BASELINE_AMOUNTS = ['developmentCost', 'currentSaasSpend'];
+export const FINANCIAL_AMOUNTS = ['developmentCost', 'saasReplacementSavings', 'operationalCostReduction', 'maintenanceCosts', 'cumulativeSavings', 'hourlyRate', 'npv', 'cashFlows'];
+export const INPUT_AMOUNTS: Array<keyof ROIInputs> = ['currentSaasSpend', 'maintenanceCosts'];
+
+/**
+ * Chart points and recorded checks for the report, oldest check first
+ */
+export function buildReportData(snapshots: ROISnapshot[], options: { redact?: boolean } = {}): ReportData {
+  const redact = options.redact ?? false;
+
+  const points = snapshots.map((snapshot): ReportPoint => {
+    const { financial, confidenceInterval } = snapshot.metrics;
+    // Redacted amounts are shown relative to the investment, the same scale as ROI
+    const amount = (value: number): number =>
+      redact ? (financial.developmentCost > 0 ? (value / financial.developmentCost) * 100 : 0) : value;
+
+    return {
+      id: snapshot.id,
+      timestamp: new Date(snapshot.timestamp).toISOString(),
+      // As the check counted them, at least one month
+      monthsInOperation: Math.max(1, (new Date(snapshot.period.endDate).getTime() - new Date(snapshot.period.startDate).getTime()) / MS_PER_MONTH),
+      roi: financial.currentROI,
+      confidence: { lower: confidenceInterval.lower, upper: confidenceInterval.upper, level: confidenceInterval.confidenceLevel },
+      breakEvenMonths: Number.isFinite(financial.breakEvenMonths) ? financial.breakEvenMonths : null,
+      netPosition: amount(financial.cumulativeSavings - financial.maintenanceCosts - financial.developmentCost),
+      savings: {
+        saas: amount(financial.saasReplacementSavings),
+        operational: amount(financial.operationalCostReduction),
+        maintenance: amount(financial.maintenanceCosts),
+      },
+    };
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    redacted: redact,
+    unit: redact ? 'percent' : 'dollars',
+    points,
+    snapshots: redact ? snapshots.map(redactSnapshot) : snapshots,
+  };
+}
+
+/**
+ * A recorded check with every dollar amount set to null; ratios, rates and months are kept
+ */
+export function redactSnapshot(snapshot: ROISnapshot): unknown {
+  const { baseline, metrics, inputs } = snapshot;
+  return {
+    ...snapshot,
+    baseline: {
+      ...withoutFields(baseline, BASELINE_AMOUNTS),
+      ...(baseline.labourCostModel && {
+        labourCostModel: { roles: baseline.labourCostModel.roles.map(role => ({ ...role, hourlyRate: null })) },
+      }),
+    },
+    metrics: {
+      ...metrics,
+      financial: {
+        ...withoutFields(metrics.financial, FINANCIAL_AMOUNTS),
+        ...(metrics.financial.labourSavings && {
+          labourSavings: metrics.financial.labourSavings.map(role => ({ ...role, hourlyRate: null, savings: null })),
+        }),
+      },
+    },
+    ...(inputs && {
+      inputs: Object.fromEntries(Object.entries(inputs).map(([key, input]) =>
+        [key, INPUT_AMOUNTS.includes(key as keyof ROIInputs) && input ? { ...input, value: null } : input])),
+    }),
+  };
+}
+
+/**
+ * JSON that can sit inside a <script> element without ending it early
+ */
+export function embedJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+function withoutFields(value: object, fields: string[]): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, fields.includes(key) ? null : entry]));
+}
+
+/**
+ * Browser script for the report: reads the embedded #roi-report-data, draws the charts as SVG and
+ * redraws them and the table of checks when the period filter changes
+ */
+export const REPORT_SCRIPT = String.raw`
+(function () {
+    var data = JSON.parse(document.getElementById('roi-report-data').textContent);
+    var points = data.points.map(function (point) {
+        return Object.assign({}, point, { time: new Date(point.timestamp).getTime() });
+    });
+    var SVG_NS = 'http://www.w3.org/2000/svg';
+    var WIDTH = 800, HEIGHT = 320;
+    var MARGIN = { top: 20, right: 20, bottom: 40, left: 80 };
+    var MS_PER_MONTH = ${MS_PER_MONTH};
+    var filter = { from: null, to: null };
+    var tooltip = document.getElementById('report-tooltip');
+
+    function node(name, attributes, text) {
+        var element = document.createElementNS(SVG_NS, name);
+        Object.keys(attributes).forEach(function (key) { element.setAttribute(key, attributes[key]); });
+        if (text !== undefined) element.textContent = text;
+        return element;
+    }
+
+    function linear(domain, range) {
+        var span = domain[1] - domain[0] || 1;
+        return function (value) { return range[0] + ((value - domain[0]) / span) * (range[1] - range[0]); };
+    }
+
+    function extent(values) {
+        var min = Math.min.apply(null, values), max = Math.max.apply(null, values);
+        var padding = (max - min) * 0.1 || 10;
+        return [min - padding, max + padding];
+    }
+
+    function percent(value) { return value.toFixed(1) + '%'; }
+    function amount(value) {
+        if (data.unit === 'percent') return percent(value) + ' of investment';
+        return (value < 0 ? '-' : '') + '$' + Math.abs(Math.round(value)).toLocaleString();
+    }
+    function axisAmount(value) { return data.unit === 'percent' ? percent(value) : amount(value); }
+    function date(time) { return new Date(time).toLocaleDateString(); }
+
+    // Draw axes and a zero line into an empty chart; returns the scales
+    function frame(svg, xDomain, yValues, xLabel, yFormat, zeroLabel) {
+        var yDomain = extent(yValues.concat(0));
+        var x = linear(xDomain, [MARGIN.left, WIDTH - MARGIN.right]);
+        var y = linear(yDomain, [HEIGHT - MARGIN.bottom, MARGIN.top]);
+        svg.appendChild(node('line', { class: 'axis', x1: MARGIN.left, y1: MARGIN.top, x2: MARGIN.left, y2: HEIGHT - MARGIN.bottom }));
+        svg.appendChild(node('line', { class: 'zero', x1: MARGIN.left, y1: y(0), x2: WIDTH - MARGIN.right, y2: y(0) }));
+        svg.appendChild(node('text', { x: WIDTH - MARGIN.right, y: y(0) - 6, 'text-anchor': 'end' }, zeroLabel));
+        [yDomain[0], yDomain[1]].forEach(function (value) {
+            svg.appendChild(node('text', { x: MARGIN.left - 8, y: y(value) + 4, 'text-anchor': 'end' }, yFormat(value)));
+        });
+        svg.appendChild(node('text', { x: (MARGIN.left + WIDTH - MARGIN.right) / 2, y: HEIGHT - 5, 'text-anchor': 'middle' }, xLabel));
+        return { x: x, y: y };
+    }
+
+    function clear(id) {
+        var svg = document.getElementById(id);
+        while (svg.firstChild) svg.removeChild(svg.firstChild);
+        return svg;
+    }
+
+    function empty(svg) {
+        svg.appendChild(node('text', { x: WIDTH / 2, y: HEIGHT / 2, 'text-anchor': 'middle' }, 'No checks in this period'));
+    }
+
+    function polyline(scale, values, className) {
+        return node('polyline', {
+            class: className,
+            points: values.map(function (value) { return scale.x(value[0]).toFixed(1) + ',' + scale.y(value[1]).toFixed(1); }).join(' '),
+        });
+    }
+
+    function dot(scale, xValue, yValue, tip) {
+        return node('circle', { class: 'dot', cx: scale.x(xValue), cy: scale.y(yValue), r: 5, 'data-tip': tip });
+    }
+
+    function timeDomain(shown) {
+        var first = shown[0].time, last = shown[shown.length - 1].time;
+        return first === last ? [first - MS_PER_MONTH, last + MS_PER_MONTH] : [first, last];
+    }
+
+    function drawROI(shown) {
+        var svg = clear('roi-chart');
+        if (shown.length === 0) return empty(svg);
+        var showBand = document.getElementById('show-band').checked;
+        var values = shown.map(function (point) { return point.roi; });
+        if (showBand) {
+            shown.forEach(function (point) { values.push(point.confidence.lower, point.confidence.upper); });
+        }
+        var scale = frame(svg, timeDomain(shown), values, 'Check date', percent, '0% ROI');
+        if (showBand) {
+            var outline = shown.map(function (point) { return [point.time, point.confidence.upper]; })
+                .concat(shown.slice().reverse().map(function (point) { return [point.time, point.confidence.lower]; }));
+            svg.appendChild(node('polygon', {
+                class: 'band',
+                points: outline.map(function (value) { return scale.x(value[0]).toFixed(1) + ',' + scale.y(value[1]).toFixed(1); }).join(' '),
+            }));
+        }
+        svg.appendChild(polyline(scale, shown.map(function (point) { return [point.time, point.roi]; }), 'line roi'));
+        shown.forEach(function (point) {
+            svg.appendChild(dot(scale, point.time, point.roi, date(point.time) + ': ROI ' + percent(point.roi) +
+                ' (' + Math.round(point.confidence.level * 100) + '% CI ' + percent(point.confidence.lower) + ' to ' + percent(point.confidence.upper) + ')'));
+        });
+        svg.appendChild(node('text', { x: MARGIN.left, y: HEIGHT - MARGIN.bottom + 16 }, date(shown[0].time)));
+        svg.appendChild(node('text', { x: WIDTH - MARGIN.right, y: HEIGHT - MARGIN.bottom + 16, 'text-anchor': 'end' }, date(shown[shown.length - 1].time)));
+    }
+
+    // Net position by month in operation, projected on to break-even at the latest check's rate
+    function drawBreakEven(shown) {
+        var svg = clear('break-even-chart');
+        if (shown.length === 0) return empty(svg);
+        var latest = shown[shown.length - 1];
+        var projected = latest.netPosition < 0 && latest.breakEvenMonths !== null && latest.breakEvenMonths > latest.monthsInOperation;
+        var lastMonth = projected ? latest.breakEvenMonths : latest.monthsInOperation;
+        var scale = frame(svg, [0, Math.max(lastMonth, 1)], shown.map(function (point) { return point.netPosition; }),
+            'Months in operation', axisAmount, 'Break-even');
+        svg.appendChild(polyline(scale, shown.map(function (point) { return [point.monthsInOperation, point.netPosition]; }), 'line net'));
+        if (projected) {
+            svg.appendChild(polyline(scale, [[latest.monthsInOperation, latest.netPosition], [latest.breakEvenMonths, 0]], 'line projection'));
+            svg.appendChild(dot(scale, latest.breakEvenMonths, 0, 'Projected break-even: month ' + latest.breakEvenMonths.toFixed(1)));
+        }
+        shown.forEach(function (point) {
+            svg.appendChild(dot(scale, point.monthsInOperation, point.netPosition,
+                date(point.time) + ' (month ' + point.monthsInOperation.toFixed(1) + '): net ' + amount(point.netPosition)));
+        });
+        svg.appendChild(node('text', { x: MARGIN.left, y: HEIGHT - MARGIN.bottom + 16 }, '0'));
+        svg.appendChild(node('text', { x: WIDTH - MARGIN.right, y: HEIGHT - MARGIN.bottom + 16, 'text-anchor': 'end' }, Math.max(lastMonth, 1).toFixed(0)));
+    }
+
+    // Savings to date per check stacked above zero, maintenance below
+    function drawSavings(shown) {
+        var svg = clear('savings-chart');
+        if (shown.length === 0) return empty(svg);
+        var values = shown.map(function (point) { return point.savings.saas + point.savings.operational; })
+            .concat(shown.map(function (point) { return -point.savings.maintenance; }));
+        var scale = frame(svg, [0, shown.length], values, 'Checks', axisAmount, '');
+        var slot = (WIDTH - MARGIN.left - MARGIN.right) / shown.length;
+        var barWidth = Math.min(60, slot * 0.6);
+        shown.forEach(function (point, index) {
+            var left = MARGIN.left + index * slot + (slot - barWidth) / 2;
+            var tip = date(point.time) + ': SaaS ' + amount(point.savings.saas) + ', operational ' + amount(point.savings.operational) +
+                ', maintenance ' + amount(-point.savings.maintenance);
+            var segments = [
+                { className: 'bar saas', from: 0, to: point.savings.saas },
+                { className: 'bar operational', from: point.savings.saas, to: point.savings.saas + point.savings.operational },
+                { className: 'bar maintenance', from: -point.savings.maintenance, to: 0 },
+            ];
+            segments.forEach(function (segment) {
+                var top = scale.y(Math.max(segment.from, segment.to)), bottom = scale.y(Math.min(segment.from, segment.to));
+                svg.appendChild(node('rect', { class: segment.className, x: left, y: top, width: barWidth, height: Math.max(0, bottom - top), 'data-tip': tip }));
+            });
+            svg.appendChild(node('text', { x: left + barWidth / 2, y: HEIGHT - MARGIN.bottom + 16, 'text-anchor': 'middle' }, date(point.time)));
+        });
+    }
+
+    function drawChecks(shown) {
+        var body = document.getElementById('checks-body');
+        body.innerHTML = '';
+        shown.slice().reverse().forEach(function (point) {
+            var row = document.createElement('tr');
+            [date(point.time), percent(point.roi), percent(point.confidence.lower) + ' to ' + percent(point.confidence.upper),
+                point.breakEvenMonths === null ? 'Not at this rate' : point.breakEvenMonths.toFixed(1) + ' months', amount(point.netPosition), point.id]
+                .forEach(function (text) {
+                    var cell = document.createElement('td');
+                    cell.textContent = text;
+                    row.appendChild(cell);
+                });
+            body.appendChild(row);
+        });
+        document.getElementById('period-summary').textContent = 'Showing ' + shown.length + ' of ' + points.length + ' checks';
+    }
+
+    function render() {
+        var shown = points.filter(function (point) {
+            return (filter.from === null || point.time >= filter.from) && (filter.to === null || point.time <= filter.to);
+        });
+        drawROI(shown);
+        drawBreakEven(shown);
+        drawSavings(shown);
+        drawChecks(shown);
+    }
+
+    function setActive(button) {
+        Array.prototype.forEach.call(document.querySelectorAll('[data-months]'), function (other) {
+            other.classList.toggle('active', other === button);
+        });
+    }
+
+    // Presets count back from the latest check, so an old report still shows its last months
+    Array.prototype.forEach.call(document.querySelectorAll('[data-months]'), function (button) {
+        button.addEventListener('click', function () {
+            var months = Number(button.getAttribute('data-months'));
+            var latest = points.length > 0 ? points[points.length - 1].time : 0;
+            filter = { from: months > 0 ? latest - months * MS_PER_MONTH : null, to: null };
+            document.getElementById('period-from').value = '';
+            document.getElementById('period-to').value = '';
+            setActive(button);
+            render();
+        });
+    });
+    ['period-from', 'period-to'].forEach(function (id) {
+        document.getElementById(id).addEventListener('change', function () {
+            var from = document.getElementById('period-from').value, to = document.getElementById('period-to').value;
+            filter = { from: from ? new Date(from).getTime() : null, to: to ? new Date(to).getTime() + 24 * 60 * 60 * 1000 - 1 : null };
+            setActive(null);
+            render();
+        });
+    });
+    document.getElementById('show-band').addEventListener('change', render);
+
+    document.addEventListener('mousemove', function (event) {
+        var tip = event.target.getAttribute && event.target.getAttribute('data-tip');
+        tooltip.style.display = tip ? 'block' : 'none';
+        if (tip) {
+            tooltip.textContent = tip;
+            tooltip.style.left = (event.pageX + 12) + 'px';
+            tooltip.style.top = (event.pageY + 12) + 'px';
+        }
+    });
+
+    var audit = JSON.stringify(data.snapshots, null, 2);
+    document.getElementById('audit-json').textContent = audit;
+    document.getElementById('audit-download').href = URL.createObjectURL(new Blob([audit], { type: 'application/json' }));
+
+    render();
+})();
+`;
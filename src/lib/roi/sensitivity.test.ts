@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeSensitivity, parseSensitivityRanges } from './sensitivity.js';
+import { ROICalculator } from './calculator.js';
+import type { ROIEvaluator } from './simulation.js';
+import type { ROIBaseline, ROIInputs } from '../../types/index.js';
+
+describe('ROI sensitivity', () => {
+  const calculator = new ROICalculator('/test/project');
+  const evaluate: ROIEvaluator = (b, c) => calculator.calculateFinancialMetrics(b, c);
+
+  const baseline: ROIBaseline = {
+    establishedAt: new Date('2024-01-01'),
+    developmentCost: 20000,
+    currentSaasSpend: 1000,
+    teamSize: 5,
+    currentProcessingHours: 100,
+    errorRateBaseline: 0.05,
+    accuracyBaseline: 0.85,
+    complianceScore: 0.7,
+    customerSatisfactionScore: 7.5,
+  };
+
+  const current: ROIInputs = {
+    monthsInOperation: 12,
+    currentSaasSpend: 200,
+    maintenanceCosts: 0,
+    currentProcessingHours: 60,
+    tasksAutomated: 40,
+    employeeAdoptionRate: 0.7,
+    currentAccuracy: 0.9,
+    currentErrorRate: 0.03,
+    currentComplianceScore: 0.7,
+    currentCustomerSatisfaction: 7.5,
+  };
+
+  it('should rank inputs by how far they swing ROI', () => {
+    const analysis = analyzeSensitivity(baseline, current, evaluate);
+    const swings = analysis.results.map(result => result.swing);
+
+    expect(swings).toEqual([...swings].sort((a, b) => b - a));
+    // 40 hours at $75 ($3,000/month) outweighs $800/month of SaaS
+    const order = analysis.results.map(result => result.key);
+    expect(order.indexOf('hoursSaved')).toBeLessThan(order.indexOf('saasSpendRemoved'));
+    expect(analysis.baseROI).toBeCloseTo(((3800 * 12 - 20000) / 20000) * 100);
+  });
+
+  it('should hold the other inputs fixed while moving one', () => {
+    const analysis = analyzeSensitivity(baseline, current, evaluate, { spread: 0.5 });
+    const hours = analysis.results.find(result => result.key === 'hoursSaved')!;
+
+    expect(hours.low.value).toBe(20);
+    expect(hours.low.roi).toBeCloseTo(((2300 * 12 - 20000) / 20000) * 100);
+    expect(hours.high.value).toBe(60);
+    expect(hours.high.roi).toBeCloseTo(((5300 * 12 - 20000) / 20000) * 100);
+  });
+
+  it('should not remove more SaaS spend than the baseline had', () => {
+    const analysis = analyzeSensitivity(baseline, { ...current, currentSaasSpend: 100 }, evaluate);
+    const saas = analysis.results.find(result => result.key === 'saasSpendRemoved')!;
+
+    expect(saas.high.value).toBe(1000);
+  });
+
+  it('should scale hours saved with team adoption', () => {
+    const analysis = analyzeSensitivity(baseline, current, evaluate);
+    const adoption = analysis.results.find(result => result.key === 'employeeAdoptionRate')!;
+    const hours = analysis.results.find(result => result.key === 'hoursSaved')!;
+
+    // ±20% adoption moves the 40 hours saved by ±20%, like moving the hours themselves
+    expect(adoption.low.value).toBeCloseTo(0.56);
+    expect(adoption.swing).toBeGreaterThan(0);
+    expect(adoption.swing).toBeCloseTo(hours.swing);
+  });
+
+  it('should use an explicit range for inputs that are zero today', () => {
+    const analysis = analyzeSensitivity(baseline, current, evaluate, {
+      ranges: parseSensitivityRanges(['maintenanceCosts=0:500']),
+    });
+    const maintenance = analysis.results.find(result => result.key === 'maintenanceCosts')!;
+
+    expect(maintenance.high.value).toBe(500);
+    expect(maintenance.swing).toBeCloseTo(((500 * 12) / 20000) * 100);
+  });
+
+  it('should reject malformed and unknown ranges', () => {
+    expect(() => parseSensitivityRanges(['maintenanceCosts'])).toThrow('expected <input>=<low>:<high>');
+    expect(() => parseSensitivityRanges(['accuracy=0:1'])).toThrow('unknown input "accuracy"');
+    expect(() => parseSensitivityRanges(['hourlyRate=90:40'])).toThrow('low must not be above high');
+  });
+});
@@ -0,0 +1,175 @@
+import { ROIBaseline, ROIInputs } from '../../types/index.js';
+import { blendedHourlyRate, DEFAULT_HOURLY_RATE } from './labour.js';
+import { withAdoptionRate } from './calculator.js';
+import { ROIEvaluator } from './simulation.js';
+
+/**
+ * ROI sensitivity analysis
+ * Moves one assumption at a time across a range while holding the others at the values
+ * of the latest check, and ranks the assumptions by how far they swing ROI.
+ */
+
+export const DEFAULT_SENSITIVITY_SPREAD = 0.2;
+
+export type SensitivityUnit = 'dollars' | 'hours' | 'rate' | 'ratio' | 'months';
+
+interface SensitivityDriver {
+  key: string;
+  label: string;
+  unit: SensitivityUnit;
+  value: (baseline: ROIBaseline, current: ROIInputs) => number;
+  apply: (baseline: ROIBaseline, current: ROIInputs, value: number) => [ROIBaseline, ROIInputs];
+  max?: (baseline: ROIBaseline) => number; // Physical ceiling, e.g. you cannot remove more SaaS spend than you had
+}
+
+export interface SensitivityRange {
+  low: number;
+  high: number;
+}
+
+export interface SensitivityResult {
+  key: string;
+  label: string;
+  unit: SensitivityUnit;
+  baseValue: number;
+  low: { value: number; roi: number };
+  high: { value: number; roi: number };
+  swing: number; // Percentage points between the lowest and highest ROI across the range
+}
+
+export interface SensitivityAnalysis {
+  baseROI: number;
+  spread: number;
+  results: SensitivityResult[]; // Largest swing first
+}
+
+export interface SensitivityOptions {
+  spread?: number; // ± fraction of each input's current value
+  ranges?: Record<string, SensitivityRange>; // Explicit low/high values, e.g. for inputs that are zero today
+}
+
+export const SENSITIVITY_DRIVERS: SensitivityDriver[] = [
+  {
+    key: 'developmentCost',
+    label: 'Development cost',
+    unit: 'dollars',
+    value: baseline => baseline.developmentCost,
+    apply: (baseline, current, value) => [{ ...baseline, developmentCost: value }, current],
+  },
+  {
+    key: 'hoursSaved',
+    label: 'Hours saved per month',
+    unit: 'hours',
+    value: (baseline, current) => Math.max(0, baseline.currentProcessingHours - current.currentProcessingHours),
+    apply: (baseline, current, value) => [baseline, { ...current, currentProcessingHours: baseline.currentProcessingHours - value }],
+    max: baseline => baseline.currentProcessingHours,
+  },
+  {
+    key: 'hourlyRate',
+    label: 'Hourly labour cost',
+    unit: 'rate',
+    value: baseline => blendedHourlyRate(baseline.labourCostModel),
+    apply: (baseline, current, value): [ROIBaseline, ROIInputs] => {
+      const roles = baseline.labourCostModel?.roles ?? [{ role: 'All roles', hourlyRate: DEFAULT_HOURLY_RATE, hoursShare: 1 }];
+      const scale = value / blendedHourlyRate(baseline.labourCostModel);
+      return [{ ...baseline, labourCostModel: { roles: roles.map(role => ({ ...role, hourlyRate: role.hourlyRate * scale })) } }, current];
+    },
+  },
+  {
+    key: 'saasSpendRemoved',
+    label: 'SaaS spend removed per month',
+    unit: 'dollars',
+    value: (baseline, current) => Math.max(0, baseline.currentSaasSpend - current.currentSaasSpend),
+    apply: (baseline, current, value) => [baseline, { ...current, currentSaasSpend: baseline.currentSaasSpend - value }],
+    max: baseline => baseline.currentSaasSpend,
+  },
+  {
+    key: 'maintenanceCosts',
+    label: 'Maintenance cost per month',
+    unit: 'dollars',
+    value: (_baseline, current) => current.maintenanceCosts,
+    apply: (baseline, current, value) => [baseline, { ...current, maintenanceCosts: value }],
+  },
+  {
+    key: 'employeeAdoptionRate',
+    label: 'Team adoption',
+    unit: 'ratio',
+    value: (_baseline, current) => current.employeeAdoptionRate,
+    apply: (baseline, current, value) => [baseline, withAdoptionRate(baseline, current, value) ?? { ...current, employeeAdoptionRate: value }],
+    max: () => 1,
+  },
+  {
+    key: 'monthsInOperation',
+    label: 'Months in operation',
+    unit: 'months',
+    value: (_baseline, current) => current.monthsInOperation,
+    apply: (baseline, current, value) => [baseline, { ...current, monthsInOperation: value }],
+  },
+];
+
+/**
+ * Parse `--range` values such as "maintenanceCosts=0:500"
+ */
+export function parseSensitivityRanges(values: string[]): Record<string, SensitivityRange> {
+  const keys = SENSITIVITY_DRIVERS.map(driver => driver.key);
+  const ranges: Record<string, SensitivityRange> = {};
+
+  for (const value of values) {
+    const match = value.match(/^(\w+)=(-?[\d.]+):(-?[\d.]+)$/);
+    if (!match) {
+      throw new Error(`Invalid --range "${value}": expected <input>=<low>:<high>, e.g. maintenanceCosts=0:500`);
+    }
+    const [, key, low, high] = match;
+    if (!keys.includes(key)) {
+      throw new Error(`Invalid --range "${value}": unknown input "${key}". Use one of: ${keys.join(', ')}`);
+    }
+    if (parseFloat(low) > parseFloat(high)) {
+      throw new Error(`Invalid --range "${value}": low must not be above high`);
+    }
+    ranges[key] = { low: parseFloat(low), high: parseFloat(high) };
+  }
+
+  return ranges;
+}
+
+/**
+ * Vary each input across its range, one at a time, and rank by ROI swing
+ * Ties keep driver order, so inputs that do not affect ROI stay listed last in a stable order.
+ */
+export function analyzeSensitivity(
+  baseline: ROIBaseline,
+  current: ROIInputs,
+  evaluate: ROIEvaluator,
+  options: SensitivityOptions = {}
+): SensitivityAnalysis {
+  const spread = options.spread ?? DEFAULT_SENSITIVITY_SPREAD;
+  const baseROI = evaluate(baseline, current).currentROI;
+
+  const results = SENSITIVITY_DRIVERS.map(driver => {
+    const baseValue = driver.value(baseline, current);
+    const ceiling = driver.max?.(baseline) ?? Infinity;
+    const range = options.ranges?.[driver.key] ?? {
+      low: Math.max(0, baseValue * (1 - spread)),
+      high: Math.min(ceiling, baseValue * (1 + spread)),
+    };
+    const roiAt = (value: number): number => evaluate(...driver.apply(baseline, current, value)).currentROI;
+
+    const low = { value: range.low, roi: roiAt(range.low) };
+    const high = { value: range.high, roi: roiAt(range.high) };
+    return {
+      key: driver.key,
+      label: driver.label,
+      unit: driver.unit,
+      baseValue,
+      low,
+      high,
+      swing: Math.abs(high.roi - low.roi),
+    };
+  });
+
+  return {
+    baseROI,
+    spread,
+    results: results.sort((a, b) => b.swing - a.swing),
+  };
+}
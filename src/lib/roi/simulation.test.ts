@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fs from 'fs/promises';
+import {
+  createRandom,
+  sampleDistribution,
+  percentile,
+  simulateROI,
+  loadSimulationConfig,
+  ROIEvaluator,
+} from './simulation.js';
+import { ROICalculator } from './calculator.js';
+import type { ROIBaseline, ROIInputs } from '../../types/index.js';
+
+vi.mock('fs/promises', () => ({
+  readFile: vi.fn(),
+}));
+
+describe('ROI simulation', () => {
+  const baseline: ROIBaseline = {
+    establishedAt: new Date('2024-01-01'),
+    developmentCost: 10000,
+    currentSaasSpend: 1000,
+    teamSize: 5,
+    currentProcessingHours: 40,
+    errorRateBaseline: 0.05,
+    accuracyBaseline: 0.85,
+    complianceScore: 0.7,
+    customerSatisfactionScore: 7.5,
+  };
+
+  const current: ROIInputs = {
+    monthsInOperation: 12,
+    currentSaasSpend: 0,
+    maintenanceCosts: 0,
+    currentProcessingHours: 40,
+    tasksAutomated: 0,
+    employeeAdoptionRate: 0.8,
+    currentAccuracy: 0.9,
+    currentErrorRate: 0.03,
+    currentComplianceScore: 0.7,
+    currentCustomerSatisfaction: 7.5,
+  };
+
+  // SaaS savings only, so each draw's ROI is easy to reason about
+  const evaluate: ROIEvaluator = (b, c) => {
+    const monthly = Math.max(0, b.currentSaasSpend - c.currentSaasSpend) - c.maintenanceCosts;
+    return {
+      currentROI: ((monthly * c.monthsInOperation - b.developmentCost) / b.developmentCost) * 100,
+      breakEvenMonths: monthly > 0 ? Math.ceil(b.developmentCost / monthly) : Infinity,
+    };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should repeat the same sequence for the same seed', () => {
+    const first = createRandom(42);
+    const second = createRandom(42);
+    const values = Array.from({ length: 5 }, () => first());
+
+    expect(Array.from({ length: 5 }, () => second())).toEqual(values);
+    expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+    expect(createRandom(43)()).not.toBe(values[0]);
+  });
+
+  it('should draw from each distribution within its bounds', () => {
+    const random = createRandom(7);
+    const draws = Array.from({ length: 2000 }, () => sampleDistribution({ type: 'triangular', min: 10, likely: 12, max: 20 }, random));
+    const mean = draws.reduce((sum, value) => sum + value, 0) / draws.length;
+
+    expect(Math.min(...draws)).toBeGreaterThanOrEqual(10);
+    expect(Math.max(...draws)).toBeLessThanOrEqual(20);
+    expect(mean).toBeCloseTo(14, 0); // (min + likely + max) / 3
+
+    const normal = Array.from({ length: 10000 }, () => sampleDistribution({ type: 'normal', mean: 100, stdDev: 10 }, random));
+    expect(normal.reduce((sum, value) => sum + value, 0) / normal.length).toBeCloseTo(100, 0);
+
+    const uniform = sampleDistribution({ type: 'uniform', min: 3, max: 4 }, random);
+    expect(uniform).toBeGreaterThanOrEqual(3);
+    expect(uniform).toBeLessThan(4);
+  });
+
+  it('should interpolate percentiles', () => {
+    expect(percentile([0, 10, 20, 30, 40], 0.5)).toBe(20);
+    expect(percentile([0, 10], 0.25)).toBe(2.5);
+  });
+
+  it('should reproduce the same distribution for the same seed', () => {
+    const first = simulateROI(baseline, current, evaluate, 0.9, { iterations: 500, seed: 1 });
+    const second = simulateROI(baseline, current, evaluate, 0.9, { iterations: 500, seed: 1 });
+
+    expect(second).toEqual(first);
+    expect(first.simulation.seed).toBe(1);
+    expect(first.simulation.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(500);
+  });
+
+  it('should take the confidence interval from the simulated percentiles', () => {
+    const { simulation, confidenceInterval } = simulateROI(baseline, current, evaluate, 0.9, {
+      iterations: 2000,
+      seed: 3,
+      baseline: { currentSaasSpend: { type: 'uniform', min: 500, max: 1500 } },
+    });
+
+    expect(confidenceInterval.lower).toBe(simulation.percentiles.p5);
+    expect(confidenceInterval.upper).toBe(simulation.percentiles.p95);
+    // Savings of $500-1500 a month for 12 months against $10k: -40% to +80%
+    expect(simulation.percentiles.p50).toBeCloseTo(20, -1);
+    expect(simulation.percentiles.p5).toBeGreaterThan(-40);
+    expect(simulation.percentiles.p95).toBeLessThan(80);
+  });
+
+  it('should report the probability of break-even by each month', () => {
+    const { simulation } = simulateROI(baseline, current, evaluate, 0.95, {
+      iterations: 2000,
+      seed: 5,
+      breakEvenMonths: [12, 6],
+      baseline: {
+        developmentCost: { type: 'triangular', min: 10000, likely: 10000, max: 10000 },
+        currentSaasSpend: { type: 'uniform', min: 500, max: 1500 },
+      },
+    });
+
+    const [sixMonths, twelveMonths] = simulation.breakEvenProbability;
+    expect(sixMonths.month).toBe(6);
+    expect(sixMonths.probability).toBe(0); // Needs over $1,666 a month
+    // Pays back within 12 months above $834 a month: about two thirds of draws
+    expect(twelveMonths.probability).toBeCloseTo(0.67, 1);
+  });
+
+  it('should not turn noise into savings when nothing changed', () => {
+    const calculator = new ROICalculator('/project');
+    const busy: ROIBaseline = { ...baseline, currentProcessingHours: 200 };
+    const unchanged: ROIInputs = { ...current, monthsInOperation: 6, currentSaasSpend: 1000, currentProcessingHours: 200 };
+    const point = calculator.calculateFinancialMetrics(busy, unchanged).currentROI;
+    const { simulation, confidenceInterval } = simulateROI(busy, unchanged, (b, c) => calculator.calculateFinancialMetrics(b, c), 0.95, {
+      iterations: 2000,
+      seed: 13,
+    });
+
+    expect(point).toBe(-100);
+    expect(confidenceInterval.lower).toBeCloseTo(point);
+    expect(confidenceInterval.upper).toBeCloseTo(point);
+    expect(simulation.percentiles.p50).toBeCloseTo(point);
+    expect(simulation.lossProbability).toBe(1);
+  });
+
+  it('should narrow the default spread for measured inputs', () => {
+    const spend = { ...current, currentSaasSpend: 500 };
+    const estimated = simulateROI(baseline, spend, evaluate, 0.95, { iterations: 1000, seed: 9 });
+    const measured = simulateROI(baseline, spend, evaluate, 0.95, {
+      iterations: 1000,
+      seed: 9,
+      sources: { currentSaasSpend: { value: 500, source: 'measured', metric: 'cost.saas_spend' } },
+    });
+
+    expect(measured.simulation.stdDev).toBeLessThan(estimated.simulation.stdDev);
+  });
+
+  it('should reject distributions that are not well formed', async () => {
+    (fs.readFile as any).mockResolvedValue(JSON.stringify({
+      baseline: { developmentCost: { type: 'triangular', min: 10, likely: 5, max: 20 } },
+    }));
+
+    await expect(loadSimulationConfig('/project')).rejects.toThrow(
+      'Invalid evaluators/roi-simulation.json: baseline.developmentCost: triangular needs numbers min <= likely <= max'
+    );
+  });
+
+  it('should reject inputs that do not affect ROI', async () => {
+    (fs.readFile as any).mockResolvedValue(JSON.stringify({
+      current: { currentAccuracy: { type: 'uniform', min: 0.8, max: 0.9 } },
+    }));
+
+    await expect(loadSimulationConfig('/project')).rejects.toThrow('current.currentAccuracy cannot be simulated');
+  });
+
+  it('should use defaults when there is no config file', async () => {
+    (fs.readFile as any).mockRejectedValue({ code: 'ENOENT' });
+
+    expect(await loadSimulationConfig('/project')).toEqual({});
+  });
+});
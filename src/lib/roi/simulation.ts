@@ -0,0 +1,304 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { InputDistribution, ROIBaseline, ROIInputs, ROIInputSource, ROISimulation } from '../../types/index.js';
+
+/**
+ * Monte Carlo ROI simulation
+ * Draws each uncertain baseline and current input from its distribution, recalculates ROI
+ * per draw and summarises the empirical distribution. Seeded so any run can be reproduced.
+ */
+
+export const SIMULATION_CONFIG_PATH = path.join('evaluators', 'roi-simulation.json');
+
+export const DEFAULT_ITERATIONS = 10000;
+export const DEFAULT_BREAK_EVEN_MONTHS = [6, 12, 24, 36];
+
+// Inputs that move ROI, and so are worth simulating
+export const SIMULATED_INPUTS = {
+  baseline: ['developmentCost', 'currentSaasSpend', 'currentProcessingHours'],
+  current: ['monthsInOperation', 'currentSaasSpend', 'maintenanceCosts', 'currentProcessingHours'],
+} as const;
+
+// Inputs with a baseline and a current value, where ROI depends on the reduction between them.
+// The reduction is drawn as one quantity: drawing both values independently would turn noise into savings.
+const PAIRED_INPUTS: ReadonlyArray<BaselineInput & CurrentInput> = ['currentSaasSpend', 'currentProcessingHours'];
+
+// ± spread of the triangular distribution given to inputs without a configured one
+export const DEFAULT_SPREAD: Record<ROIInputSource['source'], number> = {
+  measured: 0.05,
+  estimated: 0.2,
+};
+
+const HISTOGRAM_BINS = 20;
+const MAX_ITERATIONS = 1000000;
+
+type BaselineInput = typeof SIMULATED_INPUTS.baseline[number];
+type CurrentInput = typeof SIMULATED_INPUTS.current[number];
+
+export interface SimulationConfig {
+  iterations?: number;
+  seed?: number;
+  breakEvenMonths?: number[];
+  baseline?: Partial<Record<BaselineInput, InputDistribution>>;
+  current?: Partial<Record<CurrentInput, InputDistribution>>;
+}
+
+export interface SimulationOptions extends SimulationConfig {
+  sources?: Partial<Record<keyof ROIInputs, ROIInputSource>>; // Measured inputs get a narrower default spread
+}
+
+export interface SimulationResult {
+  simulation: ROISimulation;
+  confidenceInterval: { lower: number; upper: number; confidenceLevel: number };
+}
+
+export type ROIEvaluator = (baseline: ROIBaseline, current: ROIInputs) => { currentROI: number; breakEvenMonths: number };
+
+/**
+ * Load evaluators/roi-simulation.json, returning an empty config when the file does not exist
+ */
+export async function loadSimulationConfig(projectPath: string = process.cwd()): Promise<SimulationConfig> {
+  const configPath = path.join(projectPath, SIMULATION_CONFIG_PATH);
+
+  let config: SimulationConfig;
+  try {
+    config = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw new Error(`Invalid ${SIMULATION_CONFIG_PATH}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  try {
+    validateSimulationConfig(config);
+  } catch (error) {
+    throw new Error(`Invalid ${SIMULATION_CONFIG_PATH}: ${error instanceof Error ? error.message : error}`);
+  }
+  return config;
+}
+
+/**
+ * Check iterations, seed, horizons and every input distribution
+ */
+export function validateSimulationConfig(config: SimulationConfig): void {
+  if (config.iterations !== undefined &&
+      (!Number.isInteger(config.iterations) || config.iterations < 1 || config.iterations > MAX_ITERATIONS)) {
+    throw new Error(`iterations must be a whole number between 1 and ${MAX_ITERATIONS.toLocaleString()}`);
+  }
+  if (config.seed !== undefined && !Number.isInteger(config.seed)) {
+    throw new Error('seed must be a whole number');
+  }
+  if (config.breakEvenMonths !== undefined &&
+      (!Array.isArray(config.breakEvenMonths) || config.breakEvenMonths.some(month => typeof month !== 'number' || month <= 0))) {
+    throw new Error('breakEvenMonths must be a list of positive month counts');
+  }
+
+  for (const section of ['baseline', 'current'] as const) {
+    const allowed: readonly string[] = SIMULATED_INPUTS[section];
+    for (const [input, distribution] of Object.entries(config[section] ?? {})) {
+      if (!allowed.includes(input)) {
+        throw new Error(`${section}.${input} cannot be simulated. Use one of: ${allowed.join(', ')}`);
+      }
+      validateDistribution(`${section}.${input}`, distribution as InputDistribution);
+    }
+  }
+}
+
+function validateDistribution(name: string, distribution: InputDistribution): void {
+  const numbers = (...keys: string[]): boolean =>
+    keys.every(key => typeof (distribution as unknown as Record<string, unknown>)[key] === 'number');
+
+  switch (distribution?.type) {
+    case 'triangular':
+      if (!numbers('min', 'likely', 'max') || distribution.min > distribution.likely || distribution.likely > distribution.max) {
+        throw new Error(`${name}: triangular needs numbers min <= likely <= max`);
+      }
+      return;
+    case 'normal':
+      if (!numbers('mean', 'stdDev') || distribution.stdDev < 0) {
+        throw new Error(`${name}: normal needs a mean and a non-negative stdDev`);
+      }
+      return;
+    case 'uniform':
+      if (!numbers('min', 'max') || distribution.min > distribution.max) {
+        throw new Error(`${name}: uniform needs numbers min <= max`);
+      }
+      return;
+    default:
+      throw new Error(`${name}: type must be triangular, normal or uniform`);
+  }
+}
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draw one value from a distribution
+ */
+export function sampleDistribution(distribution: InputDistribution, random: () => number): number {
+  switch (distribution.type) {
+    case 'uniform':
+      return distribution.min + random() * (distribution.max - distribution.min);
+    case 'normal': {
+      // Box-Muller; 1 - random() keeps the logarithm away from zero
+      const radius = Math.sqrt(-2 * Math.log(1 - random()));
+      return distribution.mean + distribution.stdDev * radius * Math.cos(2 * Math.PI * random());
+    }
+    case 'triangular': {
+      const { min, likely, max } = distribution;
+      if (max === min) return min;
+      const u = random();
+      const split = (likely - min) / (max - min);
+      return u < split
+        ? min + Math.sqrt(u * (max - min) * (likely - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - likely));
+    }
+  }
+}
+
+/**
+ * Percentile of sorted values, interpolating between neighbours (p from 0 to 1)
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  const position = (sorted.length - 1) * Math.min(1, Math.max(0, p));
+  const below = Math.floor(position);
+  const above = Math.ceil(position);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+}
+
+/**
+ * Triangular distribution of ±spread around a point value
+ */
+function spreadAround(value: number, spread: number): InputDistribution {
+  const delta = Math.abs(value) * spread;
+  return { type: 'triangular', min: value - delta, likely: value, max: value + delta };
+}
+
+/**
+ * Run the simulation and summarise the ROI distribution
+ * Inputs without a configured distribution vary by DEFAULT_SPREAD, more when estimated than measured;
+ * months in operation only varies when configured. For SaaS spend and processing hours it is the
+ * reduction from the baseline that varies, unless either side has a configured distribution, in
+ * which case the configured sides are drawn and the other is held. Draws are clamped at zero.
+ */
+export function simulateROI(
+  baseline: ROIBaseline,
+  current: ROIInputs,
+  evaluate: ROIEvaluator,
+  confidenceLevel: number,
+  options: SimulationOptions = {}
+): SimulationResult {
+  const iterations = options.iterations ?? DEFAULT_ITERATIONS;
+  const seed = options.seed ?? Math.floor(Math.random() * 4294967296);
+  const horizons = [...(options.breakEvenMonths ?? DEFAULT_BREAK_EVEN_MONTHS)].sort((a, b) => a - b);
+  const random = createRandom(seed);
+
+  const configured = (input: BaselineInput & CurrentInput): boolean => Boolean(options.baseline?.[input] || options.current?.[input]);
+  const isPaired = (input: string): input is BaselineInput & CurrentInput => (PAIRED_INPUTS as readonly string[]).includes(input);
+
+  const baselineDistributions: Array<[BaselineInput, InputDistribution]> = [];
+  for (const input of SIMULATED_INPUTS.baseline) {
+    const distribution = options.baseline?.[input] ??
+      (isPaired(input) ? undefined : spreadAround(baseline[input], DEFAULT_SPREAD.estimated));
+    if (distribution) baselineDistributions.push([input, distribution]);
+  }
+  const currentDistributions: Array<[CurrentInput, InputDistribution]> = [];
+  for (const input of SIMULATED_INPUTS.current) {
+    const source = options.sources?.[input]?.source ?? 'estimated';
+    const distribution = options.current?.[input] ??
+      (input === 'monthsInOperation' || isPaired(input) ? undefined : spreadAround(current[input], DEFAULT_SPREAD[source]));
+    if (distribution) currentDistributions.push([input, distribution]);
+  }
+  const reductionDistributions: Array<[BaselineInput & CurrentInput, InputDistribution]> = PAIRED_INPUTS
+    .filter(input => !configured(input))
+    .map(input => [
+      input,
+      spreadAround(baseline[input] - current[input], DEFAULT_SPREAD[options.sources?.[input]?.source ?? 'estimated']),
+    ]);
+
+  const samples: number[] = [];
+  const paidBack = horizons.map(() => 0);
+  for (let i = 0; i < iterations; i++) {
+    const sampledBaseline = { ...baseline };
+    for (const [input, distribution] of baselineDistributions) {
+      sampledBaseline[input] = Math.max(0, sampleDistribution(distribution, random));
+    }
+    const sampledCurrent = { ...current };
+    for (const [input, distribution] of currentDistributions) {
+      sampledCurrent[input] = Math.max(0, sampleDistribution(distribution, random));
+    }
+    for (const [input, distribution] of reductionDistributions) {
+      sampledCurrent[input] = Math.max(0, sampledBaseline[input] - sampleDistribution(distribution, random));
+    }
+
+    const { currentROI, breakEvenMonths } = evaluate(sampledBaseline, sampledCurrent);
+    samples.push(currentROI);
+    horizons.forEach((month, index) => {
+      if (breakEvenMonths <= month) paidBack[index]++;
+    });
+  }
+
+  samples.sort((a, b) => a - b);
+  const mean = samples.reduce((sum, value) => sum + value, 0) / iterations;
+  const variance = samples.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(1, iterations - 1);
+  const alpha = (1 - confidenceLevel) / 2;
+
+  return {
+    simulation: {
+      iterations,
+      seed,
+      mean,
+      stdDev: Math.sqrt(variance),
+      percentiles: {
+        p5: percentile(samples, 0.05),
+        p10: percentile(samples, 0.1),
+        p25: percentile(samples, 0.25),
+        p50: percentile(samples, 0.5),
+        p75: percentile(samples, 0.75),
+        p90: percentile(samples, 0.9),
+        p95: percentile(samples, 0.95),
+      },
+      histogram: histogram(samples),
+      breakEvenProbability: horizons.map((month, index) => ({ month, probability: paidBack[index] / iterations })),
+      lossProbability: samples.filter(value => value <= 0).length / iterations,
+    },
+    confidenceInterval: {
+      lower: percentile(samples, alpha),
+      upper: percentile(samples, 1 - alpha),
+      confidenceLevel,
+    },
+  };
+}
+
+/**
+ * Equal-width bins over sorted samples
+ */
+function histogram(sorted: number[]): ROISimulation['histogram'] {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (min === max) return [{ lower: min, upper: max, count: sorted.length }];
+
+  const width = (max - min) / HISTOGRAM_BINS;
+  const bins = Array.from({ length: HISTOGRAM_BINS }, (_, index) => ({
+    lower: min + index * width,
+    upper: min + (index + 1) * width,
+    count: 0,
+  }));
+  for (const value of sorted) {
+    bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / width))].count++;
+  }
+  return bins;
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  welchTTest,
+  mannWhitneyUTest,
+  bootstrapSlope,
+  detectChangePoint,
+  MIN_PERIOD_CHECKS,
+  testTrend,
+  normalCDF,
+  normalQuantile,
+} from './statistics.js';
+
+describe('ROI statistics', () => {
+  describe('welchTTest', () => {
+    it('should match the reference t, degrees of freedom and p-value', () => {
+      const before = [27.5, 21.0, 19.0, 23.6, 17.0, 17.9, 16.9, 20.1, 21.9, 22.6, 23.1, 19.6, 19.0, 21.7, 21.4];
+      const after = [27.1, 22.0, 20.8, 23.4, 23.4, 23.5, 25.8, 22.0, 24.8, 20.2, 21.9, 22.1, 22.9, 20.5, 24.4];
+
+      const result = welchTTest(before, after);
+
+      expect(result.statistic).toBeCloseTo(2.4554, 3);
+      expect(result.degreesOfFreedom).toBeCloseTo(24.99, 2);
+      expect(result.pValue).toBeCloseTo(0.0214, 3);
+    });
+
+    it('should treat identical periods as no evidence of change', () => {
+      expect(welchTTest([5, 5, 5], [5, 5, 5]).pValue).toBe(1);
+      expect(welchTTest([5, 5, 5], [6, 6, 6]).pValue).toBe(0);
+    });
+  });
+
+  describe('mannWhitneyUTest', () => {
+    it('should use the exact distribution for small samples without ties', () => {
+      const result = mannWhitneyUTest([1, 2, 3, 4], [5, 6, 7, 8]);
+
+      expect(result).toMatchObject({ statistic: 16, exact: true });
+      expect(result.pValue).toBeCloseTo(2 / 70, 10);
+      expect(mannWhitneyUTest([1, 2, 3], [4, 5, 6]).pValue).toBeCloseTo(0.1, 10);
+    });
+
+    it('should fall back to the tie-corrected normal approximation', () => {
+      const result = mannWhitneyUTest([1, 2, 2, 3, 3, 4], [3, 4, 4, 5, 6, 6]);
+
+      expect(result.exact).toBe(false);
+      expect(result.statistic).toBe(33);
+      expect(result.pValue).toBeGreaterThan(0.01);
+      expect(result.pValue).toBeLessThan(0.05);
+    });
+  });
+
+  describe('bootstrapSlope', () => {
+    it('should bracket the least-squares slope and reproduce for a seed', () => {
+      const x = [0, 1, 2, 3, 4, 5, 6, 7];
+      const y = [10, 12, 13, 17, 18, 19, 23, 24];
+
+      const first = bootstrapSlope(x, y, { iterations: 500, seed: 7 });
+
+      expect(first.slope).toBeCloseTo(2, 0);
+      expect(first.lower).toBeLessThan(first.slope);
+      expect(first.upper).toBeGreaterThan(first.slope);
+      expect(first.lower).toBeGreaterThan(0);
+      expect(bootstrapSlope(x, y, { iterations: 500, seed: 7 })).toEqual(first);
+    });
+  });
+
+  describe('detectChangePoint', () => {
+    it('should find a shift in level with high confidence', () => {
+      const result = detectChangePoint([10, 11, 9, 10, 11, 30, 31, 29, 30, 31], { iterations: 500 });
+
+      expect(result?.index).toBe(5);
+      expect(result?.confidence).toBeGreaterThan(0.95);
+    });
+
+    it('should have little confidence in a change in noise', () => {
+      const result = detectChangePoint([10, 14, 11, 9, 13, 12, 10, 14, 9, 13], { iterations: 500 });
+
+      expect(result?.confidence).toBeLessThan(0.9);
+    });
+
+    it('should not report a change that leaves too few checks on one side', () => {
+      expect(detectChangePoint([10, 11, 9, 10, 11, 10, 30], { iterations: 100 })).toBeNull();
+      expect(detectChangePoint([30, 10, 11, 9, 10, 11, 10], { iterations: 100 })).toBeNull();
+      expect(detectChangePoint([10, 11, 9, 30, 31, 30, 29], { iterations: 100 })?.index).toBe(MIN_PERIOD_CHECKS);
+      expect(detectChangePoint([10, 11, 30, 31, 30], { iterations: 100 })).toBeNull();
+    });
+  });
+
+  describe('testTrend', () => {
+    const monthly = (values: number[]): Array<{ timestamp: Date; value: number }> =>
+      values.map((value, i) => ({ timestamp: new Date(Date.UTC(2025, i, 1)), value }));
+
+    it('should split at a detected change point and call the direction', () => {
+      const result = testTrend(monthly([20, 22, 19, 21, 45, 47, 44, 46, 48, 45, 43, 49]), { iterations: 500 });
+
+      expect(result.trend).toBe('improving');
+      expect(result.statistics.split).toBe('change-point');
+      expect(result.statistics.changePoint?.timestamp).toEqual(new Date(Date.UTC(2025, 4, 1)));
+      expect(result.statistics.comparison).toMatchObject({ before: { n: 4 }, after: { n: 8 } });
+    });
+
+    it('should honour metrics where lower is better', () => {
+      expect(testTrend(monthly([20, 22, 19, 21, 45, 47, 44, 46]), { iterations: 500, lowerIsBetter: true }).trend).toBe('declining');
+    });
+  });
+
+  it('should invert the normal distribution', () => {
+    expect(normalQuantile(0.975)).toBeCloseTo(1.96, 2);
+    expect(normalCDF(normalQuantile(0.2))).toBeCloseTo(0.2, 6);
+    expect(normalCDF(-12)).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,403 @@
+import { TrendStatistics, TwoSampleTest } from '../../types/index.js';
+import { createRandom, percentile } from './simulation.js';
+
+/**
+ * Significance tests for ROI trends
+ * Tests whether a metric changed between the earlier and later checks of a project:
+ * CUSUM change-point detection picks where to split the series (the midpoint when no change
+ * point is found), a two-sample test compares the two periods, and a residual bootstrap puts
+ * a confidence interval on the slope per month. Bootstraps are seeded so reports reproduce.
+ */
+
+export type TwoSampleTestName = TwoSampleTest['test'];
+
+export const TWO_SAMPLE_TESTS: TwoSampleTestName[] = ['mann-whitney', 'welch'];
+export const DEFAULT_SIGNIFICANCE_LEVEL = 0.05;
+export const DEFAULT_BOOTSTRAP_ITERATIONS = 2000;
+export const DEFAULT_BOOTSTRAP_SEED = 1;
+
+// Fewest checks on each side of the split for a before/after test
+export const MIN_PERIOD_CHECKS = 3;
+
+// Exact Mann-Whitney distribution up to this many observations; normal approximation above it
+const EXACT_MANN_WHITNEY_LIMIT = 30;
+const MS_PER_MONTH = 1000 * 60 * 60 * 24 * 30; // Same month as the calculator, which imports this module
+
+export interface TrendPoint {
+  timestamp: Date;
+  value: number;
+}
+
+export interface TrendTestOptions {
+  test?: TwoSampleTestName;
+  significanceLevel?: number;
+  confidenceLevel?: number; // For the bootstrap slope interval
+  iterations?: number;
+  seed?: number;
+  lowerIsBetter?: boolean;
+}
+
+export interface TrendTestResult {
+  trend: 'improving' | 'declining' | 'stable';
+  trendConfidence: number; // 1 - p-value of the before/after test; 0 when untested
+  statistics: TrendStatistics;
+}
+
+/**
+ * Classify a metric series as improving, declining or stable
+ * Improving or declining only when the before/after test is significant; the sign of the
+ * difference between the periods (and whether lower is better) gives the direction.
+ */
+export function testTrend(points: TrendPoint[], options: TrendTestOptions = {}): TrendTestResult {
+  const test = options.test ?? 'mann-whitney';
+  const significanceLevel = options.significanceLevel ?? DEFAULT_SIGNIFICANCE_LEVEL;
+  const iterations = options.iterations ?? DEFAULT_BOOTSTRAP_ITERATIONS;
+  const seed = options.seed ?? DEFAULT_BOOTSTRAP_SEED;
+
+  const sorted = [...points].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const values = sorted.map(point => point.value);
+  const months = sorted.map(point => (point.timestamp.getTime() - sorted[0].timestamp.getTime()) / MS_PER_MONTH);
+
+  const slope = bootstrapSlope(months, values, { iterations, seed, confidenceLevel: options.confidenceLevel });
+  const changePoint = detectChangePoint(values, { iterations, seed });
+  const detected = changePoint && changePoint.confidence >= 1 - significanceLevel ? changePoint : null;
+
+  const statistics: TrendStatistics = {
+    method: describeMethod(test, iterations),
+    significanceLevel,
+    slopePerMonth: slope.slope,
+    slopeInterval: { lower: slope.lower, upper: slope.upper, confidenceLevel: slope.confidenceLevel, iterations, seed },
+    changePoint: detected ? { index: detected.index, timestamp: sorted[detected.index].timestamp, confidence: detected.confidence } : null,
+    split: 'midpoint',
+    comparison: null,
+  };
+
+  if (values.length < MIN_PERIOD_CHECKS * 2) {
+    return { trend: 'stable', trendConfidence: 0, statistics };
+  }
+
+  // Compare the periods either side of the change point, or the first and second half of the checks
+  const splitAt = detected ? detected.index : Math.floor(values.length / 2);
+  statistics.split = detected ? 'change-point' : 'midpoint';
+  const before = values.slice(0, splitAt);
+  const after = values.slice(splitAt);
+  const comparison = test === 'welch' ? welchTTest(before, after) : mannWhitneyUTest(before, after);
+  statistics.comparison = comparison;
+
+  const difference = test === 'welch'
+    ? comparison.after.mean - comparison.before.mean
+    : comparison.after.median - comparison.before.median;
+  const better = options.lowerIsBetter ? difference < 0 : difference > 0;
+  const trend = comparison.pValue < significanceLevel && difference !== 0 ? (better ? 'improving' : 'declining') : 'stable';
+
+  return { trend, trendConfidence: 1 - comparison.pValue, statistics };
+}
+
+/**
+ * Welch's t-test: difference in means without assuming equal variances (two-sided)
+ */
+export function welchTTest(before: number[], after: number[]): TwoSampleTest {
+  const a = summarize(before);
+  const b = summarize(after);
+  const varianceA = a.variance / before.length;
+  const varianceB = b.variance / after.length;
+  const standardError = Math.sqrt(varianceA + varianceB);
+
+  let statistic: number;
+  let degreesOfFreedom: number;
+  let pValue: number;
+  if (standardError === 0) {
+    // No spread in either period: any difference is certain, none is no evidence at all
+    statistic = b.mean === a.mean ? 0 : Math.sign(b.mean - a.mean) * Infinity;
+    degreesOfFreedom = before.length + after.length - 2;
+    pValue = b.mean === a.mean ? 1 : 0;
+  } else {
+    statistic = (b.mean - a.mean) / standardError;
+    // Welch–Satterthwaite
+    degreesOfFreedom = (varianceA + varianceB) ** 2 /
+      ((varianceA ** 2) / Math.max(1, before.length - 1) + (varianceB ** 2) / Math.max(1, after.length - 1));
+    pValue = studentTTwoSided(statistic, degreesOfFreedom);
+  }
+
+  return {
+    test: 'welch',
+    statistic,
+    pValue,
+    degreesOfFreedom,
+    before: { n: before.length, mean: a.mean, median: a.median },
+    after: { n: after.length, mean: b.mean, median: b.median },
+  };
+}
+
+/**
+ * Mann-Whitney U test: whether later values tend to be larger or smaller (two-sided)
+ * Exact for small samples without ties; otherwise the normal approximation with tie and
+ * continuity corrections. U counts the pairs in which the later value is the larger.
+ */
+export function mannWhitneyUTest(before: number[], after: number[]): TwoSampleTest {
+  const n1 = before.length;
+  const n2 = after.length;
+  const combined = [...before.map(value => ({ value, later: false })), ...after.map(value => ({ value, later: true }))]
+    .sort((x, y) => x.value - y.value);
+
+  // Average ranks across ties
+  const ranks = new Array<number>(combined.length);
+  const tieSizes: number[] = [];
+  for (let start = 0; start < combined.length;) {
+    let end = start;
+    while (end + 1 < combined.length && combined[end + 1].value === combined[start].value) end++;
+    for (let i = start; i <= end; i++) ranks[i] = (start + end) / 2 + 1;
+    tieSizes.push(end - start + 1);
+    start = end + 1;
+  }
+
+  const rankSumAfter = combined.reduce((sum, entry, i) => sum + (entry.later ? ranks[i] : 0), 0);
+  const statistic = rankSumAfter - (n2 * (n2 + 1)) / 2;
+  const hasTies = tieSizes.some(size => size > 1);
+
+  let pValue: number;
+  let exact = false;
+  if (!hasTies && n1 + n2 <= EXACT_MANN_WHITNEY_LIMIT) {
+    const distribution = mannWhitneyDistribution(n1, n2);
+    const total = distribution.reduce((sum, count) => sum + count, 0);
+    const u = Math.round(statistic);
+    const lower = distribution.slice(0, u + 1).reduce((sum, count) => sum + count, 0) / total;
+    const upper = distribution.slice(u).reduce((sum, count) => sum + count, 0) / total;
+    pValue = Math.min(1, 2 * Math.min(lower, upper));
+    exact = true;
+  } else {
+    const n = n1 + n2;
+    const tieCorrection = tieSizes.reduce((sum, t) => sum + (t ** 3 - t), 0) / (n * (n - 1));
+    const sigma = Math.sqrt(((n1 * n2) / 12) * ((n + 1) - tieCorrection));
+    const mean = (n1 * n2) / 2;
+    pValue = sigma === 0 ? 1 : Math.min(1, 2 * (1 - normalCDF(Math.max(0, Math.abs(statistic - mean) - 0.5) / sigma)));
+  }
+
+  const a = summarize(before);
+  const b = summarize(after);
+  return {
+    test: 'mann-whitney',
+    statistic,
+    pValue,
+    exact,
+    before: { n: n1, mean: a.mean, median: a.median },
+    after: { n: n2, mean: b.mean, median: b.median },
+  };
+}
+
+/**
+ * Least-squares slope with a residual-bootstrap percentile interval
+ */
+export function bootstrapSlope(
+  x: number[],
+  y: number[],
+  options: { iterations?: number; seed?: number; confidenceLevel?: number } = {}
+): { slope: number; lower: number; upper: number; confidenceLevel: number } {
+  const iterations = options.iterations ?? DEFAULT_BOOTSTRAP_ITERATIONS;
+  const confidenceLevel = options.confidenceLevel ?? 0.95;
+  const fit = leastSquares(x, y);
+  if (y.length < 3) {
+    return { slope: fit.slope, lower: fit.slope, upper: fit.slope, confidenceLevel };
+  }
+
+  const random = createRandom(options.seed ?? DEFAULT_BOOTSTRAP_SEED);
+  const fitted = x.map(xi => fit.intercept + fit.slope * xi);
+  const residuals = y.map((yi, i) => yi - fitted[i]);
+  const slopes: number[] = [];
+  for (let b = 0; b < iterations; b++) {
+    const resampled = fitted.map(value => value + residuals[Math.floor(random() * residuals.length)]);
+    slopes.push(leastSquares(x, resampled).slope);
+  }
+  slopes.sort((first, second) => first - second);
+
+  const alpha = (1 - confidenceLevel) / 2;
+  return { slope: fit.slope, lower: percentile(slopes, alpha), upper: percentile(slopes, 1 - alpha), confidenceLevel };
+}
+
+/**
+ * Single change in level by CUSUM, with the confidence that it is real
+ * The change is where the cumulative sum of deviations from the mean peaks. Confidence is the
+ * share of shuffled series whose CUSUM range is smaller than the observed one (Taylor, 2000).
+ * Returns the index of the first value after the change, or null when it does not leave
+ * MIN_PERIOD_CHECKS values on each side.
+ */
+export function detectChangePoint(
+  values: number[],
+  options: { iterations?: number; seed?: number } = {}
+): { index: number; confidence: number } | null {
+  if (values.length < MIN_PERIOD_CHECKS * 2) return null;
+
+  const observed = cusum(values);
+  if (observed.range === 0) return null;
+
+  // A change too close to either end leaves too few values for the before/after test
+  const index = observed.peak + 1;
+  if (index < MIN_PERIOD_CHECKS || index > values.length - MIN_PERIOD_CHECKS) return null;
+
+  const iterations = options.iterations ?? DEFAULT_BOOTSTRAP_ITERATIONS;
+  const random = createRandom(options.seed ?? DEFAULT_BOOTSTRAP_SEED);
+  const shuffled = [...values];
+  let smaller = 0;
+  for (let b = 0; b < iterations; b++) {
+    // Fisher–Yates
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    if (cusum(shuffled).range < observed.range) smaller++;
+  }
+
+  return { index, confidence: smaller / iterations };
+}
+
+/**
+ * Standard normal cumulative distribution
+ */
+export function normalCDF(x: number): number {
+  // The lower tail from erfc directly, so tiny tail probabilities do not round to zero
+  return x >= 0 ? 1 - 0.5 * erfc(x / Math.SQRT2) : 0.5 * erfc(-x / Math.SQRT2);
+}
+
+/**
+ * Inverse of the standard normal distribution, by bisection (p from 0 to 1, exclusive)
+ */
+export function normalQuantile(p: number): number {
+  let low = -40;
+  let high = 40;
+  for (let i = 0; i < 100; i++) {
+    const middle = (low + high) / 2;
+    if (normalCDF(middle) < p) low = middle;
+    else high = middle;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Two-sided p-value of Student's t distribution
+ */
+export function studentTTwoSided(t: number, degreesOfFreedom: number): number {
+  if (!Number.isFinite(t)) return 0;
+  return regularizedIncompleteBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5);
+}
+
+function describeMethod(test: TwoSampleTestName, iterations: number): string {
+  const comparison = test === 'welch'
+    ? 'Welch\'s t-test compares the mean of the earlier and later checks without assuming equal variance'
+    : 'a Mann-Whitney U test compares the earlier and later checks without assuming normally distributed values';
+  return `Checks are split at a CUSUM change point when ${iterations.toLocaleString()} shuffles find one, ` +
+    `else at the midpoint; ${comparison}. The slope per month is a least-squares fit with a ` +
+    `residual-bootstrap interval (${iterations.toLocaleString()} resamples).`;
+}
+
+function summarize(values: number[]): { mean: number; variance: number; median: number } {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.length > 1
+    ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1)
+    : 0;
+  return { mean, variance, median: percentile([...values].sort((a, b) => a - b), 0.5) };
+}
+
+function leastSquares(x: number[], y: number[]): { slope: number; intercept: number } {
+  const meanX = x.reduce((sum, value) => sum + value, 0) / x.length;
+  const meanY = y.reduce((sum, value) => sum + value, 0) / y.length;
+  let covariance = 0;
+  let varianceX = 0;
+  for (let i = 0; i < x.length; i++) {
+    covariance += (x[i] - meanX) * (y[i] - meanY);
+    varianceX += (x[i] - meanX) ** 2;
+  }
+  const slope = varianceX === 0 ? 0 : covariance / varianceX;
+  return { slope, intercept: meanY - slope * meanX };
+}
+
+function cusum(values: number[]): { range: number; peak: number } {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  let sum = 0;
+  let min = 0;
+  let max = 0;
+  let peak = 0;
+  let peakMagnitude = 0;
+  values.forEach((value, i) => {
+    sum += value - mean;
+    min = Math.min(min, sum);
+    max = Math.max(max, sum);
+    if (Math.abs(sum) > peakMagnitude) {
+      peakMagnitude = Math.abs(sum);
+      peak = i;
+    }
+  });
+  return { range: max - min, peak };
+}
+
+// Number of ways each U value can occur for samples of size m and n (no ties)
+function mannWhitneyDistribution(m: number, n: number): number[] {
+  // counts[i][j][u]: arrangements of i earlier and j later values with U = u
+  let previous: number[][] = Array.from({ length: n + 1 }, () => [1]);
+  for (let i = 1; i <= m; i++) {
+    const current: number[][] = [[1]];
+    for (let j = 1; j <= n; j++) {
+      const size = i * j + 1;
+      const counts = new Array<number>(size).fill(0);
+      // The largest value is either an earlier one (adds nothing) or a later one (beats all i earlier values)
+      previous[j].forEach((count, u) => { counts[u] += count; });
+      current[j - 1].forEach((count, u) => { counts[u + i] += count; });
+      current.push(counts);
+    }
+    previous = current;
+  }
+  return previous[n];
+}
+
+// Complementary error function for x >= 0 (Abramowitz and Stegun 7.1.26)
+function erfc(x: number): number {
+  const t = 1 / (1 + 0.3275911 * x);
+  return (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+}
+
+// Lanczos approximation
+function logGamma(x: number): number {
+  const coefficients = [76.18009172947146, -86.50532032941678, 24.01409824083091, -1.231739572450155, 0.001208650973866179, -0.000005395239384953];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const coefficient of coefficients) series += coefficient / ++y;
+  return -tmp + Math.log((2.5066282746310007 * series) / x);
+}
+
+// Regularized incomplete beta I_x(a, b) by continued fraction (Numerical Recipes 6.4)
+function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let term = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + term * d;
+    c = 1 + term / c;
+    d = 1 / (Math.abs(d) < tiny ? tiny : d);
+    c = Math.abs(c) < tiny ? tiny : c;
+    h *= d * c;
+
+    term = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + term * d;
+    c = 1 + term / c;
+    d = 1 / (Math.abs(d) < tiny ? tiny : d);
+    c = Math.abs(c) < tiny ? tiny : c;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 3e-12) break;
+  }
+  return h;
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from './concurrency.js';
+
+describe('mapWithConcurrency', () => {
+  const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+  it('should never run more than the limit at once', async () => {
+    let running = 0;
+    let peak = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await delay(5);
+      running--;
+    });
+
+    expect(peak).toBe(2);
+  });
+
+  it('should keep results in input order', async () => {
+    const results = await mapWithConcurrency([30, 5, 15], 3, async (ms, index) => {
+      await delay(ms);
+      return `${index}:${ms}`;
+    });
+
+    expect(results).toEqual(['0:30', '1:5', '2:15']);
+  });
+
+  it('should treat invalid limits as sequential', async () => {
+    const order: number[] = [];
+
+    await mapWithConcurrency([1, 2, 3], 0, async item => {
+      order.push(item);
+    });
+
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it('should reject when a task fails', async () => {
+    await expect(mapWithConcurrency([1, 2], 2, async item => {
+      if (item === 2) throw new Error('boom');
+      return item;
+    })).rejects.toThrow('boom');
+  });
+});
@@ -0,0 +1,49 @@
+import { execSync } from 'child_process';
+
+/**
+ * Git metadata helpers
+ * Every helper returns undefined outside a repository instead of throwing.
+ */
+
+export interface GitInfo {
+  commit?: string;
+  branch?: string;
+}
+
+export function getCurrentBranch(cwd: string = process.cwd()): string | undefined {
+  const fromCi = process.env.GITHUB_HEAD_REF || process.env.GITHUB_REF_NAME || process.env.CI_COMMIT_REF_NAME;
+  if (fromCi) return fromCi;
+
+  const branch = runGit('rev-parse --abbrev-ref HEAD', cwd);
+  return branch && branch !== 'HEAD' ? branch : undefined;
+}
+
+export function getGitInfo(cwd: string = process.cwd()): GitInfo {
+  return {
+    commit: runGit('rev-parse HEAD', cwd),
+    branch: getCurrentBranch(cwd),
+  };
+}
+
+/**
+ * Name of whoever is making a change, preferring the CI actor over local git config
+ */
+export function getGitUser(cwd: string = process.cwd()): string | undefined {
+  return process.env.GITHUB_ACTOR || process.env.GITLAB_USER_LOGIN || runGit('config user.name', cwd);
+}
+
+/**
+ * Resolve a branch, tag or commit-ish to a full commit hash
+ */
+export function resolveGitRef(ref: string, cwd: string = process.cwd()): string | undefined {
+  if (!/^[\w./@^~-]+$/.test(ref)) return undefined;
+  return runGit(`rev-parse --verify --quiet ${ref}^{commit}`, cwd);
+}
+
+function runGit(args: string, cwd: string): string | undefined {
+  try {
+    return execSync(`git ${args}`, { cwd, stdio: ['ignore', 'pipe', 'ignore'] }).toString().trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { TaskProgress, formatElapsed } from './progress.js';
+
+describe('TaskProgress', () => {
+  const createStream = (isTTY: boolean): NodeJS.WriteStream & { output: string } => {
+    const stream = {
+      isTTY,
+      output: '',
+      write(chunk: string): boolean {
+        stream.output += chunk;
+        return true;
+      },
+    };
+    return stream as unknown as NodeJS.WriteStream & { output: string };
+  };
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should print one line per finished task outside a terminal', () => {
+    const stream = createStream(false);
+    const progress = new TaskProgress(3, 'Running evaluators', stream);
+
+    progress.start('a', 'a.ts');
+    progress.start('b', 'b.ts');
+    progress.start('c', 'c.ts');
+    progress.fail('b', 'b.ts failed: boom');
+    progress.succeed('a', 'a.ts completed');
+    progress.info('c', 'c.ts skipped');
+    progress.stop();
+
+    const lines = stream.output.trim().split('\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toContain('b.ts failed: boom');
+    expect(lines[1]).toContain('a.ts completed');
+    expect(lines[2]).toContain('c.ts skipped');
+    expect(stream.output).not.toContain('Running evaluators');
+  });
+
+  it('should keep a live list of running tasks on a terminal', () => {
+    vi.stubEnv('CI', '');
+    const stream = createStream(true);
+    const progress = new TaskProgress(2, 'Running evaluators', stream);
+
+    progress.start('a', 'a.ts');
+    progress.start('b', 'b.ts');
+
+    expect(stream.output).toContain('Running evaluators');
+    expect(stream.output).toContain('a.ts');
+    expect(stream.output).toContain('b.ts');
+
+    progress.succeed('a', 'a.ts completed');
+    progress.succeed('b', 'b.ts completed');
+    progress.stop();
+
+    expect(stream.output).toContain('[1/2]');
+    // The live block is redrawn in place
+    expect(stream.output).toContain('\x1b[0J');
+  });
+});
+
+describe('formatElapsed', () => {
+  it('should switch from milliseconds to seconds', () => {
+    expect(formatElapsed(250)).toBe('250ms');
+    expect(formatElapsed(4200)).toBe('4.2s');
+  });
+});
@@ -0,0 +1,97 @@
+import chalk from 'chalk';
+import * as readline from 'readline';
+
+/**
+ * Progress display for tasks that run side by side
+ * On a terminal it keeps a live list of running tasks below the finished ones;
+ * elsewhere (CI logs, pipes) it prints one line as each task finishes.
+ */
+
+const FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
+const RENDER_INTERVAL_MS = 80;
+
+export class TaskProgress {
+  private running = new Map<string, { label: string; startedAt: number }>();
+  private finished = 0;
+  private renderedLines = 0;
+  private frame = 0;
+  private timer?: NodeJS.Timeout;
+  private interactive: boolean;
+
+  constructor(
+    private total: number,
+    private title: string,
+    private stream: NodeJS.WriteStream = process.stderr
+  ) {
+    this.interactive = Boolean(stream.isTTY) && !process.env.CI;
+  }
+
+  start(id: string, label: string): void {
+    this.running.set(id, { label, startedAt: Date.now() });
+    if (this.interactive && !this.timer) {
+      this.timer = setInterval(() => this.render(), RENDER_INTERVAL_MS);
+    }
+    this.render();
+  }
+
+  succeed(id: string, message: string): void {
+    this.finish(id, `${chalk.green('✔')} ${message}`);
+  }
+
+  fail(id: string, message: string): void {
+    this.finish(id, `${chalk.red('✖')} ${message}`);
+  }
+
+  info(id: string, message: string): void {
+    this.finish(id, `${chalk.blue('ℹ')} ${message}`);
+  }
+
+  /**
+   * Clear the live block; call once every task has finished
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.clear();
+  }
+
+  private finish(id: string, line: string): void {
+    const task = this.running.get(id);
+    this.running.delete(id);
+    this.finished++;
+
+    const elapsed = task ? chalk.gray(` (${formatElapsed(Date.now() - task.startedAt)})`) : '';
+    this.clear();
+    this.stream.write(`${line}${elapsed}\n`);
+    this.render();
+  }
+
+  private render(): void {
+    if (!this.interactive) return;
+
+    this.clear();
+    if (this.running.size === 0) return;
+
+    const spinner = chalk.cyan(FRAMES[this.frame++ % FRAMES.length]);
+    const lines = [`${spinner} ${this.title} ${chalk.gray(`[${this.finished}/${this.total}]`)}`];
+    for (const { label, startedAt } of this.running.values()) {
+      lines.push(chalk.gray(`  • ${label} ${formatElapsed(Date.now() - startedAt)}`));
+    }
+
+    this.stream.write(lines.join('\n') + '\n');
+    this.renderedLines = lines.length;
+  }
+
+  private clear(): void {
+    if (!this.interactive || this.renderedLines === 0) return;
+    readline.moveCursor(this.stream, 0, -this.renderedLines);
+    readline.clearScreenDown(this.stream);
+    this.renderedLines = 0;
+  }
+}
+
+export function formatElapsed(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
@@ -1,7 +1,18 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import axios from 'axios';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { fetchResendCosts } from './resend';
+import { getCredentials } from '../storage/credentials';
 
 vi.mock('axios');
+vi.mock('../storage/credentials', () => ({
+  getCredentials: vi.fn(),
+  saveCredentials: vi.fn(),
+}));
+
+// A response recorded from the API
+const fixture = (name: string): string => readFileSync(path.join(__dirname, '__fixtures__', name), 'utf-8');
 
 describe('Resend Service', () => {
   beforeEach(() => {
@@ -56,4 +67,29 @@ describe('Resend Service', () => {
       expect(domainPattern.test('invalid..domain')).toBe(false);
     });
   });
-});
\ No newline at end of file
+
+  describe('Costs', () => {
+    const september = { from: new Date('2025-09-01T00:00:00Z'), to: new Date('2025-10-01T00:00:00Z') };
+
+    beforeEach(() => {
+      vi.mocked(getCredentials).mockResolvedValue({ apiKey: 're_test_key' });
+      vi.mocked(axios.get)
+        .mockResolvedValueOnce({ data: JSON.parse(fixture('resend-emails-page-1.json')) })
+        .mockResolvedValueOnce({ data: JSON.parse(fixture('resend-emails-page-2.json')) });
+    });
+
+    it('should count the emails sent in the period, paging back to its start', async () => {
+      const [item] = await fetchResendCosts(september);
+
+      expect(axios.get).toHaveBeenCalledTimes(2);
+      expect(vi.mocked(axios.get).mock.calls[1][1]?.params).toEqual({ limit: 100, after: 'c61d2a8e-1b4f-4f7a-9d3e-5e8c7b6a4f20' });
+      expect(item).toEqual({ provider: 'resend', name: 'Free plan (3 emails)', category: 'infrastructure', amount: 0, source: 'estimated' });
+    });
+
+    it('should price the configured plan', async () => {
+      const [item] = await fetchResendCosts(september, 'pro');
+
+      expect(item).toMatchObject({ name: 'Pro plan (3 emails)', amount: 20 });
+    });
+  });
+});
@@ -1,11 +1,20 @@
 import chalk from 'chalk';
 import inquirer from 'inquirer';
 import axios from 'axios';
-import { ServiceSetupResult } from '../types';
+import { CostItem, CostPeriod, ServiceSetupResult } from '../types';
 import { saveCredentials, getCredentials } from '../storage/credentials';
 
 const RESEND_API_BASE = 'https://api.resend.com';
 
+// Monthly plans, cheapest first: list price and emails included
+export const RESEND_PLANS = [
+  { plan: 'free', price: 0, emails: 3000 },
+  { plan: 'pro', price: 20, emails: 50000 },
+  { plan: 'scale', price: 90, emails: 100000 },
+];
+const RESEND_OVERAGE_PER_THOUSAND = 0.9;
+const RESEND_PAGE_SIZE = 100;
+
 export async function setupResend(): Promise<ServiceSetupResult> {
   try {
     console.log(chalk.gray('\nResend provides transactional email infrastructure.'));
@@ -226,25 +235,29 @@ RESEND_API_KEY=${apiKey}
   console.log(chalk.green('✓ Environment variable added to .env.local'));
 }
 
-export async function sendTestEmail(to: string, from?: string): Promise<void> {
+export interface EmailMessage {
+  to: string[];
+  from?: string; // Defaults to onboarding@ the configured domain
+  subject: string;
+  html: string;
+}
+
+/**
+ * Send an email with the credentials saved by `quallaa setup resend`, returning the Resend email id
+ */
+export async function sendEmail(message: EmailMessage): Promise<string> {
   const credentials = await getCredentials('resend');
   if (!credentials?.apiKey) {
     throw new Error('Resend not configured. Run "quallaa setup resend" first.');
   }
 
-  const fromEmail = from || `onboarding@${credentials.domain || 'resend.dev'}`;
-
   const response = await axios.post(
     `${RESEND_API_BASE}/emails`,
     {
-      from: fromEmail,
-      to: [to],
-      subject: 'Test Email from Quallaa CLI',
-      html: `
-        <h1>Welcome to Quallaa!</h1>
-        <p>Your email service is configured correctly.</p>
-        <p>You're ready to build AI-native applications!</p>
-      `,
+      from: message.from || `onboarding@${credentials.domain || 'resend.dev'}`,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
     },
     {
       headers: {
@@ -254,11 +267,72 @@ export async function sendTestEmail(to: string, from?: string): Promise<void> {
     }
   );
 
-  if (response.data.id) {
+  return response.data.id;
+}
+
+export async function sendTestEmail(to: string, from?: string): Promise<void> {
+  const id = await sendEmail({
+    to: [to],
+    from,
+    subject: 'Test Email from Quallaa CLI',
+    html: `
+        <h1>Welcome to Quallaa!</h1>
+        <p>Your email service is configured correctly.</p>
+        <p>You're ready to build AI-native applications!</p>
+      `,
+  });
+
+  if (id) {
     console.log(chalk.green('✓ Test email sent successfully'));
   }
 }
 
+/**
+ * Emails sent in a period, priced at the given plan (plus overage) or else the cheapest plan that includes them
+ * Resend has no billing API, so this is an estimate from list prices.
+ */
+export async function fetchResendCosts(period: CostPeriod, plan?: string): Promise<CostItem[]> {
+  const credentials = await getCredentials('resend');
+  if (!credentials?.apiKey) {
+    throw new Error('Resend not configured. Run "quallaa setup resend" first.');
+  }
+
+  // Emails are listed newest first; page back until the start of the period
+  let sent = 0;
+  let after: string | undefined;
+  for (;;) {
+    const response = await axios.get(`${RESEND_API_BASE}/emails`, {
+      params: { limit: RESEND_PAGE_SIZE, ...(after && { after }) },
+      headers: { Authorization: `Bearer ${credentials.apiKey}` },
+    });
+    const emails: Array<{ id: string; created_at: string }> = response.data.data;
+    sent += emails.filter(email => {
+      const created = new Date(email.created_at);
+      return created >= period.from && created < period.to;
+    }).length;
+
+    const oldest = emails[emails.length - 1];
+    if (!response.data.has_more || !oldest || new Date(oldest.created_at) < period.from) break;
+    after = oldest.id;
+  }
+
+  const selected = plan
+    ? RESEND_PLANS.find(entry => entry.plan === plan)
+    : RESEND_PLANS.find(entry => entry.emails >= sent) ?? RESEND_PLANS[RESEND_PLANS.length - 1];
+  if (!selected) {
+    throw new Error(`Unknown Resend plan "${plan}" (plans: ${RESEND_PLANS.map(entry => entry.plan).join(', ')})`);
+  }
+
+  const overage = (Math.max(0, sent - selected.emails) / 1000) * RESEND_OVERAGE_PER_THOUSAND;
+  return [{
+    provider: 'resend',
+    name: `${selected.plan.charAt(0).toUpperCase()}${selected.plan.slice(1)} plan (${sent.toLocaleString()} emails)`,
+    category: 'infrastructure',
+    amount: selected.price + overage,
+    source: 'estimated',
+  }];
+}
+
 export async function verifyResendCredentials(): Promise<boolean> {
   try {
     const credentials = await getCredentials('resend');
@@ -1,7 +1,20 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { execSync } from 'child_process';
+import axios from 'axios';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { fetchSupabaseCosts } from './supabase';
+import { getCredentials } from '../storage/credentials';
 
 vi.mock('child_process');
+vi.mock('axios');
+vi.mock('../storage/credentials', () => ({
+  getCredentials: vi.fn(),
+  saveCredentials: vi.fn(),
+}));
+
+// A response recorded from the API
+const fixture = (name: string): string => readFileSync(path.join(__dirname, '__fixtures__', name), 'utf-8');
 
 describe('Supabase Service', () => {
   beforeEach(() => {
@@ -62,4 +75,48 @@ describe('Supabase Service', () => {
       expect(envVars.SUPABASE_SERVICE_ROLE_KEY).toMatch(/^eyJ/);
     });
   });
-});
\ No newline at end of file
+
+  describe('Costs', () => {
+    beforeEach(() => {
+      vi.mocked(getCredentials).mockResolvedValue({ accessToken: 'sbp_token', projectRef: 'abcdefghijklmnopqrst' });
+    });
+
+    it('should price the organization plan and the project add-ons', async () => {
+      vi.mocked(axios.get)
+        .mockResolvedValueOnce({ data: JSON.parse(fixture('supabase-project.json')) })
+        .mockResolvedValueOnce({ data: JSON.parse(fixture('supabase-organization.json')) })
+        .mockResolvedValueOnce({ data: JSON.parse(fixture('supabase-addons.json')) });
+
+      const items = await fetchSupabaseCosts();
+
+      expect(vi.mocked(axios.get).mock.calls[1][0]).toBe('https://api.supabase.com/v1/organizations/acme-org');
+      expect(items.map(item => [item.name, item.amount])).toEqual([
+        ['Pro plan', 25],
+        ['Small compute', expect.closeTo(15.04, 2)],
+        ['7 days of point-in-time recovery', 100],
+      ]);
+      expect(items.every(item => item.source === 'estimated')).toBe(true);
+    });
+
+    it('should book only the project\'s share of the organization plan', async () => {
+      vi.mocked(axios.get)
+        .mockResolvedValueOnce({ data: JSON.parse(fixture('supabase-project.json')) })
+        .mockResolvedValueOnce({ data: JSON.parse(fixture('supabase-organization.json')) })
+        .mockResolvedValueOnce({ data: JSON.parse(fixture('supabase-addons.json')) });
+
+      const [plan, compute] = await fetchSupabaseCosts(0.2);
+
+      expect(plan).toMatchObject({ name: 'Pro plan (20% share)', amount: 5 });
+      expect(compute.amount).toBeCloseTo(15.04, 2);
+    });
+
+    it('should refuse to guess the price of an unknown plan', async () => {
+      vi.mocked(axios.get)
+        .mockResolvedValueOnce({ data: JSON.parse(fixture('supabase-project.json')) })
+        .mockResolvedValueOnce({ data: { ...JSON.parse(fixture('supabase-organization.json')), plan: 'enterprise' } })
+        .mockResolvedValueOnce({ data: JSON.parse(fixture('supabase-addons.json')) });
+
+      await expect(fetchSupabaseCosts()).rejects.toThrow('No list price for the Supabase enterprise plan');
+    });
+  });
+});
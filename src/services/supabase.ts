@@ -2,11 +2,33 @@ import chalk from 'chalk';
 import inquirer from 'inquirer';
 import { spawn, exec } from 'child_process';
 import { promisify } from 'util';
-import { ServiceSetupResult } from '../types';
+import axios from 'axios';
+import { CostItem, ServiceSetupResult } from '../types';
 import { saveCredentials, getCredentials } from '../storage/credentials';
 
 const execAsync = promisify(exec);
 
+const SUPABASE_API_BASE = 'https://api.supabase.com';
+
+// Monthly list prices of the organization plans; enterprise is priced per contract
+const SUPABASE_PLAN_PRICES: Record<string, number> = { free: 0, pro: 25, team: 599 };
+const HOURS_PER_MONTH = 730;
+
+// The parts of the Management API responses that costs are read from
+interface SupabaseProject {
+  organization_id: string;
+}
+
+interface SupabaseOrganization {
+  plan: string;
+}
+
+interface SupabaseAddons {
+  selected_addons?: Array<{
+    variant: { name: string; price: { amount: number; interval: 'monthly' | 'hourly' } };
+  }>;
+}
+
 export async function setupSupabase(): Promise<ServiceSetupResult> {
   try {
     console.log(chalk.gray('\nSupabase provides database, authentication, and storage.'));
@@ -284,6 +306,44 @@ export async function createSupabaseTable(tableName: string, schema: string): Pr
   await execAsync('supabase db push');
 }
 
+/**
+ * Monthly list price of the project's share of its organization plan, and of its paid add-ons (compute, PITR, ...)
+ * The Management API has no invoices, so these are estimates that leave out usage above the plan's quotas.
+ */
+export async function fetchSupabaseCosts(planShare: number = 1): Promise<CostItem[]> {
+  const credentials = await getCredentials('supabase');
+  if (!credentials?.accessToken || !credentials?.projectRef) {
+    throw new Error('Supabase not configured. Run "quallaa setup supabase" first.');
+  }
+
+  const headers = { Authorization: `Bearer ${credentials.accessToken}` };
+  const project = (await axios.get<SupabaseProject>(`${SUPABASE_API_BASE}/v1/projects/${credentials.projectRef}`, { headers })).data;
+  const organization = (await axios.get<SupabaseOrganization>(`${SUPABASE_API_BASE}/v1/organizations/${project.organization_id}`, { headers })).data;
+  const addons = (await axios.get<SupabaseAddons>(`${SUPABASE_API_BASE}/v1/projects/${credentials.projectRef}/billing/addons`, { headers })).data;
+
+  const planPrice = SUPABASE_PLAN_PRICES[organization.plan];
+  if (planPrice === undefined) {
+    throw new Error(`No list price for the Supabase ${organization.plan} plan. Add it to evaluators/costs.json as a manual cost instead.`);
+  }
+
+  return [
+    {
+      provider: 'supabase',
+      name: `${organization.plan.charAt(0).toUpperCase()}${organization.plan.slice(1)} plan${planShare < 1 ? ` (${Math.round(planShare * 1000) / 10}% share)` : ''}`,
+      category: 'infrastructure',
+      amount: planPrice * planShare,
+      source: 'estimated',
+    },
+    ...(addons.selected_addons ?? []).map((addon): CostItem => ({
+      provider: 'supabase',
+      name: addon.variant.name,
+      category: 'infrastructure',
+      amount: addon.variant.price.interval === 'hourly' ? addon.variant.price.amount * HOURS_PER_MONTH : addon.variant.price.amount,
+      source: 'estimated',
+    })),
+  ];
+}
+
 export async function verifySupabaseCredentials(): Promise<boolean> {
   try {
     const credentials = await getCredentials('supabase');
@@ -1,7 +1,7 @@
 import chalk from 'chalk';
 import inquirer from 'inquirer';
 import axios from 'axios';
-import { ServiceSetupResult } from '../types';
+import { CostItem, ServiceSetupResult } from '../types';
 import { saveCredentials, getCredentials } from '../storage/credentials';
 
 export async function setupTypesense(): Promise<ServiceSetupResult> {
@@ -269,6 +269,27 @@ export const defaultSchemas = {
   },
 };
 
+/**
+ * Monthly cost of the Typesense cluster
+ * Neither Typesense Cloud nor a self-hosted server reports what it costs, so the price is configured
+ * in evaluators/costs.json and the credentials only say which cluster it is for.
+ */
+export async function fetchTypesenseCosts(monthlyCost: number): Promise<CostItem[]> {
+  const credentials = await getCredentials('typesense');
+  if (!credentials?.host) {
+    throw new Error('Typesense not configured. Run "quallaa setup typesense" first.');
+  }
+
+  const cloud = credentials.host.endsWith('.typesense.net');
+  return [{
+    provider: 'typesense',
+    name: cloud ? `Typesense Cloud cluster ${credentials.host}` : `Self-hosted Typesense at ${credentials.host}`,
+    category: 'infrastructure',
+    amount: monthlyCost,
+    source: 'estimated',
+  }];
+}
+
 export async function verifyTypesenseCredentials(): Promise<boolean> {
   try {
     const credentials = await getCredentials('typesense');
@@ -1,7 +1,18 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import axios from 'axios';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { fetchVercelCosts } from './vercel';
+import { getCredentials } from '../storage/credentials';
 
 vi.mock('axios');
+vi.mock('../storage/credentials', () => ({
+  getCredentials: vi.fn(),
+  saveCredentials: vi.fn(),
+}));
+
+// A response recorded from the API
+const fixture = (name: string): string => readFileSync(path.join(__dirname, '__fixtures__', name), 'utf-8');
 
 describe('Vercel Service', () => {
   beforeEach(() => {
@@ -32,4 +43,44 @@ describe('Vercel Service', () => {
       await expect(axios.get('https://api.vercel.com/v2/user')).rejects.toThrow('Unauthorized');
     });
   });
-});
\ No newline at end of file
+
+  describe('Costs', () => {
+    const september = { from: new Date('2025-09-01T00:00:00Z'), to: new Date('2025-10-01T00:00:00Z') };
+
+    it('should total billed charges per service', async () => {
+      vi.mocked(getCredentials).mockResolvedValue({ token: 'vercel_token', teamId: 'team_acme' });
+      vi.mocked(axios.get).mockResolvedValue({ data: fixture('vercel-billing-charges.jsonl') });
+
+      const items = await fetchVercelCosts(september);
+
+      expect(vi.mocked(axios.get).mock.calls[0][1]?.params).toEqual({
+        from: '2025-09-01T00:00:00.000Z',
+        to: '2025-10-01T00:00:00.000Z',
+        teamId: 'team_acme',
+      });
+      expect(items.map(item => item.name)).toEqual(['Pro Seats', 'Function Invocations', 'Fast Data Transfer']);
+      expect(items[1].amount).toBeCloseTo(9.6);
+      expect(items.every(item => item.source === 'measured' && item.provider === 'vercel')).toBe(true);
+    });
+
+    it('should only count charges tagged with the project when one is given', async () => {
+      vi.mocked(getCredentials).mockResolvedValue({ token: 'vercel_token', teamId: 'team_acme' });
+      vi.mocked(axios.get).mockResolvedValue({ data: fixture('vercel-billing-charges.jsonl') });
+
+      const byName = await fetchVercelCosts(september, 'invoice-guardrails');
+      expect(byName.map(item => item.name)).toEqual(['Function Invocations', 'Fast Data Transfer']);
+      expect(byName[0].amount).toBeCloseTo(6.5);
+
+      expect(await fetchVercelCosts(september, 'prj_2hT9cV7mRs')).toEqual([
+        { provider: 'vercel', name: 'Function Invocations', category: 'infrastructure', amount: 3.1, source: 'measured' },
+      ]);
+    });
+
+    it('should require Vercel credentials', async () => {
+      vi.mocked(getCredentials).mockResolvedValue(null);
+
+      await expect(fetchVercelCosts(september)).rejects.toThrow('Vercel not configured');
+      expect(axios.get).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -2,7 +2,7 @@ import chalk from 'chalk';
 import inquirer from 'inquirer';
 import axios from 'axios';
 import { spawn } from 'child_process';
-import { ServiceSetupResult } from '../types';
+import { CostItem, CostPeriod, ServiceSetupResult } from '../types';
 import { saveCredentials, getCredentials } from '../storage/credentials';
 
 const VERCEL_API_BASE = 'https://api.vercel.com';
@@ -314,6 +314,40 @@ export async function setVercelEnvVars(projectId: string, envVars: Record<string
   await Promise.all(promises);
 }
 
+/**
+ * Billed charges for a period, totalled per Vercel service, optionally only those tagged with one project
+ * The billing API streams FOCUS cost records, one JSON object per line. Team-wide charges such as
+ * seats carry no project tag, so filtering by project leaves them out.
+ */
+export async function fetchVercelCosts(period: CostPeriod, project?: string): Promise<CostItem[]> {
+  const credentials = await getCredentials('vercel');
+  if (!credentials?.token) {
+    throw new Error('Vercel not configured. Run "quallaa setup vercel" first.');
+  }
+
+  const response = await axios.get(`${VERCEL_API_BASE}/v1/billing/charges`, {
+    params: {
+      from: period.from.toISOString(),
+      to: period.to.toISOString(),
+      ...(credentials.teamId && { teamId: credentials.teamId }),
+    },
+    headers: {
+      Authorization: `Bearer ${credentials.token}`,
+    },
+    responseType: 'text',
+  });
+
+  const byService = new Map<string, number>();
+  for (const line of String(response.data).split('\n')) {
+    if (line.trim() === '') continue;
+    const charge = JSON.parse(line);
+    if (project && charge.Tags?.ProjectName !== project && charge.Tags?.ProjectId !== project) continue;
+    byService.set(charge.ServiceName, (byService.get(charge.ServiceName) ?? 0) + Number(charge.BilledCost));
+  }
+
+  return [...byService].map(([name, amount]) => ({ provider: 'vercel', name, category: 'infrastructure', amount, source: 'measured' }));
+}
+
 export async function verifyVercelCredentials(): Promise<boolean> {
   try {
     const credentials = await getCredentials('vercel');
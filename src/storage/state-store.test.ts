@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StateStore, loadRetentionPolicy, selectExpired, DEFAULT_RETENTION, RETENTION_CONFIG_PATH } from './state-store';
+import type { ROIBaseline, ROISnapshot } from '../types';
+
+// Passes through to the real function; a test steps in to simulate a concurrent process
+vi.mock('fs', async importOriginal => {
+  const actual = await importOriginal<typeof import('fs')>();
+  return { ...actual, existsSync: vi.fn(actual.existsSync) };
+});
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('StateStore', () => {
+  let projectPath: string;
+
+  const baseline: ROIBaseline = {
+    establishedAt: new Date('2025-01-01'),
+    developmentCost: 20000,
+    currentSaasSpend: 1000,
+    teamSize: 4,
+    currentProcessingHours: 60,
+    errorRateBaseline: 0.05,
+    accuracyBaseline: 0.85,
+    complianceScore: 0.7,
+    customerSatisfactionScore: 7.5,
+  };
+
+  const snapshot = (id: string, projectId: string, timestamp: Date): ROISnapshot => ({
+    id,
+    projectId,
+    timestamp,
+    metrics: { financial: { currentROI: 10 } } as any,
+    baseline,
+    period: { startDate: baseline.establishedAt, endDate: timestamp },
+    statisticalSignificance: { pValue: 0.5, isSignificant: false },
+  });
+
+  const writeQuallaaFile = (name: string, data: unknown): void => {
+    const file = path.join(projectPath, '.quallaa', name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(data));
+  };
+
+  beforeEach(() => {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'quallaa-state-'));
+  });
+
+  afterEach(() => {
+    StateStore.open(projectPath).close();
+    fs.rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  describe('migration from JSON files', () => {
+    it('should import the old files once and move them to json-backup', () => {
+      writeQuallaaFile('roi-baseline.json', baseline);
+      writeQuallaaFile('roi-snapshots.json', [snapshot('roi_1', 'acme', new Date('2025-02-01'))]);
+      writeQuallaaFile('evaluations/eval_1.json', {
+        id: 'eval_1',
+        recordedAt: '2025-02-01T00:00:00.000Z',
+        git: { branch: 'main' },
+        suite: { name: 'Suite', results: [], timestamp: '2025-02-01T00:00:00.000Z' },
+      });
+
+      const store = StateStore.open(projectPath);
+
+      expect(store.listBaselineVersions()).toMatchObject([{ version: 1, author: 'unknown' }]);
+      expect(store.currentBaseline()?.establishedAt).toEqual(baseline.establishedAt);
+      expect(store.listSnapshots().map(entry => entry.id)).toEqual(['roi_1']);
+      expect(store.listRuns()[0].recordedAt).toEqual(new Date('2025-02-01'));
+      expect(fs.readdirSync(path.join(projectPath, '.quallaa', 'json-backup')).sort())
+        .toEqual(['evaluations', 'roi-baseline.json', 'roi-snapshots.json']);
+      expect(fs.existsSync(path.join(projectPath, '.quallaa', 'roi-baseline.json'))).toBe(false);
+
+      // Files written later by an older CLI are not imported again
+      store.close();
+      writeQuallaaFile('roi-snapshots.json', [snapshot('roi_2', 'acme', new Date('2025-03-01'))]);
+      expect(StateStore.open(projectPath).listSnapshots().map(entry => entry.id)).toEqual(['roi_1']);
+    });
+
+    it('should not import the files twice when another process imports them first', async () => {
+      writeQuallaaFile('roi-baseline.json', baseline);
+      writeQuallaaFile('roi-snapshots.json', [snapshot('roi_1', 'acme', new Date('2025-02-01'))]);
+
+      // The other process finishes its import while this one is still reading the files
+      let other: StateStore | undefined;
+      const { existsSync } = await vi.importActual<typeof import('fs')>('fs');
+      vi.mocked(fs.existsSync).mockImplementation(file => {
+        if (String(file).endsWith('evaluations')) {
+          vi.mocked(fs.existsSync).mockImplementation(existsSync);
+          other = StateStore.open(projectPath);
+        }
+        return existsSync(file);
+      });
+
+      const store = StateStore.open(projectPath);
+
+      expect(other).toBeDefined();
+      expect(store.listBaselineVersions()).toHaveLength(1);
+      expect(store.listSnapshots().map(entry => entry.id)).toEqual(['roi_1']);
+      other?.close();
+    });
+
+    it('should keep the recorded baseline history when there is one', () => {
+      writeQuallaaFile('roi-baseline.json', { ...baseline, version: 2, developmentCost: 25000 });
+      writeQuallaaFile('roi-baseline-history.json', [
+        { version: 1, baseline: { ...baseline, version: 1 }, recordedAt: '2025-01-01T00:00:00.000Z', author: 'dana', reason: 'Baseline established' },
+        { version: 2, baseline: { ...baseline, version: 2, developmentCost: 25000 }, recordedAt: '2025-02-01T00:00:00.000Z', author: 'lee', reason: 'Final invoice' },
+      ]);
+
+      const store = StateStore.open(projectPath);
+
+      expect(store.listBaselineVersions().map(entry => [entry.version, entry.author])).toEqual([[1, 'dana'], [2, 'lee']]);
+      expect(store.currentBaseline()?.developmentCost).toBe(25000);
+    });
+  });
+
+  it('should number baseline versions from the latest stored one', () => {
+    const store = StateStore.open(projectPath);
+    const append = (): number => store.appendBaselineVersion(previous => {
+      const version = previous ? previous.version + 1 : 1;
+      return { version, baseline: { ...baseline, version }, recordedAt: new Date(), author: 'dana', reason: 'test' };
+    }).version;
+
+    expect([append(), append(), append()]).toEqual([1, 2, 3]);
+    expect(store.currentBaseline()?.version).toBe(3);
+  });
+
+  it('should query snapshots by project and period', () => {
+    const store = StateStore.open(projectPath);
+    store.insertSnapshot(snapshot('a1', 'acme', new Date('2025-01-10')));
+    store.insertSnapshot(snapshot('b1', 'beta', new Date('2025-01-20')));
+    store.insertSnapshot(snapshot('a2', 'acme', new Date('2025-02-10')));
+    store.insertSnapshot(snapshot('a3', 'acme', new Date('2025-03-10')));
+
+    expect(store.listSnapshots('acme').map(entry => entry.id)).toEqual(['a1', 'a2', 'a3']);
+    expect(store.listSnapshots('acme', { from: new Date('2025-02-01') }).map(entry => entry.id)).toEqual(['a2', 'a3']);
+    expect(store.listSnapshots(undefined, { from: new Date('2025-01-15'), to: new Date('2025-02-28') }).map(entry => entry.id)).toEqual(['b1', 'a2']);
+    expect(store.listSnapshots('acme')[0].period.endDate).toBeInstanceOf(Date);
+  });
+
+  it('should roll up older snapshots of the same project as new ones arrive', () => {
+    const store = StateStore.open(projectPath);
+    const now = new Date('2025-06-30T12:00:00Z').getTime();
+    store.insertSnapshot(snapshot('other-project', 'beta', new Date(now - 20 * DAY)));
+    store.insertSnapshot(snapshot('day-20-morning', 'acme', new Date(now - 20 * DAY - 2 * 60 * 60 * 1000)));
+    store.insertSnapshot(snapshot('day-20-evening', 'acme', new Date(now - 20 * DAY)));
+    store.insertSnapshot(snapshot('today', 'acme', new Date(now)));
+
+    expect(store.listSnapshots().map(entry => entry.id)).toEqual(['other-project', 'day-20-evening', 'today']);
+  });
+});
+
+describe('selectExpired', () => {
+  const now = new Date('2025-06-30T12:00:00Z').getTime();
+  const entry = (id: string, daysAgo: number, group = 'acme'): { id: string; time: number; group: string } => ({ id, time: now - daysAgo * DAY, group });
+
+  it('should keep everything recent, then the latest per day, then the latest per month', () => {
+    const expired = selectExpired([
+      entry('recent-1', 1),
+      entry('recent-2', 1.01),
+      entry('day-30-early', 30.2),
+      entry('day-30-late', 30.1),
+      entry('day-31', 31.1),
+      entry('jan-early', 170),
+      entry('jan-late', 160),
+      entry('dec', 200),
+    ], DEFAULT_RETENTION, now);
+
+    expect(expired.sort()).toEqual(['day-30-early', 'jan-early']);
+  });
+
+  it('should only roll up entries within the same group', () => {
+    expect(selectExpired([entry('main', 30.2, 'main'), entry('feature', 30.1, 'feature')], DEFAULT_RETENTION, now)).toEqual([]);
+  });
+});
+
+describe('loadRetentionPolicy', () => {
+  let projectPath: string;
+
+  const writeConfig = (content: string): void => {
+    fs.mkdirSync(path.join(projectPath, 'evaluators'), { recursive: true });
+    fs.writeFileSync(path.join(projectPath, RETENTION_CONFIG_PATH), content);
+  };
+
+  beforeEach(() => {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'quallaa-retention-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  it('should default to a week of everything and 90 days of daily snapshots', () => {
+    expect(loadRetentionPolicy(projectPath)).toEqual({ keepAllDays: 7, dailyDays: 90 });
+  });
+
+  it('should merge the configured days with the defaults', () => {
+    writeConfig(JSON.stringify({ dailyDays: 365 }));
+    expect(loadRetentionPolicy(projectPath)).toEqual({ keepAllDays: 7, dailyDays: 365 });
+  });
+
+  it('should reject invalid policies', () => {
+    writeConfig(JSON.stringify({ keepAllDays: 1.5 }));
+    expect(() => loadRetentionPolicy(projectPath)).toThrow('keepAllDays must be a whole number of days');
+
+    writeConfig(JSON.stringify({ keepAllDays: 30, dailyDays: 14 }));
+    expect(() => loadRetentionPolicy(projectPath)).toThrow('dailyDays must not be less than keepAllDays');
+
+    writeConfig('{ dailyDays: 30 }');
+    expect(() => loadRetentionPolicy(projectPath)).toThrow(`Invalid ${RETENTION_CONFIG_PATH}`);
+  });
+});
@@ -0,0 +1,437 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BaselineVersion, EvaluationRun, MonthlyCosts, ROIBaseline, ROISnapshot } from '../types/index.js';
+
+/**
+ * Project state store
+ * Baseline versions, ROI snapshots, evaluation runs, monthly costs and active ROI alerts in .quallaa/state.db, an embedded SQLite
+ * database. Writes run in immediate transactions with WAL journaling, so concurrent CLI processes
+ * (e.g. a scheduled check and an evaluation run in CI) queue instead of overwriting each other.
+ */
+
+export const STATE_DB_PATH = path.join('.quallaa', 'state.db');
+export const RETENTION_CONFIG_PATH = path.join('evaluators', 'retention.json');
+
+const SCHEMA_VERSION = 3;
+const BUSY_TIMEOUT_MS = 5000;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * How long stored snapshots and evaluation runs keep their full detail
+ * Everything from the last `keepAllDays` is kept; older entries are rolled up to the latest one per
+ * day until `dailyDays`, then to the latest one per month. Snapshots hold cumulative figures, so
+ * the latest entry of a period stands for the whole period.
+ */
+export interface RetentionPolicy {
+  keepAllDays: number;
+  dailyDays: number;
+}
+
+export const DEFAULT_RETENTION: RetentionPolicy = { keepAllDays: 7, dailyDays: 90 };
+
+export interface PeriodFilter {
+  from?: Date;
+  to?: Date;
+}
+
+// An alert rule that fired and has not cleared since, so it is not sent again
+export interface ActiveAlert {
+  rule: string;
+  snapshotId: string; // Check that fired it
+  firedAt: Date;
+}
+
+interface RetentionEntry {
+  id: string;
+  time: number;
+  group: string; // Entries are only rolled up with others in the same group (project or branch)
+}
+
+// Connections are shared per database file within a process
+const openStores = new Map<string, StateStore>();
+
+export class StateStore {
+  private db: Database.Database;
+
+  private constructor(private projectPath: string, private retention: RetentionPolicy, readonly: boolean = false) {
+    const dbPath = path.join(projectPath, STATE_DB_PATH);
+    if (readonly) {
+      this.db = new Database(dbPath, { readonly: true, fileMustExist: true });
+      this.db.pragma(`busy_timeout = ${BUSY_TIMEOUT_MS}`);
+      return;
+    }
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma(`busy_timeout = ${BUSY_TIMEOUT_MS}`);
+    try {
+      this.createSchema();
+      this.migrateFromJson();
+    } catch (error) {
+      this.db.close();
+      throw error;
+    }
+  }
+
+  /**
+   * The store for a project, created (and migrated from the old JSON files) on first use
+   */
+  static open(projectPath: string = process.cwd()): StateStore {
+    const resolved = path.resolve(projectPath);
+    let store = openStores.get(resolved);
+    if (!store) {
+      store = new StateStore(resolved, loadRetentionPolicy(resolved));
+      openStores.set(resolved, store);
+    }
+    return store;
+  }
+
+  /**
+   * A read-only connection to a project's existing store, or null when the project has none yet
+   * Nothing is created or migrated, so other projects' directories can be read safely. Close it when done.
+   */
+  static openReadOnly(projectPath: string): StateStore | null {
+    const resolved = path.resolve(projectPath);
+    if (!fs.existsSync(path.join(resolved, STATE_DB_PATH))) return null;
+    return new StateStore(resolved, DEFAULT_RETENTION, true);
+  }
+
+  close(): void {
+    this.db.close();
+    if (openStores.get(this.projectPath) === this) openStores.delete(this.projectPath);
+  }
+
+  /**
+   * Baseline versions, oldest first
+   */
+  listBaselineVersions(): BaselineVersion[] {
+    const rows = this.db.prepare('SELECT data FROM baseline_versions ORDER BY version').all() as Array<{ data: string }>;
+    return rows.map(row => reviveBaselineVersion(JSON.parse(row.data)));
+  }
+
+  currentBaseline(): ROIBaseline | null {
+    const row = this.db.prepare('SELECT data FROM baseline_versions ORDER BY version DESC LIMIT 1').get() as { data: string } | undefined;
+    return row ? reviveBaselineVersion(JSON.parse(row.data)).baseline : null;
+  }
+
+  /**
+   * Append the next baseline version
+   * The version number is assigned inside the transaction, so two writers cannot claim the same one.
+   */
+  appendBaselineVersion(
+    build: (previous: BaselineVersion | null) => BaselineVersion
+  ): BaselineVersion {
+    return this.db.transaction(() => {
+      const versions = this.listBaselineVersions();
+      const entry = build(versions[versions.length - 1] ?? null);
+      this.insertBaselineVersion(entry);
+      return entry;
+    }).immediate();
+  }
+
+  /**
+   * Snapshots oldest first, optionally for one project and a period of check times
+   */
+  listSnapshots(projectId?: string, period: PeriodFilter = {}): ROISnapshot[] {
+    const { clauses, params } = periodClauses('timestamp', period);
+    if (projectId) {
+      clauses.unshift('project_id = ?');
+      params.unshift(projectId);
+    }
+
+    const rows = this.db.prepare(
+      `SELECT data FROM snapshots ${clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''} ORDER BY timestamp, rowid`
+    ).all(...params) as Array<{ data: string }>;
+    return rows.map(row => reviveSnapshot(JSON.parse(row.data)));
+  }
+
+  /**
+   * Store a snapshot and roll up older snapshots of the same project
+   */
+  insertSnapshot(snapshot: ROISnapshot): void {
+    this.db.transaction(() => {
+      this.insertSnapshotRow(snapshot);
+      const entries = this.db.prepare('SELECT id, timestamp AS time, project_id AS "group" FROM snapshots WHERE project_id = ?')
+        .all(snapshot.projectId) as RetentionEntry[];
+      this.deleteRows('snapshots', selectExpired(entries, this.retention, snapshot.timestamp.getTime()));
+    }).immediate();
+  }
+
+  /**
+   * Evaluation runs oldest first, optionally within a period of recording times
+   */
+  listRuns(period: PeriodFilter = {}): EvaluationRun[] {
+    const { clauses, params } = periodClauses('recorded_at', period);
+    const rows = this.db.prepare(
+      `SELECT data FROM evaluation_runs ${clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''} ORDER BY recorded_at, rowid`
+    ).all(...params) as Array<{ data: string }>;
+    return rows.map(row => reviveRun(JSON.parse(row.data)));
+  }
+
+  /**
+   * Store a run and roll up older runs of the same branch
+   */
+  insertRun(run: EvaluationRun): void {
+    this.db.transaction(() => {
+      this.insertRunRow(run);
+      const entries = this.db.prepare('SELECT id, recorded_at AS time, COALESCE(branch, \'\') AS "group" FROM evaluation_runs')
+        .all() as RetentionEntry[];
+      this.deleteRows('evaluation_runs', selectExpired(entries, this.retention, run.recordedAt.getTime()));
+    }).immediate();
+  }
+
+  /**
+   * Monthly costs recorded for a project, oldest month first
+   */
+  listMonthlyCosts(projectId: string): MonthlyCosts[] {
+    const rows = this.db.prepare('SELECT data FROM monthly_costs WHERE project_id = ? ORDER BY month')
+      .all(projectId) as Array<{ data: string }>;
+    return rows.map(row => reviveMonthlyCosts(JSON.parse(row.data)));
+  }
+
+  /**
+   * Store a project's costs for a month, replacing any collected earlier for that month
+   */
+  saveMonthlyCosts(costs: MonthlyCosts): void {
+    this.db.prepare('INSERT OR REPLACE INTO monthly_costs (project_id, month, collected_at, data) VALUES (?, ?, ?, ?)')
+      .run(costs.projectId, costs.month, costs.collectedAt.getTime(), JSON.stringify(costs));
+  }
+
+  /**
+   * Alert rules that fired for a project and have not cleared since
+   */
+  listActiveAlerts(projectId: string): ActiveAlert[] {
+    const rows = this.db.prepare('SELECT rule, snapshot_id, fired_at FROM active_alerts WHERE project_id = ? ORDER BY fired_at, rule')
+      .all(projectId) as Array<{ rule: string; snapshot_id: string; fired_at: number }>;
+    return rows.map(row => ({ rule: row.rule, snapshotId: row.snapshot_id, firedAt: new Date(row.fired_at) }));
+  }
+
+  /**
+   * Replace a project's active alerts
+   */
+  setActiveAlerts(projectId: string, alerts: ActiveAlert[]): void {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM active_alerts WHERE project_id = ?').run(projectId);
+      const insert = this.db.prepare('INSERT INTO active_alerts (project_id, rule, snapshot_id, fired_at) VALUES (?, ?, ?, ?)');
+      alerts.forEach(alert => insert.run(projectId, alert.rule, alert.snapshotId, alert.firedAt.getTime()));
+    }).immediate();
+  }
+
+  private createSchema(): void {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    if (version >= SCHEMA_VERSION) return;
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS baseline_versions (
+        version INTEGER PRIMARY KEY,
+        recorded_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS snapshots (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        baseline_version INTEGER,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS snapshots_project_timestamp ON snapshots (project_id, timestamp);
+      CREATE TABLE IF NOT EXISTS evaluation_runs (
+        id TEXT PRIMARY KEY,
+        recorded_at INTEGER NOT NULL,
+        branch TEXT,
+        git_commit TEXT,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS evaluation_runs_recorded_at ON evaluation_runs (recorded_at);
+      CREATE INDEX IF NOT EXISTS evaluation_runs_branch ON evaluation_runs (branch, recorded_at);
+      CREATE TABLE IF NOT EXISTS monthly_costs (
+        project_id TEXT NOT NULL,
+        month TEXT NOT NULL,
+        collected_at INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (project_id, month)
+      );
+      CREATE TABLE IF NOT EXISTS active_alerts (
+        project_id TEXT NOT NULL,
+        rule TEXT NOT NULL,
+        snapshot_id TEXT NOT NULL,
+        fired_at INTEGER NOT NULL,
+        PRIMARY KEY (project_id, rule)
+      );
+      PRAGMA user_version = ${SCHEMA_VERSION};
+    `);
+  }
+
+  /**
+   * One-time import of roi-baseline.json, roi-baseline-history.json, roi-snapshots.json and
+   * evaluations/*.json. The files are moved to .quallaa/json-backup/ once imported.
+   */
+  private migrateFromJson(): void {
+    const isMigrated = (): boolean => Boolean(this.db.prepare('SELECT value FROM meta WHERE key = ?').get('json_migrated_at'));
+    if (isMigrated()) return;
+
+    const quallaaDir = path.join(this.projectPath, '.quallaa');
+    const readJson = (file: string): unknown => {
+      try {
+        return JSON.parse(fs.readFileSync(path.join(quallaaDir, file), 'utf-8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+        throw new Error(`Could not migrate .quallaa/${file}: ${error instanceof Error ? error.message : error}`);
+      }
+    };
+
+    const baseline = readJson('roi-baseline.json') as ROIBaseline | undefined;
+    const history = readJson('roi-baseline-history.json') as BaselineVersion[] | undefined;
+    const snapshots = (readJson('roi-snapshots.json') ?? []) as ROISnapshot[];
+    const runFiles = fs.existsSync(path.join(quallaaDir, 'evaluations'))
+      ? fs.readdirSync(path.join(quallaaDir, 'evaluations')).filter(file => file.endsWith('.json'))
+      : [];
+    const runs = runFiles.map(file => readJson(path.join('evaluations', file)) as EvaluationRun);
+
+    // Baselines from before history was kept become version 1
+    const versions: BaselineVersion[] = history ?? (baseline
+      ? [{ version: baseline.version ?? 1, baseline, recordedAt: baseline.establishedAt, author: 'unknown', reason: 'Recorded before baseline history was kept' }]
+      : []);
+
+    // Another process may have imported the files while these were read; the lock makes this check final
+    const imported = this.db.transaction((): boolean => {
+      if (isMigrated()) return false;
+      versions.forEach(entry => this.insertBaselineVersion(reviveBaselineVersion(entry)));
+      snapshots.forEach(snapshot => this.insertSnapshotRow(reviveSnapshot(snapshot)));
+      runs.forEach(run => this.insertRunRow(reviveRun(run)));
+      this.db.prepare('INSERT INTO meta (key, value) VALUES (?, ?)').run('json_migrated_at', new Date().toISOString());
+      return true;
+    }).immediate();
+    if (!imported) return;
+
+    const migrated = ['roi-baseline.json', 'roi-baseline-history.json', 'roi-snapshots.json', 'evaluations']
+      .filter(file => fs.existsSync(path.join(quallaaDir, file)));
+    if (migrated.length > 0) {
+      const backupDir = path.join(quallaaDir, 'json-backup');
+      fs.mkdirSync(backupDir, { recursive: true });
+      migrated.forEach(file => fs.renameSync(path.join(quallaaDir, file), path.join(backupDir, file)));
+    }
+  }
+
+  private insertBaselineVersion(entry: BaselineVersion): void {
+    this.db.prepare('INSERT INTO baseline_versions (version, recorded_at, data) VALUES (?, ?, ?)')
+      .run(entry.version, entry.recordedAt.getTime(), JSON.stringify(entry));
+  }
+
+  private insertSnapshotRow(snapshot: ROISnapshot): void {
+    this.db.prepare('INSERT OR REPLACE INTO snapshots (id, project_id, timestamp, baseline_version, data) VALUES (?, ?, ?, ?, ?)')
+      .run(snapshot.id, snapshot.projectId, snapshot.timestamp.getTime(), snapshot.baselineVersion ?? null, JSON.stringify(snapshot));
+  }
+
+  private insertRunRow(run: EvaluationRun): void {
+    this.db.prepare('INSERT OR REPLACE INTO evaluation_runs (id, recorded_at, branch, git_commit, data) VALUES (?, ?, ?, ?, ?)')
+      .run(run.id, run.recordedAt.getTime(), run.git.branch ?? null, run.git.commit ?? null, JSON.stringify(run));
+  }
+
+  private deleteRows(table: 'snapshots' | 'evaluation_runs', ids: string[]): void {
+    const remove = this.db.prepare(`DELETE FROM ${table} WHERE id = ?`);
+    ids.forEach(id => remove.run(id));
+  }
+}
+
+/**
+ * Retention policy from evaluators/retention.json, or the defaults when there is none
+ */
+export function loadRetentionPolicy(projectPath: string = process.cwd()): RetentionPolicy {
+  const configPath = path.join(projectPath, RETENTION_CONFIG_PATH);
+  let config: Partial<RetentionPolicy>;
+  try {
+    config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return DEFAULT_RETENTION;
+    throw new Error(`Invalid ${RETENTION_CONFIG_PATH}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const policy = { ...DEFAULT_RETENTION, ...config };
+  for (const key of ['keepAllDays', 'dailyDays'] as const) {
+    if (!Number.isInteger(policy[key]) || policy[key] < 0) {
+      throw new Error(`Invalid ${RETENTION_CONFIG_PATH}: ${key} must be a whole number of days`);
+    }
+  }
+  if (policy.dailyDays < policy.keepAllDays) {
+    throw new Error(`Invalid ${RETENTION_CONFIG_PATH}: dailyDays must not be less than keepAllDays`);
+  }
+  return policy;
+}
+
+/**
+ * Ids to delete so each group keeps everything recent, then one entry per day, then one per month
+ */
+export function selectExpired(entries: RetentionEntry[], policy: RetentionPolicy, now: number): string[] {
+  const latestByBucket = new Map<string, RetentionEntry>();
+  const expired: string[] = [];
+
+  for (const entry of entries) {
+    const ageDays = (now - entry.time) / MS_PER_DAY;
+    if (ageDays <= policy.keepAllDays) continue;
+
+    const date = new Date(entry.time).toISOString();
+    const bucket = `${entry.group}|${ageDays <= policy.dailyDays ? date.slice(0, 10) : date.slice(0, 7)}`;
+    const kept = latestByBucket.get(bucket);
+    if (!kept) {
+      latestByBucket.set(bucket, entry);
+    } else if (entry.time > kept.time) {
+      expired.push(kept.id);
+      latestByBucket.set(bucket, entry);
+    } else {
+      expired.push(entry.id);
+    }
+  }
+
+  return expired;
+}
+
+function periodClauses(column: string, period: PeriodFilter): { clauses: string[]; params: Array<string | number> } {
+  const clauses: string[] = [];
+  const params: Array<string | number> = [];
+  if (period.from) {
+    clauses.push(`${column} >= ?`);
+    params.push(period.from.getTime());
+  }
+  if (period.to) {
+    clauses.push(`${column} <= ?`);
+    params.push(period.to.getTime());
+  }
+  return { clauses, params };
+}
+
+// Convert date strings back to Date objects
+function reviveBaselineVersion(entry: BaselineVersion): BaselineVersion {
+  entry.recordedAt = new Date(entry.recordedAt);
+  entry.baseline.establishedAt = new Date(entry.baseline.establishedAt);
+  return entry;
+}
+
+function reviveSnapshot(snapshot: ROISnapshot): ROISnapshot {
+  snapshot.timestamp = new Date(snapshot.timestamp);
+  if (snapshot.period) {
+    snapshot.period.startDate = new Date(snapshot.period.startDate);
+    snapshot.period.endDate = new Date(snapshot.period.endDate);
+  }
+  if (snapshot.baseline) {
+    snapshot.baseline.establishedAt = new Date(snapshot.baseline.establishedAt);
+  }
+  return snapshot;
+}
+
+function reviveMonthlyCosts(costs: MonthlyCosts): MonthlyCosts {
+  costs.collectedAt = new Date(costs.collectedAt);
+  return costs;
+}
+
+function reviveRun(run: EvaluationRun): EvaluationRun {
+  run.recordedAt = new Date(run.recordedAt);
+  run.suite.timestamp = new Date(run.suite.timestamp);
+  return run;
+}
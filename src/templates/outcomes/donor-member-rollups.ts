@@ -161,6 +161,17 @@ export const donorMemberRollupsTemplate: OutcomeTemplateDefinition = {
     }
   },
   
+  roiTracking: {
+    enabled: true,
+    baselineMetrics: ['currentProcessingHours', 'errorRateBaseline', 'accuracyBaseline'],
+    businessImpactMapping: {
+      reconciliation_rate: { category: 'quality', weight: 3, blocking: true },
+      coverage_percentage: { category: 'quality', weight: 2 },
+      exception_count: { category: 'productivity', weight: 1 },
+      revenue_leakage: { category: 'financial', weight: 3 }
+    }
+  },
+  
   reports: [
     {
       name: 'Donor Rollup Report',
@@ -19,6 +19,16 @@ describe('outcome templates', () => {
     expect(() => getOutcomeTemplate('unknown' as any)).toThrow('Unknown outcome template: unknown');
   });
 
+  it('should weight every evaluator metric by business impact', () => {
+    for (const template of Object.values(outcomeTemplates)) {
+      const metrics = template.evaluatorMetrics
+        ?? Object.values(template.evaluators ?? {}).flatMap(evaluator => evaluator.metrics);
+      const mapping = template.roiTracking?.businessImpactMapping ?? {};
+
+      expect(Object.keys(mapping).sort()).toEqual([...metrics].sort());
+    }
+  });
+
   it('should list all templates', () => {
     const templates = listOutcomeTemplates();
     expect(templates).toHaveLength(5);
@@ -163,6 +163,17 @@ export const inventoryPricingSyncTemplate: OutcomeTemplateDefinition = {
     }
   },
   
+  roiTracking: {
+    enabled: true,
+    baselineMetrics: ['currentProcessingHours', 'errorRateBaseline', 'accuracyBaseline'],
+    businessImpactMapping: {
+      sync_accuracy: { category: 'quality', weight: 3, blocking: true },
+      exception_rate: { category: 'productivity', weight: 2 },
+      revenue_exposure: { category: 'financial', weight: 2 },
+      oversell_risk: { category: 'financial', weight: 2 }
+    }
+  },
+  
   reports: [
     {
       name: 'SKU Rollup Report',
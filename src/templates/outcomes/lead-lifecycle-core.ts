@@ -223,6 +223,19 @@ export const leadLifecycleCoreTemplate: OutcomeTemplateDefinition = {
     'time_to_first_contact',
     'data_quality_score'
   ],
+  roiTracking: {
+    enabled: true,
+    baselineMetrics: ['currentProcessingHours', 'errorRateBaseline', 'accuracyBaseline'],
+    businessImpactMapping: {
+      deduplication_rate: { category: 'quality', weight: 2 },
+      enrichment_completeness: { category: 'quality', weight: 1 },
+      routing_accuracy: { category: 'quality', weight: 3, blocking: true },
+      sla_compliance_rate: { category: 'performance', weight: 2 },
+      lead_conversion_rate: { category: 'financial', weight: 2 },
+      time_to_first_contact: { category: 'performance', weight: 2 },
+      data_quality_score: { category: 'quality', weight: 1 }
+    }
+  },
   claudeSections: [
     'lead_deduplication_logic',
     'data_enrichment_workflows',
@@ -166,6 +166,18 @@ export const orderCashRecoTemplate: OutcomeTemplateDefinition = {
     'data_completeness',
     'temporal_accuracy'
   ],
+  roiTracking: {
+    enabled: true,
+    baselineMetrics: ['currentProcessingHours', 'errorRateBaseline', 'accuracyBaseline'],
+    businessImpactMapping: {
+      reconciliation_rate: { category: 'quality', weight: 3, blocking: true },
+      processing_time: { category: 'performance', weight: 2 },
+      error_rate: { category: 'quality', weight: 2 },
+      manual_intervention_rate: { category: 'productivity', weight: 2 },
+      data_completeness: { category: 'quality', weight: 1 },
+      temporal_accuracy: { category: 'quality', weight: 1 }
+    }
+  },
   claudeSections: [
     'order_data_mapping',
     'payment_reconciliation_logic',
@@ -153,6 +153,17 @@ export const projectInvoiceGuardrailsTemplate: OutcomeTemplateDefinition = {
     }
   },
   
+  roiTracking: {
+    enabled: true,
+    baselineMetrics: ['currentProcessingHours', 'errorRateBaseline', 'accuracyBaseline'],
+    businessImpactMapping: {
+      accuracy_percentage: { category: 'quality', weight: 3, blocking: true },
+      exception_rate: { category: 'productivity', weight: 2 },
+      revenue_leakage: { category: 'financial', weight: 3 },
+      overbilling_exposure: { category: 'financial', weight: 2 }
+    }
+  },
+  
   reports: [
     {
       name: 'Exceptions Report',
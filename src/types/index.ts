@@ -108,6 +108,101 @@ export interface StackVariant {
   features?: string[];
 }
 
+// Evaluation Harness Types - results returned by evaluator modules
+export interface EvaluationResult {
+  metric: string;
+  value: number;
+  threshold: number;
+  passed: boolean;
+  details?: string;
+  category: string;
+  evaluator?: string;
+  source?: string; // File that produced the result, relative to the project root
+  weight?: number;
+  blocking?: boolean;
+  duration?: number; // Milliseconds the evaluator took to produce this result
+  mismatches?: GoldRecordMismatch[];
+  thresholdRange?: MetricThreshold;
+  assessment?: ThresholdAssessment;
+  variance?: MetricVariance; // Spread across repeated runs (--repeat)
+}
+
+export interface MetricVariance {
+  runs: number;
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  passedRuns: number;
+  flaky: boolean; // Passed in some runs and failed in others
+}
+
+export interface MetricThreshold {
+  min?: number;
+  max?: number;
+  target?: number;
+}
+
+export interface ThresholdAssessment {
+  status: 'below_min' | 'above_max' | 'below_target' | 'above_target' | 'on_target';
+  direction: 'higher' | 'lower';
+  distanceToTarget?: number;
+  targetProgress?: number;
+}
+
+export interface GoldRecordMismatch {
+  key: string;
+  field?: string;
+  reason: 'missing_in_output' | 'unexpected_in_output' | 'field_mismatch';
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface EvaluationSuite {
+  name: string;
+  description: string;
+  results: EvaluationResult[];
+  overallScore: number;
+  passed: boolean;
+  timestamp: Date;
+  duration: number;
+  thresholdProfile?: string;
+  targetsMet?: number;
+  categoryScores?: Record<string, CategoryScore>;
+  blockingFailures?: string[];
+  concurrency?: number;
+  repeat?: number;
+  flakyMetrics?: string[];
+}
+
+export interface CategoryScore {
+  score: number;
+  weight: number;
+  passed: number;
+  total: number;
+}
+
+export interface EvaluationRun {
+  id: string;
+  recordedAt: Date;
+  git: {
+    commit?: string;
+    branch?: string;
+  };
+  suite: EvaluationSuite;
+}
+
+export interface MetricChange {
+  metric: string;
+  evaluator?: string;
+  before?: number;
+  after?: number;
+  delta?: number;
+  relativeChange?: number;
+  change: 'improved' | 'regressed' | 'unchanged' | 'added' | 'removed';
+  exceedsTolerance: boolean;
+}
+
 // ROI Tracking Types - Multi-dimensional measurement framework
 export interface ROIBaseline {
   establishedAt: Date;
@@ -119,6 +214,69 @@ export interface ROIBaseline {
   accuracyBaseline: number;
   complianceScore: number;
   customerSatisfactionScore: number;
+  labourCostModel?: LabourCostModel; // Absent on baselines recorded before labour rates were collected
+  version?: number; // Absent on baselines recorded before baseline history (version 1)
+  template?: OutcomeTemplate; // Outcome template the project was built on, for peer benchmarks
+  companySize?: CompanySize;
+}
+
+export type CompanySize = 'small' | 'mid-market' | 'enterprise';
+
+export interface BaselineVersion {
+  version: number;
+  baseline: ROIBaseline;
+  recordedAt: Date;
+  author: string;
+  reason: string;
+}
+
+export interface BaselineFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface LabourCostModel {
+  roles: LabourRole[];
+}
+
+export interface LabourRole {
+  role: string;
+  hourlyRate: number; // Fully loaded cost per hour (salary, benefits, overhead)
+  hoursShare: number; // Share of the baseline processing hours this role does (0-1)
+}
+
+export interface LabourSavings {
+  role: string;
+  hourlyRate: number;
+  hoursSaved: number;
+  savings: number;
+}
+
+export interface ROIInputs {
+  // Financial inputs
+  monthsInOperation: number;
+  currentSaasSpend: number;
+  maintenanceCosts: number;
+
+  // Productivity inputs
+  currentProcessingHours: number;
+  tasksAutomated: number;
+  employeeAdoptionRate: number;
+  currentProcessingTime?: number;
+
+  // Quality inputs
+  currentAccuracy: number;
+  currentErrorRate: number;
+  currentComplianceScore: number;
+  currentCustomerSatisfaction: number;
+}
+
+export interface ROIInputSource {
+  value: number;
+  source: 'measured' | 'estimated';
+  metric?: string; // Evaluator metric the value came from
+  evaluationRunId?: string;
 }
 
 export interface FinancialMetrics {
@@ -129,6 +287,13 @@ export interface FinancialMetrics {
   cumulativeSavings: number;
   breakEvenMonths: number;
   currentROI: number;
+  hourlyRate?: number; // Blended labour rate saved hours were valued at
+  labourSavings?: LabourSavings[]; // Operational savings per role, when the baseline has a labour cost model
+  discountRate?: number; // Annual rate (e.g. 0.1) used for NPV and discounted payback
+  npv?: number;
+  irr?: number; // Annualised percentage to date; absent when the cash flows never turn positive
+  discountedPaybackMonths?: number;
+  cashFlows?: number[]; // Monthly net cash flow, month 0 is the development cost
 }
 
 export interface ProductivityMetrics {
@@ -138,6 +303,7 @@ export interface ProductivityMetrics {
   employeeAdoptionRate: number;
   processingTimeReduction: number;
   throughputIncrease: number;
+  averageProcessingTime?: number; // Seconds per item, measured by evaluators
 }
 
 export interface QualityMetrics {
@@ -158,6 +324,23 @@ export interface ROIMetrics {
     upper: number;
     confidenceLevel: number;
   };
+  simulation?: ROISimulation; // Absent on metrics calculated before ROI was simulated
+}
+
+export type InputDistribution =
+  | { type: 'triangular'; min: number; likely: number; max: number }
+  | { type: 'normal'; mean: number; stdDev: number }
+  | { type: 'uniform'; min: number; max: number };
+
+export interface ROISimulation {
+  iterations: number;
+  seed: number; // Re-run with this seed to reproduce the distribution exactly
+  mean: number;
+  stdDev: number;
+  percentiles: Record<'p5' | 'p10' | 'p25' | 'p50' | 'p75' | 'p90' | 'p95', number>;
+  histogram: Array<{ lower: number; upper: number; count: number }>;
+  breakEvenProbability: Array<{ month: number; probability: number }>; // Share of iterations paid back by each month
+  lossProbability?: number; // Share of iterations with ROI at or below zero; absent on checks from before it was recorded
 }
 
 export interface ROISnapshot {
@@ -171,9 +354,42 @@ export interface ROISnapshot {
     endDate: Date;
   };
   statisticalSignificance: {
-    pValue: number;
+    pValue: number; // One-sided, against ROI at or below zero
     isSignificant: boolean;
+    method?: 'monte-carlo' | 'normal-approximation'; // Absent on snapshots recorded before it was named
   };
+  inputs?: Partial<Record<keyof ROIInputs, ROIInputSource>>;
+  baselineVersion?: number; // Absent on snapshots recorded before baseline history (version 1)
+}
+
+export interface PortfolioProject {
+  name: string;
+  path: string; // Absolute path of the project directory holding .quallaa/
+  template?: OutcomeTemplate;
+  addedAt: Date;
+}
+
+export interface PortfolioProjectSummary {
+  project: PortfolioProject;
+  status: 'tracked' | 'no-checks' | 'no-baseline';
+  investment: number; // Development cost from the baseline
+  netBenefit: number; // Savings minus maintenance and investment at the latest check
+  roi: number | null;
+  monthsInOperation: number;
+  breakEven: {
+    status: 'reached' | 'on-track' | 'not-on-track' | 'unknown';
+    monthsRemaining: number | null;
+  };
+  latestCheck: Date | null;
+}
+
+export interface PortfolioSummary {
+  projects: PortfolioProjectSummary[]; // Best ROI first; projects without checks last
+  totalInvestment: number;
+  totalNetBenefit: number;
+  blendedROI: number | null; // Net benefit over investment across tracked projects
+  best: PortfolioProjectSummary | null;
+  worst: PortfolioProjectSummary | null;
 }
 
 export interface ROITrend {
@@ -188,7 +404,86 @@ export interface ROITrend {
     };
   }>;
   trend: 'improving' | 'declining' | 'stable';
-  trendConfidence: number;
+  trendConfidence: number; // 1 - p-value of the before/after test; 0 when there were too few checks to test
+  statistics?: TrendStatistics;
+}
+
+export interface TwoSampleTest {
+  test: 'mann-whitney' | 'welch';
+  statistic: number; // U for Mann-Whitney (pairs where the later check is higher), t for Welch
+  pValue: number; // Two-sided
+  degreesOfFreedom?: number; // Welch–Satterthwaite (Welch only)
+  exact?: boolean; // Exact distribution rather than the normal approximation (Mann-Whitney only)
+  before: { n: number; mean: number; median: number };
+  after: { n: number; mean: number; median: number };
+}
+
+export interface TrendStatistics {
+  method: string; // Plain-language description for reports
+  significanceLevel: number;
+  slopePerMonth: number;
+  slopeInterval: {
+    lower: number;
+    upper: number;
+    confidenceLevel: number;
+    iterations: number;
+    seed: number;
+  };
+  changePoint: {
+    index: number; // First check after the change
+    timestamp: Date;
+    confidence: number; // Share of shuffled series with a smaller CUSUM range
+  } | null;
+  split: 'change-point' | 'midpoint'; // Where the checks were divided for the before/after test
+  comparison: TwoSampleTest | null; // Null when there were too few checks on either side
+}
+
+export interface ForecastScenario {
+  name: string;
+  description?: string;
+  createdAt: Date;
+  horizonMonths: number;
+  adoptionRamp: Array<{ month: number; rate: number }>; // Team adoption (0-1) reached by each month, linear in between
+  hoursSavedPerMonth: number; // Manual hours saved per month once the whole team uses it
+  saasCancellations: SaasCancellation[];
+  maintenanceCostPerMonth: number;
+}
+
+export interface SaasCancellation {
+  tool: string;
+  monthlyCost: number;
+  cancelAt: Date; // Savings start with the first month that begins on or after this date
+}
+
+export interface ForecastMonth {
+  month: number; // 1-based, counted from the baseline
+  startDate: Date;
+  adoptionRate: number;
+  hoursSaved: number;
+  saasSavings: number;
+  labourSavings: number;
+  maintenanceCosts: number;
+  netSavings: number;
+  cumulativeSavings: number; // Net of maintenance, before the development cost
+  roi: number;
+}
+
+export interface ScenarioForecast {
+  scenario: string;
+  months: ForecastMonth[];
+  breakEvenMonth: number | null; // Null when it does not break even within the horizon
+  breakEvenDate: Date | null;
+  cumulativeSavings: number;
+  finalROI: number;
+}
+
+export interface ForecastComparison {
+  snapshotId: string;
+  timestamp: Date;
+  monthsInOperation: number;
+  actualROI: number;
+  forecastROI: number;
+  difference: number; // Actual minus forecast, in percentage points
 }
 
 export interface ROIDashboard {
@@ -207,12 +502,113 @@ export interface ROIDashboard {
     monthsToBreakEven: number;
   };
   trends: ROITrend[];
-  benchmarks: {
-    industryAverage: number;
-    forresterTarget: number; // 248% ROI
-    paybackTarget: number; // <6 months
-  };
-  recommendations: string[];
+  benchmarks: BenchmarkComparison;
+  recommendations: Recommendation[];
+}
+
+export type RecommendationPriority = 'high' | 'medium' | 'low';
+
+export interface Recommendation {
+  rule: string;
+  source: 'built-in' | 'custom'; // Custom rules come from evaluators/recommendations.json
+  priority: RecommendationPriority;
+  title: string;
+  explanation: string; // Why the rule fired, with the values that triggered it
+  impact: RecommendationImpact;
+}
+
+export interface RecommendationImpact {
+  summary: string;
+  // What-if estimates from the latest check's inputs; absent when the check did not record them
+  roi?: { current: number; projected: number };
+  paybackMonths?: { current: number; projected: number };
+}
+
+export type CostCategory = 'infrastructure' | 'maintenance';
+
+export interface CostItem {
+  provider: string; // Source that reported it: vercel, supabase, typesense, resend, manual or csv
+  name: string; // What the money went on, e.g. "Serverless Functions" or "Pro plan"
+  category: CostCategory;
+  amount: number; // Dollars for the month
+  source: 'measured' | 'estimated'; // Billed charges are measured; list prices and manual figures are estimates
+  sourceId?: string; // Id of the configured source that collected it; absent on items collected before sources had ids
+}
+
+export interface MonthlyCosts {
+  projectId: string;
+  month: string; // YYYY-MM
+  items: CostItem[];
+  total: number;
+  collectedAt: Date;
+}
+
+// Start (inclusive) and end (exclusive) of a billing period
+export interface CostPeriod {
+  from: Date;
+  to: Date;
+}
+
+export type AlertRuleType = 'roi-declined' | 'break-even-slipped' | 'adoption-below-target';
+
+export type AlertSeverity = 'warning' | 'critical';
+
+export interface ROIAlert {
+  rule: string; // Rule id from evaluators/alerts.json
+  type: AlertRuleType;
+  severity: AlertSeverity;
+  projectId: string;
+  title: string;
+  message: string; // What changed, with the values that triggered it
+  snapshotId: string; // Check that triggered the alert
+  triggeredAt: Date;
+}
+
+export type BenchmarkMetric = 'hoursSavedPercent' | 'errorRateReduction' | 'paybackMonths' | 'adoptionRate';
+
+// Peer values at each percentile, in the metric's own unit
+export interface BenchmarkDistribution {
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface BenchmarkCohort {
+  template: OutcomeTemplate | 'all';
+  companySize: CompanySize | 'all';
+  metrics: Record<BenchmarkMetric, BenchmarkDistribution>;
+}
+
+// Where a dataset's numbers come from, shown with every comparison
+export interface BenchmarkProvenance {
+  source: string;
+  sampleSize?: number; // Projects the percentiles were measured from
+  collectedAt?: string; // e.g. "2025-06"
+  illustrative?: boolean; // Ranges chosen for illustration rather than measured from projects
+}
+
+export interface BenchmarkDataset {
+  version: string;
+  description: string;
+  provenance?: BenchmarkProvenance;
+  cohorts: BenchmarkCohort[]; // Must include the template "all", company size "all" cohort
+}
+
+export interface BenchmarkPlacement {
+  metric: BenchmarkMetric;
+  value: number;
+  percentile: number; // 1-99, higher is better (for payback, faster than that share of peers)
+  peers: BenchmarkDistribution;
+}
+
+export interface BenchmarkComparison {
+  datasetVersion: string;
+  provenance?: BenchmarkProvenance;
+  template: OutcomeTemplate | 'all'; // Cohort the project was compared with, after falling back
+  companySize: CompanySize | 'all';
+  placements: BenchmarkPlacement[];
 }
 
 export interface ROIConfig {
@@ -220,11 +616,13 @@ export interface ROIConfig {
   baselineRequired: boolean;
   confidenceLevel: number; // Default 95%
   reportingFrequency: 'daily' | 'weekly' | 'monthly' | 'quarterly';
-  benchmarkTargets: {
-    roiTarget: number;
-    paybackMonths: number;
-    adoptionRate: number;
-  };
+}
+
+export interface BusinessImpactMapping {
+  category: 'financial' | 'productivity' | 'quality' | 'performance';
+  weight: number;
+  formula?: string;
+  blocking?: boolean; // Suite fails when this metric fails, whatever the weighted score
 }
 
 export interface OutcomeTemplateDefinition {
@@ -316,11 +714,7 @@ export interface OutcomeTemplateDefinition {
   roiTracking?: {
     enabled: boolean;
     baselineMetrics: string[];
-    businessImpactMapping: Record<string, {
-      category: 'financial' | 'productivity' | 'quality';
-      weight: number;
-      formula?: string;
-    }>;
+    businessImpactMapping: Record<string, BusinessImpactMapping>;
   };
 
   // Legacy fields for backward compatibility